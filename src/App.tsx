@@ -7,17 +7,28 @@ import PredictionSetup from './pages/prediction/PredictionSetup';
 import PredictionProgress from './pages/prediction/PredictionProgress';
 import TuningProgress from './pages/TuningProgress';
 import TrainingSession from './pages/TrainingSession';
+import TrainingCompare from './pages/TrainingCompare';
 import ModelQuery from './pages/ModelQuery';
+import Playground from './pages/Playground';
+import Deploy from './pages/Deploy';
 import TestData from './pages/evaluate/TestData';
 import Metrics from './pages/evaluate/Metrics';
 import Compare from './pages/evaluate/Compare';
 import MonitoringDashboard from './pages/monitoring/Dashboard';
 import Settings from './pages/Settings';
+import AuditLog from './pages/AuditLog';
+import Sweeps from './pages/Sweeps';
+import SweepDetail from './pages/SweepDetail';
+import Login from './pages/Login';
+import AuthCallback from './pages/AuthCallback';
+import ProtectedRoute from './components/auth/ProtectedRoute';
 
 function App() {
   return (
     <Routes>
-      <Route path="/" element={<Layout />}>
+      <Route path="/login" element={<Login />} />
+      <Route path="/auth/callback" element={<AuthCallback />} />
+      <Route path="/" element={<ProtectedRoute><Layout /></ProtectedRoute>}>
         <Route index element={<Dashboard />} />
         <Route path="configure/*" element={<Configure />} />
         <Route path="data-preparation" element={<DataPreparation />} />
@@ -26,8 +37,13 @@ function App() {
           <Route path="progress" element={<PredictionProgress />} />
         </Route>
         <Route path="progress" element={<TuningProgress />} />
+        <Route path="training/compare" element={<TrainingCompare />} />
         <Route path="training/:sessionId" element={<TrainingSession />} />
+        <Route path="sweeps" element={<Sweeps />} />
+        <Route path="sweeps/:sweepId" element={<SweepDetail />} />
         <Route path="query" element={<ModelQuery />} />
+        <Route path="playground" element={<Playground />} />
+        <Route path="deploy" element={<Deploy />} />
         <Route path="evaluate">
           <Route path="test-data" element={<TestData />} />
           <Route path="metrics" element={<Metrics />} />
@@ -35,6 +51,7 @@ function App() {
         </Route>
         <Route path="monitoring" element={<MonitoringDashboard />} />
         <Route path="settings" element={<Settings />} />
+        <Route path="audit" element={<AuditLog />} />
       </Route>
     </Routes>
   );
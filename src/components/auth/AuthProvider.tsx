@@ -0,0 +1,80 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { authService, AuthUser, Workspace } from '../../services/authService';
+import { httpClient } from '../../services/httpClient';
+import { Permission, hasPermission } from '../../config/permissions';
+
+type AuthProviderProps = {
+  children: React.ReactNode;
+};
+
+type AuthProviderState = {
+  user: AuthUser | null;
+  workspace: Workspace | undefined;
+  isLoading: boolean;
+  can: (permission: Permission, resource?: { created_by?: string }) => boolean;
+  login: (username: string, password: string) => Promise<AuthUser>;
+  completeOidcLogin: (code: string, state: string | null) => Promise<AuthUser>;
+  logout: () => Promise<void>;
+  switchWorkspace: (workspaceId: string) => void;
+};
+
+const AuthProviderContext = createContext<AuthProviderState | undefined>(undefined);
+
+export function AuthProvider({ children }: AuthProviderProps) {
+  // Render straight away with the cached user; the session is re-validated in the background
+  const [user, setUser] = useState<AuthUser | null>(() => authService.getCachedUser());
+  const [workspaceId, setWorkspaceId] = useState<string | undefined>(() =>
+    user ? authService.getActiveWorkspace(user)?.id : undefined
+  );
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    authService.fetchCurrentUser()
+      .then(setUser)
+      .finally(() => setIsLoading(false));
+
+    return httpClient.onSessionExpired(() => {
+      authService.clearSession();
+      setUser(null);
+    });
+  }, []);
+
+  const startSession = (signedIn: AuthUser) => {
+    setUser(signedIn);
+    setWorkspaceId(authService.getActiveWorkspace(signedIn)?.id);
+    return signedIn;
+  };
+
+  const value = {
+    user,
+    workspace: user?.workspaces.find(w => w.id === workspaceId) ?? user?.workspaces[0],
+    isLoading,
+    can: (permission: Permission, resource?: { created_by?: string }) =>
+      !!user && hasPermission(user.role, user.username, permission, resource),
+    login: async (username: string, password: string) =>
+      startSession(await authService.login(username, password)),
+    completeOidcLogin: async (code: string, state: string | null) =>
+      startSession(await authService.completeOidcLogin(code, state)),
+    logout: async () => {
+      await authService.logout();
+      setUser(null);
+    },
+    switchWorkspace: (id: string) => {
+      authService.setActiveWorkspace(id);
+      setWorkspaceId(id);
+    },
+  };
+
+  return (
+    <AuthProviderContext.Provider value={value}>
+      {children}
+    </AuthProviderContext.Provider>
+  );
+}
+
+export const useAuth = () => {
+  const context = useContext(AuthProviderContext);
+  if (context === undefined)
+    throw new Error('useAuth must be used within an AuthProvider');
+  return context;
+};
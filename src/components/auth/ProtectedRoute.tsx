@@ -0,0 +1,27 @@
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAuth } from './AuthProvider';
+import { AnimatedLoader } from '../ui/AnimatedLoader';
+
+interface ProtectedRouteProps {
+  children: React.ReactNode;
+}
+
+export default function ProtectedRoute({ children }: ProtectedRouteProps) {
+  const { user, isLoading } = useAuth();
+  const location = useLocation();
+
+  if (!user) {
+    if (isLoading) {
+      return (
+        <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+          <AnimatedLoader variant="dots" size="md" text="Checking your session..." />
+        </div>
+      );
+    }
+    // Come back to the requested page after signing in
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  return <>{children}</>;
+}
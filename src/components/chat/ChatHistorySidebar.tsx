@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { Plus, Pencil, Trash2, Check, X, DownloadCloud, MessageSquare, Cloud } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { ChatSession } from '../../services/chatSessionService';
+import { cn } from '../../utils/cn';
+
+interface ChatHistorySidebarProps {
+  sessions: ChatSession[];
+  activeSessionId: string | null;
+  syncEnabled: boolean;
+  disabled?: boolean;
+  onNewChat: () => void;
+  onSelect: (session: ChatSession) => void;
+  onRename: (sessionId: string, name: string) => void;
+  onDelete: (session: ChatSession) => void;
+  onExport: (sessions: ChatSession[]) => void;
+  onToggleSync: (enabled: boolean) => void;
+}
+
+export function ChatHistorySidebar({
+  sessions,
+  activeSessionId,
+  syncEnabled,
+  disabled = false,
+  onNewChat,
+  onSelect,
+  onRename,
+  onDelete,
+  onExport,
+  onToggleSync,
+}: ChatHistorySidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const startRename = (session: ChatSession, event: React.MouseEvent) => {
+    event.stopPropagation();
+    setEditingId(session.id);
+    setEditingName(session.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && editingName.trim()) {
+      onRename(editingId, editingName);
+    }
+    setEditingId(null);
+  };
+
+  const formatDate = (dateString: string) => {
+    try {
+      return new Date(dateString).toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+      });
+    } catch {
+      return 'Unknown';
+    }
+  };
+
+  return (
+    <div className="w-64 flex-shrink-0 border-r border-gray-200 dark:border-gray-700 flex flex-col">
+      <div className="p-3 border-b border-gray-200 dark:border-gray-700">
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={onNewChat}
+          disabled={disabled}
+          leftIcon={<Plus className="h-4 w-4" />}
+        >
+          New Chat
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {sessions.length === 0 ? (
+          <div className="flex flex-col items-center text-center py-8 px-2">
+            <MessageSquare className="h-5 w-5 text-gray-400 mb-2" />
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Conversations are saved here automatically
+            </p>
+          </div>
+        ) : (
+          sessions.map(session => (
+            <div
+              key={session.id}
+              onClick={() => !disabled && editingId !== session.id && onSelect(session)}
+              className={cn(
+                'group rounded-md px-2 py-2 cursor-pointer transition-colors',
+                session.id === activeSessionId
+                  ? 'bg-primary-50 dark:bg-primary-900/20'
+                  : 'hover:bg-gray-50 dark:hover:bg-gray-800/50',
+                disabled && 'cursor-not-allowed opacity-60'
+              )}
+            >
+              {editingId === session.id ? (
+                <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                  <input
+                    autoFocus
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 min-w-0 rounded border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-1.5 py-0.5 text-xs focus:outline-none focus:ring-1 focus:ring-primary-500"
+                  />
+                  <button onClick={commitRename} className="text-green-600 hover:text-green-700" aria-label="Save name">
+                    <Check className="h-3.5 w-3.5" />
+                  </button>
+                  <button onClick={() => setEditingId(null)} className="text-gray-400 hover:text-gray-600" aria-label="Cancel rename">
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-start gap-1">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium truncate">{session.name}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {formatDate(session.updatedAt)}
+                      {session.modelName && ` · ${session.modelName}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={(e) => startRename(session, e)}
+                      className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                      aria-label="Rename chat"
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onExport([session]);
+                      }}
+                      className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                      aria-label="Export chat"
+                    >
+                      <DownloadCloud className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onDelete(session);
+                      }}
+                      className="text-gray-400 hover:text-red-600"
+                      aria-label="Delete chat"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="p-3 border-t border-gray-200 dark:border-gray-700 space-y-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full"
+          onClick={() => onExport(sessions)}
+          disabled={sessions.length === 0}
+          leftIcon={<DownloadCloud className="h-4 w-4" />}
+        >
+          Export All (JSONL)
+        </Button>
+        <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+          <input
+            type="checkbox"
+            checked={syncEnabled}
+            onChange={(e) => onToggleSync(e.target.checked)}
+            className="h-3.5 w-3.5 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+          />
+          <Cloud className="h-3.5 w-3.5" />
+          Sync to server
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
 import { Link, useLocation, useNavigate } from 'react-router-dom';
-import { Home, Layers, MessageSquare, Settings, Menu, X, Brain, ChevronDown, LineChart, Activity, BarChart3, Database, Target, Rocket } from 'lucide-react';
+import { Home, Layers, MessageSquare, Settings, Menu, X, Brain, ChevronDown, LineChart, Activity, BarChart3, Database, Target, Rocket, FlaskConical, ScrollText, Shuffle } from 'lucide-react';
 import { cn } from '../../utils/cn';
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import UserProfile from './UserProfile';
+import { useAuth } from '../auth/AuthProvider';
+import { Permission } from '../../config/permissions';
 
 const trainSteps = [
   { path: '/configure/model', label: 'Select Model' },
@@ -28,12 +30,15 @@ const navItems = [
   { icon: Home, label: 'Dashboard', path: '/' },
   { icon: Database, label: 'Data Preparation', path: '/data-preparation' },
   { icon: Brain, label: 'Train', path: '/configure', subItems: trainSteps },
+  { icon: Shuffle, label: 'Sweeps', path: '/sweeps' },
   { icon: LineChart, label: 'Evaluate', path: '/evaluate/test-data', subItems: evaluateSteps },
   { icon: Target, label: 'Prediction', path: '/prediction/model-selection', subItems: predictionSteps },
   { icon: MessageSquare, label: 'Chat', path: '/query' },
+  { icon: FlaskConical, label: 'Playground', path: '/playground' },
   { icon: Rocket, label: 'Deploy', path: '/deploy' },
   { icon: Activity, label: 'System Monitor', path: '/monitoring' },
   { icon: Settings, label: 'Settings', path: '/settings' }, 
+  { icon: ScrollText, label: 'Audit Log', path: '/audit', permission: 'audit:view' as Permission },
 ];
 
 export function SideNav() {
@@ -41,6 +46,7 @@ export function SideNav() {
   const [isOpen, setIsOpen] = useState(false);
   const navigate = useNavigate();
   const [expandedItem, setExpandedItem] = useState<string | null>(null);
+  const { can } = useAuth();
 
   // Check if current path is a training, evaluation, or prediction step
   const isTrainingPath = trainSteps.some(step => step.path === pathname);
@@ -94,7 +100,7 @@ export function SideNav() {
                 </div>
                 
                 <nav className="space-y-1">
-                {navItems.map((item) => {
+                {navItems.filter(item => !item.permission || can(item.permission)).map((item) => {
                   const isActive = pathname === item.path;
                   const isExpanded = expandedItem === item.path;
                   const hasSubItems = !!item.subItems;
@@ -1,26 +1,18 @@
 import { useState } from 'react';
-import { ChevronUp, Settings, CreditCard, LogOut, User, Sun, Moon } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { ChevronUp, Settings, CreditCard, LogOut, User, Sun, Moon, Users, Check } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import toast from 'react-hot-toast';
 import { useTheme } from '../theme/ThemeProvider';
+import { useAuth } from '../auth/AuthProvider';
 
-interface UserProfileProps {
-  user?: {
-    name: string;
-    email: string;
-    plan: string;
-    avatar?: string;
-  };
-}
-
-export default function UserProfile({ 
-  user = {
-    name: 'Gulshan Yadav',
-    email: 'gulshan@example.com',
-    plan: 'Free'
-  }
-}: UserProfileProps) {
+export default function UserProfile() {
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const { theme, setTheme } = useTheme();
+  const { user, workspace, logout, switchWorkspace } = useAuth();
+  const navigate = useNavigate();
+
+  if (!user) return null;
 
   const getInitials = (name: string) => {
     return name
@@ -56,12 +48,25 @@ export default function UserProfile({
     return theme === 'dark' ? 'Light Mode' : 'Dark Mode';
   };
 
+  const handleSignOut = async () => {
+    await logout();
+    navigate('/login', { replace: true });
+  };
+
+  const handleSwitchWorkspace = (workspaceId: string, name: string) => {
+    if (workspaceId === workspace?.id) return;
+    switchWorkspace(workspaceId);
+    toast.success(`Switched to ${name}`);
+    // Lists on the current page were loaded for the previous workspace
+    navigate('/');
+  };
+
   const menuItems = [
     { icon: User, label: 'Profile', action: () => console.log('Profile clicked') },
-    { icon: Settings, label: 'Settings', action: () => console.log('Settings clicked') },
+    { icon: Settings, label: 'Settings', action: () => navigate('/settings') },
     { icon: getThemeIcon(), label: getThemeLabel(), action: toggleTheme },
     { icon: CreditCard, label: 'Billing', action: () => console.log('Billing clicked') },
-    { icon: LogOut, label: 'Sign Out', action: () => console.log('Sign out clicked'), danger: true },
+    { icon: LogOut, label: 'Sign Out', action: handleSignOut, danger: true },
   ];
 
   return (
@@ -85,6 +90,28 @@ export default function UserProfile({
               className="absolute bottom-full left-0 right-0 mb-2 z-20"
             >
               <div className="bg-white dark:bg-gray-800 rounded-xl shadow-large border border-gray-200 dark:border-gray-700 py-2">
+                {/* Workspace Switcher */}
+                {user.workspaces.length > 1 && (
+                  <div className="pb-2 mb-2 border-b border-gray-200 dark:border-gray-700">
+                    <div className="px-4 py-1 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+                      Workspaces
+                    </div>
+                    {user.workspaces.map((item) => (
+                      <button
+                        key={item.id}
+                        onClick={() => {
+                          handleSwitchWorkspace(item.id, item.name);
+                          setIsDropdownOpen(false);
+                        }}
+                        className="w-full flex items-center gap-3 px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
+                      >
+                        {item.type === 'team' ? <Users className="h-4 w-4" /> : <User className="h-4 w-4" />}
+                        <span className="flex-1 text-left truncate">{item.name}</span>
+                        {item.id === workspace?.id && <Check className="h-4 w-4 text-primary-500" />}
+                      </button>
+                    ))}
+                  </div>
+                )}
                 {menuItems.map((item, index) => (
                   <button
                     key={index}
@@ -137,6 +164,11 @@ export default function UserProfile({
             <span className={`inline-flex items-center px-2 py-0.5 rounded-md text-xs font-medium ${getPlanColor(user.plan)}`}>
               {user.plan}
             </span>
+            {workspace && (
+              <span className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                {workspace.name}
+              </span>
+            )}
           </div>
         </div>
 
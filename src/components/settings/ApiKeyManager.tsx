@@ -0,0 +1,303 @@
+import { useState, useEffect } from 'react';
+import { Plus, Copy, Trash2, CheckCircle2, X, KeyRound } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import { apiKeyService, ApiKey, ApiKeyScope, API_KEY_SCOPES } from '../../services/apiKeyService';
+
+const EXPIRY_OPTIONS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+  { days: 0, label: 'Never' },
+];
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('en-US', {
+  month: 'short',
+  day: 'numeric',
+  year: 'numeric',
+});
+
+export function ApiKeyManager() {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [activeKey, setActiveKey] = useState(apiKeyService.getActiveKey());
+
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['chat']);
+  const [expiryDays, setExpiryDays] = useState(90);
+  const [isCreating, setIsCreating] = useState(false);
+  // Secret of the key just created; it cannot be retrieved again once dismissed
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [pastedKey, setPastedKey] = useState('');
+
+  useEffect(() => {
+    loadKeys();
+  }, []);
+
+  const loadKeys = async () => {
+    try {
+      setIsLoading(true);
+      const response = await apiKeyService.listKeys();
+      setKeys(response.keys);
+      setLoadError(null);
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : 'Failed to load API keys');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]);
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      toast.error('Key name is required');
+      return;
+    }
+    if (scopes.length === 0) {
+      toast.error('Select at least one scope');
+      return;
+    }
+
+    try {
+      setIsCreating(true);
+      const response = await apiKeyService.createKey({
+        name: name.trim(),
+        scopes,
+        ...(expiryDays > 0 && { expires_in_days: expiryDays }),
+      });
+      setNewSecret(response.secret);
+      setShowCreateForm(false);
+      setName('');
+      setScopes(['chat']);
+      await loadKeys();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to create API key');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (key: ApiKey) => {
+    if (!confirm(`Are you sure you want to revoke "${key.name}"? Applications using it will stop working immediately.`)) {
+      return;
+    }
+
+    try {
+      await apiKeyService.revokeKey(key.id);
+      if (activeKey?.startsWith(key.prefix)) {
+        apiKeyService.clearActiveKey();
+        setActiveKey(null);
+      }
+      toast.success(`Revoked "${key.name}"`);
+      await loadKeys();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to revoke API key');
+    }
+  };
+
+  const activateKey = (secret: string) => {
+    apiKeyService.setActiveKey(secret);
+    setActiveKey(secret.trim());
+    toast.success('Requests from this browser now use this key');
+  };
+
+  const handleUsePastedKey = () => {
+    if (!pastedKey.trim()) return;
+    activateKey(pastedKey);
+    setPastedKey('');
+    loadKeys();
+  };
+
+  const handleClearActiveKey = () => {
+    apiKeyService.clearActiveKey();
+    setActiveKey(null);
+  };
+
+  const copySecret = (secret: string) => {
+    navigator.clipboard.writeText(secret);
+    toast.success('API key copied to clipboard');
+  };
+
+  const inputClassName = 'w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+  return (
+    <div className="space-y-4">
+      {newSecret && (
+        <div className="p-3 bg-success-50 dark:bg-success-900/20 rounded-md space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium text-success-800 dark:text-success-300">
+              Copy your new key now. It won't be shown again.
+            </p>
+            <button onClick={() => setNewSecret(null)} className="text-gray-400 hover:text-gray-600" aria-label="Dismiss">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          <div className="flex items-center">
+            <code className="text-xs bg-white dark:bg-gray-700 p-1.5 rounded border border-gray-200 dark:border-gray-600 flex-1 overflow-x-auto">
+              {newSecret}
+            </code>
+            <Button variant="ghost" size="sm" className="ml-2" onClick={() => copySecret(newSecret)}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          {activeKey !== newSecret && (
+            <Button variant="outline" size="sm" onClick={() => activateKey(newSecret)}>
+              Use in this browser
+            </Button>
+          )}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading API keys...</p>
+      ) : loadError ? (
+        <p className="text-sm text-red-600 dark:text-red-400">{loadError}</p>
+      ) : keys.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No API keys yet.</p>
+      ) : (
+        <div className="divide-y divide-gray-200 dark:divide-gray-700 rounded-md border border-gray-200 dark:border-gray-700">
+          {keys.map(key => {
+            const expired = apiKeyService.isExpired(key);
+            const isActive = !!activeKey?.startsWith(key.prefix);
+            return (
+              <div key={key.id} className="flex items-start justify-between gap-3 p-3">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-medium">{key.name}</span>
+                    <code className="text-xs text-gray-500 dark:text-gray-400">{key.prefix}…</code>
+                    {key.revoked ? (
+                      <Badge variant="error" size="sm">Revoked</Badge>
+                    ) : expired ? (
+                      <Badge variant="warning" size="sm">Expired</Badge>
+                    ) : isActive && (
+                      <Badge variant="success" size="sm">In use here</Badge>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {key.scopes.map(scope => (
+                      <Badge key={scope} variant="outline" size="sm">{scope}</Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Created {formatDate(key.created_at)}
+                    {' · '}{key.expires_at ? `${expired ? 'Expired' : 'Expires'} ${formatDate(key.expires_at)}` : 'Never expires'}
+                    {' · '}{key.last_used_at ? `Last used ${new Date(key.last_used_at).toLocaleString()}` : 'Never used'}
+                  </p>
+                </div>
+                {!key.revoked && (
+                  <button
+                    onClick={() => handleRevoke(key)}
+                    className="text-gray-400 hover:text-red-600 flex-shrink-0"
+                    aria-label={`Revoke ${key.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {showCreateForm ? (
+        <div className="space-y-3 rounded-md border border-gray-200 dark:border-gray-700 p-3">
+          <div>
+            <label htmlFor="apiKeyName" className="block text-sm font-medium mb-1">Name</label>
+            <input
+              id="apiKeyName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. CI pipeline"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <span className="block text-sm font-medium mb-1">Scopes</span>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {API_KEY_SCOPES.map(scope => (
+                <label key={scope.id} className="flex items-start gap-2 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={scopes.includes(scope.id)}
+                    onChange={() => toggleScope(scope.id)}
+                    className="mt-0.5 h-4 w-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                  />
+                  <span>
+                    <span className="block font-medium">{scope.name}</span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">{scope.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label htmlFor="apiKeyExpiry" className="block text-sm font-medium mb-1">Expires after</label>
+            <select
+              id="apiKeyExpiry"
+              value={expiryDays}
+              onChange={(e) => setExpiryDays(parseInt(e.target.value))}
+              className={inputClassName}
+            >
+              {EXPIRY_OPTIONS.map(option => (
+                <option key={option.days} value={option.days}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleCreate} isLoading={isCreating}>Create Key</Button>
+            <Button variant="outline" onClick={() => setShowCreateForm(false)}>Cancel</Button>
+          </div>
+        </div>
+      ) : (
+        <Button variant="outline" leftIcon={<Plus className="h-4 w-4" />} onClick={() => setShowCreateForm(true)}>
+          Create API Key
+        </Button>
+      )}
+
+      <div className="pt-2 border-t border-gray-200 dark:border-gray-700">
+        <label htmlFor="pastedApiKey" className="block text-sm font-medium mb-1">
+          Key used by this browser
+        </label>
+        {activeKey ? (
+          <div className="flex items-center gap-2 text-sm">
+            <CheckCircle2 className="h-4 w-4 text-success-500" />
+            <code className="text-xs">{activeKey.slice(0, 12)}…</code>
+            <Button variant="ghost" size="sm" onClick={handleClearActiveKey}>Stop using</Button>
+          </div>
+        ) : (
+          <div className="flex">
+            <input
+              type="password"
+              id="pastedApiKey"
+              value={pastedKey}
+              onChange={(e) => setPastedKey(e.target.value)}
+              placeholder="Paste an existing API key"
+              className="flex-1 rounded-l-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+            <Button
+              variant="primary"
+              className="rounded-l-none"
+              leftIcon={<KeyRound className="h-4 w-4" />}
+              onClick={handleUsePastedKey}
+              disabled={!pastedKey.trim()}
+            >
+              Use Key
+            </Button>
+          </div>
+        )}
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          Attached to every request this app makes to the backend.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default ApiKeyManager;
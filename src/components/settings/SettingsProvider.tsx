@@ -0,0 +1,69 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { UserSettings } from '../../config/settings';
+import { settingsService, SettingsSaveResult } from '../../services/settingsService';
+import { useAuth } from '../auth/AuthProvider';
+
+type SettingsProviderProps = {
+  children: React.ReactNode;
+};
+
+type SettingsProviderState = {
+  settings: UserSettings;
+  isLoading: boolean;
+  saveSettings: (settings: UserSettings) => Promise<SettingsSaveResult>;
+};
+
+const SettingsProviderContext = createContext<SettingsProviderState | undefined>(undefined);
+
+export function SettingsProvider({ children }: SettingsProviderProps) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  // Start from the user's local copy so the first render already uses saved preferences
+  const [settings, setSettings] = useState<UserSettings>(() => settingsService.getCachedSettings(userId));
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Settings are stored per user, so reload them whenever someone else signs in
+  useEffect(() => {
+    setSettings(settingsService.getCachedSettings(userId));
+    if (!userId) {
+      setIsLoading(false);
+      return;
+    }
+    // Ignore a slow response for a user who is no longer signed in
+    let cancelled = false;
+    setIsLoading(true);
+    settingsService.getSettings(userId)
+      .then(loaded => {
+        if (!cancelled) setSettings(loaded);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const value = {
+    settings,
+    isLoading,
+    saveSettings: async (updated: UserSettings) => {
+      const result = await settingsService.saveSettings(userId, updated);
+      setSettings(result.settings);
+      return result;
+    },
+  };
+
+  return (
+    <SettingsProviderContext.Provider value={value}>
+      {children}
+    </SettingsProviderContext.Provider>
+  );
+}
+
+export const useSettings = () => {
+  const context = useContext(SettingsProviderContext);
+  if (context === undefined)
+    throw new Error('useSettings must be used within a SettingsProvider');
+  return context;
+};
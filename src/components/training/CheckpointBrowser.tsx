@@ -0,0 +1,215 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { History, MessageSquare, BarChart3, Package, RotateCcw, RefreshCw, Star } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../ui/Card';
+import { Badge } from '../ui/Badge';
+import { Button } from '../ui/Button';
+import { useAuth } from '../auth/AuthProvider';
+import { trainingService, TrainingCheckpoint, TrainingCheckpointList } from '../../services/trainingService';
+import { fileService } from '../../services/fileService';
+import { getBestCheckpoint, getCheckpointMetric, CheckpointLaunchState } from '../../utils/checkpointUtils';
+
+interface CheckpointBrowserProps {
+  sessionId: string;
+  status: string;
+  modelName?: string;
+  createdBy?: string;
+  // Falls back to the session config when the backend doesn't report it
+  metricForBestModel?: string;
+  onExport: (checkpoint: TrainingCheckpoint) => void;
+  onStatusChange?: (status: string) => void;
+}
+
+// A job can only be restarted from a checkpoint once nothing is running for it
+const RESUMABLE_STATUSES = ['paused', 'completed', 'failed', 'cancelled'];
+
+export default function CheckpointBrowser({
+  sessionId,
+  status,
+  modelName,
+  createdBy,
+  metricForBestModel,
+  onExport,
+  onStatusChange,
+}: CheckpointBrowserProps) {
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const [data, setData] = useState<TrainingCheckpointList | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [resumingStep, setResumingStep] = useState<number | null>(null);
+
+  const fetchCheckpoints = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setData(await trainingService.listCheckpoints(sessionId));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load checkpoints');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sessionId]);
+
+  // Reload when the job changes state, since pausing or finishing writes a new checkpoint
+  useEffect(() => {
+    fetchCheckpoints();
+  }, [fetchCheckpoints, status]);
+
+  const checkpoints = useMemo(() => data?.checkpoints ?? [], [data]);
+  const metric = data?.metric_for_best_model || metricForBestModel || 'eval_loss';
+  const best = useMemo(
+    () => getBestCheckpoint(checkpoints, metric, data?.greater_is_better),
+    [checkpoints, metric, data?.greater_is_better]
+  );
+  const showMetricColumn = metric !== 'eval_loss' && metric !== 'loss';
+
+  const owner = { created_by: createdBy };
+  const canResume = RESUMABLE_STATUSES.includes(status) && can('training:control', owner);
+
+  const launchState = (checkpoint: TrainingCheckpoint): CheckpointLaunchState => ({
+    checkpointPath: checkpoint.path,
+    checkpointLabel: `${modelName || sessionId} · step ${checkpoint.step}`,
+  });
+
+  const handleResume = async (checkpoint: TrainingCheckpoint) => {
+    if (!confirm(`Resume training from step ${checkpoint.step}? The job goes back into the GPU queue.`)) {
+      return;
+    }
+
+    try {
+      setResumingStep(checkpoint.step);
+      const response = await trainingService.resumeSession(sessionId, owner, checkpoint.name);
+      toast.success(response.message);
+      onStatusChange?.(response.status);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to resume training');
+    } finally {
+      setResumingStep(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <History className="h-5 w-5 text-primary-500" />
+            <CardTitle>Checkpoints</CardTitle>
+          </div>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={fetchCheckpoints}
+            disabled={isLoading}
+            aria-label="Refresh checkpoints"
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+        <CardDescription>
+          Saved during training; the best one by <span className="font-mono">{metric}</span> is starred
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        ) : !isLoading && checkpoints.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No checkpoints have been saved for this session yet.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead>
+                <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  <th className="px-4 py-3">Step</th>
+                  <th className="px-4 py-3">Eval Loss</th>
+                  {showMetricColumn && <th className="px-4 py-3">{metric}</th>}
+                  <th className="px-4 py-3">Size</th>
+                  <th className="px-4 py-3 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {checkpoints.map(checkpoint => {
+                  const isBest = checkpoint === best;
+                  const metricValue = getCheckpointMetric(checkpoint, metric);
+                  return (
+                    <tr key={checkpoint.name} className="text-sm">
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{checkpoint.step.toLocaleString()}</span>
+                          {isBest && (
+                            <Badge variant="success" size="sm">
+                              <Star className="h-3 w-3 mr-1" />
+                              Best
+                            </Badge>
+                          )}
+                        </div>
+                        {checkpoint.created_at && (
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            {new Date(checkpoint.created_at).toLocaleString()}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 font-mono">
+                        {getCheckpointMetric(checkpoint, 'eval_loss')?.toFixed(4) ?? 'N/A'}
+                      </td>
+                      {showMetricColumn && (
+                        <td className="px-4 py-3 font-mono">{metricValue?.toFixed(4) ?? 'N/A'}</td>
+                      )}
+                      <td className="px-4 py-3 text-gray-600 dark:text-gray-400">
+                        {checkpoint.size_bytes !== undefined ? fileService.formatFileSize(checkpoint.size_bytes) : 'N/A'}
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => navigate('/query', { state: launchState(checkpoint) })}
+                            leftIcon={<MessageSquare className="h-3 w-3" />}
+                          >
+                            Chat
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => navigate('/evaluate/test-data', { state: launchState(checkpoint) })}
+                            leftIcon={<BarChart3 className="h-3 w-3" />}
+                          >
+                            Evaluate
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => onExport(checkpoint)}
+                            leftIcon={<Package className="h-3 w-3" />}
+                          >
+                            Export
+                          </Button>
+                          {canResume && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleResume(checkpoint)}
+                              disabled={resumingStep !== null}
+                              isLoading={resumingStep === checkpoint.step}
+                              leftIcon={<RotateCcw className="h-3 w-3" />}
+                            >
+                              Resume
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
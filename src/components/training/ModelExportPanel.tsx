@@ -0,0 +1,194 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Package, FileDown, AlertTriangle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import { Progress } from '../ui/Progress';
+import { exportService, ExportJob } from '../../services/exportService';
+import { TrainingCheckpoint } from '../../services/trainingService';
+import { ExportFormat, GgufQuantization, EXPORT_FORMATS, GGUF_QUANTIZATIONS } from '../../config/export';
+import { fileService } from '../../services/fileService';
+import { useSettings } from '../settings/SettingsProvider';
+
+interface ModelExportPanelProps {
+  sessionId: string;
+  // Export this checkpoint instead of the final model
+  checkpoint?: TrainingCheckpoint;
+  onClearCheckpoint?: () => void;
+}
+
+const isActive = (job: ExportJob) => job.status === 'queued' || job.status === 'running';
+
+export default function ModelExportPanel({ sessionId, checkpoint, onClearCheckpoint }: ModelExportPanelProps) {
+  const { settings } = useSettings();
+  const [format, setFormat] = useState<ExportFormat>(settings.model.defaultDownloadFormat);
+  const [quantization, setQuantization] = useState<GgufQuantization>(settings.model.defaultPrecision);
+  const [jobs, setJobs] = useState<ExportJob[]>([]);
+  const [isStarting, setIsStarting] = useState(false);
+  const [downloadingJobId, setDownloadingJobId] = useState<string | null>(null);
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      const response = await exportService.listExports(sessionId);
+      setJobs(response.jobs);
+    } catch (err) {
+      console.error('Failed to load exports:', err);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  // Poll while an export is still running
+  const hasActiveJobs = jobs.some(isActive);
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+
+    const interval = setInterval(fetchJobs, 2000);
+    return () => clearInterval(interval);
+  }, [hasActiveJobs, fetchJobs]);
+
+  const handleDownload = async (job: ExportJob) => {
+    try {
+      setDownloadingJobId(job.job_id);
+      await exportService.downloadExport(job);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to download export');
+    } finally {
+      setDownloadingJobId(null);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      setIsStarting(true);
+      const response = await exportService.startExport(sessionId, { format, quantization, checkpoint: checkpoint?.name });
+      setJobs(prev => [response.job, ...prev.filter(job => job.job_id !== response.job.job_id)]);
+      toast.success('Export started');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to start export');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const describeJob = (job: ExportJob) => {
+    const formatName = EXPORT_FORMATS.find(f => f.id === job.format)?.name || job.format;
+    const description = job.format === 'gguf' && job.quantization
+      ? `${formatName} · ${job.quantization.toUpperCase()}`
+      : formatName;
+    return job.checkpoint ? `${description} · ${job.checkpoint}` : description;
+  };
+
+  const selectedFormat = EXPORT_FORMATS.find(f => f.id === format);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Package className="h-5 w-5 text-primary-500" />
+            <CardTitle>{checkpoint ? `Export Checkpoint ${checkpoint.step}` : 'Export Model'}</CardTitle>
+          </div>
+          {checkpoint && onClearCheckpoint && (
+            <Button size="sm" variant="ghost" onClick={onClearCheckpoint}>
+              Use final model
+            </Button>
+          )}
+        </div>
+        <CardDescription>
+          Merge the LoRA adapter into the base model and convert it for offline use
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="exportFormat" className="block text-sm font-medium mb-1">Format</label>
+            <select
+              id="exportFormat"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+              className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            >
+              {EXPORT_FORMATS.map(option => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+          </div>
+          {format === 'gguf' && (
+            <div>
+              <label htmlFor="exportQuantization" className="block text-sm font-medium mb-1">Quantization</label>
+              <select
+                id="exportQuantization"
+                value={quantization}
+                onChange={(e) => setQuantization(e.target.value as GgufQuantization)}
+                className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              >
+                {GGUF_QUANTIZATIONS.map(option => (
+                  <option key={option.id} value={option.id}>{option.name} ({option.description})</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+        {selectedFormat && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">{selectedFormat.description}</p>
+        )}
+
+        <Button onClick={handleExport} isLoading={isStarting} leftIcon={<Package className="h-4 w-4" />}>
+          Start Export
+        </Button>
+
+        {jobs.length > 0 && (
+          <div className="space-y-2 pt-2">
+            {jobs.map(job => (
+              <div key={job.job_id} className="rounded-md border border-gray-200 dark:border-gray-700 p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium">{describeJob(job)}</span>
+                      <Badge
+                        size="sm"
+                        variant={job.status === 'completed' ? 'success' : job.status === 'failed' ? 'error' : 'primary'}
+                      >
+                        {isActive(job) && job.stage ? job.stage : job.status}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {new Date(job.created_at).toLocaleString()}
+                      {job.filename && ` · ${job.filename}`}
+                      {job.size_bytes !== undefined && ` · ${fileService.formatFileSize(job.size_bytes)}`}
+                    </p>
+                  </div>
+                  {job.status === 'completed' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDownload(job)}
+                      isLoading={downloadingJobId === job.job_id}
+                      disabled={downloadingJobId !== null}
+                      leftIcon={<FileDown className="h-4 w-4" />}
+                    >
+                      Download
+                    </Button>
+                  )}
+                </div>
+                {isActive(job) && (
+                  <Progress value={job.progress} size="sm" variant="primary" />
+                )}
+                {job.error && (
+                  <p className="flex items-start gap-1.5 text-xs text-red-600 dark:text-red-400">
+                    <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0 mt-0.5" />
+                    {job.error}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,119 @@
+import { Cpu, AlertTriangle } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../ui/Card';
+import { TrainingResourceEstimate, formatEstimatedDuration } from '../../utils/trainingEstimateUtils';
+
+interface ResourceEstimateCardProps {
+  estimate: TrainingResourceEstimate | null;
+  // Total memory of the training GPU, when the monitoring backend reports it
+  gpuMemoryTotalGb?: number;
+  suggestions: string[];
+}
+
+const BREAKDOWN_ROWS: { key: keyof TrainingResourceEstimate['memory']; label: string }[] = [
+  { key: 'weights', label: 'Model weights' },
+  { key: 'trainableState', label: 'Gradients & optimizer' },
+  { key: 'activations', label: 'Activations' },
+  { key: 'overhead', label: 'CUDA & fragmentation' },
+];
+
+const formatParameters = (count: number) =>
+  count >= 1e9 ? `${(count / 1e9).toFixed(1)}B` : `${(count / 1e6).toFixed(1)}M`;
+
+export default function ResourceEstimateCard({ estimate, gpuMemoryTotalGb, suggestions }: ResourceEstimateCardProps) {
+  const exceedsGpu = estimate !== null && gpuMemoryTotalGb !== undefined && estimate.peakMemoryGb > gpuMemoryTotalGb;
+  const usagePercent = estimate && gpuMemoryTotalGb ? Math.min(100, (estimate.peakMemoryGb / gpuMemoryTotalGb) * 100) : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Cpu className="h-5 w-5 text-primary-500" />
+          <CardTitle>Resource Estimate</CardTitle>
+        </div>
+        <CardDescription>Approximate peak GPU memory and duration for this configuration</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!estimate ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Select a base model with a known parameter count (e.g. 7B) to see an estimate.
+          </p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <div className="flex justify-between items-baseline">
+                <p className="text-sm font-medium">Peak GPU Memory</p>
+                <p className={`text-sm font-medium ${exceedsGpu ? 'text-error-600 dark:text-error-400' : ''}`}>
+                  ~{estimate.peakMemoryGb.toFixed(1)} GB
+                  {gpuMemoryTotalGb !== undefined && (
+                    <span className="text-gray-500 dark:text-gray-400 font-normal"> of {gpuMemoryTotalGb.toFixed(0)} GB</span>
+                  )}
+                </p>
+              </div>
+              {gpuMemoryTotalGb !== undefined && (
+                <div className="h-2 w-full rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                  <div
+                    className={`h-full rounded-full ${exceedsGpu ? 'bg-error-500' : usagePercent > 85 ? 'bg-warning-500' : 'bg-primary-500'}`}
+                    style={{ width: `${usagePercent}%` }}
+                  />
+                </div>
+              )}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+                {BREAKDOWN_ROWS.map(row => (
+                  <div key={row.key}>
+                    <p className="text-gray-500 dark:text-gray-400">{row.label}</p>
+                    <p className="text-gray-700 dark:text-gray-300">{estimate.memory[row.key].toFixed(1)} GB</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+              <div>
+                <p className="text-gray-500 dark:text-gray-400">Trainable Parameters</p>
+                <p className="text-gray-700 dark:text-gray-300">
+                  {formatParameters(estimate.trainableParameters)} of {formatParameters(estimate.parameterCount)}
+                </p>
+              </div>
+              <div>
+                <p className="text-gray-500 dark:text-gray-400">Time per Step</p>
+                <p className="text-gray-700 dark:text-gray-300">~{formatEstimatedDuration(estimate.stepSeconds)}</p>
+              </div>
+              <div>
+                <p className="text-gray-500 dark:text-gray-400">Total Steps</p>
+                <p className="text-gray-700 dark:text-gray-300">{estimate.totalSteps?.toLocaleString() ?? 'Unknown'}</p>
+              </div>
+              <div>
+                <p className="text-gray-500 dark:text-gray-400">Total Duration</p>
+                <p className="text-gray-700 dark:text-gray-300">
+                  {estimate.totalMinutes !== null ? `~${formatEstimatedDuration(estimate.totalMinutes * 60)}` : 'Unknown'}
+                </p>
+              </div>
+            </div>
+
+            {exceedsGpu && (
+              <div className="flex items-start gap-2 rounded-md bg-warning-50 dark:bg-warning-900/20 p-3 text-sm text-warning-800 dark:text-warning-200">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                <div>
+                  <p>
+                    This configuration is likely to run out of GPU memory ({estimate.peakMemoryGb.toFixed(1)} GB needed,{' '}
+                    {gpuMemoryTotalGb?.toFixed(0)} GB available).
+                  </p>
+                  {suggestions.length > 0 && (
+                    <ul className="list-disc list-inside mt-1">
+                      {suggestions.map(suggestion => <li key={suggestion}>{suggestion}</li>)}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Rough estimate assuming sequences padded to the max length on an A100-class GPU; actual usage varies with the
+              model architecture and data.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { CopyPlus, FastForward } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from '../ui/Button';
+import { useAuth } from '../auth/AuthProvider';
+import { trainingService, TrainingSessionDetail } from '../../services/trainingService';
+import { buildSessionPrefill } from '../../utils/sessionPrefillUtils';
+
+interface SessionRelaunchActionsProps {
+  sessionId: string;
+  status: string;
+  // Already-loaded details; fetched on click when omitted
+  session?: TrainingSessionDetail;
+  // Icon-only buttons for table rows
+  compact?: boolean;
+}
+
+type RelaunchMode = 'clone' | 'continue';
+
+// "Clone session" and "Continue training" open the configure flow prefilled from this session
+export default function SessionRelaunchActions({ sessionId, status, session, compact = false }: SessionRelaunchActionsProps) {
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const [pendingMode, setPendingMode] = useState<RelaunchMode | null>(null);
+
+  if (!can('training:launch')) return null;
+
+  const relaunch = async (mode: RelaunchMode) => {
+    try {
+      setPendingMode(mode);
+      const detail = session ?? await trainingService.getSessionStatus(sessionId);
+      const sessionPrefill = buildSessionPrefill(detail, mode);
+      // Sessions without a recorded dataset still need one picked in step 2
+      navigate(sessionPrefill.selectedFileId ? '/configure/parameters' : '/configure/data', {
+        state: { sessionPrefill },
+      });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load training session');
+    } finally {
+      setPendingMode(null);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        size="sm"
+        variant={compact ? 'ghost' : 'outline'}
+        onClick={() => relaunch('clone')}
+        disabled={pendingMode !== null}
+        isLoading={pendingMode === 'clone'}
+        leftIcon={compact ? undefined : <CopyPlus className="h-4 w-4" />}
+        aria-label="Clone session"
+        title="Clone session"
+      >
+        {compact ? <CopyPlus className="h-3 w-3" /> : 'Clone Session'}
+      </Button>
+      {status === 'completed' && (
+        <Button
+          size="sm"
+          variant={compact ? 'ghost' : 'outline'}
+          onClick={() => relaunch('continue')}
+          disabled={pendingMode !== null}
+          isLoading={pendingMode === 'continue'}
+          leftIcon={compact ? undefined : <FastForward className="h-4 w-4" />}
+          aria-label="Continue training"
+          title="Continue training from the final adapter"
+        >
+          {compact ? <FastForward className="h-3 w-3" /> : 'Continue Training'}
+        </Button>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,258 @@
+import { useState } from 'react';
+import { Shuffle, Plus, X } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../ui/Card';
+import { Button } from '../ui/Button';
+import {
+  SweepConfig,
+  SweepDimension,
+  SweepParameterKey,
+  SweepRunValues,
+  SweepStrategy,
+  SWEEP_PARAMETERS,
+  MAX_SWEEP_RUNS,
+  getSweepParameter,
+} from '../../config/sweep';
+import { SweepPlan, parseSweepList, describeSweepRun } from '../../utils/sweepUtils';
+
+interface SweepConfiguratorProps {
+  sweep: SweepConfig;
+  plan: SweepPlan;
+  // Current single-run values, used to seed newly added dimensions
+  baseValues: SweepRunValues;
+  onChange: (update: Partial<SweepConfig>) => void;
+}
+
+const MAX_PREVIEW_RUNS = 5;
+
+const inputClassName = 'w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+// Seed a new dimension around the current value: x0.5 / x1 / x2 for numbers, every option for choices
+function createDimension(key: SweepParameterKey, baseValue: SweepRunValues[SweepParameterKey]): SweepDimension {
+  const option = getSweepParameter(key);
+  if (option.type === 'choice') {
+    return { key, mode: 'list', values: option.choices ?? [], min: 0, max: 0, steps: 1 };
+  }
+  const base = typeof baseValue === 'number' && baseValue > 0 ? baseValue : 1;
+  const values = option.type === 'int'
+    ? [...new Set([Math.max(1, Math.round(base / 2)), base, base * 2])]
+    : [base / 2, base, base * 2];
+  return { key, mode: 'list', values, min: values[0] as number, max: values[values.length - 1] as number, steps: 3 };
+}
+
+export default function SweepConfigurator({ sweep, plan, baseValues, onChange }: SweepConfiguratorProps) {
+  // Raw list text per field so partially typed values like "1e-" aren't dropped while editing
+  const [listText, setListText] = useState<Partial<Record<SweepParameterKey, string>>>({});
+
+  const usedKeys = new Set(sweep.dimensions.map(dimension => dimension.key));
+  const availableParameters = SWEEP_PARAMETERS.filter(option => !usedKeys.has(option.key));
+
+  const updateDimension = (key: SweepParameterKey, update: Partial<SweepDimension>) => {
+    onChange({
+      dimensions: sweep.dimensions.map(dimension => dimension.key === key ? { ...dimension, ...update } : dimension),
+    });
+  };
+
+  const addDimension = () => {
+    const next = availableParameters[0];
+    if (!next) return;
+    onChange({ dimensions: [...sweep.dimensions, createDimension(next.key, baseValues[next.key])] });
+  };
+
+  const changeDimensionKey = (oldKey: SweepParameterKey, newKey: SweepParameterKey) => {
+    onChange({
+      dimensions: sweep.dimensions.map(dimension =>
+        dimension.key === oldKey ? createDimension(newKey, baseValues[newKey]) : dimension
+      ),
+    });
+    setListText(prev => ({ ...prev, [oldKey]: undefined, [newKey]: undefined }));
+  };
+
+  const removeDimension = (key: SweepParameterKey) => {
+    onChange({ dimensions: sweep.dimensions.filter(dimension => dimension.key !== key) });
+  };
+
+  const isCapped = plan.totalCombinations !== null && plan.totalCombinations > plan.runs.length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Shuffle className="h-5 w-5 text-primary-500" />
+            <CardTitle>Hyperparameter Sweep</CardTitle>
+          </div>
+          <div className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              id="enableSweep"
+              checked={sweep.enabled}
+              onChange={(e) => onChange({ enabled: e.target.checked })}
+              className="h-4 w-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+            />
+            <label htmlFor="enableSweep" className="text-sm font-medium">Enable sweep</label>
+          </div>
+        </div>
+        <CardDescription>
+          Launch one run per combination of values instead of a single run
+        </CardDescription>
+      </CardHeader>
+
+      {sweep.enabled && (
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="sweepStrategy" className="block text-sm font-medium mb-1">Search Strategy</label>
+              <select
+                id="sweepStrategy"
+                value={sweep.strategy}
+                onChange={(e) => onChange({ strategy: e.target.value as SweepStrategy })}
+                className={inputClassName}
+              >
+                <option value="grid">Grid search (every combination)</option>
+                <option value="random">Random search (sampled combinations)</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="sweepMaxRuns" className="block text-sm font-medium mb-1">Maximum Runs</label>
+              <input
+                type="number"
+                id="sweepMaxRuns"
+                min="1"
+                max={MAX_SWEEP_RUNS}
+                value={sweep.maxRuns}
+                onChange={(e) => onChange({ maxRuns: Math.min(MAX_SWEEP_RUNS, Math.max(1, Number(e.target.value) || 1)) })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {sweep.dimensions.map(dimension => {
+              const option = getSweepParameter(dimension.key);
+              return (
+                <div key={dimension.key} className="rounded-md border border-gray-200 dark:border-gray-700 p-3 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={dimension.key}
+                      onChange={(e) => changeDimensionKey(dimension.key, e.target.value as SweepParameterKey)}
+                      className={inputClassName}
+                      aria-label="Parameter"
+                    >
+                      {[option, ...availableParameters].map(item => (
+                        <option key={item.key} value={item.key}>{item.label}</option>
+                      ))}
+                    </select>
+                    {option.type !== 'choice' && (
+                      <select
+                        value={dimension.mode}
+                        onChange={(e) => updateDimension(dimension.key, { mode: e.target.value as SweepDimension['mode'] })}
+                        className={`${inputClassName} w-32`}
+                        aria-label="Value mode"
+                      >
+                        <option value="list">List</option>
+                        <option value="range">Range</option>
+                      </select>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => removeDimension(dimension.key)}
+                      aria-label={`Remove ${option.label}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  {dimension.mode === 'list' ? (
+                    <div>
+                      <input
+                        type="text"
+                        value={listText[dimension.key] ?? dimension.values.join(', ')}
+                        onChange={(e) => {
+                          setListText(prev => ({ ...prev, [dimension.key]: e.target.value }));
+                          updateDimension(dimension.key, { values: parseSweepList(e.target.value, dimension.key) });
+                        }}
+                        className={`${inputClassName} font-mono`}
+                        placeholder={option.type === 'choice' ? option.choices?.join(', ') : 'e.g. 1e-4, 2e-4, 5e-4'}
+                      />
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Comma-separated · {dimension.values.length} value{dimension.values.length === 1 ? '' : 's'}
+                      </p>
+                    </div>
+                  ) : (
+                    <div className="grid grid-cols-3 gap-2">
+                      <div>
+                        <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Min</label>
+                        <input
+                          type="number"
+                          value={dimension.min}
+                          step="any"
+                          onChange={(e) => updateDimension(dimension.key, { min: Number(e.target.value) })}
+                          className={inputClassName}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Max</label>
+                        <input
+                          type="number"
+                          value={dimension.max}
+                          step="any"
+                          onChange={(e) => updateDimension(dimension.key, { max: Number(e.target.value) })}
+                          className={inputClassName}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Grid Points</label>
+                        <input
+                          type="number"
+                          min="1"
+                          max={MAX_SWEEP_RUNS}
+                          value={dimension.steps}
+                          disabled={sweep.strategy === 'random'}
+                          onChange={(e) => updateDimension(dimension.key, {
+                            steps: Math.min(MAX_SWEEP_RUNS, Math.max(1, Number(e.target.value) || 1)),
+                          })}
+                          className={inputClassName}
+                        />
+                      </div>
+                      {option.logScale && (
+                        <p className="col-span-3 text-xs text-gray-500 dark:text-gray-400">Sampled on a log scale</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            {availableParameters.length > 0 && (
+              <Button variant="outline" size="sm" onClick={addDimension} leftIcon={<Plus className="h-4 w-4" />}>
+                Add Parameter
+              </Button>
+            )}
+          </div>
+
+          <div className="rounded-md bg-gray-50 dark:bg-gray-800/50 p-3 text-sm space-y-2">
+            <p className="font-medium">
+              {plan.runs.length} run{plan.runs.length === 1 ? '' : 's'} will be queued
+              {isCapped && (
+                <span className="font-normal text-warning-700 dark:text-warning-400">
+                  {' '}(first {plan.runs.length} of {plan.totalCombinations} combinations; raise the run cap to cover more)
+                </span>
+              )}
+            </p>
+            {plan.runs.slice(0, MAX_PREVIEW_RUNS).map((run, index) => (
+              <p key={index} className="text-xs text-gray-600 dark:text-gray-400 font-mono">
+                {index + 1}. {describeSweepRun(run)}
+              </p>
+            ))}
+            {plan.runs.length > MAX_PREVIEW_RUNS && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                ... and {plan.runs.length - MAX_PREVIEW_RUNS} more
+              </p>
+            )}
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
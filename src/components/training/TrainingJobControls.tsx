@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { Play, Pause, Square, Clock } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from '../ui/Button';
+import { useAuth } from '../auth/AuthProvider';
+import { trainingService, TrainingJobActionResponse } from '../../services/trainingService';
+import { formatDuration } from '../../utils/timeUtils';
+
+interface TrainingJobControlsProps {
+  sessionId: string;
+  status: string;
+  createdBy?: string;
+  queuePosition?: number;
+  queueEtaSeconds?: number;
+  resumeFromStep?: number;
+  // Called with the job's new status after an action succeeds
+  onStatusChange?: (status: string) => void;
+}
+
+type JobAction = 'pause' | 'resume' | 'cancel';
+
+const FINISHED_STATUSES = ['completed', 'failed', 'cancelled'];
+
+export default function TrainingJobControls({
+  sessionId,
+  status,
+  createdBy,
+  queuePosition,
+  queueEtaSeconds,
+  resumeFromStep,
+  onStatusChange,
+}: TrainingJobControlsProps) {
+  const { can } = useAuth();
+  const [pendingAction, setPendingAction] = useState<JobAction | null>(null);
+
+  if (FINISHED_STATUSES.includes(status)) return null;
+
+  // Members may only control their own jobs, so jobs without a recorded owner are admin-only
+  const owner = { created_by: createdBy };
+  const canControl = can('training:control', owner);
+  const isPaused = status === 'paused';
+  const isTransitioning = status === 'pausing' || status === 'cancelling';
+
+  const runAction = async (action: JobAction) => {
+    if (action === 'cancel' && !confirm('Cancel this training job? Progress since the last checkpoint will be lost.')) {
+      return;
+    }
+
+    const actions: Record<JobAction, () => Promise<TrainingJobActionResponse>> = {
+      pause: () => trainingService.pauseSession(sessionId, owner),
+      resume: () => trainingService.resumeSession(sessionId, owner),
+      cancel: () => trainingService.cancelSession(sessionId, owner),
+    };
+
+    try {
+      setPendingAction(action);
+      const response = await actions[action]();
+      toast.success(response.message);
+      onStatusChange?.(response.status);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : `Failed to ${action} training`);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {status === 'queued' && queuePosition !== undefined && (
+        <div className="flex items-center justify-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <Clock className="h-4 w-4 text-gray-500" />
+          <span>
+            Position <span className="font-medium">{queuePosition}</span> in the queue
+            {queueEtaSeconds !== undefined && queueEtaSeconds > 0 && (
+              <> · starts in about <span className="font-medium">{formatDuration(queueEtaSeconds)}</span></>
+            )}
+          </span>
+        </div>
+      )}
+
+      {status === 'pausing' && (
+        <p className="text-center text-sm text-gray-500 dark:text-gray-400">
+          Pausing after the next checkpoint is written...
+        </p>
+      )}
+
+      {isPaused && resumeFromStep !== undefined && (
+        <p className="text-center text-sm text-gray-500 dark:text-gray-400">
+          Paused. Resuming continues from the checkpoint at step {resumeFromStep}.
+        </p>
+      )}
+
+      {canControl && (
+        <div className="flex justify-center gap-3">
+          {status !== 'queued' && (
+            <Button
+              variant={isPaused ? 'primary' : 'outline'}
+              onClick={() => runAction(isPaused ? 'resume' : 'pause')}
+              disabled={isTransitioning || pendingAction !== null}
+              isLoading={pendingAction === 'pause' || pendingAction === 'resume'}
+              leftIcon={isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+            >
+              {isPaused ? 'Resume Training' : 'Pause Training'}
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => runAction('cancel')}
+            disabled={status === 'cancelling' || pendingAction !== null}
+            isLoading={pendingAction === 'cancel'}
+            leftIcon={<Square className="h-4 w-4" />}
+            className="text-red-600 hover:text-red-700 dark:text-red-400"
+          >
+            {status === 'queued' ? 'Remove from Queue' : 'Cancel Training'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
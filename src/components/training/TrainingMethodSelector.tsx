@@ -0,0 +1,188 @@
+import { Layers, AlertTriangle } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../ui/Card';
+import { FieldError } from '../ui/FieldError';
+import { TrainingConfig } from '../../config/training';
+import { TRAINING_METHODS, getTrainingMethod, getDatasetMappingMismatch } from '../../config/trainingMethods';
+import { TrainingConfigErrors } from '../../utils/trainingValidationUtils';
+
+interface TrainingMethodSelectorProps {
+  trainingConfig: TrainingConfig;
+  onChange: (update: Partial<TrainingConfig>) => void;
+  // Mapping type of the selected dataset, when known
+  datasetMappingType?: 'instruction' | 'preference';
+  // Validation errors of the whole config; only the method's own fields are shown here
+  errors?: TrainingConfigErrors;
+}
+
+const inputClassName = 'w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+export default function TrainingMethodSelector({ trainingConfig, onChange, datasetMappingType, errors = {} }: TrainingMethodSelectorProps) {
+  const method = getTrainingMethod(trainingConfig.training_method);
+  const datasetMismatch = getDatasetMappingMismatch(method, datasetMappingType);
+
+  const selectMethod = (id: TrainingConfig['training_method']) => {
+    const next = getTrainingMethod(id);
+    onChange({
+      training_method: id,
+      ...(next.fixedQuantization && { quantization: next.fixedQuantization }),
+      // Leaving full fine-tuning: go back to the default 4-bit base model for adapters
+      ...(!next.fixedQuantization && method.id === 'full' && { quantization: '4bit' }),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Layers className="h-5 w-5 text-primary-500" />
+          <CardTitle>Training Method</CardTitle>
+        </div>
+        <CardDescription>How the model's weights are updated during training</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+          {TRAINING_METHODS.map(option => (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => selectMethod(option.id)}
+              className={`text-left rounded-md border p-3 transition-colors ${
+                option.id === method.id
+                  ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
+                  : 'border-gray-200 dark:border-gray-700 hover:border-primary-300 dark:hover:border-primary-700'
+              }`}
+            >
+              <p className="text-sm font-medium">{option.label}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{option.description}</p>
+            </button>
+          ))}
+        </div>
+
+        {datasetMismatch && (
+          <div className="flex items-start gap-2 rounded-md bg-warning-50 dark:bg-warning-900/20 p-3 text-sm text-warning-800 dark:text-warning-200">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+            <p>{datasetMismatch}</p>
+          </div>
+        )}
+
+        {method.id === 'full' && (
+          <div className="space-y-4">
+            <div className="flex items-start gap-2 rounded-md bg-warning-50 dark:bg-warning-900/20 p-3 text-sm text-warning-800 dark:text-warning-200">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+              <p>
+                Full fine-tuning keeps weights, gradients and optimizer state for every parameter in GPU memory,
+                roughly 16 bytes per parameter with AdamW (over 100 GB for a 7B model). Use the 8-bit optimizer,
+                gradient checkpointing and bf16 to bring this down, or pick LoRA/QLoRA for large models.
+              </p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <label htmlFor="optim" className="block text-sm font-medium">Optimizer</label>
+                <select
+                  id="optim"
+                  value={trainingConfig.optim}
+                  onChange={(e) => onChange({ optim: e.target.value as TrainingConfig['optim'] })}
+                  className={inputClassName}
+                >
+                  <option value="adamw_torch">AdamW (full precision states)</option>
+                  <option value="adamw_8bit">AdamW 8-bit (about 75% less optimizer memory)</option>
+                  <option value="adafactor">Adafactor (factored states, lowest memory)</option>
+                </select>
+                <FieldError message={errors.optim} />
+              </div>
+              <div className="flex items-center space-x-2 md:pt-7">
+                <input
+                  type="checkbox"
+                  id="freezeEmbeddings"
+                  checked={trainingConfig.freeze_embeddings}
+                  onChange={(e) => onChange({ freeze_embeddings: e.target.checked })}
+                  className="h-4 w-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                />
+                <label htmlFor="freezeEmbeddings" className="text-sm">
+                  Freeze embedding layers
+                </label>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {method.requiresPreferenceData && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <label htmlFor="preferenceBeta" className="block text-sm font-medium">
+                {method.id === 'dpo' ? 'Beta' : 'Lambda (odds-ratio weight)'}
+              </label>
+              <p className="text-xs text-gray-500 dark:text-gray-400 -mt-1 mb-2">
+                {method.id === 'dpo'
+                  ? 'How far the model may drift from the reference model. Lower values allow more change.'
+                  : 'Weight of the preference term relative to the supervised loss.'}
+              </p>
+              <input
+                type="number"
+                id="preferenceBeta"
+                min="0.01"
+                max="1"
+                step="0.01"
+                value={trainingConfig.beta}
+                onChange={(e) => onChange({ beta: parseFloat(e.target.value) || 0.1 })}
+                className={inputClassName}
+              />
+              <FieldError message={errors.beta} />
+              <p className="text-xs text-gray-500 dark:text-gray-400">Typical range: 0.05-0.5</p>
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="maxPromptLength" className="block text-sm font-medium">Max Prompt Length</label>
+              <p className="text-xs text-gray-500 dark:text-gray-400 -mt-1 mb-2">
+                Prompt tokens kept before the chosen/rejected answers; longer prompts are truncated from the left.
+              </p>
+              <input
+                type="number"
+                id="maxPromptLength"
+                min="64"
+                max="4096"
+                step="64"
+                value={trainingConfig.max_prompt_length}
+                onChange={(e) => onChange({ max_prompt_length: parseInt(e.target.value) || 512 })}
+                className={inputClassName}
+              />
+              <FieldError message={errors.max_prompt_length} />
+            </div>
+            {method.id === 'dpo' && (
+              <>
+                <div className="space-y-2">
+                  <label htmlFor="dpoLossType" className="block text-sm font-medium">Loss Type</label>
+                  <select
+                    id="dpoLossType"
+                    value={trainingConfig.dpo_loss_type}
+                    onChange={(e) => onChange({ dpo_loss_type: e.target.value as TrainingConfig['dpo_loss_type'] })}
+                    className={inputClassName}
+                  >
+                    <option value="sigmoid">Sigmoid (standard DPO)</option>
+                    <option value="hinge">Hinge</option>
+                    <option value="ipo">IPO</option>
+                  </select>
+                  <FieldError message={errors.dpo_loss_type} />
+                </div>
+                <div className="space-y-2">
+                  <label htmlFor="referenceModel" className="block text-sm font-medium">Reference Model</label>
+                  <input
+                    type="text"
+                    id="referenceModel"
+                    value={trainingConfig.reference_model}
+                    onChange={(e) => onChange({ reference_model: e.target.value })}
+                    placeholder="Same as base model"
+                    className={inputClassName}
+                  />
+                  <FieldError message={errors.reference_model} />
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Hugging Face ID or local model name. Leave empty to use a frozen copy of the base model.
+                  </p>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
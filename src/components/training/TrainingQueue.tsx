@@ -0,0 +1,71 @@
+import { useNavigate } from 'react-router-dom';
+import { ListOrdered, ExternalLink } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../ui/Card';
+import { Badge } from '../ui/Badge';
+import { Button } from '../ui/Button';
+import { QueuedTrainingJob } from '../../services/trainingService';
+import { formatDuration } from '../../utils/timeUtils';
+
+interface TrainingQueueProps {
+  jobs: QueuedTrainingJob[];
+}
+
+// Jobs sharing the GPU: the running one first, then everything waiting behind it
+export default function TrainingQueue({ jobs }: TrainingQueueProps) {
+  const navigate = useNavigate();
+  const waitingCount = jobs.filter(job => job.status === 'queued').length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <ListOrdered className="h-5 w-5 text-primary-500" />
+            <CardTitle>GPU Queue</CardTitle>
+          </div>
+          <Badge variant="secondary">{waitingCount} waiting</Badge>
+        </div>
+        <CardDescription>Training jobs run one at a time in submission order</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {jobs.map(job => (
+          <div
+            key={job.session_id}
+            className="flex items-center justify-between rounded-md border border-gray-200 dark:border-gray-700 p-3"
+          >
+            <div className="flex items-center gap-3 min-w-0">
+              <span className="w-6 text-center text-sm font-semibold text-gray-500 dark:text-gray-400">
+                {job.position}
+              </span>
+              <div className="min-w-0">
+                <div className="text-sm font-medium truncate">{job.model_name}</div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  {job.created_by ? `${job.created_by} · ` : ''}
+                  submitted {new Date(job.submitted_at).toLocaleString()}
+                </div>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {job.status === 'queued'
+                  ? job.eta_seconds ? `starts in ~${formatDuration(job.eta_seconds)}` : 'waiting'
+                  : job.progress !== undefined ? `${Math.round(job.progress)}%` : ''}
+              </span>
+              <Badge variant={job.status === 'queued' ? 'secondary' : job.status === 'paused' ? 'warning' : 'primary'} size="sm">
+                {job.status}
+              </Badge>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => navigate(`/training/${job.session_id}`)}
+                aria-label="Open session"
+              >
+                <ExternalLink className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,6 +2,11 @@ import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Button } from './Button';
 import { Card, CardHeader, CardTitle, CardContent } from './Card';
+import { PromptTemplatePicker } from './PromptTemplatePicker';
+import { RawPromptPreview } from './RawPromptPreview';
+import { fileService } from '../../services/fileService';
+import { RenderedPrompt } from '../../services/chatApi';
+import { trainingExampleToMessages } from '../../utils/chatTemplateUtils';
 import { 
   ArrowRight, 
   Eye, 
@@ -49,6 +54,11 @@ interface ColumnMapping {
   output_columns: ColumnConfig[];
   output_template: string;
   ignored_columns: string[];
+  // Preference mode maps one column each to prompt / chosen / rejected for DPO and ORPO
+  mapping_type?: 'instruction' | 'preference';
+  prompt_column?: string;
+  chosen_column?: string;
+  rejected_column?: string;
   mapping_name: string;
   description: string;
 }
@@ -59,6 +69,29 @@ interface TrainingExample {
   output: string | Record<string, any>;
 }
 
+interface PreferenceExample {
+  prompt: string;
+  chosen: string;
+  rejected: string;
+}
+
+type PreferenceField = 'prompt_column' | 'chosen_column' | 'rejected_column';
+
+const PREFERENCE_FIELDS: { field: PreferenceField; label: string; hint: string }[] = [
+  { field: 'prompt_column', label: 'Prompt', hint: 'The question or instruction both answers respond to' },
+  { field: 'chosen_column', label: 'Chosen', hint: 'The preferred answer' },
+  { field: 'rejected_column', label: 'Rejected', hint: 'The worse answer' },
+];
+
+// A mapping can be previewed and saved once its required columns are chosen
+const isMappingComplete = (mapping: ColumnMapping): boolean => {
+  if (mapping.mapping_type === 'preference') {
+    const columns = [mapping.prompt_column, mapping.chosen_column, mapping.rejected_column];
+    return columns.every(Boolean) && new Set(columns).size === columns.length;
+  }
+  return mapping.output_columns.length > 0;
+};
+
 interface ColumnMappingInterfaceProps {
   fileId: string;
   availableColumns: string[];
@@ -66,6 +99,9 @@ interface ColumnMappingInterfaceProps {
   onMappingComplete: (mapping: ColumnMapping) => void;
   onCancel: () => void;
   initialMapping?: ColumnMapping;
+  // Base model the data is prepared for, used to render the raw prompt preview
+  modelName?: string;
+  maxSequenceLength?: number;
 }
 
 export const ColumnMappingInterface: React.FC<ColumnMappingInterfaceProps> = ({
@@ -74,7 +110,9 @@ export const ColumnMappingInterface: React.FC<ColumnMappingInterfaceProps> = ({
   columnInfo,
   onMappingComplete,
   onCancel,
-  initialMapping
+  initialMapping,
+  modelName,
+  maxSequenceLength
 }) => {
   const [mapping, setMapping] = useState<ColumnMapping>(
     initialMapping || {
@@ -91,6 +129,9 @@ export const ColumnMappingInterface: React.FC<ColumnMappingInterfaceProps> = ({
   );
 
   const [previewData, setPreviewData] = useState<TrainingExample[]>([]);
+  const [preferencePreview, setPreferencePreview] = useState<PreferenceExample[]>([]);
+  const [renderedPrompts, setRenderedPrompts] = useState<RenderedPrompt[]>([]);
+  const [rawPromptRows, setRawPromptRows] = useState<Set<number>>(new Set());
   const [isLoadingPreview, setIsLoadingPreview] = useState(false);
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -98,7 +139,7 @@ export const ColumnMappingInterface: React.FC<ColumnMappingInterfaceProps> = ({
 
   // Update preview when mapping changes
   useEffect(() => {
-    if (mapping.output_columns.length > 0) {
+    if (isMappingComplete(mapping)) {
       loadPreview();
     }
   }, [mapping]);
@@ -108,52 +149,37 @@ export const ColumnMappingInterface: React.FC<ColumnMappingInterfaceProps> = ({
       setIsLoadingPreview(true);
       setError(null);
       
-      const response = await fetch(`/api/files/${fileId}/preview-mapped`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          file_id: fileId,
-          column_mapping: mapping,
-          limit: 5
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const result = await response.json();
+      const result = await fileService.previewMappedData(fileId, mapping, 5, modelName);
       setPreviewData(result.preview_data || []);
+      setPreferencePreview(result.preference_data || []);
+      setRenderedPrompts(result.rendered_prompts || []);
       
     } catch (err: any) {
       console.error('Preview error:', err);
       setPreviewData([]);
+      setPreferencePreview([]);
+      setRenderedPrompts([]);
       setError(err.message || 'Failed to load preview');
     } finally {
       setIsLoadingPreview(false);
     }
   };
 
-  const validateMapping = async () => {
-    try {
-      const response = await fetch(`/api/files/${fileId}/validate-mapping`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          file_id: fileId,
-          column_mapping: mapping
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+  const toggleRawPrompt = (index: number) => {
+    setRawPromptRows(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
       }
+      return next;
+    });
+  };
 
-      const result = await response.json();
+  const validateMapping = async () => {
+    try {
+      const result = await fileService.validateMapping(fileId, mapping);
       setValidationResult(result.validation);
       return result.validation.is_valid;
       
@@ -236,6 +262,14 @@ export const ColumnMappingInterface: React.FC<ColumnMappingInterfaceProps> = ({
     }));
   };
 
+  const setMappingType = (mappingType: 'instruction' | 'preference') => {
+    setMapping(prev => ({ ...prev, mapping_type: mappingType }));
+  };
+
+  const setPreferenceColumn = (field: PreferenceField, columnName: string) => {
+    setMapping(prev => ({ ...prev, [field]: columnName || undefined }));
+  };
+
   const updateStaticInstruction = (value: string) => {
     setMapping(prev => ({
       ...prev,
@@ -274,7 +308,8 @@ export const ColumnMappingInterface: React.FC<ColumnMappingInterfaceProps> = ({
     return availableColumns.filter(col => !used.has(col));
   };
 
-  const canSave = mapping.output_columns.length > 0;
+  const isPreference = mapping.mapping_type === 'preference';
+  const canSave = isMappingComplete(mapping);
 
   const ColumnCard: React.FC<{ 
     columnName: string; 
@@ -460,6 +495,29 @@ export const ColumnMappingInterface: React.FC<ColumnMappingInterfaceProps> = ({
         </p>
       </div>
 
+      {/* Mapping Type */}
+      <div className="flex justify-center">
+        <div className="flex space-x-1 bg-gray-100 dark:bg-gray-800 p-1 rounded-lg">
+          {([
+            { type: 'instruction', label: 'Instruction / Output' },
+            { type: 'preference', label: 'Preference Pairs (DPO / ORPO)' },
+          ] as const).map(option => (
+            <button
+              key={option.type}
+              type="button"
+              onClick={() => setMappingType(option.type)}
+              className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                (isPreference ? 'preference' : 'instruction') === option.type
+                  ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 shadow-sm'
+                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
       {/* Error Display */}
       {error && (
         <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
@@ -521,6 +579,13 @@ export const ColumnMappingInterface: React.FC<ColumnMappingInterfaceProps> = ({
           </CardTitle>
         </CardHeader>
         <CardContent>
+          <div className="mb-3">
+            <PromptTemplatePicker
+              currentContent={mapping.static_instruction}
+              onApply={updateStaticInstruction}
+              label="Start from a template"
+            />
+          </div>
           <textarea
             value={mapping.static_instruction}
             onChange={(e) => updateStaticInstruction(e.target.value)}
@@ -533,7 +598,56 @@ export const ColumnMappingInterface: React.FC<ColumnMappingInterfaceProps> = ({
         </CardContent>
       </Card>
 
+      {/* Preference Pair Columns */}
+      {isPreference && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Target className="h-5 w-5 mr-2 text-orange-500" />
+              Preference Pairs
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+              {PREFERENCE_FIELDS.map(({ field, label, hint }) => {
+                const selected = mapping[field];
+                return (
+                  <div key={field}>
+                    <label htmlFor={`preference-${field}`} className="block text-sm font-medium mb-1">
+                      {label}
+                    </label>
+                    <select
+                      id={`preference-${field}`}
+                      value={selected || ''}
+                      onChange={(e) => setPreferenceColumn(field, e.target.value)}
+                      className="w-full p-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800"
+                    >
+                      <option value="">Select a column...</option>
+                      {availableColumns.map(column => (
+                        <option key={column} value={column}>{column}</option>
+                      ))}
+                    </select>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{hint}</p>
+                    {selected && columnInfo[selected]?.sample_values.length > 0 && (
+                      <div className="text-xs bg-gray-50 dark:bg-gray-800 p-2 rounded mt-2 truncate">
+                        {String(columnInfo[selected].sample_values[0])}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            {!canSave && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+                Choose a different column for each of prompt, chosen and rejected.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Column Mapping Sections */}
+      {!isPreference && (
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Instruction Columns */}
         <Card>
@@ -614,8 +728,10 @@ export const ColumnMappingInterface: React.FC<ColumnMappingInterfaceProps> = ({
           </CardContent>
         </Card>
       </div>
+      )}
 
       {/* Available Columns */}
+      {!isPreference && (
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center">
@@ -645,8 +761,10 @@ export const ColumnMappingInterface: React.FC<ColumnMappingInterfaceProps> = ({
           </div>
         </CardContent>
       </Card>
+      )}
 
       {/* Advanced Template Editor */}
+      {!isPreference && (
       <Card>
         <CardHeader>
           <CardTitle 
@@ -704,6 +822,7 @@ export const ColumnMappingInterface: React.FC<ColumnMappingInterfaceProps> = ({
           )}
         </AnimatePresence>
       </Card>
+      )}
 
       {/* Live Preview */}
       {canSave && (
@@ -720,6 +839,45 @@ export const ColumnMappingInterface: React.FC<ColumnMappingInterfaceProps> = ({
                 <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600 mr-2"></div>
                 <span className="text-gray-600 dark:text-gray-400">Loading preview...</span>
               </div>
+            ) : isPreference ? (
+              preferencePreview.length > 0 ? (
+                <div className="space-y-4">
+                  {preferencePreview.map((example, index) => (
+                    <div key={index} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+                      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                        <div>
+                          <h4 className="font-medium text-sm text-blue-600 dark:text-blue-400 mb-2">
+                            Prompt:
+                          </h4>
+                          <div className="bg-blue-50 dark:bg-blue-900/20 p-3 rounded text-sm">
+                            {example.prompt}
+                          </div>
+                        </div>
+                        <div>
+                          <h4 className="font-medium text-sm text-green-600 dark:text-green-400 mb-2">
+                            Chosen:
+                          </h4>
+                          <div className="bg-green-50 dark:bg-green-900/20 p-3 rounded text-sm">
+                            {example.chosen}
+                          </div>
+                        </div>
+                        <div>
+                          <h4 className="font-medium text-sm text-red-600 dark:text-red-400 mb-2">
+                            Rejected:
+                          </h4>
+                          <div className="bg-red-50 dark:bg-red-900/20 p-3 rounded text-sm">
+                            {example.rejected}
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-gray-500 dark:text-gray-400 text-center py-8">
+                  No preview available. Please check your column mapping.
+                </p>
+              )
             ) : previewData.length > 0 ? (
               <div className="space-y-4">
                 {previewData.map((example, index) => (
@@ -756,6 +914,23 @@ export const ColumnMappingInterface: React.FC<ColumnMappingInterfaceProps> = ({
                         </div>
                       </div>
                     </div>
+                    <button
+                      onClick={() => toggleRawPrompt(index)}
+                      className="mt-3 flex items-center text-xs font-medium text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200"
+                    >
+                      {rawPromptRows.has(index) ? <ChevronUp className="h-3.5 w-3.5 mr-1" /> : <ChevronDown className="h-3.5 w-3.5 mr-1" />}
+                      Show raw prompt
+                    </button>
+                    {rawPromptRows.has(index) && (
+                      <RawPromptPreview
+                        className="mt-2"
+                        messages={trainingExampleToMessages(example)}
+                        modelName={modelName}
+                        maxSequenceLength={maxSequenceLength}
+                        rendered={renderedPrompts[index]}
+                        addGenerationPrompt={false}
+                      />
+                    )}
                   </div>
                 ))}
               </div>
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { Button } from './Button';
 import { SaveConfigModal } from './SaveConfigModal';
 import { configService, ConfigMetadata } from '../../services/configService';
+import { useAuth } from '../auth/AuthProvider';
 import { Save, FolderOpen, Trash2, ChevronDown, Calendar, FileText } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 
@@ -26,6 +27,7 @@ export function ConfigurationManager({
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const { can } = useAuth();
 
   // Load saved configurations on component mount
   useEffect(() => {
@@ -93,8 +95,9 @@ export function ConfigurationManager({
     }
   };
 
-  const handleDeleteConfig = async (configName: string, event: React.MouseEvent) => {
+  const handleDeleteConfig = async (config: ConfigMetadata, event: React.MouseEvent) => {
     event.stopPropagation();
+    const configName = config.name;
     
     if (!confirm(`Are you sure you want to delete the configuration "${configName}"?`)) {
       return;
@@ -104,7 +107,7 @@ export function ConfigurationManager({
       setIsLoading(true);
       setError(null);
       
-      await configService.deleteConfiguration(configName);
+      await configService.deleteConfiguration(configName, config);
       setSuccessMessage(`Configuration "${configName}" deleted successfully!`);
       
       // Reload configurations list
@@ -233,14 +236,16 @@ export function ConfigurationManager({
                             {formatDate(config.created_at)}
                           </div>
                         </div>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={(e) => handleDeleteConfig(config.name, e)}
-                          className="ml-2 p-1 text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
-                        >
-                          <Trash2 className="h-3 w-3" />
-                        </Button>
+                        {can('configs:delete', config) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={(e) => handleDeleteConfig(config, e)}
+                            className="ml-2 p-1 text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        )}
                       </div>
                     </div>
                   ))
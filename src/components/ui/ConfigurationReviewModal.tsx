@@ -2,17 +2,23 @@ import { useState, useEffect } from 'react';
 import { Button } from './Button';
 import { SaveConfigModal } from './SaveConfigModal';
 import { configService } from '../../services/configService';
-import { X, Check, AlertTriangle, ChevronDown, ChevronUp, Settings, Database, Zap, Clock, DollarSign } from 'lucide-react';
+import { X, Check, AlertTriangle, ChevronDown, ChevronUp, Settings, Database, Zap, Clock, DollarSign, Cpu } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Badge } from './Badge';
 import { fileService, FileMetadata } from '../../services/fileService';
 import { datasetService, ProcessedDataset } from '../../services/datasetService';
 import { useConfigureContext } from '../../pages/configure/ConfigureContext';
+import { getTrainingMethod } from '../../config/trainingMethods';
+import { TrainingResourceEstimate } from '../../utils/trainingEstimateUtils';
 
 interface ConfigurationReviewModalProps {
   isOpen: boolean;
   onClose: () => void;
   onStartTraining: () => void;
+  // Overrides the start button text, e.g. for sweeps
+  startLabel?: string;
+  // Training config problems that must be fixed before starting
+  validationErrors?: string[];
   configuration: {
     selectedBaseModel: any;
     files: any[];
@@ -21,6 +27,8 @@ interface ConfigurationReviewModalProps {
     trainingConfig: any;
     estimatedTime: number;
     estimatedCost: string;
+    resourceEstimate?: TrainingResourceEstimate | null;
+    gpuMemoryTotalGb?: number;
   };
 }
 
@@ -28,6 +36,8 @@ export function ConfigurationReviewModal({
   isOpen, 
   onClose, 
   onStartTraining, 
+  startLabel,
+  validationErrors = [],
   configuration 
 }: ConfigurationReviewModalProps) {
   const { state } = useConfigureContext();
@@ -43,6 +53,9 @@ export function ConfigurationReviewModal({
   const [selectedDatasetMetadata, setSelectedDatasetMetadata] = useState<ProcessedDataset | null>(null);
   const [isLoadingFileMetadata, setIsLoadingFileMetadata] = useState(false);
   const [isDatasetSelected, setIsDatasetSelected] = useState(false);
+  const trainingMethod = getTrainingMethod(configuration.trainingConfig.training_method);
+  const { resourceEstimate, gpuMemoryTotalGb } = configuration;
+  const exceedsGpuMemory = !!resourceEstimate && gpuMemoryTotalGb !== undefined && resourceEstimate.peakMemoryGb > gpuMemoryTotalGb;
   
   // Expandable sections state
   const [expandedSections, setExpandedSections] = useState({
@@ -331,6 +344,16 @@ export function ConfigurationReviewModal({
                   <p className="text-xs text-gray-500 dark:text-gray-400">Train/Val Split</p>
                   <p className="font-medium text-gray-900 dark:text-gray-100">{Math.round(configuration.parameters.cutoff * 100)}%</p>
                 </div>
+                <div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">Training Method</p>
+                  <p className="font-medium text-gray-900 dark:text-gray-100">{trainingMethod.label}</p>
+                </div>
+                {trainingMethod.requiresPreferenceData && (
+                  <div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{trainingMethod.id === 'dpo' ? 'Beta' : 'Lambda'}</p>
+                    <p className="font-medium text-gray-900 dark:text-gray-100">{configuration.trainingConfig.beta}</p>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -342,6 +365,7 @@ export function ConfigurationReviewModal({
               </div>
 
               {/* LoRA Configuration */}
+              {trainingMethod.usesAdapter && (
               <div className="border border-gray-200 dark:border-gray-600 rounded-lg">
                 <button
                   onClick={() => toggleSection('lora')}
@@ -377,6 +401,7 @@ export function ConfigurationReviewModal({
                   )}
                 </AnimatePresence>
               </div>
+              )}
 
               {/* Optimization */}
               <div className="border border-gray-200 dark:border-gray-600 rounded-lg">
@@ -478,7 +503,39 @@ export function ConfigurationReviewModal({
                     <p className="font-medium text-gray-900 dark:text-gray-100">${configuration.estimatedCost}</p>
                   </div>
                 </div>
+                {resourceEstimate && (
+                  <div className="flex items-center space-x-3">
+                    <Cpu className={`h-5 w-5 ${exceedsGpuMemory ? 'text-error-500' : 'text-purple-500'}`} />
+                    <div>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">Peak GPU Memory</p>
+                      <p className="font-medium text-gray-900 dark:text-gray-100">
+                        ~{resourceEstimate.peakMemoryGb.toFixed(1)} GB
+                        {gpuMemoryTotalGb !== undefined && ` of ${gpuMemoryTotalGb.toFixed(0)} GB`}
+                      </p>
+                    </div>
+                  </div>
+                )}
               </div>
+              {validationErrors.length > 0 && (
+                <div className="flex items-start gap-2 rounded-md bg-red-50 dark:bg-red-900/20 p-3 text-sm text-red-700 dark:text-red-300">
+                  <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                  <div>
+                    <p className="font-medium">Fix these settings before starting training:</p>
+                    <ul className="list-disc list-inside mt-1">
+                      {validationErrors.map(message => <li key={message}>{message}</li>)}
+                    </ul>
+                  </div>
+                </div>
+              )}
+              {exceedsGpuMemory && (
+                <div className="flex items-start gap-2 rounded-md bg-warning-50 dark:bg-warning-900/20 p-3 text-sm text-warning-800 dark:text-warning-200">
+                  <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                  <p>
+                    The estimated peak memory exceeds the GPU's capacity, so training will likely fail with an out-of-memory
+                    error. See the Resource Estimate card for settings that reduce memory use.
+                  </p>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -503,9 +560,10 @@ export function ConfigurationReviewModal({
             <Button
               variant="primary"
               onClick={onStartTraining}
+              disabled={validationErrors.length > 0}
               leftIcon={<Zap className="h-4 w-4" />}
             >
-              Start Fine-Tuning
+              {startLabel || 'Start Fine-Tuning'}
             </Button>
           </div>
         </div>
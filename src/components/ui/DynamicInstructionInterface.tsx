@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { Card, CardHeader, CardTitle, CardContent } from './Card';
 import { Button } from './Button';
+import { PromptTemplatePicker } from './PromptTemplatePicker';
 import { Upload, FileText, AlertTriangle, Info, CheckCircle } from 'lucide-react';
 import { useDropzone } from 'react-dropzone';
 import { cn } from '../../utils/cn';
@@ -190,6 +191,11 @@ export default function DynamicInstructionInterface({
 
   const renderStaticInstructionConfig = () => (
     <div className="space-y-4">
+      <PromptTemplatePicker
+        currentContent={staticInstructionText}
+        onApply={setStaticInstructionText}
+        label="Start from a template"
+      />
       <div>
         <label className="block text-sm font-medium mb-2">Static Instruction</label>
         <textarea
@@ -0,0 +1,12 @@
+import { AlertCircle } from 'lucide-react';
+
+// Inline message under an input that fails validation; renders nothing without a message
+export function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return (
+    <p className="text-xs text-red-600 dark:text-red-400 flex items-center">
+      <AlertCircle className="h-3 w-3 mr-1 flex-shrink-0" />
+      {message}
+    </p>
+  );
+}
@@ -0,0 +1,310 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, Save, Trash2, Check, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { GenerationConfig, GenerationPreset } from '../../config/generation';
+import { generationPresetService } from '../../services/generationPresetService';
+
+interface GenerationSettingsProps {
+  value: GenerationConfig;
+  onChange: (value: GenerationConfig) => void;
+  maxTokensRange?: { min: number; max: number; step: number };
+  disabled?: boolean;
+}
+
+interface RangeFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  hint?: [string, string];
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}
+
+function RangeField({ id, label, value, min, max, step, hint, disabled, onChange }: RangeFieldProps) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <label htmlFor={id} className="text-xs font-medium">
+          {label}
+        </label>
+        <span className="text-xs">{value}</span>
+      </div>
+      <input
+        type="range"
+        id={id}
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary-600"
+      />
+      {hint && (
+        <div className="flex justify-between text-xs text-gray-500">
+          <span>{hint[0]}</span>
+          <span>{hint[1]}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Stop sequences are edited as a comma-separated list; \n and \t are accepted as escapes
+function parseStopSequences(text: string): string[] {
+  return text
+    .split(',')
+    .map(sequence => sequence.trim().replace(/\\n/g, '\n').replace(/\\t/g, '\t'))
+    .filter(sequence => sequence.length > 0);
+}
+
+function formatStopSequences(stop: string[]): string {
+  return stop.map(sequence => sequence.replace(/\n/g, '\\n').replace(/\t/g, '\\t')).join(', ');
+}
+
+function isSameConfig(a: GenerationConfig, b: GenerationConfig): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function GenerationSettings({
+  value,
+  onChange,
+  maxTokensRange = { min: 32, max: 2048, step: 32 },
+  disabled = false,
+}: GenerationSettingsProps) {
+  const [presets, setPresets] = useState<GenerationPreset[]>(() => generationPresetService.listPresets());
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [presetName, setPresetName] = useState('');
+  const [stopText, setStopText] = useState(formatStopSequences(value.stop));
+
+  // Keep the stop sequence text in sync when a preset is applied
+  useEffect(() => {
+    setStopText(formatStopSequences(value.stop));
+  }, [value.stop]);
+
+  const activePreset = presets.find(preset => isSameConfig(preset.params, value));
+
+  const update = <K extends keyof GenerationConfig>(key: K, fieldValue: GenerationConfig[K]) => {
+    onChange({ ...value, [key]: fieldValue });
+  };
+
+  const handleSelectPreset = (presetId: string) => {
+    const preset = presets.find(p => p.id === presetId);
+    if (preset) {
+      onChange({ ...preset.params, stop: [...preset.params.stop] });
+    }
+  };
+
+  const handleSavePreset = () => {
+    try {
+      const saved = generationPresetService.savePreset(presetName, value);
+      setPresets(generationPresetService.listPresets());
+      setIsSaving(false);
+      setPresetName('');
+      toast.success(`Saved preset "${saved.name}"`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save preset');
+    }
+  };
+
+  const handleDeletePreset = (preset: GenerationPreset) => {
+    if (!confirm(`Delete preset "${preset.name}"?`)) return;
+    generationPresetService.deletePreset(preset.id);
+    setPresets(generationPresetService.listPresets());
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <label htmlFor="generationPreset" className="text-xs font-medium">
+          Preset
+        </label>
+        <div className="flex items-center gap-2">
+          <select
+            id="generationPreset"
+            value={activePreset?.id || ''}
+            onChange={(e) => handleSelectPreset(e.target.value)}
+            disabled={disabled}
+            className="flex-1 min-w-0 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            <option value="">Custom</option>
+            {presets.map(preset => (
+              <option key={preset.id} value={preset.id}>
+                {preset.name}{preset.builtIn ? '' : ' (saved)'}
+              </option>
+            ))}
+          </select>
+          {activePreset && !activePreset.builtIn && (
+            <button
+              onClick={() => handleDeletePreset(activePreset)}
+              disabled={disabled}
+              className="text-gray-400 hover:text-red-600"
+              aria-label="Delete preset"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          )}
+          {!isSaving && (
+            <button
+              onClick={() => setIsSaving(true)}
+              disabled={disabled}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+              aria-label="Save as preset"
+            >
+              <Save className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+        {activePreset?.description && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">{activePreset.description}</p>
+        )}
+        {isSaving && (
+          <div className="flex items-center gap-1 pt-1">
+            <input
+              autoFocus
+              value={presetName}
+              placeholder="Preset name"
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSavePreset();
+                if (e.key === 'Escape') setIsSaving(false);
+              }}
+              className="flex-1 min-w-0 rounded border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-1.5 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-primary-500"
+            />
+            <button onClick={handleSavePreset} className="text-green-600 hover:text-green-700" aria-label="Save preset">
+              <Check className="h-4 w-4" />
+            </button>
+            <button onClick={() => setIsSaving(false)} className="text-gray-400 hover:text-gray-600" aria-label="Cancel">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      <RangeField
+        id="temperature"
+        label="Temperature"
+        value={value.temperature}
+        min={0}
+        max={2}
+        step={0.1}
+        hint={['Precise', 'Creative']}
+        disabled={disabled}
+        onChange={(v) => update('temperature', v)}
+      />
+
+      <RangeField
+        id="maxTokens"
+        label="Max Tokens"
+        value={value.max_tokens}
+        min={maxTokensRange.min}
+        max={maxTokensRange.max}
+        step={maxTokensRange.step}
+        disabled={disabled}
+        onChange={(v) => update('max_tokens', v)}
+      />
+
+      <button
+        onClick={() => setShowAdvanced(!showAdvanced)}
+        className="flex items-center gap-1 text-xs font-medium text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200"
+      >
+        {showAdvanced ? <ChevronUp className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
+        Advanced sampling
+      </button>
+
+      {showAdvanced && (
+        <div className="space-y-3">
+          <RangeField
+            id="topP"
+            label="Top P"
+            value={value.top_p}
+            min={0}
+            max={1}
+            step={0.05}
+            disabled={disabled}
+            onChange={(v) => update('top_p', v)}
+          />
+          <RangeField
+            id="topK"
+            label="Top K (0 = off)"
+            value={value.top_k}
+            min={0}
+            max={200}
+            step={1}
+            disabled={disabled}
+            onChange={(v) => update('top_k', v)}
+          />
+          <RangeField
+            id="repetitionPenalty"
+            label="Repetition Penalty"
+            value={value.repetition_penalty}
+            min={1}
+            max={2}
+            step={0.05}
+            disabled={disabled}
+            onChange={(v) => update('repetition_penalty', v)}
+          />
+          <RangeField
+            id="presencePenalty"
+            label="Presence Penalty"
+            value={value.presence_penalty}
+            min={-2}
+            max={2}
+            step={0.1}
+            disabled={disabled}
+            onChange={(v) => update('presence_penalty', v)}
+          />
+          <RangeField
+            id="frequencyPenalty"
+            label="Frequency Penalty"
+            value={value.frequency_penalty}
+            min={-2}
+            max={2}
+            step={0.1}
+            disabled={disabled}
+            onChange={(v) => update('frequency_penalty', v)}
+          />
+
+          <div className="space-y-1">
+            <label htmlFor="stopSequences" className="text-xs font-medium">
+              Stop Sequences
+            </label>
+            <input
+              id="stopSequences"
+              type="text"
+              value={stopText}
+              placeholder="e.g. ###, \n\n"
+              disabled={disabled}
+              onChange={(e) => setStopText(e.target.value)}
+              onBlur={() => update('stop', parseStopSequences(stopText))}
+              className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400">Comma-separated</p>
+          </div>
+
+          <div className="space-y-1">
+            <label htmlFor="seed" className="text-xs font-medium">
+              Seed
+            </label>
+            <input
+              id="seed"
+              type="number"
+              min={0}
+              value={value.seed ?? ''}
+              placeholder="Random"
+              disabled={disabled}
+              onChange={(e) => update('seed', e.target.value === '' ? null : parseInt(e.target.value))}
+              className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default GenerationSettings;
@@ -0,0 +1,91 @@
+import { Braces } from 'lucide-react';
+import { parseJsonSchema, toJsonSchema } from '../../utils/jsonSchemaUtils';
+
+interface JsonSchemaSettingsProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  schemaText: string;
+  onSchemaTextChange: (schemaText: string) => void;
+  // output_schema of the selected model, offered as a starting point
+  modelSchema?: Record<string, unknown> | null;
+  disabled?: boolean;
+}
+
+export function JsonSchemaSettings({
+  enabled,
+  onEnabledChange,
+  schemaText,
+  onSchemaTextChange,
+  modelSchema,
+  disabled = false,
+}: JsonSchemaSettingsProps) {
+  const { error } = parseJsonSchema(schemaText);
+  const hasModelSchema = !!modelSchema && Object.keys(modelSchema).length > 0;
+
+  const handleUseModelSchema = () => {
+    if (modelSchema) {
+      onSchemaTextChange(JSON.stringify(toJsonSchema(modelSchema), null, 2));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-start space-x-3">
+        <input
+          type="checkbox"
+          id="jsonMode"
+          checked={enabled}
+          disabled={disabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="h-4 w-4 mt-0.5 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+        />
+        <div>
+          <label htmlFor="jsonMode" className="text-xs font-medium flex items-center gap-1">
+            <Braces className="h-3.5 w-3.5" />
+            JSON Mode
+          </label>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Constrain responses to a JSON schema and validate each one
+          </p>
+        </div>
+      </div>
+
+      {enabled && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <label htmlFor="jsonSchema" className="text-xs font-medium">
+              Schema
+            </label>
+            {hasModelSchema && (
+              <button
+                onClick={handleUseModelSchema}
+                disabled={disabled}
+                className="text-xs text-primary-600 hover:text-primary-700 dark:text-primary-400"
+              >
+                Use model output schema
+              </button>
+            )}
+          </div>
+          <textarea
+            id="jsonSchema"
+            value={schemaText}
+            disabled={disabled}
+            onChange={(e) => onSchemaTextChange(e.target.value)}
+            rows={6}
+            spellCheck={false}
+            placeholder={'{\n  "type": "object",\n  "properties": { "label": { "type": "string" } },\n  "required": ["label"]\n}'}
+            className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 py-1.5 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          {error && schemaText.trim() && (
+            <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+          )}
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            JSON Schema, or a simple field → type map such as {'{"label": "string"}'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default JsonSchemaSettings;
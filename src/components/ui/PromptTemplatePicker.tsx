@@ -0,0 +1,303 @@
+import { useState, useEffect } from 'react';
+import { Save, Trash2, Tag, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from './Button';
+import { Badge } from './Badge';
+import {
+  promptTemplateService,
+  builtInPromptTemplates,
+  fillTemplate,
+  PromptTemplate,
+  PromptTemplateMetadata,
+} from '../../services/promptTemplateService';
+
+interface PromptTemplatePickerProps {
+  // Text currently in the prompt field, used when saving a new template
+  currentContent: string;
+  onApply: (content: string) => void;
+  label?: string;
+  disabled?: boolean;
+}
+
+export function PromptTemplatePicker({
+  currentContent,
+  onApply,
+  label = 'Prompt Templates',
+  disabled = false,
+}: PromptTemplatePickerProps) {
+  const [templates, setTemplates] = useState<PromptTemplateMetadata[]>(builtInPromptTemplates.map(t => t.metadata));
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+  const [tagFilter, setTagFilter] = useState('');
+  const [selectedName, setSelectedName] = useState('');
+  const [versions, setVersions] = useState<PromptTemplateMetadata[]>([]);
+  const [activeTemplate, setActiveTemplate] = useState<PromptTemplate | null>(null);
+  const [variableValues, setVariableValues] = useState<Record<string, string>>({});
+  const [showSaveForm, setShowSaveForm] = useState(false);
+  const [saveName, setSaveName] = useState('');
+  const [saveDescription, setSaveDescription] = useState('');
+  const [saveTags, setSaveTags] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Load the template library on component mount
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const loadTemplates = async () => {
+    try {
+      setLibraryError(null);
+      const response = await promptTemplateService.listTemplates();
+      setTemplates([...builtInPromptTemplates.map(t => t.metadata), ...response.templates]);
+    } catch (err) {
+      // Built-in templates stay usable when the library is unreachable
+      setLibraryError('Saved templates are unavailable');
+      console.error('Error loading prompt templates:', err);
+    }
+  };
+
+  const allTags = Array.from(new Set(templates.flatMap(t => t.tags || []))).sort();
+  const visibleTemplates = tagFilter ? templates.filter(t => t.tags?.includes(tagFilter)) : templates;
+
+  const activateTemplate = (template: PromptTemplate) => {
+    setActiveTemplate(template);
+    setVariableValues({});
+    // Templates without variables are applied straight away
+    if (template.metadata.variables.length === 0) {
+      onApply(template.content);
+    }
+  };
+
+  const handleSelectTemplate = async (name: string) => {
+    setSelectedName(name);
+    setVersions([]);
+    setActiveTemplate(null);
+    if (!name) return;
+
+    const builtIn = builtInPromptTemplates.find(t => t.metadata.name === name);
+    if (builtIn) {
+      activateTemplate(builtIn);
+      return;
+    }
+
+    try {
+      const [loaded, history] = await Promise.all([
+        promptTemplateService.loadTemplate(name),
+        promptTemplateService.listVersions(name).catch(() => ({ status: 'error', versions: [] })),
+      ]);
+      setVersions(history.versions);
+      activateTemplate(loaded.template);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load template');
+    }
+  };
+
+  const handleSelectVersion = async (version: number) => {
+    try {
+      const loaded = await promptTemplateService.loadTemplate(selectedName, version);
+      activateTemplate(loaded.template);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load template version');
+    }
+  };
+
+  const handleApplyVariables = () => {
+    if (!activeTemplate) return;
+    const missing = activeTemplate.metadata.variables.filter(name => !variableValues[name]?.trim());
+    if (missing.length > 0) {
+      toast.error(`Fill in: ${missing.join(', ')}`);
+      return;
+    }
+    onApply(fillTemplate(activeTemplate.content, variableValues));
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!saveName.trim()) {
+      toast.error('Template name is required');
+      return;
+    }
+    if (!currentContent.trim()) {
+      toast.error('Write a prompt before saving it as a template');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const response = await promptTemplateService.saveTemplate({
+        name: saveName.trim(),
+        description: saveDescription.trim(),
+        tags: saveTags.split(',').map(tag => tag.trim()).filter(Boolean),
+        content: currentContent,
+      });
+      toast.success(`Saved "${saveName.trim()}"${response.version ? ` (v${response.version})` : ''}`);
+      setShowSaveForm(false);
+      setSaveName('');
+      setSaveDescription('');
+      setSaveTags('');
+      await loadTemplates();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!selectedName || !confirm(`Are you sure you want to delete the template "${selectedName}" and all its versions?`)) {
+      return;
+    }
+
+    try {
+      await promptTemplateService.deleteTemplate(selectedName);
+      setSelectedName('');
+      setActiveTemplate(null);
+      setVersions([]);
+      await loadTemplates();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete template');
+    }
+  };
+
+  const selectedMetadata = templates.find(t => t.name === selectedName);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="block text-xs font-medium">{label}</label>
+        {allTags.length > 0 && (
+          <div className="flex items-center gap-1 text-xs text-gray-500">
+            <Tag className="h-3 w-3" />
+            <select
+              value={tagFilter}
+              onChange={(e) => setTagFilter(e.target.value)}
+              className="bg-transparent text-xs focus:outline-none"
+            >
+              <option value="">All tags</option>
+              {allTags.map(tag => (
+                <option key={tag} value={tag}>{tag}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <select
+          value={selectedName}
+          onChange={(e) => handleSelectTemplate(e.target.value)}
+          disabled={disabled}
+          className="flex-1 min-w-0 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+        >
+          <option value="">Select a template...</option>
+          {visibleTemplates.map(template => (
+            <option key={template.name} value={template.name}>
+              {template.name}{template.builtIn ? '' : ` (v${template.version})`}
+            </option>
+          ))}
+        </select>
+        {selectedMetadata && !selectedMetadata.builtIn && (
+          <button
+            onClick={handleDeleteTemplate}
+            disabled={disabled}
+            className="text-gray-400 hover:text-red-600"
+            aria-label="Delete template"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        )}
+        <button
+          onClick={() => setShowSaveForm(!showSaveForm)}
+          disabled={disabled}
+          className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          aria-label="Save as template"
+        >
+          <Save className="h-4 w-4" />
+        </button>
+      </div>
+
+      {libraryError && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">{libraryError}</p>
+      )}
+
+      {activeTemplate && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-1">
+            {activeTemplate.metadata.tags?.map(tag => (
+              <Badge key={tag} variant="outline" size="sm">{tag}</Badge>
+            ))}
+            {versions.length > 1 && (
+              <select
+                value={activeTemplate.metadata.version}
+                onChange={(e) => handleSelectVersion(parseInt(e.target.value))}
+                className="ml-auto rounded border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-1.5 py-0.5 text-xs"
+              >
+                {versions.map(version => (
+                  <option key={version.version} value={version.version}>
+                    v{version.version}{version.created_at && ` · ${new Date(version.created_at).toLocaleDateString()}`}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+          {activeTemplate.metadata.description && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">{activeTemplate.metadata.description}</p>
+          )}
+
+          {activeTemplate.metadata.variables.length > 0 && (
+            <div className="space-y-2 rounded-md border border-gray-200 dark:border-gray-700 p-2">
+              {activeTemplate.metadata.variables.map(name => (
+                <div key={name}>
+                  <label className="block text-xs font-medium mb-0.5 font-mono">{`{{${name}}}`}</label>
+                  <input
+                    value={variableValues[name] || ''}
+                    onChange={(e) => setVariableValues(prev => ({ ...prev, [name]: e.target.value }))}
+                    className="w-full rounded border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-primary-500"
+                  />
+                </div>
+              ))}
+              <Button size="sm" variant="outline" className="w-full" onClick={handleApplyVariables} disabled={disabled}>
+                Apply Template
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {showSaveForm && (
+        <div className="space-y-2 rounded-md border border-gray-200 dark:border-gray-700 p-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium">Save current prompt as template</span>
+            <button onClick={() => setShowSaveForm(false)} className="text-gray-400 hover:text-gray-600" aria-label="Cancel">
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+          <input
+            value={saveName}
+            onChange={(e) => setSaveName(e.target.value)}
+            placeholder="Name (existing names get a new version)"
+            className="w-full rounded border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-primary-500"
+          />
+          <input
+            value={saveDescription}
+            onChange={(e) => setSaveDescription(e.target.value)}
+            placeholder="Description (optional)"
+            className="w-full rounded border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-primary-500"
+          />
+          <input
+            value={saveTags}
+            onChange={(e) => setSaveTags(e.target.value)}
+            placeholder="Tags, comma-separated"
+            className="w-full rounded border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-primary-500"
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Use {'{{variable}}'} placeholders for values filled in when the template is applied
+          </p>
+          <Button size="sm" className="w-full" onClick={handleSaveTemplate} isLoading={isSaving}>
+            Save Template
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default PromptTemplatePicker;
@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { ConversationMessage, RenderedPrompt } from '../../services/chatApi';
+import {
+  ChatTemplateFamily,
+  CHAT_TEMPLATE_FAMILIES,
+  SPECIAL_TOKEN_PATTERN,
+  detectTemplateFamily,
+  renderChatTemplate,
+  estimatePromptTokens,
+} from '../../utils/chatTemplateUtils';
+import { DEFAULT_MAX_SEQUENCE_LENGTH } from '../../utils/chatUtils';
+import { Progress } from './Progress';
+import { cn } from '../../utils/cn';
+
+interface RawPromptPreviewProps {
+  messages: ConversationMessage[];
+  modelName?: string;
+  maxSequenceLength?: number;
+  // Prompt rendered by the backend tokenizer; when present it replaces the local estimate
+  rendered?: RenderedPrompt | null;
+  addGenerationPrompt?: boolean;
+  className?: string;
+}
+
+export function RawPromptPreview({
+  messages,
+  modelName,
+  maxSequenceLength = DEFAULT_MAX_SEQUENCE_LENGTH,
+  rendered,
+  addGenerationPrompt = true,
+  className,
+}: RawPromptPreviewProps) {
+  const [familyOverride, setFamilyOverride] = useState<ChatTemplateFamily | ''>('');
+  const family = familyOverride || detectTemplateFamily(modelName);
+
+  const prompt = rendered?.prompt ?? renderChatTemplate(messages, family, addGenerationPrompt);
+  const tokenCount = rendered?.token_count ?? estimatePromptTokens(prompt);
+  const limit = rendered?.max_sequence_length || maxSequenceLength;
+  const usage = Math.min((tokenCount / limit) * 100, 100);
+  const overLimit = tokenCount > limit;
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs">
+        {rendered ? (
+          <span className="text-gray-500 dark:text-gray-400">Rendered by the model tokenizer</span>
+        ) : (
+          <select
+            value={family}
+            onChange={(e) => setFamilyOverride(e.target.value as ChatTemplateFamily)}
+            className="rounded border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-1.5 py-0.5 text-xs"
+            aria-label="Chat template"
+          >
+            {CHAT_TEMPLATE_FAMILIES.map(option => (
+              <option key={option.id} value={option.id}>{option.name}</option>
+            ))}
+          </select>
+        )}
+        <span className={cn('font-medium', overLimit ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-300')}>
+          {rendered ? '' : '~'}{tokenCount.toLocaleString()} / {limit.toLocaleString()} tokens
+        </span>
+      </div>
+      <Progress value={usage} size="sm" variant={overLimit ? 'error' : usage > 80 ? 'warning' : 'primary'} />
+
+      <pre className="max-h-72 overflow-auto whitespace-pre-wrap break-words rounded bg-gray-50 dark:bg-gray-900 p-3 text-xs font-mono">
+        {prompt.split(SPECIAL_TOKEN_PATTERN).map((part, index) =>
+          // split() with a capture group puts the special tokens at odd indexes
+          index % 2 === 1 ? (
+            <span key={index} className="rounded bg-primary-100 dark:bg-primary-900/40 px-0.5 text-primary-700 dark:text-primary-300">
+              {part}
+            </span>
+          ) : (
+            <span key={index}>{part}</span>
+          )
+        )}
+      </pre>
+
+      {overLimit && (
+        <p className="text-xs text-red-600 dark:text-red-400">
+          Prompt exceeds the model's {limit.toLocaleString()}-token context; the start will be truncated.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default RawPromptPreview;
@@ -0,0 +1,72 @@
+import { CheckCircle, AlertTriangle } from 'lucide-react';
+import { JsonSchema, validateJsonOutput, toAnnotatedJsonLines } from '../../utils/jsonSchemaUtils';
+import { cn } from '../../utils/cn';
+
+interface StructuredOutputViewProps {
+  output: unknown;
+  schema: JsonSchema;
+  className?: string;
+}
+
+export function StructuredOutputView({ output, schema, className }: StructuredOutputViewProps) {
+  const validation = validateJsonOutput(output, schema);
+
+  if (validation.parseError) {
+    return (
+      <div className={cn('space-y-2', className)}>
+        <div className="flex items-center gap-1.5 text-xs font-medium text-red-600 dark:text-red-400">
+          <AlertTriangle className="h-3.5 w-3.5" />
+          Not valid JSON: {validation.parseError}
+        </div>
+        <pre className="whitespace-pre-wrap break-words rounded bg-red-50 dark:bg-red-900/20 p-3 text-xs font-mono">
+          {typeof output === 'string' ? output : JSON.stringify(output)}
+        </pre>
+      </div>
+    );
+  }
+
+  const violationPaths = new Set(validation.violations.map(violation => violation.path));
+  const lines = toAnnotatedJsonLines(validation.parsed);
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div
+        className={cn(
+          'flex items-center gap-1.5 text-xs font-medium',
+          validation.valid ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+        )}
+      >
+        {validation.valid ? <CheckCircle className="h-3.5 w-3.5" /> : <AlertTriangle className="h-3.5 w-3.5" />}
+        {validation.valid
+          ? 'Matches schema'
+          : `${validation.violations.length} schema violation${validation.violations.length === 1 ? '' : 's'}`}
+      </div>
+
+      <pre className="overflow-x-auto rounded bg-gray-50 dark:bg-gray-900 py-2 text-xs font-mono">
+        {lines.map((line, index) => (
+          <div
+            key={index}
+            className={cn(
+              'px-3',
+              violationPaths.has(line.path) && 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+            )}
+          >
+            {line.text}
+          </div>
+        ))}
+      </pre>
+
+      {validation.violations.length > 0 && (
+        <ul className="space-y-0.5 text-xs text-red-600 dark:text-red-400">
+          {validation.violations.map((violation, index) => (
+            <li key={index}>
+              <span className="font-mono">{violation.path}</span>: {violation.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default StructuredOutputView;
@@ -46,6 +46,8 @@ export const API_ENDPOINTS = {
   CHAT_CONVERSATION: '/chat/conversation',
   CHAT_QUICK: '/chat/quick',
   CHAT_STREAM: '/chat/stream',
+  CHAT_CONVERSATION_STREAM: '/chat/conversation/stream',
+  CHAT_TEMPLATE_PREVIEW: '/chat/template/preview',
 
   // Evaluation
   EVALUATE_PREDICT: '/evaluate/predict',
@@ -60,15 +62,59 @@ export const API_ENDPOINTS = {
   CONFIGS_LOAD: (configName: string) => `/api/configs/${configName}`,
   CONFIGS_DELETE: (configName: string) => `/api/configs/${configName}`,
 
+  // Prompt templates
+  PROMPTS_SAVE: '/api/prompts/save',
+  PROMPTS_LIST: '/api/prompts/list',
+  PROMPTS_LOAD: (templateName: string) => `/api/prompts/${templateName}`,
+  PROMPTS_VERSIONS: (templateName: string) => `/api/prompts/${templateName}/versions`,
+  PROMPTS_DELETE: (templateName: string) => `/api/prompts/${templateName}`,
+
+  // Model export
+  MODEL_EXPORT: (sessionId: string) => `/api/training/${sessionId}/export`,
+  MODEL_EXPORTS: (sessionId: string) => `/api/training/${sessionId}/exports`,
+  EXPORT_JOB: (jobId: string) => `/api/exports/${jobId}`,
+  EXPORT_DOWNLOAD_LINK: (jobId: string) => `/api/exports/${jobId}/download-link`,
+
+  // Deployments
+  DEPLOYMENTS: '/api/deployments',
+  DEPLOYMENT: (deploymentId: string) => `/api/deployments/${deploymentId}`,
+  DEPLOYMENT_START: (deploymentId: string) => `/api/deployments/${deploymentId}/start`,
+  DEPLOYMENT_STOP: (deploymentId: string) => `/api/deployments/${deploymentId}/stop`,
+  DEPLOYMENT_GENERATE: (deploymentId: string) => `/api/deployments/${deploymentId}/generate`,
+
   // Training sessions
   TRAINING_SESSIONS: '/api/training/sessions',
   TRAINING_SESSION_STATUS: (sessionId: string) => `/api/training/${sessionId}/status`,
   TRAINING_SESSION_LOGS: (sessionId: string) => `/api/training/${sessionId}/logs`,
+  TRAINING_SESSION_LOG_STREAM: (sessionId: string) => `/api/training/${sessionId}/logs/stream`,
   TRAINING_SESSION_METRICS: (sessionId: string) => `/api/training/${sessionId}/metrics`,
   TRAINING_SESSION_FILES: (sessionId: string) => `/api/training/${sessionId}/files`,
   TRAINING_SESSION_DELETE: (sessionId: string) => `/api/training/${sessionId}`,
+  TRAINING_SESSION_CANCEL: (sessionId: string) => `/api/training/${sessionId}/cancel`,
+  TRAINING_SESSION_PAUSE: (sessionId: string) => `/api/training/${sessionId}/pause`,
+  TRAINING_SESSION_RESUME: (sessionId: string) => `/api/training/${sessionId}/resume`,
+  TRAINING_SESSION_CHECKPOINTS: (sessionId: string) => `/api/training/${sessionId}/checkpoints`,
+  TRAINING_SWEEPS: '/api/training/sweeps',
+  TRAINING_SWEEP: (sweepId: string) => `/api/training/sweeps/${sweepId}`,
+  TRAINING_QUEUE: '/api/training/queue',
   TRAINING_DASHBOARD_STATS: '/api/training/dashboard/stats',
 
+  // API keys
+  API_KEYS: '/api/keys',
+  API_KEY_REVOKE: (keyId: string) => `/api/keys/${keyId}`,
+
+  // User settings
+  SETTINGS: '/api/settings',
+
+  // Authentication
+  AUTH_LOGIN: '/api/auth/login',
+  AUTH_LOGOUT: '/api/auth/logout',
+  AUTH_ME: '/api/auth/me',
+  AUTH_OIDC_CALLBACK: '/api/auth/oidc/callback',
+
+  // Audit log
+  AUDIT_EVENTS: '/api/audit/events',
+
   // Monitoring
   LOGS: '/api/logs',
   STATUS: '/api/status',
@@ -0,0 +1,22 @@
+// Sign-in configuration. OIDC is optional; without an issuer only username/password login is offered
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  scope: string;
+  // Path the IdP redirects back to after sign-in
+  redirectPath: string;
+}
+
+const getOidcConfig = (): OidcConfig | null => {
+  const issuer = import.meta.env.VITE_OIDC_ISSUER;
+  if (!issuer) return null;
+
+  return {
+    issuer: issuer.replace(/\/$/, ''),
+    clientId: import.meta.env.VITE_OIDC_CLIENT_ID || 'llm-studio',
+    scope: 'openid profile email',
+    redirectPath: '/auth/callback',
+  };
+};
+
+export const OIDC_CONFIG = getOidcConfig();
@@ -0,0 +1,28 @@
+// Model export formats and quantization options
+export type ExportFormat = 'gguf' | 'safetensors' | 'pytorch' | 'adapter';
+
+export type GgufQuantization = 'f16' | 'q8_0' | 'q6_k' | 'q5_k_m' | 'q4_k_m' | 'q4_0';
+
+export interface ExportFormatOption {
+  id: ExportFormat;
+  name: string;
+  description: string;
+  // Whether the LoRA adapter is merged into the base model weights
+  merged: boolean;
+}
+
+export const EXPORT_FORMATS: ExportFormatOption[] = [
+  { id: 'gguf', name: 'GGUF', description: 'Merged, quantized single file for llama.cpp, Ollama and LM Studio', merged: true },
+  { id: 'safetensors', name: 'SafeTensors', description: 'Merged full-precision weights for Transformers and vLLM', merged: true },
+  { id: 'pytorch', name: 'PyTorch', description: 'Merged weights as PyTorch .bin checkpoints', merged: true },
+  { id: 'adapter', name: 'Adapter only', description: 'LoRA adapter weights, loaded on top of the base model', merged: false },
+];
+
+export const GGUF_QUANTIZATIONS: { id: GgufQuantization; name: string; description: string }[] = [
+  { id: 'f16', name: 'F16', description: 'No quantization, largest file' },
+  { id: 'q8_0', name: 'Q8_0', description: 'Near-lossless, about half of F16' },
+  { id: 'q6_k', name: 'Q6_K', description: 'Very close to Q8_0, smaller' },
+  { id: 'q5_k_m', name: 'Q5_K_M', description: 'High quality, good size' },
+  { id: 'q4_k_m', name: 'Q4_K_M', description: 'Recommended balance of size and quality' },
+  { id: 'q4_0', name: 'Q4_0', description: 'Smallest, lowest accuracy' },
+];
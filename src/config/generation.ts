@@ -0,0 +1,82 @@
+export interface GenerationConfig {
+  // Maximum number of new tokens to generate
+  max_tokens: number;
+
+  // Sampling temperature (0 = greedy)
+  temperature: number;
+
+  // Nucleus sampling: keep the smallest token set with this cumulative probability
+  top_p: number;
+
+  // Keep only the K most likely tokens (0 = disabled)
+  top_k: number;
+
+  // Penalise tokens that already appeared (1.0 = no penalty)
+  repetition_penalty: number;
+
+  // OpenAI-style penalties for tokens already present / by frequency
+  presence_penalty: number;
+  frequency_penalty: number;
+
+  // Generation stops when any of these strings is produced
+  stop: string[];
+
+  // Fixed seed for reproducible sampling (null = random)
+  seed: number | null;
+}
+
+// Default configuration values
+export const defaultGenerationConfig: GenerationConfig = {
+  max_tokens: 256,
+  temperature: 0.7,
+  top_p: 1.0,
+  top_k: 0,
+  repetition_penalty: 1.0,
+  presence_penalty: 0.0,
+  frequency_penalty: 0.0,
+  stop: [],
+  seed: null,
+};
+
+export interface GenerationPreset {
+  id: string;
+  name: string;
+  description?: string;
+  params: GenerationConfig;
+  builtIn?: boolean;
+  created_at?: string;
+}
+
+// Presets shipped with the app; these cannot be edited or deleted
+export const builtInGenerationPresets: GenerationPreset[] = [
+  {
+    id: 'builtin_precise',
+    name: 'Precise',
+    description: 'Near-deterministic output for extraction and classification',
+    params: { ...defaultGenerationConfig, temperature: 0.1, top_p: 0.9, top_k: 20, seed: 42 },
+    builtIn: true,
+  },
+  {
+    id: 'builtin_balanced',
+    name: 'Balanced',
+    description: 'General purpose defaults',
+    params: { ...defaultGenerationConfig },
+    builtIn: true,
+  },
+  {
+    id: 'builtin_creative',
+    name: 'Creative',
+    description: 'More varied output for brainstorming and writing',
+    params: { ...defaultGenerationConfig, temperature: 1.1, top_p: 0.95, top_k: 80, repetition_penalty: 1.1, presence_penalty: 0.3 },
+    builtIn: true,
+  },
+];
+
+// Validate and merge user config with defaults
+export function createGenerationConfig(userConfig: Partial<GenerationConfig>): GenerationConfig {
+  return {
+    ...defaultGenerationConfig,
+    ...userConfig,
+    stop: (userConfig.stop || []).filter(sequence => sequence.length > 0),
+  };
+}
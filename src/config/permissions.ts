@@ -0,0 +1,66 @@
+// Roles and what each one may do. Deletes are limited to the user's own
+// resources unless the role grants them for any resource in the workspace.
+export type UserRole = 'viewer' | 'member' | 'admin';
+
+export type Permission =
+  | 'files:delete'
+  | 'datasets:delete'
+  | 'configs:delete'
+  | 'training:delete'
+  | 'predictions:delete'
+  | 'training:launch'
+  | 'training:control'
+  | 'audit:view';
+
+export type PermissionScope = 'own' | 'any';
+
+// Anything with a recorded creator, e.g. a session, dataset or saved config
+export interface OwnedResource {
+  created_by?: string;
+}
+
+export const ROLE_PERMISSIONS: Record<UserRole, Partial<Record<Permission, PermissionScope>>> = {
+  viewer: {},
+  member: {
+    'files:delete': 'own',
+    'datasets:delete': 'own',
+    'configs:delete': 'own',
+    'training:delete': 'own',
+    'predictions:delete': 'own',
+    'training:launch': 'any',
+    'training:control': 'own',
+  },
+  admin: {
+    'files:delete': 'any',
+    'datasets:delete': 'any',
+    'configs:delete': 'any',
+    'training:delete': 'any',
+    'predictions:delete': 'any',
+    'training:launch': 'any',
+    'training:control': 'any',
+    'audit:view': 'any',
+  },
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  viewer: 'Viewer',
+  member: 'Member',
+  admin: 'Admin',
+};
+
+/**
+ * Whether a role may perform an action. Own-only permissions are checked against
+ * the resource's creator and denied when there is no resource or no recorded creator.
+ */
+export function hasPermission(
+  role: UserRole | undefined,
+  username: string | undefined,
+  permission: Permission,
+  resource?: OwnedResource
+): boolean {
+  // Users from before roles existed get the most restrictive one
+  const scope = ROLE_PERMISSIONS[role ?? 'viewer'][permission];
+  if (!scope) return false;
+  if (scope === 'any') return true;
+  return !!username && !!resource && resource.created_by === username;
+}
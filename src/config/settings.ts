@@ -0,0 +1,88 @@
+// User settings persisted by settingsService
+import { GenerationConfig, defaultGenerationConfig } from './generation';
+import { ExportFormat, GgufQuantization } from './export';
+
+export interface ModelSettings {
+  cacheResults: boolean;
+  logPredictions: boolean;
+  defaultDownloadFormat: ExportFormat;
+  defaultPrecision: GgufQuantization;
+}
+
+export interface DeploymentSettings {
+  apiEndpointEnabled: boolean;
+  publicModelAccess: boolean;
+  authRequired: boolean;
+  rateLimit: number; // requests per minute
+  streamingEnabled: boolean;
+}
+
+export interface ChatSettings {
+  // Starting sampling parameters for chat, playground and predictions
+  generation: GenerationConfig;
+}
+
+export interface TrainingDefaults {
+  epochs: number;
+  learningRate: number;
+  batchSize: number;
+  maxSequenceLength: number;
+}
+
+export interface UiSettings {
+  // How often progress pages refresh, in milliseconds
+  pollingIntervalMs: number;
+}
+
+export interface UserSettings {
+  model: ModelSettings;
+  deployment: DeploymentSettings;
+  chat: ChatSettings;
+  training: TrainingDefaults;
+  ui: UiSettings;
+}
+
+export const defaultUserSettings: UserSettings = {
+  model: {
+    cacheResults: true,
+    logPredictions: true,
+    defaultDownloadFormat: 'gguf',
+    defaultPrecision: 'f16',
+  },
+  deployment: {
+    apiEndpointEnabled: true,
+    publicModelAccess: false,
+    authRequired: true,
+    rateLimit: 100,
+    streamingEnabled: true,
+  },
+  chat: {
+    generation: defaultGenerationConfig,
+  },
+  training: {
+    epochs: 3,
+    learningRate: 0.0002,
+    batchSize: 8,
+    maxSequenceLength: 2048,
+  },
+  ui: {
+    pollingIntervalMs: 3000,
+  },
+};
+
+export const POLLING_INTERVAL_OPTIONS = [1000, 2000, 3000, 5000, 10000];
+
+/**
+ * Fill in any sections or fields missing from stored settings (e.g. saved by an older version)
+ */
+export function mergeUserSettings(settings: Partial<{ [K in keyof UserSettings]: Partial<UserSettings[K]> }> = {}): UserSettings {
+  return {
+    model: { ...defaultUserSettings.model, ...settings.model },
+    deployment: { ...defaultUserSettings.deployment, ...settings.deployment },
+    chat: {
+      generation: { ...defaultUserSettings.chat.generation, ...settings.chat?.generation },
+    },
+    training: { ...defaultUserSettings.training, ...settings.training },
+    ui: { ...defaultUserSettings.ui, ...settings.ui },
+  };
+}
@@ -0,0 +1,86 @@
+// Hyperparameter sweep options: which fields can be swept and how runs are generated
+export type SweepStrategy = 'grid' | 'random';
+
+export type SweepParameterKey =
+  | 'learningRate'
+  | 'epochs'
+  | 'batchSize'
+  | 'lora_rank'
+  | 'lora_alpha'
+  | 'lora_dropout'
+  | 'warmup_steps'
+  | 'weight_decay'
+  | 'lr_scheduler_type';
+
+export interface SweepParameterOption {
+  key: SweepParameterKey;
+  label: string;
+  // Which part of the configure state the base value comes from
+  source: 'parameters' | 'trainingConfig';
+  // Field name in the fine-tune request
+  payloadKey: string;
+  type: 'float' | 'int' | 'choice';
+  // Allowed values for choice parameters
+  choices?: string[];
+  // Sample ranges on a log scale by default (learning rates span orders of magnitude)
+  logScale?: boolean;
+}
+
+export const SWEEP_PARAMETERS: SweepParameterOption[] = [
+  { key: 'learningRate', label: 'Learning Rate', source: 'parameters', payloadKey: 'learning_rate', type: 'float', logScale: true },
+  { key: 'epochs', label: 'Epochs', source: 'parameters', payloadKey: 'num_train_epochs', type: 'int' },
+  { key: 'batchSize', label: 'Batch Size', source: 'parameters', payloadKey: 'per_device_train_batch_size', type: 'int' },
+  { key: 'lora_rank', label: 'LoRA Rank', source: 'trainingConfig', payloadKey: 'lora_r', type: 'int' },
+  { key: 'lora_alpha', label: 'LoRA Alpha', source: 'trainingConfig', payloadKey: 'lora_alpha', type: 'int' },
+  { key: 'lora_dropout', label: 'LoRA Dropout', source: 'trainingConfig', payloadKey: 'lora_dropout', type: 'float' },
+  { key: 'warmup_steps', label: 'Warmup Steps', source: 'trainingConfig', payloadKey: 'warmup_steps', type: 'int' },
+  { key: 'weight_decay', label: 'Weight Decay', source: 'trainingConfig', payloadKey: 'weight_decay', type: 'float' },
+  {
+    key: 'lr_scheduler_type',
+    label: 'LR Scheduler',
+    source: 'trainingConfig',
+    payloadKey: 'lr_scheduler_type',
+    type: 'choice',
+    choices: ['cosine', 'linear', 'polynomial', 'constant', 'constant_with_warmup'],
+  },
+];
+
+export type SweepValue = number | string;
+
+// Values for the swept fields of one run
+export type SweepRunValues = Partial<Record<SweepParameterKey, SweepValue>>;
+
+// One swept field: either an explicit list of values or a numeric range
+export interface SweepDimension {
+  key: SweepParameterKey;
+  mode: 'list' | 'range';
+  values: SweepValue[];
+  min: number;
+  max: number;
+  // Points taken from the range in grid search; random search samples it freely
+  steps: number;
+}
+
+export interface SweepConfig {
+  enabled: boolean;
+  strategy: SweepStrategy;
+  maxRuns: number;
+  dimensions: SweepDimension[];
+}
+
+// Every run waits for the same GPU, so keep sweeps small
+export const MAX_SWEEP_RUNS = 32;
+
+export const defaultSweepConfig: SweepConfig = {
+  enabled: false,
+  strategy: 'grid',
+  maxRuns: 8,
+  dimensions: [],
+};
+
+export const getSweepParameter = (key: SweepParameterKey): SweepParameterOption =>
+  SWEEP_PARAMETERS.find(option => option.key === key)!;
+
+// Label for a swept field, falling back to the raw key for fields this client doesn't know
+export const getSweepParameterLabel = (key: string): string =>
+  SWEEP_PARAMETERS.find(option => option.key === key)?.label ?? key;
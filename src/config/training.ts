@@ -1,4 +1,10 @@
+// How the model's weights are updated; see TRAINING_METHODS for what each one needs
+export type TrainingMethod = 'lora' | 'qlora' | 'full' | 'dpo' | 'orpo';
+
 export interface TrainingConfig {
+  // Adapter, full-parameter or preference-optimization training
+  training_method: TrainingMethod;
+
   // Number of steps to accumulate gradients before update
   gradient_accumulation_steps: number;
   
@@ -60,6 +66,16 @@ export interface TrainingConfig {
   lora_dropout: number;
   lora_target_modules: string[];
 
+  // Full Fine-Tuning Parameters
+  optim: 'adamw_torch' | 'adamw_8bit' | 'adafactor';
+  freeze_embeddings: boolean;
+
+  // Preference Optimization Parameters (DPO / ORPO)
+  beta: number;
+  dpo_loss_type: 'sigmoid' | 'hinge' | 'ipo';
+  reference_model: string; // empty = frozen copy of the base model
+  max_prompt_length: number;
+
   // Additional Training Options
   early_stopping_patience: number;
   early_stopping_threshold: number;
@@ -68,8 +84,22 @@ export interface TrainingConfig {
   hub_model_id: string;
 }
 
+// Basic parameters set at the top of the configure step, sent next to the TrainingConfig fields
+export interface TrainingParameters {
+  epochs: number;
+  learningRate: number;
+  batchSize: number;
+  maxSequenceLength: number;
+  // Name of the fine-tuned model and its output directory
+  modelName: string;
+  // Fraction of the dataset used for training; the rest is held out for evaluation
+  cutoff: number;
+  loggingSteps: number;
+}
+
 // Default configuration values
 export const defaultTrainingConfig: TrainingConfig = {
+  training_method: 'lora',
   gradient_accumulation_steps: 4,
   warmup_steps: 100,
   lora_rank: 8,
@@ -116,6 +146,16 @@ export const defaultTrainingConfig: TrainingConfig = {
   lora_dropout: 0.1,
   lora_target_modules: ['q_proj', 'v_proj'],
 
+  // Full Fine-Tuning Parameters
+  optim: 'adamw_torch',
+  freeze_embeddings: false,
+
+  // Preference Optimization Parameters
+  beta: 0.1,
+  dpo_loss_type: 'sigmoid',
+  reference_model: '',
+  max_prompt_length: 512,
+
   // Additional Training Options
   early_stopping_patience: 3,
   early_stopping_threshold: 0.0001,
@@ -124,10 +164,14 @@ export const defaultTrainingConfig: TrainingConfig = {
   hub_model_id: '',
 };
 
-// Validate and merge user config with defaults
+// Merge user config with defaults, dropping keys that aren't TrainingConfig fields.
+// Values are not checked here; see validateTrainingConfig in utils/trainingValidationUtils.
 export function createTrainingConfig(userConfig: Partial<TrainingConfig>): TrainingConfig {
+  const knownFields = Object.entries(userConfig).filter(([key]) =>
+    Object.prototype.hasOwnProperty.call(defaultTrainingConfig, key)
+  );
   return {
     ...defaultTrainingConfig,
-    ...userConfig,
+    ...Object.fromEntries(knownFields),
   };
 }
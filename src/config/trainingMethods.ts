@@ -0,0 +1,77 @@
+// Training methods offered in the configure flow and what each one requires
+import { TrainingConfig, TrainingMethod } from './training';
+
+export interface TrainingMethodOption {
+  id: TrainingMethod;
+  label: string;
+  description: string;
+  // Trains a LoRA adapter rather than the model's own weights
+  usesAdapter: boolean;
+  // Needs a dataset mapped as prompt / chosen / rejected pairs
+  requiresPreferenceData: boolean;
+  // Quantization the method always runs with, if it doesn't leave the choice to the user
+  fixedQuantization?: TrainingConfig['quantization'];
+}
+
+export const TRAINING_METHODS: TrainingMethodOption[] = [
+  {
+    id: 'lora',
+    label: 'LoRA',
+    description: 'Train a small low-rank adapter on top of the frozen base model',
+    usesAdapter: true,
+    requiresPreferenceData: false,
+  },
+  {
+    id: 'qlora',
+    label: 'QLoRA',
+    description: 'LoRA on a 4-bit quantized base model for the lowest memory use',
+    usesAdapter: true,
+    requiresPreferenceData: false,
+    fixedQuantization: '4bit',
+  },
+  {
+    id: 'full',
+    label: 'Full Fine-Tune',
+    description: 'Update every weight of the model; needs several times the GPU memory of LoRA',
+    usesAdapter: false,
+    requiresPreferenceData: false,
+    fixedQuantization: 'none',
+  },
+  {
+    id: 'dpo',
+    label: 'DPO',
+    description: 'Direct Preference Optimization on chosen/rejected answer pairs, against a reference model',
+    usesAdapter: true,
+    requiresPreferenceData: true,
+  },
+  {
+    id: 'orpo',
+    label: 'ORPO',
+    description: 'Odds-ratio preference optimization; learns from preference pairs without a reference model',
+    usesAdapter: true,
+    requiresPreferenceData: true,
+  },
+];
+
+export function getTrainingMethod(id?: string): TrainingMethodOption {
+  return TRAINING_METHODS.find(method => method.id === id) ?? TRAINING_METHODS[0];
+}
+
+/**
+ * Why the selected dataset's mapping doesn't fit the method, or null when it does or isn't known yet
+ */
+export function getDatasetMappingMismatch(
+  method: TrainingMethodOption,
+  mappingType?: 'instruction' | 'preference'
+): string | null {
+  if (!mappingType) return null;
+  if (method.requiresPreferenceData && mappingType !== 'preference') {
+    return `${method.label} trains on prompt / chosen / rejected pairs, but the selected dataset uses an instruction mapping. ` +
+      'Map a dataset as preference pairs in Data Preparation first.';
+  }
+  if (!method.requiresPreferenceData && mappingType === 'preference') {
+    return `${method.label} trains on instruction / response examples, but the selected dataset is mapped as preference pairs. ` +
+      'Choose DPO or ORPO, or select a dataset with an instruction mapping.';
+  }
+  return null;
+}
@@ -0,0 +1,123 @@
+// Declarative schema for TrainingConfig and the basic TrainingParameters: the type and allowed values of
+// every field, plus rules spanning several fields
+import { TrainingConfig, TrainingParameters } from './training';
+
+export type TrainingFieldSchema =
+  | { type: 'number' | 'integer'; label: string; min?: number; max?: number; nullable?: boolean }
+  | { type: 'enum'; label: string; options: readonly string[] }
+  | { type: 'boolean'; label: string }
+  | { type: 'string'; label: string; pattern?: RegExp; patternMessage?: string }
+  | { type: 'string[]'; label: string; minItems?: number };
+
+const STRATEGIES = ['steps', 'epoch', 'no'] as const;
+
+// Bounds are what the trainer accepts, not the recommended ranges shown next to the inputs
+export const TRAINING_CONFIG_SCHEMA: Record<keyof TrainingConfig, TrainingFieldSchema> = {
+  training_method: { type: 'enum', label: 'Training method', options: ['lora', 'qlora', 'full', 'dpo', 'orpo'] },
+  gradient_accumulation_steps: { type: 'integer', label: 'Gradient accumulation steps', min: 1, max: 1024 },
+  warmup_steps: { type: 'integer', label: 'Warmup steps', min: 0 },
+  lora_rank: { type: 'integer', label: 'LoRA rank', min: 1, max: 1024 },
+  quantization: { type: 'enum', label: 'Quantization', options: ['4bit', '8bit', 'none'] },
+  logging_steps: { type: 'integer', label: 'Logging steps', min: 1 },
+  weight_decay: { type: 'number', label: 'Weight decay', min: 0, max: 1 },
+  seed: { type: 'integer', label: 'Seed', min: 0 },
+  report_to: { type: 'enum', label: 'Report to', options: ['wandb', 'tensorboard', 'none'] },
+  max_sample_size: { type: 'integer', label: 'Max sample size', min: 1, nullable: true },
+  lr_scheduler_type: {
+    type: 'enum',
+    label: 'LR scheduler',
+    options: ['cosine', 'linear', 'polynomial', 'constant', 'constant_with_warmup'],
+  },
+  adam_beta1: { type: 'number', label: 'Adam beta1', min: 0, max: 0.9999 },
+  adam_beta2: { type: 'number', label: 'Adam beta2', min: 0, max: 0.99999 },
+  adam_epsilon: { type: 'number', label: 'Adam epsilon', min: 0, max: 1 },
+  max_grad_norm: { type: 'number', label: 'Max gradient norm', min: 0 },
+  dropout_rate: { type: 'number', label: 'Dropout rate', min: 0, max: 0.9 },
+  attention_dropout: { type: 'number', label: 'Attention dropout', min: 0, max: 0.9 },
+  label_smoothing_factor: { type: 'number', label: 'Label smoothing', min: 0, max: 1 },
+  temperature: { type: 'number', label: 'Temperature', min: 0, max: 2 },
+  dataloader_num_workers: { type: 'integer', label: 'Dataloader workers', min: 0, max: 64 },
+  dataloader_pin_memory: { type: 'boolean', label: 'Pin memory' },
+  gradient_checkpointing: { type: 'boolean', label: 'Gradient checkpointing' },
+  fp16: { type: 'boolean', label: 'FP16 mixed precision' },
+  bf16: { type: 'boolean', label: 'BF16 mixed precision' },
+  save_strategy: { type: 'enum', label: 'Save strategy', options: STRATEGIES },
+  save_steps: { type: 'integer', label: 'Save steps', min: 1 },
+  evaluation_strategy: { type: 'enum', label: 'Evaluation strategy', options: STRATEGIES },
+  eval_steps: { type: 'integer', label: 'Eval steps', min: 0 },
+  metric_for_best_model: { type: 'string', label: 'Metric for best model' },
+  load_best_model_at_end: { type: 'boolean', label: 'Load best model at end' },
+  save_total_limit: { type: 'integer', label: 'Checkpoints to keep', min: 1 },
+  lora_alpha: { type: 'integer', label: 'LoRA alpha', min: 1, max: 2048 },
+  lora_dropout: { type: 'number', label: 'LoRA dropout', min: 0, max: 0.9 },
+  lora_target_modules: { type: 'string[]', label: 'LoRA target modules', minItems: 1 },
+  optim: { type: 'enum', label: 'Optimizer', options: ['adamw_torch', 'adamw_8bit', 'adafactor'] },
+  freeze_embeddings: { type: 'boolean', label: 'Freeze embeddings' },
+  beta: { type: 'number', label: 'Beta', min: 0.001, max: 10 },
+  dpo_loss_type: { type: 'enum', label: 'DPO loss type', options: ['sigmoid', 'hinge', 'ipo'] },
+  reference_model: { type: 'string', label: 'Reference model' },
+  max_prompt_length: { type: 'integer', label: 'Max prompt length', min: 1 },
+  early_stopping_patience: { type: 'integer', label: 'Early stopping patience', min: 0 },
+  early_stopping_threshold: { type: 'number', label: 'Early stopping threshold', min: 0 },
+  remove_unused_columns: { type: 'boolean', label: 'Remove unused columns' },
+  push_to_hub: { type: 'boolean', label: 'Push to Hub' },
+  hub_model_id: {
+    type: 'string',
+    label: 'Hub repository ID',
+    pattern: /^$|^[a-zA-Z0-9]([a-zA-Z0-9._-]*[a-zA-Z0-9])?\/[a-zA-Z0-9]([a-zA-Z0-9._-]*[a-zA-Z0-9])?$/,
+    patternMessage: 'Format should be: username/repository-name',
+  },
+};
+
+export const TRAINING_PARAMETERS_SCHEMA: Record<keyof TrainingParameters, TrainingFieldSchema> = {
+  epochs: { type: 'integer', label: 'Epochs', min: 1, max: 100 },
+  learningRate: { type: 'number', label: 'Learning rate', min: 1e-8, max: 1 },
+  batchSize: { type: 'integer', label: 'Batch size', min: 1, max: 1024 },
+  maxSequenceLength: { type: 'integer', label: 'Max sequence length', min: 16, max: 131072 },
+  modelName: { type: 'string', label: 'Model name' },
+  cutoff: { type: 'number', label: 'Training split', min: 0.05, max: 1 },
+  loggingSteps: { type: 'integer', label: 'Logging steps', min: 1 },
+};
+
+export interface TrainingConfigRule {
+  // Field the error is shown on
+  field: keyof TrainingConfig;
+  message: string;
+  // True when the config breaks the rule
+  violated: (config: TrainingConfig) => boolean;
+}
+
+export const TRAINING_CONFIG_RULES: TrainingConfigRule[] = [
+  {
+    field: 'bf16',
+    message: 'FP16 and BF16 mixed precision cannot both be enabled',
+    violated: config => config.fp16 && config.bf16,
+  },
+  {
+    field: 'eval_steps',
+    message: 'Required when evaluating every N steps',
+    violated: config => config.evaluation_strategy === 'steps' && !(config.eval_steps > 0),
+  },
+  {
+    field: 'load_best_model_at_end',
+    message: 'Loading the best model at the end needs evaluation enabled and the same save and evaluation strategy',
+    violated: config =>
+      config.load_best_model_at_end &&
+      (config.evaluation_strategy === 'no' || config.save_strategy !== config.evaluation_strategy),
+  },
+  {
+    field: 'load_best_model_at_end',
+    message: 'Save steps must be a multiple of eval steps to load the best model at the end',
+    violated: config =>
+      config.load_best_model_at_end &&
+      config.save_strategy === 'steps' &&
+      config.evaluation_strategy === 'steps' &&
+      config.eval_steps > 0 &&
+      config.save_steps % config.eval_steps !== 0,
+  },
+  {
+    field: 'hub_model_id',
+    message: 'Required when push to hub is enabled',
+    violated: config => config.push_to_hub && !config.hub_model_id.trim(),
+  },
+];
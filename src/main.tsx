@@ -5,12 +5,18 @@ import { Toaster } from 'react-hot-toast';
 import App from './App';
 import './index.css';
 import { ThemeProvider } from './components/theme/ThemeProvider';
+import { SettingsProvider } from './components/settings/SettingsProvider';
+import { AuthProvider } from './components/auth/AuthProvider';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <BrowserRouter>
       <ThemeProvider>
-        <App />
+        <AuthProvider>
+          <SettingsProvider>
+            <App />
+          </SettingsProvider>
+        </AuthProvider>
         <Toaster
           position="bottom-right"
           toastOptions={{
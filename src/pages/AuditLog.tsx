@@ -0,0 +1,210 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ScrollText, RefreshCw, ShieldAlert } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Badge } from '../components/ui/Badge';
+import { AnimatedLoader } from '../components/ui/AnimatedLoader';
+import { useAuth } from '../components/auth/AuthProvider';
+import {
+  auditService,
+  AuditEvent,
+  AuditAction,
+  AuditResourceType,
+  AUDIT_RESOURCE_LABELS,
+} from '../services/auditService';
+
+const PAGE_SIZE = 50;
+
+const selectClassName = 'rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+const getActionVariant = (action: AuditAction): 'primary' | 'secondary' | 'success' | 'error' => {
+  switch (action) {
+    case 'delete':
+      return 'error';
+    case 'launch':
+      return 'primary';
+    case 'create':
+      return 'success';
+    default:
+      return 'secondary';
+  }
+};
+
+export default function AuditLog() {
+  const { can } = useAuth();
+  const canViewAudit = can('audit:view');
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [page, setPage] = useState(0);
+  const [actionFilter, setActionFilter] = useState<AuditAction | ''>('');
+  const [resourceFilter, setResourceFilter] = useState<AuditResourceType | ''>('');
+  const [actorFilter, setActorFilter] = useState('');
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await auditService.listEvents({
+        action: actionFilter || undefined,
+        resource_type: resourceFilter || undefined,
+        actor: actorFilter.trim() || undefined,
+        limit: PAGE_SIZE,
+        offset: page * PAGE_SIZE,
+      });
+      setEvents(response.events);
+      setTotal(response.total);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load audit log');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [actionFilter, resourceFilter, actorFilter, page]);
+
+  useEffect(() => {
+    if (canViewAudit) fetchEvents();
+  }, [canViewAudit, fetchEvents]);
+
+  // Filters change the result set, so start again from the first page
+  useEffect(() => {
+    setPage(0);
+  }, [actionFilter, resourceFilter, actorFilter]);
+
+  if (!canViewAudit) {
+    return (
+      <Card>
+        <CardContent className="py-12 flex flex-col items-center text-center gap-2">
+          <ShieldAlert className="h-8 w-8 text-gray-400" />
+          <p className="font-medium">Admins only</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Ask a workspace admin if you need to see who changed what.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Audit Log</h1>
+          <p className="text-gray-500 dark:text-gray-400 mt-1">
+            Deletions and training launches in this workspace
+          </p>
+        </div>
+        <Button variant="outline" onClick={fetchEvents} leftIcon={<RefreshCw className="h-4 w-4" />}>
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <ScrollText className="h-5 w-5 text-primary-500" />
+            <CardTitle>Events</CardTitle>
+          </div>
+          <CardDescription>{total} event{total === 1 ? '' : 's'}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-3">
+            <select
+              value={actionFilter}
+              onChange={(e) => setActionFilter(e.target.value as AuditAction | '')}
+              className={selectClassName}
+              aria-label="Filter by action"
+            >
+              <option value="">All actions</option>
+              <option value="delete">Delete</option>
+              <option value="launch">Launch</option>
+              <option value="create">Create</option>
+              <option value="update">Update</option>
+            </select>
+            <select
+              value={resourceFilter}
+              onChange={(e) => setResourceFilter(e.target.value as AuditResourceType | '')}
+              className={selectClassName}
+              aria-label="Filter by resource"
+            >
+              <option value="">All resources</option>
+              {(Object.keys(AUDIT_RESOURCE_LABELS) as AuditResourceType[]).map(type => (
+                <option key={type} value={type}>{AUDIT_RESOURCE_LABELS[type]}</option>
+              ))}
+            </select>
+            <input
+              value={actorFilter}
+              onChange={(e) => setActorFilter(e.target.value)}
+              placeholder="Filter by user"
+              className={selectClassName}
+            />
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          )}
+
+          {isLoading && events.length === 0 ? (
+            <div className="py-8 flex justify-center">
+              <AnimatedLoader variant="dots" size="md" text="Loading events..." />
+            </div>
+          ) : events.length === 0 ? (
+            <p className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">No matching events</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    <th className="px-4 py-3">When</th>
+                    <th className="px-4 py-3">User</th>
+                    <th className="px-4 py-3">Action</th>
+                    <th className="px-4 py-3">Resource</th>
+                    <th className="px-4 py-3">Details</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {events.map(event => (
+                    <tr key={event.id} className="text-sm">
+                      <td className="px-4 py-3 whitespace-nowrap text-gray-500 dark:text-gray-400">
+                        {new Date(event.timestamp).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap font-medium">{event.actor}</td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <Badge variant={getActionVariant(event.action)} size="sm">{event.action}</Badge>
+                      </td>
+                      <td className="px-4 py-3">
+                        <div>{event.resource_name || event.resource_id}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {AUDIT_RESOURCE_LABELS[event.resource_type] ?? event.resource_type}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-gray-500 dark:text-gray-400">{event.details || '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                Page {page + 1} of {totalPages}
+              </span>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" disabled={page === 0 || isLoading} onClick={() => setPage(page - 1)}>
+                  Previous
+                </Button>
+                <Button size="sm" variant="outline" disabled={page + 1 >= totalPages || isLoading} onClick={() => setPage(page + 1)}>
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
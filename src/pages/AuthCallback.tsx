@@ -0,0 +1,53 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { AlertCircle } from 'lucide-react';
+import { Card, CardContent } from '../components/ui/Card';
+import { AnimatedLoader } from '../components/ui/AnimatedLoader';
+import { useAuth } from '../components/auth/AuthProvider';
+import { authService } from '../services/authService';
+
+// Landing page for the identity provider's redirect after single sign-on
+export default function AuthCallback() {
+  const { completeOidcLogin } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [error, setError] = useState<string | null>(null);
+  // The authorization code is single-use; StrictMode would otherwise exchange it twice
+  const exchanged = useRef(false);
+
+  useEffect(() => {
+    if (exchanged.current) return;
+    exchanged.current = true;
+
+    const providerError = searchParams.get('error_description') || searchParams.get('error');
+    const code = searchParams.get('code');
+    if (providerError || !code) {
+      setError(providerError || 'No authorization code was returned by the identity provider');
+      return;
+    }
+
+    completeOidcLogin(code, searchParams.get('state'))
+      .then(() => navigate(authService.takeOidcReturnPath(), { replace: true }))
+      .catch(err => setError(err instanceof Error ? err.message : 'Single sign-on failed'));
+  }, [completeOidcLogin, navigate, searchParams]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 px-4">
+      <Card className="w-full max-w-sm">
+        <CardContent className="py-8 flex flex-col items-center text-center gap-3">
+          {error ? (
+            <>
+              <AlertCircle className="h-8 w-8 text-red-500" />
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+              <Link to="/login" className="text-sm text-primary-600 dark:text-primary-400 hover:underline">
+                Back to sign in
+              </Link>
+            </>
+          ) : (
+            <AnimatedLoader variant="dots" size="md" text="Completing sign-in..." />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
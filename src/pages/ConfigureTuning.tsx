@@ -13,7 +13,7 @@ import { ConfigurationReviewModal } from '../components/ui/ConfigurationReviewMo
 import toast from 'react-hot-toast';
 import { motion } from 'framer-motion';
 import { useDropzone } from 'react-dropzone';
-import { API_BASE_URL } from '../config/api';
+import { trainingService } from '../services/trainingService';
 
 export default function ConfigureTuning() {
   const navigate = useNavigate();
@@ -398,21 +398,7 @@ export default function ConfigureTuning() {
     toast.loading('Starting fine-tuning process...');
     
     // Make API call
-    fetch(`${API_BASE_URL}/finetune`, {
-      method: 'POST', 
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(payload)
-    })
-    .then(response => {
-      if (!response.ok) {
-        return response.json().then(data => {
-          throw new Error(data.detail?.[0]?.msg || 'Fine-tuning request failed');
-        });
-      }
-      return response.json();
-    })
+    trainingService.startFineTune(payload)
     .then(data => {
       toast.dismiss();
       toast.success('Fine-tuning started successfully!');
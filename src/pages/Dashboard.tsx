@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { PlusCircle, Brain, History, TrendingUp, Sparkles, Play, Pause, CheckCircle2, XCircle, Clock, Search, Filter, ExternalLink, Copy } from 'lucide-react';
+import { PlusCircle, Brain, History, TrendingUp, Sparkles, Play, Pause, CheckCircle2, XCircle, Clock, Search, Filter, ExternalLink, Copy, Trash2, GitCompare } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../components/ui/Card';
 import { Button } from '../components/ui/Button';
 import { Badge } from '../components/ui/Badge';
@@ -7,56 +7,36 @@ import { Progress } from '../components/ui/Progress';
 import { Link, useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { AnimatedLoader } from '../components/ui/AnimatedLoader';
-import { API_BASE_URL_WITH_API } from '../config/api';
-
-interface TrainingSession {
-  id: string;
-  status: string;
-  config: {
-    model_name: string;
-    num_train_epochs: number;
-    learning_rate: number;
-  };
-  dataset_info: {
-    total_rows: number;
-    file_type: string;
-  };
-  created_at: string;
-  started_at?: string;
-  completed_at?: string;
-  progress?: number;
-}
-
-interface DashboardStats {
-  total_sessions: number;
-  active_sessions: number;
-  completed_sessions: number;
-  failed_sessions: number;
-  success_rate: number;
-  avg_training_time_formatted: string;
-  most_used_model: string;
-}
+import { useSettings } from '../components/settings/SettingsProvider';
+import { useAuth } from '../components/auth/AuthProvider';
+import toast from 'react-hot-toast';
+import TrainingQueue from '../components/training/TrainingQueue';
+import SessionRelaunchActions from '../components/training/SessionRelaunchActions';
+import { MAX_COMPARED_SESSIONS } from '../utils/runComparisonUtils';
+import { getTrainingMethod } from '../config/trainingMethods';
+import { trainingService, TrainingSessionSummary as TrainingSession, TrainingDashboardStats as DashboardStats, QueuedTrainingJob } from '../services/trainingService';
 
 export default function Dashboard() {
   const navigate = useNavigate();
+  const { settings } = useSettings();
+  const { can } = useAuth();
+  const pollingIntervalMs = settings.ui.pollingIntervalMs;
   const [isLoading, setIsLoading] = useState(true);
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [activeSessions, setActiveSessions] = useState<TrainingSession[]>([]);
+  const [queue, setQueue] = useState<QueuedTrainingJob[]>([]);
   const [allSessions, setAllSessions] = useState<TrainingSession[]>([]);
   const [filteredSessions, setFilteredSessions] = useState<TrainingSession[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [currentPage, setCurrentPage] = useState(1);
   const [sessionsPerPage] = useState(10);
+  const [compareSelection, setCompareSelection] = useState<string[]>([]);
 
   // Fetch dashboard statistics
   const fetchStats = async () => {
     try {
-      const response = await fetch(`${API_BASE_URL_WITH_API}/training/dashboard/stats`);
-      if (response.ok) {
-        const data = await response.json();
-        setStats(data);
-      }
+      setStats(await trainingService.getDashboardStats());
     } catch (error) {
       console.error('Failed to fetch dashboard stats:', error);
     }
@@ -65,22 +45,28 @@ export default function Dashboard() {
   // Fetch all training sessions
   const fetchSessions = async () => {
     try {
-      const response = await fetch(`${API_BASE_URL_WITH_API}/training/sessions`);
-      if (response.ok) {
-        const data = await response.json();
-        setAllSessions(data.sessions);
-        
-        // Filter active sessions
-        const active = data.sessions.filter((session: TrainingSession) => 
-          ['queued', 'running', 'initializing'].includes(session.status)
-        );
-        setActiveSessions(active);
-      }
+      const data = await trainingService.listSessions();
+      setAllSessions(data.sessions);
+      
+      // Filter active sessions
+      const active = data.sessions.filter((session: TrainingSession) => 
+        ['queued', 'running', 'initializing', 'training', 'pausing', 'paused'].includes(session.status)
+      );
+      setActiveSessions(active);
     } catch (error) {
       console.error('Failed to fetch training sessions:', error);
     }
   };
 
+  // Fetch jobs running on or waiting for the GPU
+  const fetchQueue = async () => {
+    try {
+      setQueue(await trainingService.getQueue());
+    } catch (error) {
+      console.error('Failed to fetch training queue:', error);
+    }
+  };
+
   // Filter sessions based on search and status
   useEffect(() => {
     let filtered = allSessions;
@@ -111,7 +97,7 @@ export default function Dashboard() {
   useEffect(() => {
     const loadData = async () => {
       setIsLoading(true);
-      await Promise.all([fetchStats(), fetchSessions()]);
+      await Promise.all([fetchStats(), fetchSessions(), fetchQueue()]);
       setIsLoading(false);
     };
 
@@ -121,16 +107,18 @@ export default function Dashboard() {
     const interval = setInterval(() => {
       fetchStats();
       fetchSessions();
-    }, 5000); // Update every 5 seconds
+      fetchQueue();
+    }, pollingIntervalMs);
 
     return () => clearInterval(interval);
-  }, []);
+  }, [pollingIntervalMs]);
 
   const getStatusVariant = (status: string): 'primary' | 'secondary' | 'success' | 'error' => {
     switch (status) {
       case 'completed':
         return 'success';
       case 'running':
+      case 'training':
       case 'queued':
       case 'initializing':
         return 'primary';
@@ -146,8 +134,10 @@ export default function Dashboard() {
       case 'completed':
         return <CheckCircle2 className="h-4 w-4" />;
       case 'running':
+      case 'training':
         return <Play className="h-4 w-4" />;
       case 'failed':
+      case 'cancelled':
         return <XCircle className="h-4 w-4" />;
       case 'queued':
       case 'initializing':
@@ -172,6 +162,32 @@ export default function Dashboard() {
     // You could add a toast notification here
   };
 
+  const handleDeleteSession = async (session: TrainingSession) => {
+    if (!confirm('Are you sure you want to delete this training session? Its logs and outputs will be removed.')) {
+      return;
+    }
+
+    try {
+      await trainingService.deleteSession(session.id, session);
+      toast.success('Training session deleted');
+      await Promise.all([fetchSessions(), fetchStats()]);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete training session');
+    }
+  };
+
+  const toggleCompareSelection = (sessionId: string) => {
+    if (compareSelection.includes(sessionId)) {
+      setCompareSelection(compareSelection.filter(id => id !== sessionId));
+      return;
+    }
+    if (compareSelection.length >= MAX_COMPARED_SESSIONS) {
+      toast.error(`Compare up to ${MAX_COMPARED_SESSIONS} sessions at a time`);
+      return;
+    }
+    setCompareSelection([...compareSelection, sessionId]);
+  };
+
   const statsItems = [
     { 
       title: 'Total Sessions', 
@@ -252,6 +268,11 @@ export default function Dashboard() {
         ))}
       </div>
 
+      {/* Queue, only worth showing once jobs are waiting behind the running one */}
+      {queue.some(job => job.status === 'queued') && (
+        <TrainingQueue jobs={queue} />
+      )}
+
       {/* Active Training Sessions */}
       {activeSessions.length > 0 && (
         <div className="space-y-4">
@@ -307,6 +328,7 @@ export default function Dashboard() {
                       <div>
                         <p className="text-sm text-gray-500 dark:text-gray-400">Model</p>
                         <p className="font-medium">{session.config.model_name}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{getTrainingMethod(session.config.training_method).label}</p>
                       </div>
                       <div>
                         <p className="text-sm text-gray-500 dark:text-gray-400">Dataset</p>
@@ -367,7 +389,18 @@ export default function Dashboard() {
               <option value="failed">Failed</option>
               <option value="running">Running</option>
               <option value="queued">Queued</option>
+              <option value="paused">Paused</option>
+              <option value="cancelled">Cancelled</option>
             </select>
+
+            <Button
+              variant="outline"
+              onClick={() => navigate(`/training/compare?sessions=${compareSelection.join(',')}`)}
+              disabled={compareSelection.length < 2}
+              leftIcon={<GitCompare className="h-4 w-4" />}
+            >
+              Compare{compareSelection.length > 0 && ` (${compareSelection.length})`}
+            </Button>
           </div>
         </div>
 
@@ -405,6 +438,9 @@ export default function Dashboard() {
                   <table className="w-full">
                     <thead className="bg-gray-50 dark:bg-gray-800">
                       <tr>
+                        <th className="pl-6 py-3 w-4">
+                          <span className="sr-only">Select for comparison</span>
+                        </th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                           Session
                         </th>
@@ -428,6 +464,15 @@ export default function Dashboard() {
                     <tbody className="bg-white dark:bg-gray-900 divide-y divide-gray-200 dark:divide-gray-700">
                       {currentSessions.map((session) => (
                         <tr key={session.id} className="hover:bg-gray-50 dark:hover:bg-gray-800">
+                          <td className="pl-6 py-4">
+                            <input
+                              type="checkbox"
+                              checked={compareSelection.includes(session.id)}
+                              onChange={() => toggleCompareSelection(session.id)}
+                              className="h-4 w-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                              aria-label={`Select session ${session.id.substring(0, 8)} for comparison`}
+                            />
+                          </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             <div className="font-mono text-sm text-gray-900 dark:text-gray-100">
                               {session.id.substring(0, 8)}...
@@ -437,6 +482,9 @@ export default function Dashboard() {
                             <div className="text-sm text-gray-900 dark:text-gray-100">
                               {session.config.model_name}
                             </div>
+                            <div className="text-xs text-gray-500 dark:text-gray-400">
+                              {getTrainingMethod(session.config.training_method).label}
+                            </div>
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             <Badge variant={getStatusVariant(session.status)} className="flex items-center gap-1 w-fit">
@@ -454,6 +502,9 @@ export default function Dashboard() {
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
                             {formatDate(session.created_at)}
+                            {session.created_by && (
+                              <div className="text-xs">by {session.created_by}</div>
+                            )}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                             <div className="flex items-center gap-2">
@@ -473,6 +524,18 @@ export default function Dashboard() {
                               >
                                 View
                               </Button>
+                              <SessionRelaunchActions sessionId={session.id} status={session.status} compact />
+                              {can('training:delete', session) && (
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => handleDeleteSession(session)}
+                                  className="text-red-600 hover:text-red-700 dark:text-red-400"
+                                  aria-label="Delete session"
+                                >
+                                  <Trash2 className="h-3 w-3" />
+                                </Button>
+                              )}
                             </div>
                           </td>
                         </tr>
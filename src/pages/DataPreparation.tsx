@@ -32,7 +32,8 @@ import {
   FileUploadResponse, 
   ColumnMapping, 
   ColumnInfo,
-  TrainingExample
+  TrainingExample,
+  PreferenceExample
 } from '../services/fileService';
 import { 
   datasetService, 
@@ -40,6 +41,7 @@ import {
   DatasetCreateRequest,
   DatasetListResponse
 } from '../services/datasetService';
+import { useAuth } from '../components/auth/AuthProvider';
 
 type ViewMode = 'list' | 'upload' | 'mapping' | 'preview';
 
@@ -52,6 +54,7 @@ export const DataPreparation: React.FC = () => {
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [sortBy, setSortBy] = useState('created_at');
   const [sortDesc, setSortDesc] = useState(true);
+  const { can } = useAuth();
   
   // Upload and mapping state
   const [uploadedFile, setUploadedFile] = useState<FileUploadResponse | null>(null);
@@ -143,13 +146,13 @@ export const DataPreparation: React.FC = () => {
     }
   };
 
-  const handleDeleteDataset = async (datasetId: string) => {
+  const handleDeleteDataset = async (dataset: ProcessedDataset) => {
     if (!confirm('Are you sure you want to delete this dataset? This action cannot be undone.')) {
       return;
     }
     
     try {
-      await datasetService.deleteDataset(datasetId);
+      await datasetService.deleteDataset(dataset.dataset_id, dataset);
       await loadDatasets();
     } catch (err: any) {
       setError(err.message || 'Failed to delete dataset');
@@ -234,12 +237,14 @@ export const DataPreparation: React.FC = () => {
               >
                 <Copy className="h-4 w-4 text-gray-500" />
               </button>
-              <button
-                onClick={() => handleDeleteDataset(dataset.dataset_id)}
-                className="p-1 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 text-red-600 hover:text-red-700"
-              >
-                <Trash2 className="h-4 w-4" />
-              </button>
+              {can('datasets:delete', dataset) && (
+                <button
+                  onClick={() => handleDeleteDataset(dataset)}
+                  className="p-1 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 text-red-600 hover:text-red-700"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              )}
             </div>
           </div>
           
@@ -548,8 +553,10 @@ export const DataPreparation: React.FC = () => {
 
   const PreviewView = () => {
     const [previewData, setPreviewData] = useState<TrainingExample[]>([]);
+    const [preferencePreview, setPreferencePreview] = useState<PreferenceExample[]>([]);
     const [isLoadingPreview, setIsLoadingPreview] = useState(false);
     const [showMappingDetails, setShowMappingDetails] = useState(false);
+    const isPreferenceDataset = previewDataset?.column_mapping.mapping_type === 'preference';
 
     // Load preview data when component mounts or dataset changes
     useEffect(() => {
@@ -565,9 +572,11 @@ export const DataPreparation: React.FC = () => {
         setIsLoadingPreview(true);
         const result = await datasetService.previewDataset(previewDataset.dataset_id, 5);
         setPreviewData(result.preview_data || []);
+        setPreferencePreview(result.preference_data || []);
       } catch (err: any) {
         console.error('Failed to load preview data:', err);
         setPreviewData([]);
+        setPreferencePreview([]);
       } finally {
         setIsLoadingPreview(false);
       }
@@ -725,7 +734,24 @@ export const DataPreparation: React.FC = () => {
                         </div>
                       )}
 
+                      {/* Preference Pair Columns */}
+                      {isPreferenceDataset && (
+                        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                          {([
+                            ['Prompt Column', previewDataset.column_mapping.prompt_column],
+                            ['Chosen Column', previewDataset.column_mapping.chosen_column],
+                            ['Rejected Column', previewDataset.column_mapping.rejected_column],
+                          ] as const).map(([label, column]) => (
+                            <div key={label} className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
+                              <h4 className="font-medium mb-2">{label}:</h4>
+                              <p className="text-sm font-mono text-gray-600 dark:text-gray-400">{column || '—'}</p>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
                       {/* Column Mappings */}
+                      {!isPreferenceDataset && (
                       <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
                         {/* Instruction Columns */}
                         <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg">
@@ -794,6 +820,8 @@ export const DataPreparation: React.FC = () => {
                         </div>
                       </div>
 
+                      )}
+
                       {/* Templates */}
                       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
                         {previewDataset.column_mapping.instruction_template && (
@@ -848,7 +876,43 @@ export const DataPreparation: React.FC = () => {
                     <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600 mr-2"></div>
                     <span className="text-gray-600 dark:text-gray-400">Loading sample data...</span>
                   </div>
-                ) : previewData.length > 0 ? (
+                ) : isPreferenceDataset && preferencePreview.length > 0 ? (
+                  <div className="space-y-4">
+                    {preferencePreview.map((example, index) => (
+                      <div key={index} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+                        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                          <div>
+                            <h4 className="font-medium text-sm text-blue-600 dark:text-blue-400 mb-2">
+                              Prompt:
+                            </h4>
+                            <div className="bg-blue-50 dark:bg-blue-900/20 p-3 rounded text-sm max-h-32 overflow-y-auto">
+                              {example.prompt}
+                            </div>
+                          </div>
+                          <div>
+                            <h4 className="font-medium text-sm text-green-600 dark:text-green-400 mb-2">
+                              Chosen:
+                            </h4>
+                            <div className="bg-green-50 dark:bg-green-900/20 p-3 rounded text-sm max-h-32 overflow-y-auto">
+                              {example.chosen}
+                            </div>
+                          </div>
+                          <div>
+                            <h4 className="font-medium text-sm text-red-600 dark:text-red-400 mb-2">
+                              Rejected:
+                            </h4>
+                            <div className="bg-red-50 dark:bg-red-900/20 p-3 rounded text-sm max-h-32 overflow-y-auto">
+                              {example.rejected}
+                            </div>
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                    <div className="text-center text-sm text-gray-500 dark:text-gray-400">
+                      Showing {preferencePreview.length} of {previewDataset.total_examples.toLocaleString()} examples
+                    </div>
+                  </div>
+                ) : !isPreferenceDataset && previewData.length > 0 ? (
                   <div className="space-y-4">
                     {previewData.map((example, index) => (
                       <div key={index} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
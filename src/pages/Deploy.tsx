@@ -0,0 +1,412 @@
+import { useState, useEffect } from 'react';
+import { Rocket, Copy, Square, Play, Trash2, RefreshCw, Globe, Lock, AlertTriangle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Badge } from '../components/ui/Badge';
+import { chatApi, Model } from '../services/chatApi';
+import {
+  deploymentService,
+  Deployment,
+  DeploymentStatus,
+  SnippetLanguage,
+} from '../services/deploymentService';
+import { cn } from '../utils/cn';
+import { useSettings } from '../components/settings/SettingsProvider';
+
+const snippetLanguages: { id: SnippetLanguage; label: string }[] = [
+  { id: 'curl', label: 'cURL' },
+  { id: 'python', label: 'Python' },
+  { id: 'typescript', label: 'TypeScript' },
+];
+
+const getStatusVariant = (status: DeploymentStatus): 'primary' | 'secondary' | 'success' | 'error' | 'warning' => {
+  switch (status) {
+    case 'running':
+      return 'success';
+    case 'pending':
+    case 'deploying':
+      return 'primary';
+    case 'failed':
+      return 'error';
+    case 'stopped':
+    default:
+      return 'secondary';
+  }
+};
+
+export default function Deploy() {
+  const { settings } = useSettings();
+  const [models, setModels] = useState<Model[]>([]);
+  const [deployments, setDeployments] = useState<Deployment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selectedDeploymentId, setSelectedDeploymentId] = useState<string | null>(null);
+  const [snippetLanguage, setSnippetLanguage] = useState<SnippetLanguage>('curl');
+  const [busyDeploymentId, setBusyDeploymentId] = useState<string | null>(null);
+
+  // Create form
+  const [modelName, setModelName] = useState('');
+  const [name, setName] = useState('');
+  const [rateLimit, setRateLimit] = useState(settings.deployment.rateLimit);
+  const [authRequired, setAuthRequired] = useState(settings.deployment.authRequired);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const fetchDeployments = async () => {
+    try {
+      const response = await deploymentService.listDeployments();
+      setDeployments(response.deployments);
+      setLoadError(null);
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : 'Failed to load deployments');
+    }
+  };
+
+  useEffect(() => {
+    const loadData = async () => {
+      setIsLoading(true);
+      await Promise.all([
+        fetchDeployments(),
+        chatApi.fetchAvailableModels()
+          .then(setModels)
+          .catch(err => console.error('Error loading models:', err)),
+      ]);
+      setIsLoading(false);
+    };
+
+    loadData();
+  }, []);
+
+  // Poll while any endpoint is still starting up
+  const hasPendingDeployments = deployments.some(d => d.status === 'pending' || d.status === 'deploying');
+  useEffect(() => {
+    if (!hasPendingDeployments) return;
+
+    const interval = setInterval(fetchDeployments, settings.ui.pollingIntervalMs);
+    return () => clearInterval(interval);
+  }, [hasPendingDeployments, settings.ui.pollingIntervalMs]);
+
+  const handleModelChange = (value: string) => {
+    setModelName(value);
+    // Suggest an endpoint name from the model unless the user already typed one
+    if (!name.trim() || models.some(m => slugify(m.name) === name)) {
+      setName(slugify(value));
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!modelName) {
+      toast.error('Select a model to deploy');
+      return;
+    }
+    if (!name.trim()) {
+      toast.error('Endpoint name is required');
+      return;
+    }
+    if (!Number.isFinite(rateLimit) || rateLimit < 1) {
+      toast.error('Rate limit must be at least 1 request per minute');
+      return;
+    }
+
+    try {
+      setIsCreating(true);
+      const response = await deploymentService.createDeployment({
+        name: name.trim(),
+        model_name: modelName,
+        model_path: chatApi.getModelPath(modelName),
+        rate_limit: rateLimit,
+        auth_required: authRequired,
+      });
+      toast.success(`Deploying "${response.deployment.name}"`);
+      setSelectedDeploymentId(response.deployment.id);
+      setModelName('');
+      setName('');
+      await fetchDeployments();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to create deployment');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleToggle = async (deployment: Deployment) => {
+    try {
+      setBusyDeploymentId(deployment.id);
+      if (deployment.status === 'stopped' || deployment.status === 'failed') {
+        await deploymentService.startDeployment(deployment.id);
+        toast.success(`Starting "${deployment.name}"`);
+      } else {
+        await deploymentService.stopDeployment(deployment.id);
+        toast.success(`Stopped "${deployment.name}"`);
+      }
+      await fetchDeployments();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update deployment');
+    } finally {
+      setBusyDeploymentId(null);
+    }
+  };
+
+  const handleDelete = async (deployment: Deployment) => {
+    if (!confirm(`Are you sure you want to delete the endpoint "${deployment.name}"? Clients using it will stop working.`)) {
+      return;
+    }
+
+    try {
+      setBusyDeploymentId(deployment.id);
+      await deploymentService.deleteDeployment(deployment.id);
+      toast.success(`Deleted "${deployment.name}"`);
+      if (selectedDeploymentId === deployment.id) {
+        setSelectedDeploymentId(null);
+      }
+      await fetchDeployments();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete deployment');
+    } finally {
+      setBusyDeploymentId(null);
+    }
+  };
+
+  const copyToClipboard = (text: string, label: string) => {
+    navigator.clipboard.writeText(text);
+    toast.success(`${label} copied to clipboard`);
+  };
+
+  const selectedDeployment = deployments.find(d => d.id === selectedDeploymentId) || deployments[0];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Deploy</h1>
+        <p className="text-gray-500 dark:text-gray-400 mt-1">
+          Serve fine-tuned models behind inference endpoints
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <Rocket className="h-5 w-5 text-primary-500" />
+              <CardTitle>New Endpoint</CardTitle>
+            </div>
+            <CardDescription>Pick a fine-tuned model and how it should be served</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <label htmlFor="deployModel" className="block text-sm font-medium mb-1">Model</label>
+              <select
+                id="deployModel"
+                value={modelName}
+                onChange={(e) => handleModelChange(e.target.value)}
+                className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              >
+                <option value="">Select a model...</option>
+                {models.map(model => (
+                  <option key={model.id} value={model.name}>{model.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="deployName" className="block text-sm font-medium mb-1">Endpoint Name</label>
+              <input
+                id="deployName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="my-model-endpoint"
+                className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="deployRateLimit" className="block text-sm font-medium mb-1">
+                Rate Limit (requests/minute)
+              </label>
+              <input
+                type="number"
+                id="deployRateLimit"
+                min={1}
+                value={rateLimit}
+                onChange={(e) => setRateLimit(parseInt(e.target.value))}
+                className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+            </div>
+
+            <div className="flex items-center space-x-3">
+              <input
+                type="checkbox"
+                id="deployAuthRequired"
+                checked={authRequired}
+                onChange={(e) => setAuthRequired(e.target.checked)}
+                className="h-4 w-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+              />
+              <label htmlFor="deployAuthRequired" className="block text-sm font-medium">
+                Require Authentication
+              </label>
+            </div>
+
+            {!authRequired && (
+              <div className="p-3 bg-error-50 dark:bg-error-900/20 rounded-md flex items-start gap-2 text-xs text-error-800 dark:text-error-300">
+                <AlertTriangle className="h-4 w-4 text-error-500 flex-shrink-0 mt-0.5" />
+                <span>Anyone who can reach this endpoint will be able to use the model.</span>
+              </div>
+            )}
+
+            <Button className="w-full" onClick={handleCreate} isLoading={isCreating} leftIcon={<Rocket className="h-4 w-4" />}>
+              Deploy
+            </Button>
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>Endpoints</CardTitle>
+                <button
+                  onClick={fetchDeployments}
+                  className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                  aria-label="Refresh endpoints"
+                >
+                  <RefreshCw className={cn('h-4 w-4', hasPendingDeployments && 'animate-spin')} />
+                </button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {isLoading ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Loading endpoints...</p>
+              ) : loadError ? (
+                <p className="text-sm text-red-600 dark:text-red-400">{loadError}</p>
+              ) : deployments.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No endpoints yet. Deploy a model to get started.</p>
+              ) : (
+                deployments.map(deployment => (
+                  <div
+                    key={deployment.id}
+                    onClick={() => setSelectedDeploymentId(deployment.id)}
+                    className={cn(
+                      'flex items-center justify-between rounded-md border p-3 cursor-pointer',
+                      deployment.id === selectedDeployment?.id
+                        ? 'border-primary-500 bg-primary-50/50 dark:bg-primary-900/10'
+                        : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800'
+                    )}
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">{deployment.name}</span>
+                        <Badge variant={getStatusVariant(deployment.status)} size="sm">{deployment.status}</Badge>
+                        {deployment.auth_required ? (
+                          <Lock className="h-3.5 w-3.5 text-gray-400" aria-label="Authentication required" />
+                        ) : (
+                          <Globe className="h-3.5 w-3.5 text-warning-500" aria-label="Public" />
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                        {deployment.model_name} · {deployment.rate_limit} req/min
+                        {deployment.request_count !== undefined && ` · ${deployment.request_count.toLocaleString()} requests`}
+                      </p>
+                      {deployment.error && (
+                        <p className="text-xs text-red-600 dark:text-red-400 mt-1">{deployment.error}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0" onClick={(e) => e.stopPropagation()}>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleToggle(deployment)}
+                        disabled={busyDeploymentId === deployment.id || deployment.status === 'pending'}
+                        leftIcon={deployment.status === 'stopped' || deployment.status === 'failed'
+                          ? <Play className="h-3.5 w-3.5" />
+                          : <Square className="h-3.5 w-3.5" />}
+                      >
+                        {deployment.status === 'stopped' || deployment.status === 'failed' ? 'Start' : 'Stop'}
+                      </Button>
+                      <button
+                        onClick={() => handleDelete(deployment)}
+                        disabled={busyDeploymentId === deployment.id}
+                        className="text-gray-400 hover:text-red-600"
+                        aria-label="Delete endpoint"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          {selectedDeployment && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Use "{selectedDeployment.name}"</CardTitle>
+                <CardDescription>
+                  {selectedDeployment.status === 'running'
+                    ? 'The endpoint is live and accepting requests'
+                    : 'The endpoint accepts requests once it is running'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center">
+                  <code className="text-xs bg-gray-50 dark:bg-gray-800 p-1.5 rounded border border-gray-200 dark:border-gray-600 flex-1 overflow-x-auto">
+                    {deploymentService.getEndpointUrl(selectedDeployment)}
+                  </code>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="ml-2"
+                    onClick={() => copyToClipboard(deploymentService.getEndpointUrl(selectedDeployment), 'Endpoint URL')}
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between border-b border-gray-200 dark:border-gray-700">
+                    <div className="flex">
+                      {snippetLanguages.map(language => (
+                        <button
+                          key={language.id}
+                          onClick={() => setSnippetLanguage(language.id)}
+                          className={cn(
+                            'px-3 py-1.5 text-sm border-b-2 -mb-px',
+                            snippetLanguage === language.id
+                              ? 'border-primary-500 text-primary-600 dark:text-primary-400'
+                              : 'border-transparent text-gray-500 hover:text-gray-700 dark:hover:text-gray-300'
+                          )}
+                        >
+                          {language.label}
+                        </button>
+                      ))}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      leftIcon={<Copy className="h-3.5 w-3.5" />}
+                      onClick={() => copyToClipboard(deploymentService.getSnippet(selectedDeployment, snippetLanguage), 'Snippet')}
+                    >
+                      Copy
+                    </Button>
+                  </div>
+                  <pre className="mt-2 max-h-72 overflow-auto rounded bg-gray-900 p-3 text-xs text-gray-100 font-mono">
+                    {deploymentService.getSnippet(selectedDeployment, snippetLanguage)}
+                  </pre>
+                  {selectedDeployment.auth_required && (
+                    <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                      Replace YOUR_API_KEY with a key from Settings.
+                    </p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
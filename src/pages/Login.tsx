@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { Navigate, useLocation, useNavigate, Location } from 'react-router-dom';
+import { Brain, LogIn, KeyRound } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { useAuth } from '../components/auth/AuthProvider';
+import { authService } from '../services/authService';
+
+const inputClassName = 'w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+export default function Login() {
+  const { user, login } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const from = (location.state as { from?: Location } | null)?.from;
+  const redirectTo = from ? `${from.pathname}${from.search}` : '/';
+
+  if (user) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password) {
+      setError('Enter your username and password');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await login(username.trim(), password);
+      navigate(redirectTo, { replace: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleOidcLogin = () => {
+    try {
+      window.location.assign(authService.getOidcLoginUrl(redirectTo));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Single sign-on is unavailable');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 px-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2 w-10 h-10 rounded-lg bg-primary-500 flex items-center justify-center">
+            <Brain className="h-5 w-5 text-white" />
+          </div>
+          <CardTitle>Sign in</CardTitle>
+          <CardDescription>Use your team account to access the workspace</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label htmlFor="loginUsername" className="block text-sm font-medium mb-1">Username</label>
+              <input
+                id="loginUsername"
+                autoComplete="username"
+                autoFocus
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="loginPassword" className="block text-sm font-medium mb-1">Password</label>
+              <input
+                type="password"
+                id="loginPassword"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            )}
+
+            <Button type="submit" className="w-full" isLoading={isSubmitting} leftIcon={<LogIn className="h-4 w-4" />}>
+              Sign in
+            </Button>
+          </form>
+
+          {authService.isOidcEnabled() && (
+            <>
+              <div className="my-4 flex items-center gap-3 text-xs text-gray-500 dark:text-gray-400">
+                <div className="h-px flex-1 bg-gray-200 dark:bg-gray-700" />
+                or
+                <div className="h-px flex-1 bg-gray-200 dark:bg-gray-700" />
+              </div>
+              <Button variant="outline" className="w-full" leftIcon={<KeyRound className="h-4 w-4" />} onClick={handleOidcLogin}>
+                Sign in with SSO
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,19 +1,37 @@
 import { useState, useRef, useEffect } from 'react';
-import { ArrowRight, CornerDownLeft, Copy, CheckCheck, MessageSquare, Scale, Send, DownloadCloud, AlertCircle, Loader2, Settings, ChevronDown, ChevronUp } from 'lucide-react';
+import { ArrowRight, CornerDownLeft, Copy, CheckCheck, MessageSquare, Scale, Send, DownloadCloud, AlertCircle, Loader2, Settings, ChevronDown, ChevronUp, History, Plus, ThumbsDown, PanelLeft, Square, Play, Code2 } from 'lucide-react';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '../components/ui/Card';
 import { Button } from '../components/ui/Button';
 import { Badge } from '../components/ui/Badge';
 import { motion } from 'framer-motion';
-import { chatApi, Model } from '../services/chatApi';
+import { useLocation } from 'react-router-dom';
+import { chatApi, Model, ConversationMessage, StreamStats, RenderedPrompt } from '../services/chatApi';
+import { preferenceService, PreferenceWinner } from '../services/preferenceService';
+import { chatSessionService, ChatMessage, ChatSession } from '../services/chatSessionService';
 import { AnimatedLoader } from '../components/ui/AnimatedLoader';
+import { ChatHistorySidebar } from '../components/chat/ChatHistorySidebar';
+import { GenerationSettings } from '../components/ui/GenerationSettings';
+import { JsonSchemaSettings } from '../components/ui/JsonSchemaSettings';
+import { StructuredOutputView } from '../components/ui/StructuredOutputView';
+import { predictionService } from '../services/predictionService';
+import { extractTemplateVariables } from '../services/promptTemplateService';
+import { PromptTemplatePicker } from '../components/ui/PromptTemplatePicker';
+import { RawPromptPreview } from '../components/ui/RawPromptPreview';
+import { parseJsonSchema } from '../utils/jsonSchemaUtils';
+import { GenerationConfig } from '../config/generation';
+import { useSettings } from '../components/settings/SettingsProvider';
+import { trimConversationToContext, mergeStreamStats, formatStreamStats, DEFAULT_MAX_SEQUENCE_LENGTH } from '../utils/chatUtils';
+import { getCheckpointLaunchState } from '../utils/checkpointUtils';
+import toast from 'react-hot-toast';
 
-interface ChatMessage {
-  role: 'user' | 'assistant';
-  content: string;
-  model?: string;
-}
+const createMessageId = (prefix: string = 'msg') =>
+  `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
 export default function ModelQuery() {
+  const { settings } = useSettings();
+  const location = useLocation();
+  // Read once so a checkpoint opened from its training session stays listed
+  const launchedCheckpointRef = useRef(getCheckpointLaunchState(location.state));
   const [activeTab, setActiveTab] = useState<'finetuned' | 'huggingface'>('finetuned');
   const [availableModels, setAvailableModels] = useState<Model[]>([]);
   const [huggingFaceModels, setHuggingFaceModels] = useState<Model[]>([]);
@@ -36,57 +54,38 @@ export default function ModelQuery() {
   const [isLoadingModel, setIsLoadingModel] = useState(false);
   const [modelLoadError, setModelLoadError] = useState<string | null>(null);
   const [modelLoadSuccess, setModelLoadSuccess] = useState(false);
-  const [temperature, setTemperature] = useState(0.7);
-  const [maxTokens, setMaxTokens] = useState(256);
+  const [generationConfig, setGenerationConfig] = useState<GenerationConfig>(settings.chat.generation);
+  const [conversationMode, setConversationMode] = useState(true);
+  const [trimmedTurns, setTrimmedTurns] = useState(0);
+  const [jsonMode, setJsonMode] = useState(false);
+  const [jsonSchemaText, setJsonSchemaText] = useState('');
+  const [modelOutputSchema, setModelOutputSchema] = useState<Record<string, unknown> | null>(null);
+  const [showRawPrompt, setShowRawPrompt] = useState(false);
+  const [renderedPrompt, setRenderedPrompt] = useState<RenderedPrompt | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllersRef = useRef<AbortController[]>([]);
   const [copySuccess, setCopySuccess] = useState<{[key: string]: boolean}>({});
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(true);
+  const [syncEnabled, setSyncEnabled] = useState(() => chatSessionService.isSyncEnabled());
+  const [votes, setVotes] = useState<{[turnId: string]: PreferenceWinner}>(() =>
+    Object.fromEntries(preferenceService.getVotes().map(vote => [vote.turnId, vote.winner]))
+  );
   
   // System Prompt state
   const [systemPrompt, setSystemPrompt] = useState('');
   const [systemPromptEnabled, setSystemPromptEnabled] = useState(false);
   const [showSystemPrompt, setShowSystemPrompt] = useState(false);
-  const [selectedTemplate, setSelectedTemplate] = useState('');
-
-  // System Prompt Templates
-  const systemPromptTemplates = [
-    {
-      id: 'default',
-      name: 'Default Assistant',
-      prompt: 'You are a helpful AI assistant. Provide accurate, concise, and helpful responses to user questions.'
-    },
-    {
-      id: 'code_expert',
-      name: 'Code Expert',
-      prompt: 'You are an expert programmer and software engineer. Help users with coding questions, debugging, and best practices. Provide clear explanations and well-commented code examples.'
-    },
-    {
-      id: 'customer_support',
-      name: 'Customer Support',
-      prompt: 'You are a friendly and professional customer support agent. Help customers with their inquiries, provide solutions to problems, and maintain a positive, helpful tone.'
-    },
-    {
-      id: 'creative_writer',
-      name: 'Creative Writer',
-      prompt: 'You are a creative writing assistant. Help users with storytelling, creative writing, character development, and narrative techniques. Be imaginative and inspiring.'
-    },
-    {
-      id: 'technical_analyst',
-      name: 'Technical Analyst',
-      prompt: 'You are a technical analyst and expert in data analysis. Provide detailed technical insights, explain complex concepts clearly, and help with data interpretation.'
-    },
-    {
-      id: 'educator',
-      name: 'Educator',
-      prompt: 'You are an experienced educator and tutor. Explain concepts clearly, provide examples, and adapt your teaching style to help users learn effectively.'
-    }
-  ];
-  
+
   // Get current models list based on active tab
   const currentModels = activeTab === 'finetuned' ? availableModels : huggingFaceModels;
   
   // Get selected model info
   const selectedModel = currentModels.find((m: Model) => m.id === selectedModelId);
-  const compareModel = currentModels.find((m: Model) => m.id === compareModelId);
+  // The comparison model may come from either list (e.g. fine-tuned vs. its base model)
+  const compareModel = [...currentModels, ...availableModels, ...huggingFaceModels]
+    .find((m: Model) => m.id === compareModelId);
   
   // Load available models function
   const loadModels = async () => {
@@ -94,7 +93,20 @@ export default function ModelQuery() {
       setIsLoadingModels(true);
       setModelError(null);
       setRetryCount(prev => prev + 1);
-      const models = await chatApi.fetchAvailableModels();
+      const fetchedModels = await chatApi.fetchAvailableModels();
+
+      // A checkpoint opened from its training session is listed and selected first
+      const checkpoint = launchedCheckpointRef.current;
+      const checkpointModel: Model | null = checkpoint && {
+        id: checkpoint.checkpointPath,
+        name: checkpoint.checkpointLabel,
+        description: 'Training checkpoint',
+        size: 'Unknown',
+        architecture: 'LoRA',
+        isBase: false,
+        checkpointPath: checkpoint.checkpointPath,
+      };
+      const models = checkpointModel ? [checkpointModel, ...fetchedModels] : fetchedModels;
       setAvailableModels(models);
       
       // Set default selected models
@@ -212,7 +224,7 @@ export default function ModelQuery() {
       // For fine-tuned models, construct the full path (e.g., "./results/model_name")
       const modelIdentifier = activeTab === 'huggingface' 
         ? selectedModel.hf_model_id || selectedModel.name  // Use HF model ID directly
-        : chatApi.getModelPath(selectedModel.name);  // Use chatApi to get full local path
+        : selectedModel.checkpointPath || chatApi.getModelPath(selectedModel.name);  // Use chatApi to get full local path
       
       console.log(`Loading ${activeTab} model:`, modelIdentifier);
       loadSelectedModel(modelIdentifier);
@@ -225,7 +237,7 @@ export default function ModelQuery() {
     if (selectedModel) {
       const modelIdentifier = activeTab === 'huggingface' 
         ? selectedModel.hf_model_id || selectedModel.name  // Use HF model ID directly
-        : chatApi.getModelPath(selectedModel.name);  // Use chatApi to get full local path
+        : selectedModel.checkpointPath || chatApi.getModelPath(selectedModel.name);  // Use chatApi to get full local path
       
       console.log(`Force reloading ${activeTab} model:`, modelIdentifier);
       loadSelectedModel(modelIdentifier, true);
@@ -326,18 +338,13 @@ export default function ModelQuery() {
   ];
 
   // System Prompt handlers
-  const handleTemplateSelect = (templateId: string) => {
-    const template = systemPromptTemplates.find(t => t.id === templateId);
-    if (template) {
-      setSystemPrompt(template.prompt);
-      setSelectedTemplate(templateId);
-      setSystemPromptEnabled(true);
-    }
+  const handleTemplateApply = (content: string) => {
+    setSystemPrompt(content);
+    setSystemPromptEnabled(true);
   };
 
   const handleSystemPromptClear = () => {
     setSystemPrompt('');
-    setSelectedTemplate('');
   };
 
   const handleSystemPromptToggle = () => {
@@ -356,95 +363,346 @@ export default function ModelQuery() {
     }
   }, [messages]);
 
+  // Look up the fine-tuned model's output_schema so JSON mode can reuse it
+  const selectedModelName = selectedModel?.name;
+  useEffect(() => {
+    if (!jsonMode || activeTab !== 'finetuned' || !selectedModelName) {
+      setModelOutputSchema(null);
+      return;
+    }
+
+    let cancelled = false;
+    predictionService.getAvailableModels()
+      .then(models => {
+        const info = models.find(m => m.model_id === selectedModelId || m.name === selectedModelName);
+        if (!cancelled) setModelOutputSchema(info?.output_schema || null);
+      })
+      .catch(error => console.error('Failed to load model output schema:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [jsonMode, activeTab, selectedModelId, selectedModelName]);
+
+  // Load saved chat sessions on component mount
+  useEffect(() => {
+    chatSessionService.listSessions()
+      .then(setSessions)
+      .catch(error => console.error('Failed to load chat sessions:', error));
+  }, []);
+
+  // Persist the active session once a response has finished streaming
+  useEffect(() => {
+    if (isGenerating || !activeSessionId || messages.length === 0) return;
+
+    const existing = sessions.find(session => session.id === activeSessionId);
+    if (!existing || existing.messages === messages) return;
+
+    const updated: ChatSession = {
+      ...existing,
+      messages,
+      modelName: selectedModel?.name || existing.modelName,
+      systemPrompt: systemPromptEnabled && systemPrompt.trim() ? systemPrompt.trim() : undefined,
+      updatedAt: new Date().toISOString(),
+    };
+    setSessions(prev => [updated, ...prev.filter(session => session.id !== updated.id)]);
+    chatSessionService.saveSession(updated)
+      .catch(error => console.error('Failed to save chat session:', error));
+  }, [messages, isGenerating, activeSessionId, sessions, selectedModel?.name, systemPromptEnabled, systemPrompt]);
+
   const handleSendMessage = async () => {
-    if (!inputValue.trim()) return;
+    if (!inputValue.trim() || !selectedModel) return;
+
+    const { schema: jsonSchema } = parseJsonSchema(jsonSchemaText);
+    if (jsonMode && !jsonSchema) {
+      toast.error('Enter a valid JSON schema or turn off JSON mode');
+      return;
+    }
+    const activeSchema = jsonMode ? jsonSchema : undefined;
+
+    const unfilledVariables = systemPromptEnabled ? extractTemplateVariables(systemPrompt) : [];
+    if (unfilledVariables.length > 0) {
+      toast.error(`Fill in the system prompt variables: ${unfilledVariables.join(', ')}`);
+      return;
+    }
 
     // Add user message
-    const userMessage: ChatMessage = { role: 'user', content: inputValue };
+    const turnId = createMessageId('turn');
+    const userMessage: ChatMessage = { id: createMessageId(), role: 'user', content: inputValue, turnId };
+    const history = [...messages, userMessage];
     setMessages(prev => [...prev, userMessage]);
+
+    // Start a new saved session on the first message of a chat
+    if (!activeSessionId) {
+      const session = chatSessionService.createSession(inputValue, selectedModel.name);
+      setSessions(prev => [session, ...prev]);
+      setActiveSessionId(session.id);
+    }
     setInputValue('');
     setIsGenerating(true);
     
-    // Generate responses for both models
-    await generateResponse(selectedModelId, inputValue);
-    if (showCompare) {
-      await generateResponse(compareModelId, inputValue, 50); // Slight delay for the comparison model
+    if (showCompare && compareModel) {
+      // Generate both answers side by side, each pinned to its own model
+      await Promise.all([
+        generateResponse(selectedModel, inputValue, history, activeSchema, { turnId, slot: 'a' }),
+        generateResponse(compareModel, inputValue, history, activeSchema, { turnId, slot: 'b' }),
+      ]);
+    } else {
+      await generateResponse(selectedModel, inputValue, history, activeSchema);
     }
     
     setIsGenerating(false);
   };
 
-  const generateResponse = async (modelId: string, prompt: string, delay = 0) => {
-    const model = currentModels.find(m => m.id === modelId);
-    if (!model) return;
+  // Identifier the backend uses to resolve a model: HF model ID or local results path
+  const getModelIdentifier = (model: Model): string => {
+    return model.hf_model_id || model.checkpointPath || chatApi.getModelPath(model.name);
+  };
+
+  // Build the role/content history sent to a model, keeping only that model's own replies
+  const buildConversation = (history: ChatMessage[], modelName: string): ConversationMessage[] => {
+    return history
+      .filter(msg => msg.role === 'user' || !msg.model || msg.model === modelName)
+      .filter(msg => msg.content.trim())
+      .map(msg => ({ role: msg.role, content: msg.content }));
+  };
+
+  // Conversation the next message would send, shown in the raw prompt preview
+  const buildPendingConversation = (): ConversationMessage[] => {
+    if (!selectedModel) return [];
+
+    const prompt: ConversationMessage = { role: 'user', content: inputValue };
+    const turns = conversationMode
+      ? trimConversationToContext([...buildConversation(messages, selectedModel.name), prompt], {
+          maxSequenceLength: selectedModel.maxSequenceLength || DEFAULT_MAX_SEQUENCE_LENGTH,
+          maxNewTokens: generationConfig.max_tokens,
+          systemPrompt: systemPromptEnabled ? systemPrompt : '',
+        }).messages
+      : [prompt];
+
+    return systemPromptEnabled && systemPrompt.trim()
+      ? [{ role: 'system', content: systemPrompt.trim() }, ...turns]
+      : turns;
+  };
+
+  const pendingConversation = showRawPrompt ? buildPendingConversation() : [];
+  const pendingConversationKey = JSON.stringify(pendingConversation);
+  const selectedModelIdentifier = selectedModel ? getModelIdentifier(selectedModel) : null;
+
+  // Ask the backend to render the exact prompt; the preview falls back to a local estimate
+  useEffect(() => {
+    if (!showRawPrompt || !selectedModelIdentifier) return;
+
+    let cancelled = false;
+    const timeoutId = setTimeout(() => {
+      chatApi.previewChatTemplate(JSON.parse(pendingConversationKey), { model_id: selectedModelIdentifier })
+        .then(result => {
+          if (!cancelled) setRenderedPrompt(result);
+        })
+        .catch(() => {
+          if (!cancelled) setRenderedPrompt(null);
+        });
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [showRawPrompt, pendingConversationKey, selectedModelIdentifier]);
+
+  const handleClearChat = () => {
+    setActiveSessionId(null);
+    setMessages([]);
+    setTrimmedTurns(0);
+  };
+
+  const handleSelectSession = (session: ChatSession) => {
+    setActiveSessionId(session.id);
+    setMessages(session.messages);
+    setTrimmedTurns(0);
+    if (session.systemPrompt) {
+      setSystemPrompt(session.systemPrompt);
+      setSystemPromptEnabled(true);
+    }
+  };
+
+  const handleRenameSession = async (sessionId: string, name: string) => {
+    try {
+      const renamed = await chatSessionService.renameSession(sessionId, name);
+      if (renamed) {
+        setSessions(prev => prev.map(session => session.id === sessionId ? renamed : session));
+      }
+    } catch (error) {
+      console.error('Failed to rename chat session:', error);
+      toast.error('Failed to rename chat');
+    }
+  };
+
+  const handleDeleteSession = async (session: ChatSession) => {
+    if (!confirm(`Are you sure you want to delete the chat "${session.name}"?`)) {
+      return;
+    }
 
-    // Add delay for comparison model
-    if (delay > 0) {
-      await new Promise(resolve => setTimeout(resolve, delay));
+    try {
+      await chatSessionService.deleteSession(session.id);
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+      if (session.id === activeSessionId) {
+        handleClearChat();
+      }
+    } catch (error) {
+      console.error('Failed to delete chat session:', error);
+      toast.error('Failed to delete chat');
     }
+  };
 
+  const handleExportSessions = (sessionsToExport: ChatSession[]) => {
+    const filename = sessionsToExport.length === 1 ? `${sessionsToExport[0].name.replace(/[^\w-]+/g, '_')}.jsonl` : undefined;
+    const count = chatSessionService.downloadAsJsonl(sessionsToExport, filename);
+    if (count === 0) {
+      toast.error('No answered messages to export');
+    } else {
+      toast.success(`Exported ${count} training ${count === 1 ? 'example' : 'examples'}`);
+    }
+  };
+
+  const handleToggleSync = (enabled: boolean) => {
+    chatSessionService.setSyncEnabled(enabled);
+    setSyncEnabled(enabled);
+  };
+
+  const generateResponse = async (
+    model: Model,
+    prompt: string,
+    history: ChatMessage[],
+    jsonSchema?: Record<string, unknown>,
+    comparison?: { turnId: string; slot: 'a' | 'b' }
+  ) => {
     // Create initial empty message
+    const messageId = createMessageId();
     const newMessage: ChatMessage = { 
+      id: messageId,
       role: 'assistant', 
       content: '',
-      model: model.name
+      model: model.name,
+      ...comparison,
+      ...(jsonSchema && { jsonSchema }),
     };
     
     setMessages(prev => [...prev, newMessage]);
-    const messageIndex = messages.length + 1; // +1 because we just added user message
+    await streamIntoMessage(messageId, model, { prompt, history, pinned: !!comparison, jsonSchema });
+  };
+
+  // Stream a response from the model into an existing assistant message
+  const streamIntoMessage = async (
+    messageId: string,
+    model: Model,
+    request: {
+      prompt: string;
+      history: ChatMessage[];
+      pinned: boolean;
+      continuation?: boolean;
+      jsonSchema?: Record<string, unknown>;
+    }
+  ) => {
+    const controller = new AbortController();
+    abortControllersRef.current.push(controller);
+
+    const updateMessage = (update: (msg: ChatMessage) => ChatMessage) => {
+      setMessages(prev => prev.map(msg => msg.id === messageId ? update(msg) : msg));
+    };
 
     try {
       // Prepare chat parameters with system prompt if enabled
       const chatParams = {
-        max_tokens: maxTokens,
-        temperature: temperature,
+        ...generationConfig,
         ...(systemPromptEnabled && systemPrompt.trim() && {
           system_prompt: systemPrompt.trim()
-        })
+        }),
+        // Pin comparison requests so each answer comes from its own model
+        ...(request.pinned && { model_id: getModelIdentifier(model) }),
+        ...(request.continuation && { continue_final_message: true }),
+        ...(request.jsonSchema && { json_schema: request.jsonSchema }),
       };
 
-      // Use streaming chat API
-      await chatApi.streamChat(
-        prompt,
-        chatParams,
-        // onChunk callback - update message content as chunks arrive
-        (chunk: string) => {
-          setMessages(prev => 
-            prev.map((msg, idx) => 
-              idx === messageIndex ? { ...msg, content: msg.content + chunk } : msg
-            )
-          );
-        },
-        // onComplete callback
-        () => {
-          console.log('Streaming completed for model:', model.name);
-        },
-        // onError callback
-        (error: Error) => {
-          console.error('Streaming error for model:', model.name, error);
-          setMessages(prev => 
-            prev.map((msg, idx) => 
-              idx === messageIndex ? { 
-                ...msg, 
-                content: msg.content + '\n\n[Error: Failed to get response from model. Please try again.]'
-              } : msg
-            )
-          );
-        }
-      );
+      // onChunk callback - update message content as chunks arrive
+      const onChunk = (chunk: string) => {
+        updateMessage(msg => ({ ...msg, content: msg.content + chunk }));
+      };
+
+      // onComplete callback
+      const onComplete = (stats: StreamStats) => {
+        console.log('Streaming completed for model:', model.name, stats);
+        updateMessage(msg => ({
+          ...msg,
+          stats: request.continuation ? mergeStreamStats(msg.stats, stats) : stats,
+          stopped: !!stats.aborted,
+        }));
+      };
+
+      // onError callback - keep the partial output so it can be continued
+      const onError = (error: Error) => {
+        console.error('Streaming error for model:', model.name, error);
+        updateMessage(msg => ({
+          ...msg,
+          error: 'Failed to get response from model. Please try again.',
+        }));
+      };
+
+      const options = { signal: controller.signal };
+
+      if (conversationMode || request.continuation) {
+        // Send the full history, trimmed to fit the model's context window
+        const { messages: conversation, droppedCount } = trimConversationToContext(
+          buildConversation(request.history, model.name),
+          {
+            maxSequenceLength: model.maxSequenceLength || DEFAULT_MAX_SEQUENCE_LENGTH,
+            maxNewTokens: generationConfig.max_tokens,
+            systemPrompt: chatParams.system_prompt,
+          }
+        );
+        setTrimmedTurns(droppedCount);
+
+        await chatApi.streamConversation(conversation, chatParams, onChunk, onComplete, onError, options);
+      } else {
+        // Single-turn mode: only the latest prompt is sent
+        await chatApi.streamChat(request.prompt, chatParams, onChunk, onComplete, onError, options);
+      }
     } catch (error) {
       console.error('Failed to generate response:', error);
-      setMessages(prev => 
-        prev.map((msg, idx) => 
-          idx === messageIndex ? { 
-            ...msg, 
-            content: '[Error: Failed to connect to the model. Please check your connection and try again.]'
-          } : msg
-        )
-      );
+      updateMessage(msg => ({
+        ...msg,
+        error: 'Failed to connect to the model. Please check your connection and try again.',
+      }));
+    } finally {
+      abortControllersRef.current = abortControllersRef.current.filter(c => c !== controller);
     }
   };
 
+  const handleStopGeneration = () => {
+    abortControllersRef.current.forEach(controller => controller.abort());
+  };
+
+  // Resume a stopped or failed answer from its partial output
+  const handleContinueGeneration = async (message: ChatMessage) => {
+    const model = [...currentModels, ...availableModels, ...huggingFaceModels]
+      .find(m => m.name === message.model);
+    if (!model || isGenerating) return;
+
+    const history = messages.slice(0, messages.findIndex(msg => msg.id === message.id) + 1);
+    setMessages(prev => prev.map(msg => msg.id === message.id ? { ...msg, stopped: false, error: undefined } : msg));
+    setIsGenerating(true);
+
+    await streamIntoMessage(message.id, model, {
+      prompt: '',
+      history,
+      pinned: !!message.slot,
+      continuation: true,
+      jsonSchema: message.jsonSchema,
+    });
+
+    setIsGenerating(false);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -452,14 +710,153 @@ export default function ModelQuery() {
     }
   };
 
-  const copyToClipboard = (text: string, messageIndex: number) => {
+  const copyToClipboard = (text: string, messageId: string) => {
     navigator.clipboard.writeText(text);
-    setCopySuccess({...copySuccess, [messageIndex]: true});
+    setCopySuccess({...copySuccess, [messageId]: true});
     setTimeout(() => {
-      setCopySuccess({...copySuccess, [messageIndex]: false});
+      setCopySuccess({...copySuccess, [messageId]: false});
     }, 2000);
   };
 
+  // Record which of the two comparison answers was better
+  const handleVote = (turnId: string, responseA: ChatMessage, responseB: ChatMessage, winner: PreferenceWinner) => {
+    const prompt = messages.find(msg => msg.role === 'user' && msg.turnId === turnId)?.content || '';
+
+    preferenceService.recordVote({
+      turnId,
+      prompt,
+      ...(systemPromptEnabled && systemPrompt.trim() && { systemPrompt: systemPrompt.trim() }),
+      modelA: responseA.model || '',
+      modelB: responseB.model || '',
+      responseA: responseA.content,
+      responseB: responseB.content,
+      winner,
+    });
+    setVotes(prev => ({ ...prev, [turnId]: winner }));
+  };
+
+  const handleExportVotes = () => {
+    const count = preferenceService.downloadPreferenceDataset();
+    if (count === 0) {
+      toast.error('No votes with a preferred answer to export yet');
+    } else {
+      toast.success(`Exported ${count} preference ${count === 1 ? 'pair' : 'pairs'}`);
+    }
+  };
+
+  const renderMessageBubble = (message: ChatMessage, fullWidth: boolean = false) => (
+    <div className={`
+      inline-block rounded-lg px-4 py-2 break-words
+      ${fullWidth ? 'w-full' : 'max-w-[85%] md:max-w-[75%]'}
+      ${message.role === 'user' 
+        ? 'bg-primary-600 text-white' 
+        : 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100'}
+    `}>
+      {message.role === 'assistant' && message.model && (
+        <div className="mb-1 flex items-center gap-2">
+          {message.slot && (
+            <span className="text-xs font-semibold text-gray-500">{message.slot.toUpperCase()}</span>
+          )}
+          <Badge variant={message.model.includes('fine-tuned') || !message.model.includes('v0.1') ? 'secondary' : 'outline'} size="sm">
+            {message.model}
+          </Badge>
+          <button
+            onClick={() => copyToClipboard(message.content, message.id)}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+            aria-label="Copy text"
+          >
+            {copySuccess[message.id] ? (
+              <CheckCheck className="h-3 w-3" />
+            ) : (
+              <Copy className="h-3 w-3" />
+            )}
+          </button>
+        </div>
+      )}
+      {message.jsonSchema && message.content && (message.stats || message.stopped || message.error) ? (
+        // Structured answers are validated once the stream has finished
+        <StructuredOutputView output={message.content} schema={message.jsonSchema} className="mt-1" />
+      ) : (
+        <div className="text-sm whitespace-pre-line">
+          {message.content}
+          {message.role === 'assistant' && message.content === '' && isGenerating && !message.stats && !message.error && (
+            <AnimatedLoader variant="typing" size="sm" />
+          )}
+        </div>
+      )}
+      {message.error && (
+        <div className="mt-2 flex items-center text-xs text-red-600">
+          <AlertCircle className="h-3.5 w-3.5 mr-1" />
+          {message.error}
+        </div>
+      )}
+      {message.role === 'assistant' && (message.stats || message.stopped || message.error) && (
+        <div className="mt-2 pt-1.5 border-t border-gray-200 dark:border-gray-700 flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+          {message.stats && <span>{formatStreamStats(message.stats)}</span>}
+          {message.stopped && <Badge variant="warning" size="sm">Stopped</Badge>}
+          {(message.stopped || message.error) && message.content && (
+            <button
+              onClick={() => handleContinueGeneration(message)}
+              disabled={isGenerating}
+              className="inline-flex items-center gap-1 text-primary-600 hover:text-primary-700 dark:text-primary-400 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Play className="h-3 w-3" />
+              Continue generation
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderComparison = (responseA: ChatMessage, responseB: ChatMessage) => {
+    const turnId = responseA.turnId!;
+    const vote = votes[turnId];
+    const canVote = !isGenerating && !!responseA.content && !!responseB.content;
+    const voteOptions: { winner: PreferenceWinner; label: string }[] = [
+      { winner: 'a', label: 'A is better' },
+      { winner: 'tie', label: 'Tie' },
+      { winner: 'b', label: 'B is better' },
+    ];
+
+    return (
+      <div className="flex flex-col">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 items-stretch">
+          {renderMessageBubble(responseA, true)}
+          {renderMessageBubble(responseB, true)}
+        </div>
+        <div className="mt-2 flex flex-wrap items-center justify-center gap-2">
+          <div className="inline-flex items-center gap-2 px-3 py-1 bg-gray-100 dark:bg-gray-800/50 rounded-full">
+            <Scale className="h-3.5 w-3.5 text-gray-500" />
+            <span className="text-xs font-medium text-gray-600 dark:text-gray-400">Which answer is better?</span>
+          </div>
+          {voteOptions.map(option => (
+            <Button
+              key={option.winner}
+              variant={vote === option.winner ? 'primary' : 'outline'}
+              size="sm"
+              disabled={!canVote}
+              onClick={() => handleVote(turnId, responseA, responseB, option.winner)}
+              className="h-7 text-xs"
+            >
+              {option.label}
+            </Button>
+          ))}
+          <Button
+            variant={vote === 'both_bad' ? 'primary' : 'ghost'}
+            size="sm"
+            disabled={!canVote}
+            onClick={() => handleVote(turnId, responseA, responseB, 'both_bad')}
+            className="h-7 text-xs"
+            leftIcon={<ThumbsDown className="h-3 w-3" />}
+          >
+            Both bad
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-6">
       <div>
@@ -722,18 +1119,24 @@ export default function ModelQuery() {
                 </>
               )}
               
-              {/* <div className="flex items-center space-x-3 pt-1">
+              <div className="flex items-center space-x-3 pt-1">
                 <input
                   type="checkbox"
                   id="compareMode"
                   checked={showCompare}
-                  onChange={() => setShowCompare(!showCompare)}
+                  onChange={() => {
+                    // Base models are offered for comparison, so make sure they are loaded
+                    if (!showCompare && huggingFaceModels.length === 0) {
+                      loadHuggingFaceModels();
+                    }
+                    setShowCompare(!showCompare);
+                  }}
                   className="h-4 w-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
                 />
                 <label htmlFor="compareMode" className="text-sm">
-                  Compare with base model
+                  Compare with another model
                 </label>
-              </div> */}
+              </div>
               
               {showCompare && (
                 <motion.div
@@ -751,15 +1154,34 @@ export default function ModelQuery() {
                       onChange={(e) => setCompareModelId(e.target.value)}
                       className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                     >
-                      {currentModels
-                        .filter((model) => model.id !== selectedModelId)
-                        .map((model) => (
-                          <option key={model.id} value={model.id}>
-                            {model.name}
-                            {activeTab === 'huggingface' && model.family && ` (${model.family})`}
-                          </option>
-                        ))}
+                      <option value="">Select a model...</option>
+                      {availableModels.filter((model) => model.id !== selectedModelId).length > 0 && (
+                        <optgroup label="Fine-tuned Models">
+                          {availableModels
+                            .filter((model) => model.id !== selectedModelId)
+                            .map((model) => (
+                              <option key={model.id} value={model.id}>
+                                {model.name}
+                              </option>
+                            ))}
+                        </optgroup>
+                      )}
+                      {huggingFaceModels.filter((model) => model.id !== selectedModelId).length > 0 && (
+                        <optgroup label="Base Models (Hugging Face)">
+                          {huggingFaceModels
+                            .filter((model) => model.id !== selectedModelId)
+                            .map((model) => (
+                              <option key={model.id} value={model.id}>
+                                {model.name}
+                                {model.family && ` (${model.family})`}
+                              </option>
+                            ))}
+                        </optgroup>
+                      )}
                     </select>
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      Each answer is generated by its own model and shown side by side
+                    </p>
                   </div>
                 </motion.div>
               )}
@@ -767,47 +1189,38 @@ export default function ModelQuery() {
               <div className="pt-4">
                 <h4 className="text-sm font-medium mb-3">Parameters</h4>
                 <div className="space-y-3">
-                  <div className="space-y-1">
-                    <div className="flex items-center justify-between">
-                      <label htmlFor="temperature" className="text-xs font-medium">
-                        Temperature
-                      </label>
-                      <span className="text-xs">{temperature}</span>
-                    </div>
+                  <GenerationSettings
+                    value={generationConfig}
+                    onChange={setGenerationConfig}
+                    disabled={isGenerating}
+                  />
+
+                  <div className="flex items-start space-x-3 pt-1">
                     <input
-                      type="range"
-                      id="temperature"
-                      min="0"
-                      max="2"
-                      step="0.1"
-                      value={temperature}
-                      onChange={(e) => setTemperature(parseFloat(e.target.value))}
-                      className="w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary-600"
+                      type="checkbox"
+                      id="conversationMode"
+                      checked={conversationMode}
+                      onChange={() => setConversationMode(!conversationMode)}
+                      className="h-4 w-4 mt-0.5 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
                     />
-                    <div className="flex justify-between text-xs text-gray-500">
-                      <span>Precise</span>
-                      <span>Creative</span>
-                    </div>
-                  </div>
-                  
-                  <div className="space-y-1">
-                    <div className="flex items-center justify-between">
-                      <label htmlFor="maxTokens" className="text-xs font-medium">
-                        Max Tokens
+                    <div>
+                      <label htmlFor="conversationMode" className="text-xs font-medium">
+                        Multi-turn Conversation
                       </label>
-                      <span className="text-xs">{maxTokens}</span>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Send earlier messages as context (trimmed to {selectedModel?.maxSequenceLength || DEFAULT_MAX_SEQUENCE_LENGTH} tokens)
+                      </p>
                     </div>
-                    <input
-                      type="range"
-                      id="maxTokens"
-                      min="32"
-                      max="2048"
-                      step="32"
-                      value={maxTokens}
-                      onChange={(e) => setMaxTokens(parseInt(e.target.value))}
-                      className="w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary-600"
-                    />
                   </div>
+
+                  <JsonSchemaSettings
+                    enabled={jsonMode}
+                    onEnabledChange={setJsonMode}
+                    schemaText={jsonSchemaText}
+                    onSchemaTextChange={setJsonSchemaText}
+                    modelSchema={modelOutputSchema}
+                    disabled={isGenerating}
+                  />
                   
                 </div>
               </div>
@@ -860,24 +1273,13 @@ export default function ModelQuery() {
 
                     {systemPromptEnabled && (
                       <>
-                        {/* Template Selector */}
-                        <div>
-                          <label className="block text-xs font-medium mb-1">
-                            Quick Templates
-                          </label>
-                          <select
-                            value={selectedTemplate}
-                            onChange={(e) => handleTemplateSelect(e.target.value)}
-                            className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-                          >
-                            <option value="">Select a template...</option>
-                            {systemPromptTemplates.map((template) => (
-                              <option key={template.id} value={template.id}>
-                                {template.name}
-                              </option>
-                            ))}
-                          </select>
-                        </div>
+                        {/* Template Library */}
+                        <PromptTemplatePicker
+                          currentContent={systemPrompt}
+                          onApply={handleTemplateApply}
+                          label="Quick Templates"
+                          disabled={isGenerating}
+                        />
 
                         {/* System Prompt Textarea */}
                         <div>
@@ -932,148 +1334,199 @@ export default function ModelQuery() {
         </div>
         
         <div className="lg:col-span-3 h-full flex flex-col">
-          <Card className="flex-1 flex flex-col h-full min-h-[600px]">
-            <CardHeader className="border-b flex-shrink-0">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center space-x-3">
-                  <MessageSquare className="h-5 w-5 text-primary-500" />
-                  <div>
-                    <CardTitle>Model Chat</CardTitle>
-                    <CardDescription>
-                      {showCompare ? 'Compare responses from different models' : 'Test your selected model'}
-                    </CardDescription>
+          <Card className="flex-1 flex h-full min-h-[600px] overflow-hidden">
+            {showHistory && (
+              <ChatHistorySidebar
+                sessions={sessions}
+                activeSessionId={activeSessionId}
+                syncEnabled={syncEnabled}
+                disabled={isGenerating}
+                onNewChat={handleClearChat}
+                onSelect={handleSelectSession}
+                onRename={handleRenameSession}
+                onDelete={handleDeleteSession}
+                onExport={handleExportSessions}
+                onToggleSync={handleToggleSync}
+              />
+            )}
+            <div className="flex-1 flex flex-col min-w-0">
+              <CardHeader className="border-b flex-shrink-0">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-3">
+                    <button
+                      onClick={() => setShowHistory(!showHistory)}
+                      className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+                      aria-label="Toggle chat history"
+                    >
+                      <PanelLeft className="h-5 w-5" />
+                    </button>
+                    <MessageSquare className="h-5 w-5 text-primary-500" />
+                    <div>
+                      <CardTitle>Model Chat</CardTitle>
+                      <CardDescription>
+                        {showCompare ? 'Compare responses from different models' : 'Test your selected model'}
+                      </CardDescription>
+                    </div>
                   </div>
-                </div>
-                {systemPromptEnabled && systemPrompt.trim() && (
                   <div className="flex items-center gap-2">
-                    <Badge variant="secondary" size="sm" className="flex items-center gap-1">
-                      <Settings className="h-3 w-3" />
-                      System Prompt Active
-                    </Badge>
-                  </div>
-                )}
-              </div>
-            </CardHeader>
-            <CardContent className="flex-1 overflow-y-auto p-4 max-h-[500px] min-h-[400px]">
-              <div className="space-y-6">
-                {messages.length === 0 ? (
-                  <div className="h-full flex flex-col items-center justify-center text-center p-8">
-                    <div className="bg-gray-100 dark:bg-gray-800 p-3 rounded-full mb-4">
-                      <MessageSquare className="h-6 w-6 text-gray-400" />
-                    </div>
-                    <h3 className="font-medium mb-1">No messages yet</h3>
-                    <p className="text-sm text-gray-500 dark:text-gray-400 max-w-sm">
-                      Send a message to start chatting with the selected model
-                    </p>
-                    <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-2 w-full max-w-md">
-                      <Button
-                        variant="outline" 
-                        size="sm"
-                        className="justify-start text-left"
-                        onClick={() => setInputValue("What's the difference between fine-tuning and prompt engineering?")}
-                      >
-                        Explain fine-tuning vs prompt engineering
-                      </Button>
-                      <Button
-                        variant="outline" 
-                        size="sm"
-                        className="justify-start text-left"
-                        onClick={() => setInputValue("My shipment is delayed. Can you help me?")}
-                      >
-                        Help with a delayed shipment
-                      </Button>
+                    {conversationMode && trimmedTurns > 0 && (
+                      <Badge variant="warning" size="sm" className="flex items-center gap-1">
+                        <History className="h-3 w-3" />
+                        {trimmedTurns} earlier {trimmedTurns === 1 ? 'message' : 'messages'} trimmed
+                      </Badge>
+                    )}
+                    {systemPromptEnabled && systemPrompt.trim() && (
+                      <Badge variant="secondary" size="sm" className="flex items-center gap-1">
+                        <Settings className="h-3 w-3" />
+                        System Prompt Active
+                      </Badge>
+                    )}
+                    {showCompare && (
                       <Button
-                        variant="outline" 
+                        variant="outline"
                         size="sm"
-                        className="justify-start text-left"
-                        onClick={() => setInputValue("Write a function to check order status")}
+                        onClick={handleExportVotes}
+                        leftIcon={<DownloadCloud className="h-4 w-4" />}
                       >
-                        Generate a status-checking function
+                        Export Votes
                       </Button>
+                    )}
+                    <Button
+                      variant={showRawPrompt ? 'secondary' : 'ghost'}
+                      size="sm"
+                      onClick={() => setShowRawPrompt(!showRawPrompt)}
+                      leftIcon={<Code2 className="h-4 w-4" />}
+                    >
+                      Raw Prompt
+                    </Button>
+                    {messages.length > 0 && (
                       <Button
-                        variant="outline" 
+                        variant="ghost"
                         size="sm"
-                        className="justify-start text-left"
-                        onClick={() => setInputValue("Summarize the key benefits of small LLMs")}
+                        onClick={handleClearChat}
+                        disabled={isGenerating}
+                        leftIcon={<Plus className="h-4 w-4" />}
                       >
-                        Summarize small LLM benefits
+                        New Chat
                       </Button>
-                    </div>
+                    )}
                   </div>
-                ) : (
-                  messages.map((message, index) => (
-                    <div key={index} className="flex flex-col">
-                      <div className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                        <div className={`
-                          inline-block rounded-lg px-4 py-2 max-w-[85%] md:max-w-[75%] break-words
-                          ${message.role === 'user' 
-                            ? 'bg-primary-600 text-white' 
-                            : 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100'}
-                        `}>
-                          {message.role === 'assistant' && message.model && (
-                            <div className="mb-1 flex items-center gap-2">
-                              <Badge variant={message.model.includes('fine-tuned') || !message.model.includes('v0.1') ? 'secondary' : 'outline'} size="sm">
-                                {message.model}
-                              </Badge>
-                              <button
-                                onClick={() => copyToClipboard(message.content, index)}
-                                className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
-                                aria-label="Copy text"
-                              >
-                                {copySuccess[index] ? (
-                                  <CheckCheck className="h-3 w-3" />
-                                ) : (
-                                  <Copy className="h-3 w-3" />
-                                )}
-                              </button>
-                            </div>
-                          )}
-                          <div className="text-sm whitespace-pre-line">
-                            {message.content}
-                            {message.role === 'assistant' && message.content === '' && isGenerating && (
-                              <AnimatedLoader variant="typing" size="sm" />
-                            )}
-                          </div>
-                        </div>
+                </div>
+              </CardHeader>
+              <CardContent className="flex-1 overflow-y-auto p-4 max-h-[500px] min-h-[400px]">
+                <div className="space-y-6">
+                  {messages.length === 0 ? (
+                    <div className="h-full flex flex-col items-center justify-center text-center p-8">
+                      <div className="bg-gray-100 dark:bg-gray-800 p-3 rounded-full mb-4">
+                        <MessageSquare className="h-6 w-6 text-gray-400" />
+                      </div>
+                      <h3 className="font-medium mb-1">No messages yet</h3>
+                      <p className="text-sm text-gray-500 dark:text-gray-400 max-w-sm">
+                        Send a message to start chatting with the selected model
+                      </p>
+                      <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-2 w-full max-w-md">
+                        <Button
+                          variant="outline" 
+                          size="sm"
+                          className="justify-start text-left"
+                          onClick={() => setInputValue("What's the difference between fine-tuning and prompt engineering?")}
+                        >
+                          Explain fine-tuning vs prompt engineering
+                        </Button>
+                        <Button
+                          variant="outline" 
+                          size="sm"
+                          className="justify-start text-left"
+                          onClick={() => setInputValue("My shipment is delayed. Can you help me?")}
+                        >
+                          Help with a delayed shipment
+                        </Button>
+                        <Button
+                          variant="outline" 
+                          size="sm"
+                          className="justify-start text-left"
+                          onClick={() => setInputValue("Write a function to check order status")}
+                        >
+                          Generate a status-checking function
+                        </Button>
+                        <Button
+                          variant="outline" 
+                          size="sm"
+                          className="justify-start text-left"
+                          onClick={() => setInputValue("Summarize the key benefits of small LLMs")}
+                        >
+                          Summarize small LLM benefits
+                        </Button>
                       </div>
+                    </div>
+                  ) : (
+                    messages.map((message) => {
+                      // Comparison answers are rendered together in two columns
+                      if (message.slot === 'b') return null;
+                      const partner = message.slot === 'a'
+                        ? messages.find(msg => msg.slot === 'b' && msg.turnId === message.turnId)
+                        : undefined;
 
-                      {message.role === 'assistant' && showCompare && message.model === compareModel?.name && (
-                        <div className="mt-2 flex justify-center">
-                          <div className="inline-flex items-center gap-2 px-3 py-1 bg-gray-100 dark:bg-gray-800/50 rounded-full">
-                            <Scale className="h-3.5 w-3.5 text-gray-500" />
-                            <span className="text-xs font-medium text-gray-600 dark:text-gray-400">Compare the responses above</span>
-                          </div>
+                      return (
+                        <div key={message.id} className="flex flex-col">
+                          {partner ? (
+                            renderComparison(message, partner)
+                          ) : (
+                            <div className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                              {renderMessageBubble(message)}
+                            </div>
+                          )}
                         </div>
-                      )}
-                    </div>
-                  ))
+                      );
+                    })
+                  )}
+                  <div ref={messagesEndRef} />
+                </div>
+              </CardContent>
+              <CardFooter className="border-t p-4 flex flex-col items-stretch gap-3">
+                {showRawPrompt && (
+                  <RawPromptPreview
+                    messages={pendingConversation}
+                    modelName={selectedModel?.hf_model_id || selectedModel?.name}
+                    maxSequenceLength={selectedModel?.maxSequenceLength}
+                    rendered={renderedPrompt}
+                  />
                 )}
-                <div ref={messagesEndRef} />
-              </div>
-            </CardContent>
-            <CardFooter className="border-t p-4">
-              <div className="w-full relative">
-                <textarea
-                  value={inputValue}
-                  onChange={(e) => setInputValue(e.target.value)}
-                  onKeyDown={handleKeyDown}
-                  placeholder="Type your message..."
-                  rows={3}
-                  className="w-full rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-4 py-3 pr-12 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none"
-                  disabled={isGenerating}
-                />
-                <Button
-                  variant="primary"
-                  size="sm"
-                  disabled={!inputValue.trim() || isGenerating}
-                  isLoading={isGenerating}
-                  onClick={handleSendMessage}
-                  className="absolute bottom-3 right-3 w-8 h-8 p-0"
-                >
-                  <Send className="h-4 w-4" />
-                </Button>
-              </div>
-            </CardFooter>
+                <div className="w-full relative">
+                  <textarea
+                    value={inputValue}
+                    onChange={(e) => setInputValue(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder="Type your message..."
+                    rows={3}
+                    className="w-full rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-4 py-3 pr-12 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none"
+                    disabled={isGenerating}
+                  />
+                  {isGenerating ? (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleStopGeneration}
+                      className="absolute bottom-3 right-3 w-8 h-8 p-0 bg-white dark:bg-gray-800"
+                      aria-label="Stop generating"
+                      title="Stop generating"
+                    >
+                      <Square className="h-3.5 w-3.5 fill-current" />
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="primary"
+                      size="sm"
+                      disabled={!inputValue.trim()}
+                      onClick={handleSendMessage}
+                      className="absolute bottom-3 right-3 w-8 h-8 p-0"
+                    >
+                      <Send className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </CardFooter>
+            </div>
           </Card>
         </div>
       </div>
@@ -0,0 +1,538 @@
+import { useState, useEffect, useRef } from 'react';
+import { FlaskConical, Play, Square, Download, Database, Trash2, RefreshCw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Badge } from '../components/ui/Badge';
+import { Progress } from '../components/ui/Progress';
+import { GenerationSettings } from '../components/ui/GenerationSettings';
+import { chatApi, Model } from '../services/chatApi';
+import { fileService, FileMetadata } from '../services/fileService';
+import {
+  playgroundService,
+  cellKey,
+  PlaygroundCell,
+  PlaygroundModel,
+  PlaygroundRun,
+} from '../services/playgroundService';
+import { GenerationConfig } from '../config/generation';
+import { useSettings } from '../components/settings/SettingsProvider';
+import { diffWords, segmentSimilarity, DiffSegment } from '../utils/diffUtils';
+import { cn } from '../utils/cn';
+
+const MAX_DATASET_PROMPTS = 100;
+
+const statusVariant: Record<PlaygroundCell['status'], 'default' | 'primary' | 'success' | 'error' | 'warning'> = {
+  queued: 'default',
+  running: 'primary',
+  completed: 'success',
+  failed: 'error',
+  cancelled: 'warning',
+};
+
+export default function Playground() {
+  const { settings } = useSettings();
+  const [models, setModels] = useState<Model[]>([]);
+  const [isLoadingModels, setIsLoadingModels] = useState(true);
+  const [selectedModelIds, setSelectedModelIds] = useState<string[]>([]);
+  const [promptsText, setPromptsText] = useState('');
+  const [systemPrompt, setSystemPrompt] = useState('');
+  const [generationConfig, setGenerationConfig] = useState<GenerationConfig>(settings.chat.generation);
+
+  // Dataset import
+  const [files, setFiles] = useState<FileMetadata[]>([]);
+  const [selectedFileId, setSelectedFileId] = useState('');
+  const [fileColumns, setFileColumns] = useState<string[]>([]);
+  const [fileRows, setFileRows] = useState<Record<string, unknown>[]>([]);
+  const [selectedColumn, setSelectedColumn] = useState('');
+
+  const [run, setRun] = useState<PlaygroundRun | null>(null);
+  const [recentRuns, setRecentRuns] = useState<PlaygroundRun[]>([]);
+  const [baselineModelId, setBaselineModelId] = useState('');
+  const [highlightDiffs, setHighlightDiffs] = useState(true);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Diffs of finished cells against the baseline; the grid re-renders on every streamed token
+  const diffCacheRef = useRef(new Map<string, { base: string; compared: string; segments: DiffSegment[]; similarity: number }>());
+
+  const isRunning = run?.status === 'running';
+
+  useEffect(() => {
+    loadModels();
+    loadFiles();
+    setRecentRuns(playgroundService.listRuns());
+
+    // Stop any in-flight generations when leaving the page
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const loadModels = async () => {
+    try {
+      setIsLoadingModels(true);
+      setModels(await chatApi.fetchAvailableModels());
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load models');
+    } finally {
+      setIsLoadingModels(false);
+    }
+  };
+
+  const loadFiles = async () => {
+    try {
+      const response = await fileService.listFiles();
+      setFiles(response.files);
+    } catch (err) {
+      console.error('Error loading files:', err);
+    }
+  };
+
+  const handleSelectFile = async (fileId: string) => {
+    setSelectedFileId(fileId);
+    setFileColumns([]);
+    setFileRows([]);
+    setSelectedColumn('');
+    if (!fileId) return;
+
+    try {
+      const preview = await fileService.getFilePreview(fileId, MAX_DATASET_PROMPTS);
+      setFileColumns(preview.columns);
+      setFileRows(preview.preview_data);
+      setSelectedColumn(preview.columns[0] || '');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load dataset preview');
+    }
+  };
+
+  const handleImportColumn = () => {
+    const values = fileRows
+      .map(row => row[selectedColumn])
+      .filter(value => value !== null && value !== undefined && String(value).trim())
+      // Newlines separate prompts in the editor, so flatten multi-line values
+      .map(value => (typeof value === 'string' ? value : JSON.stringify(value)).replace(/\s*\n\s*/g, ' ').trim());
+
+    if (values.length === 0) {
+      toast.error(`Column "${selectedColumn}" has no values`);
+      return;
+    }
+    setPromptsText(values.join('\n'));
+    toast.success(`Imported ${values.length} prompts`);
+  };
+
+  const toggleModel = (modelId: string) => {
+    setSelectedModelIds(prev =>
+      prev.includes(modelId) ? prev.filter(id => id !== modelId) : [...prev, modelId]
+    );
+  };
+
+  const prompts = promptsText.split('\n').map(prompt => prompt.trim()).filter(Boolean);
+
+  const handleRun = async () => {
+    if (prompts.length === 0) {
+      toast.error('Add at least one prompt');
+      return;
+    }
+    if (selectedModelIds.length === 0) {
+      toast.error('Select at least one model');
+      return;
+    }
+
+    const runModels: PlaygroundModel[] = models
+      .filter(model => selectedModelIds.includes(model.id))
+      .map(model => ({
+        id: model.id,
+        name: model.name,
+        identifier: model.hf_model_id || chatApi.getModelPath(model.name),
+      }));
+
+    const newRun = playgroundService.createRun(prompts, runModels, generationConfig, systemPrompt);
+    setRun(newRun);
+    setBaselineModelId(runModels[0].id);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const finished = await playgroundService.executeRun(newRun, setRun, controller.signal);
+    abortControllerRef.current = null;
+
+    setRecentRuns(playgroundService.listRuns());
+    const failed = Object.values(finished.cells).filter(cell => cell.status === 'failed').length;
+    if (finished.status === 'cancelled') {
+      toast('Run cancelled');
+    } else if (failed > 0) {
+      toast.error(`Run finished with ${failed} failed ${failed === 1 ? 'response' : 'responses'}`);
+    } else {
+      toast.success('Run completed');
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleOpenRun = (stored: PlaygroundRun) => {
+    setRun(stored);
+    setBaselineModelId(stored.models[0]?.id || '');
+  };
+
+  const handleDeleteRun = (runId: string) => {
+    if (!confirm('Are you sure you want to delete this run?')) {
+      return;
+    }
+    playgroundService.deleteRun(runId);
+    setRecentRuns(playgroundService.listRuns());
+    if (run?.id === runId) {
+      setRun(null);
+    }
+  };
+
+  const cells = run ? Object.values(run.cells) : [];
+  const finishedCells = cells.filter(cell => cell.status !== 'queued' && cell.status !== 'running').length;
+  const progress = cells.length > 0 ? (finishedCells / cells.length) * 100 : 0;
+
+  const getCellDiff = (key: string, base: string, compared: string) => {
+    const cached = diffCacheRef.current.get(key);
+    if (cached && cached.base === base && cached.compared === compared) return cached;
+    const segments = diffWords(base, compared);
+    const diff = { base, compared, segments, similarity: segmentSimilarity(segments) };
+    diffCacheRef.current.set(key, diff);
+    return diff;
+  };
+
+  const renderCellOutput = (promptIndex: number, model: PlaygroundModel) => {
+    if (!run) return null;
+    const cell = run.cells[cellKey(promptIndex, model.id)];
+    if (!cell) return null;
+
+    if (cell.status === 'failed') {
+      return <p className="text-xs text-red-600 dark:text-red-400">{cell.error || 'Generation failed'}</p>;
+    }
+    if (!cell.output) {
+      return <Badge variant={statusVariant[cell.status]} size="sm">{cell.status}</Badge>;
+    }
+
+    const baseline = run.cells[cellKey(promptIndex, baselineModelId)];
+    const canDiff = highlightDiffs && model.id !== baselineModelId &&
+      cell.status === 'completed' && baseline?.status === 'completed';
+    const diff = canDiff ? getCellDiff(cellKey(promptIndex, model.id), baseline.output, cell.output) : null;
+
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center gap-2">
+          {cell.status !== 'completed' && (
+            <Badge variant={statusVariant[cell.status]} size="sm">{cell.status}</Badge>
+          )}
+          {diff && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {Math.round(diff.similarity * 100)}% similar
+            </span>
+          )}
+          {cell.stats && (
+            <span className="ml-auto text-xs text-gray-400">
+              {cell.stats.totalTokens} tok · {cell.stats.tokensPerSecond.toFixed(1)} tok/s
+            </span>
+          )}
+        </div>
+        <p className="whitespace-pre-wrap break-words text-sm">
+          {diff
+            ? diff.segments.map((segment, index) => (
+              <span
+                key={index}
+                className={cn(
+                  segment.type === 'added' && 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+                  segment.type === 'removed' && 'bg-red-100 text-red-800 line-through dark:bg-red-900/40 dark:text-red-300'
+                )}
+              >
+                {segment.text}
+              </span>
+            ))
+            : cell.output}
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Playground</h1>
+        <p className="text-gray-500 dark:text-gray-400 mt-1">
+          Run a set of prompts against several models and compare the responses side by side
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Prompts</CardTitle>
+            <CardDescription>One prompt per line, or import a column from an uploaded dataset</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <textarea
+              value={promptsText}
+              onChange={(e) => setPromptsText(e.target.value)}
+              rows={8}
+              disabled={isRunning}
+              placeholder={'Summarize the plot of Hamlet in two sentences.\nWhat is the capital of Australia?'}
+              className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400">{prompts.length} prompts</p>
+
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="flex-1 min-w-[12rem]">
+                <label className="block text-xs font-medium mb-1">Dataset</label>
+                <select
+                  value={selectedFileId}
+                  onChange={(e) => handleSelectFile(e.target.value)}
+                  disabled={isRunning}
+                  className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                >
+                  <option value="">Select a dataset...</option>
+                  {files.map(file => (
+                    <option key={file.file_id} value={file.file_id}>{file.display_name}</option>
+                  ))}
+                </select>
+              </div>
+              {fileColumns.length > 0 && (
+                <>
+                  <div className="min-w-[10rem]">
+                    <label className="block text-xs font-medium mb-1">Prompt column</label>
+                    <select
+                      value={selectedColumn}
+                      onChange={(e) => setSelectedColumn(e.target.value)}
+                      disabled={isRunning}
+                      className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    >
+                      {fileColumns.map(column => (
+                        <option key={column} value={column}>{column}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <Button
+                    variant="outline"
+                    leftIcon={<Database className="h-4 w-4" />}
+                    onClick={handleImportColumn}
+                    disabled={isRunning}
+                  >
+                    Import {fileRows.length} rows
+                  </Button>
+                </>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium mb-1">System prompt (optional)</label>
+              <textarea
+                value={systemPrompt}
+                onChange={(e) => setSystemPrompt(e.target.value)}
+                rows={2}
+                disabled={isRunning}
+                className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>Models</CardTitle>
+                <button
+                  onClick={loadModels}
+                  disabled={isLoadingModels || isRunning}
+                  className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                  aria-label="Refresh models"
+                >
+                  <RefreshCw className={cn('h-4 w-4', isLoadingModels && 'animate-spin')} />
+                </button>
+              </div>
+              <CardDescription>{selectedModelIds.length} of {models.length} selected</CardDescription>
+            </CardHeader>
+            <CardContent className="max-h-64 overflow-y-auto space-y-1">
+              {isLoadingModels ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Loading models...</p>
+              ) : models.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No models available</p>
+              ) : (
+                models.map(model => (
+                  <label key={model.id} className="flex items-start gap-2 rounded p-1.5 text-sm hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selectedModelIds.includes(model.id)}
+                      onChange={() => toggleModel(model.id)}
+                      disabled={isRunning}
+                      className="mt-0.5 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    <span className="min-w-0">
+                      <span className="block truncate font-medium">{model.name}</span>
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">{model.architecture} · {model.size}</span>
+                    </span>
+                  </label>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Parameters</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <GenerationSettings value={generationConfig} onChange={setGenerationConfig} disabled={isRunning} />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        {isRunning ? (
+          <Button variant="outline" leftIcon={<Square className="h-4 w-4" />} onClick={handleCancel}>
+            Cancel Run
+          </Button>
+        ) : (
+          <Button
+            leftIcon={<Play className="h-4 w-4" />}
+            onClick={handleRun}
+            disabled={prompts.length === 0 || selectedModelIds.length === 0}
+          >
+            Run {prompts.length * selectedModelIds.length || ''} Generations
+          </Button>
+        )}
+        {run && (
+          <div className="flex-1 flex items-center gap-3">
+            <Progress value={progress} className="flex-1" />
+            <span className="text-sm text-gray-500 dark:text-gray-400 whitespace-nowrap">
+              {finishedCells} / {cells.length}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {run && (
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <CardTitle>Results</CardTitle>
+                <CardDescription>
+                  {run.name} · started {new Date(run.created_at).toLocaleString()}
+                </CardDescription>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                {run.models.length > 1 && (
+                  <>
+                    <label className="flex items-center gap-1.5 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={highlightDiffs}
+                        onChange={(e) => setHighlightDiffs(e.target.checked)}
+                        className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                      />
+                      Highlight differences from
+                    </label>
+                    <select
+                      value={baselineModelId}
+                      onChange={(e) => setBaselineModelId(e.target.value)}
+                      disabled={!highlightDiffs}
+                      className="rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 py-1 text-sm"
+                      aria-label="Baseline model"
+                    >
+                      {run.models.map(model => (
+                        <option key={model.id} value={model.id}>{model.name}</option>
+                      ))}
+                    </select>
+                  </>
+                )}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  leftIcon={<Download className="h-4 w-4" />}
+                  onClick={() => playgroundService.exportCsv(run)}
+                  disabled={isRunning}
+                >
+                  CSV
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  leftIcon={<Download className="h-4 w-4" />}
+                  onClick={() => playgroundService.exportJson(run)}
+                  disabled={isRunning}
+                >
+                  JSON
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <table className="min-w-full border-collapse text-left align-top">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-700">
+                  <th className="w-64 p-2 text-xs font-medium uppercase text-gray-500 dark:text-gray-400">Prompt</th>
+                  {run.models.map(model => (
+                    <th key={model.id} className="min-w-[18rem] p-2 text-xs font-medium text-gray-500 dark:text-gray-400">
+                      {model.name}
+                      {highlightDiffs && run.models.length > 1 && model.id === baselineModelId && (
+                        <Badge variant="outline" size="sm" className="ml-2">baseline</Badge>
+                      )}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {run.prompts.map((prompt, promptIndex) => (
+                  <tr key={promptIndex} className="border-b border-gray-100 dark:border-gray-800 align-top">
+                    <td className="p-2 text-sm font-medium">{prompt}</td>
+                    {run.models.map(model => (
+                      <td key={model.id} className="p-2">
+                        {renderCellOutput(promptIndex, model)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
+      {recentRuns.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Runs</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {recentRuns.map(stored => (
+              <div
+                key={stored.id}
+                className={cn(
+                  'flex items-center justify-between rounded-md border p-3',
+                  stored.id === run?.id ? 'border-primary-500' : 'border-gray-200 dark:border-gray-700'
+                )}
+              >
+                <button onClick={() => handleOpenRun(stored)} disabled={isRunning} className="flex items-center gap-2 text-left">
+                  <FlaskConical className="h-4 w-4 text-primary-500" />
+                  <span>
+                    <span className="block text-sm font-medium">{stored.name}</span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      {new Date(stored.created_at).toLocaleString()} · {stored.models.map(m => m.name).join(', ')}
+                    </span>
+                  </span>
+                </button>
+                <div className="flex items-center gap-2">
+                  <Badge variant={stored.status === 'completed' ? 'success' : 'warning'} size="sm">{stored.status}</Badge>
+                  <button
+                    onClick={() => handleDeleteRun(stored.id)}
+                    disabled={isRunning}
+                    className="text-gray-400 hover:text-red-600"
+                    aria-label="Delete run"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,39 +1,35 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '../components/ui/Card';
 import { Button } from '../components/ui/Button';
 import { Badge } from '../components/ui/Badge';
 import { Tooltip } from '../components/ui/Tooltip';
-import { Key, Shield, Save, HardDrive, Cloud, Globe, Lock, AlertTriangle, Info, Copy } from 'lucide-react';
+import { Key, Shield, Save, HardDrive, Cloud, Globe, Lock, AlertTriangle, Info, Copy, SlidersHorizontal } from 'lucide-react';
 import { motion } from 'framer-motion';
 import toast from 'react-hot-toast';
+import { useSettings } from '../components/settings/SettingsProvider';
+import { ApiKeyManager } from '../components/settings/ApiKeyManager';
+import { GenerationSettings } from '../components/ui/GenerationSettings';
+import { EXPORT_FORMATS, GGUF_QUANTIZATIONS } from '../config/export';
+import { POLLING_INTERVAL_OPTIONS } from '../config/settings';
 
 export default function Settings() {
-  const [apiKeys, setApiKeys] = useState({
-    appKey: 'sk_live_•••••••••••••••••••••••••••',
-    secondaryKey: '',
-  });
-  
-  const [modelSettings, setModelSettings] = useState({
-    cacheResults: true,
-    logPredictions: true,
-    defaultDownloadFormat: 'gguf',
-    defaultPrecision: 'f16',
-  });
-  
-  const [deploymentSettings, setDeploymentSettings] = useState({
-    apiEndpointEnabled: true,
-    publicModelAccess: false,
-    authRequired: true,
-    rateLimit: 100,
-  });
+  const { settings, saveSettings } = useSettings();
+  const [modelSettings, setModelSettings] = useState(settings.model);
+  const [deploymentSettings, setDeploymentSettings] = useState(settings.deployment);
+  const [chatSettings, setChatSettings] = useState(settings.chat);
+  const [trainingDefaults, setTrainingDefaults] = useState(settings.training);
+  const [uiSettings, setUiSettings] = useState(settings.ui);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form whenever the stored settings change (initial load, save)
+  useEffect(() => {
+    setModelSettings(settings.model);
+    setDeploymentSettings(settings.deployment);
+    setChatSettings(settings.chat);
+    setTrainingDefaults(settings.training);
+    setUiSettings(settings.ui);
+  }, [settings]);
 
-  const handleApiKeyChange = (key: string, value: string) => {
-    setApiKeys(prev => ({
-      ...prev,
-      [key]: value
-    }));
-  };
-  
   const handleModelSettingChange = (key: string, value: boolean | string) => {
     setModelSettings(prev => ({
       ...prev,
@@ -48,17 +44,31 @@ export default function Settings() {
     }));
   };
   
-  const regenerateKey = () => {
-    // In a real app, this would make an API call to regenerate the key
-    toast.success('API key has been regenerated');
-    setApiKeys(prev => ({
+  const handleTrainingDefaultChange = (key: string, value: number) => {
+    setTrainingDefaults(prev => ({
       ...prev,
-      appKey: 'sk_live_' + Math.random().toString(36).substring(2, 15) + '•••••••••'
+      [key]: value
     }));
   };
-  
-  const handleSaveSettings = () => {
-    toast.success('Settings saved successfully');
+
+  const handleSaveSettings = async () => {
+    try {
+      setIsSaving(true);
+      const result = await saveSettings({
+        model: modelSettings,
+        deployment: deploymentSettings,
+        chat: chatSettings,
+        training: trainingDefaults,
+        ui: uiSettings,
+      });
+      if (result.synced) {
+        toast.success('Settings saved successfully');
+      } else {
+        toast('Settings saved on this device only; the server could not be reached');
+      }
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   return (
@@ -82,57 +92,8 @@ export default function Settings() {
                 Manage API keys for programmatic access to models and services
               </CardDescription>
             </CardHeader>
-            <CardContent className="space-y-4">
-              <div>
-                <label htmlFor="appKey" className="block text-sm font-medium mb-1">
-                  Primary API Key
-                </label>
-                <div className="flex">
-                  <input
-                    type="text"
-                    id="appKey"
-                    value={apiKeys.appKey}
-                    onChange={(e) => handleApiKeyChange('appKey', e.target.value)}
-                    className="flex-1 rounded-l-md border border-gray-300 dark:border-gray-700 bg-gray-100 dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-                    readOnly
-                  />
-                  <Button 
-                    variant="primary" 
-                    className="rounded-l-none"
-                    onClick={regenerateKey}
-                  >
-                    Regenerate
-                  </Button>
-                </div>
-                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-                  This key has full access to your account and models. Keep it secure.
-                </p>
-              </div>
-              
-              <div>
-                <label htmlFor="secondaryKey" className="block text-sm font-medium mb-1">
-                  Secondary API Key (Optional)
-                </label>
-                <div className="flex">
-                  <input
-                    type="text"
-                    id="secondaryKey"
-                    value={apiKeys.secondaryKey}
-                    onChange={(e) => handleApiKeyChange('secondaryKey', e.target.value)}
-                    className="flex-1 rounded-l-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-                    placeholder="No secondary key configured"
-                  />
-                  <Button 
-                    variant="outline" 
-                    className="rounded-l-none"
-                  >
-                    Generate
-                  </Button>
-                </div>
-                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-                  Use for public endpoints with restricted permissions.
-                </p>
-              </div>
+            <CardContent>
+              <ApiKeyManager />
             </CardContent>
           </Card>
 
@@ -268,10 +229,11 @@ export default function Settings() {
                     onChange={(e) => handleModelSettingChange('defaultDownloadFormat', e.target.value)}
                     className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                   >
-                    <option value="gguf">GGUF (Recommended)</option>
-                    <option value="ggml">GGML (Legacy)</option>
-                    <option value="safetensors">SafeTensors</option>
-                    <option value="pytorch">PyTorch</option>
+                    {EXPORT_FORMATS.map(option => (
+                      <option key={option.id} value={option.id}>
+                        {option.name}{option.id === 'gguf' ? ' (Recommended)' : ''}
+                      </option>
+                    ))}
                   </select>
                 </div>
                 
@@ -285,15 +247,102 @@ export default function Settings() {
                     onChange={(e) => handleModelSettingChange('defaultPrecision', e.target.value)}
                     className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                   >
-                    <option value="f16">F16 (High accuracy, larger size)</option>
-                    <option value="q4_k">Q4_K (Good balance)</option>
-                    <option value="q4_0">Q4_0 (Smaller size, lower accuracy)</option>
-                    <option value="q8_0">Q8_0 (Medium balance)</option>
+                    {GGUF_QUANTIZATIONS.map(option => (
+                      <option key={option.id} value={option.id}>{option.name} ({option.description})</option>
+                    ))}
                   </select>
                 </div>
               </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <SlidersHorizontal className="h-5 w-5 text-primary-500" />
+                <CardTitle>Defaults</CardTitle>
+              </div>
+              <CardDescription>
+                Starting values for chat, training and progress pages
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div>
+                <h4 className="text-sm font-medium mb-3">Generation Parameters</h4>
+                <GenerationSettings
+                  value={chatSettings.generation}
+                  onChange={(generation) => setChatSettings(prev => ({ ...prev, generation }))}
+                />
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium mb-3">Training Parameters</h4>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="defaultEpochs" className="block text-sm font-medium mb-1">Epochs</label>
+                    <input
+                      type="number"
+                      id="defaultEpochs"
+                      min={1}
+                      value={trainingDefaults.epochs}
+                      onChange={(e) => handleTrainingDefaultChange('epochs', parseInt(e.target.value))}
+                      className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="defaultLearningRate" className="block text-sm font-medium mb-1">Learning Rate</label>
+                    <input
+                      type="number"
+                      id="defaultLearningRate"
+                      step={0.00001}
+                      value={trainingDefaults.learningRate}
+                      onChange={(e) => handleTrainingDefaultChange('learningRate', parseFloat(e.target.value))}
+                      className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="defaultBatchSize" className="block text-sm font-medium mb-1">Batch Size</label>
+                    <input
+                      type="number"
+                      id="defaultBatchSize"
+                      min={1}
+                      value={trainingDefaults.batchSize}
+                      onChange={(e) => handleTrainingDefaultChange('batchSize', parseInt(e.target.value))}
+                      className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="defaultMaxSequenceLength" className="block text-sm font-medium mb-1">Max Sequence Length</label>
+                    <input
+                      type="number"
+                      id="defaultMaxSequenceLength"
+                      min={128}
+                      step={128}
+                      value={trainingDefaults.maxSequenceLength}
+                      onChange={(e) => handleTrainingDefaultChange('maxSequenceLength', parseInt(e.target.value))}
+                      className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="pollingInterval" className="block text-sm font-medium mb-1">
+                  Progress Refresh Interval
+                </label>
+                <select
+                  id="pollingInterval"
+                  value={uiSettings.pollingIntervalMs}
+                  onChange={(e) => setUiSettings(prev => ({ ...prev, pollingIntervalMs: parseInt(e.target.value) }))}
+                  className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                >
+                  {POLLING_INTERVAL_OPTIONS.map(ms => (
+                    <option key={ms} value={ms}>Every {ms / 1000} {ms === 1000 ? 'second' : 'seconds'}</option>
+                  ))}
+                </select>
+              </div>
+            </CardContent>
+          </Card>
         </div>
         
         <div className="space-y-6">
@@ -424,7 +473,8 @@ export default function Settings() {
                   <input
                     type="checkbox"
                     id="streamingEnabled"
-                    defaultChecked
+                    checked={deploymentSettings.streamingEnabled}
+                    onChange={(e) => handleDeploymentSettingChange('streamingEnabled', e.target.checked)}
                     className="h-4 w-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
                   />
                   <div>
@@ -444,6 +494,7 @@ export default function Settings() {
                 className="w-full"
                 leftIcon={<Save className="h-4 w-4" />}
                 onClick={handleSaveSettings}
+                isLoading={isSaving}
               >
                 Save Settings
               </Button>
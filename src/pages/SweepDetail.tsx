@@ -0,0 +1,236 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { Shuffle, Trophy, ExternalLink, ArrowLeft } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Badge } from '../components/ui/Badge';
+import { Progress } from '../components/ui/Progress';
+import { AnimatedLoader } from '../components/ui/AnimatedLoader';
+import { useSettings } from '../components/settings/SettingsProvider';
+import { isApiError } from '../services/httpClient';
+import { sweepService, Sweep } from '../services/sweepService';
+import { SweepParameterKey, getSweepParameterLabel } from '../config/sweep';
+import {
+  rankSweepRuns,
+  isLowerBetterMetric,
+  getSweepRankingMetrics,
+  getSweepRunScore,
+  isSweepRunActive,
+  SWEEP_LOSS_METRIC,
+} from '../utils/sweepUtils';
+
+const selectClassName = 'rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+const getRunStatusVariant = (status: string): 'primary' | 'secondary' | 'success' | 'error' | 'warning' => {
+  switch (status) {
+    case 'completed':
+      return 'success';
+    case 'failed':
+      return 'error';
+    case 'paused':
+    case 'pausing':
+      return 'warning';
+    case 'queued':
+    case 'cancelled':
+      return 'secondary';
+    default:
+      return 'primary';
+  }
+};
+
+const formatMetricName = (metric: string) =>
+  metric === SWEEP_LOSS_METRIC ? 'Validation loss' : metric.replace(/_/g, ' ');
+
+const formatSweptValue = (value?: number | string) => {
+  if (value === undefined) return '—';
+  return typeof value === 'number' && value !== 0 && Math.abs(value) < 0.001 ? value.toExponential(1) : String(value);
+};
+
+export default function SweepDetail() {
+  const { sweepId } = useParams<{ sweepId: string }>();
+  const navigate = useNavigate();
+  const { settings } = useSettings();
+  const [sweep, setSweep] = useState<Sweep | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [rankBy, setRankBy] = useState(SWEEP_LOSS_METRIC);
+
+  const fetchSweep = useCallback(async () => {
+    if (!sweepId) return;
+    try {
+      setSweep(await sweepService.getSweep(sweepId));
+      setError(null);
+    } catch (err) {
+      if (isApiError(err) && err.status === 404) {
+        setError('Sweep not found');
+        return;
+      }
+      setError(err instanceof Error ? err.message : 'Failed to load sweep');
+    }
+  }, [sweepId]);
+
+  useEffect(() => {
+    fetchSweep();
+  }, [fetchSweep]);
+
+  // Keep polling while any run is still queued or training
+  const hasActiveRuns = sweep?.runs.some(run => isSweepRunActive(run.status)) ?? false;
+  useEffect(() => {
+    if (!hasActiveRuns) return;
+    const interval = setInterval(fetchSweep, settings.ui.pollingIntervalMs);
+    return () => clearInterval(interval);
+  }, [hasActiveRuns, fetchSweep, settings.ui.pollingIntervalMs]);
+
+  const runs = useMemo(() => sweep?.runs ?? [], [sweep]);
+  const rankingMetrics = useMemo(() => getSweepRankingMetrics(runs), [runs]);
+  const rankedRuns = useMemo(() => rankSweepRuns(runs, rankBy), [runs, rankBy]);
+  const sweptKeys = useMemo(
+    // Keys come from the server and may include fields this client doesn't know
+    () => [...new Set(runs.flatMap(run => Object.keys(run.values) as SweepParameterKey[]))],
+    [runs]
+  );
+  const best = rankedRuns[0] && getSweepRunScore(rankedRuns[0], rankBy) !== undefined ? rankedRuns[0] : undefined;
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-12 flex flex-col items-center text-center gap-3">
+          <p className="font-medium text-red-700 dark:text-red-400">{error}</p>
+          <Button variant="outline" onClick={() => navigate('/sweeps')} leftIcon={<ArrowLeft className="h-4 w-4" />}>
+            Back to Sweeps
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!sweep) {
+    return (
+      <div className="py-12 flex justify-center">
+        <AnimatedLoader variant="dots" size="md" text="Loading sweep..." />
+      </div>
+    );
+  }
+
+  const completedCount = runs.filter(run => run.status === 'completed').length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">{sweep.name}</h1>
+          <p className="text-gray-500 dark:text-gray-400 mt-1">
+            {sweep.strategy === 'grid' ? 'Grid' : 'Random'} search over {sweep.model_name} · {completedCount} of {runs.length} runs complete
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => navigate('/sweeps')} leftIcon={<ArrowLeft className="h-4 w-4" />}>
+          All Sweeps
+        </Button>
+      </div>
+
+      {best && (
+        <Card className="bg-success-50 dark:bg-success-900/10 border-success-200 dark:border-success-800">
+          <CardContent className="p-4 flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <Trophy className="h-6 w-6 text-success-500" />
+              <div>
+                <p className="font-medium text-success-800 dark:text-success-300">Best so far: {best.name}</p>
+                <p className="text-sm text-success-700 dark:text-success-400">
+                  {formatMetricName(rankBy)} {getSweepRunScore(best, rankBy)?.toFixed(4)}
+                  {sweptKeys.map(key => best.values[key] !== undefined && (
+                    <span key={key}> · {getSweepParameterLabel(key)} {formatSweptValue(best.values[key])}</span>
+                  ))}
+                </p>
+              </div>
+            </div>
+            <Button size="sm" variant="outline" onClick={() => navigate(`/training/${best.session_id}`)}>
+              Open Run
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <Shuffle className="h-5 w-5 text-primary-500" />
+              <CardTitle>Runs</CardTitle>
+            </div>
+            <select
+              value={rankBy}
+              onChange={(e) => setRankBy(e.target.value)}
+              className={selectClassName}
+              aria-label="Rank runs by"
+            >
+              {rankingMetrics.map(metric => (
+                <option key={metric} value={metric}>Rank by {formatMetricName(metric)}</option>
+              ))}
+            </select>
+          </div>
+          <CardDescription>
+            {rankBy === SWEEP_LOSS_METRIC
+              ? 'Lowest final validation loss first'
+              : `${isLowerBetterMetric(rankBy) ? 'Lowest' : 'Highest'} score from each run's latest evaluation first`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead>
+                <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  <th className="px-4 py-3">#</th>
+                  <th className="px-4 py-3">Run</th>
+                  {sweptKeys.map(key => (
+                    <th key={key} className="px-4 py-3">{getSweepParameterLabel(key)}</th>
+                  ))}
+                  <th className="px-4 py-3">Eval Loss</th>
+                  {rankBy !== SWEEP_LOSS_METRIC && (
+                    <th className="px-4 py-3">{formatMetricName(rankBy)}</th>
+                  )}
+                  <th className="px-4 py-3">Status</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {rankedRuns.map((run, index) => {
+                  const score = getSweepRunScore(run, rankBy);
+                  return (
+                    <tr key={run.session_id} className={`text-sm ${run === best ? 'bg-success-50/50 dark:bg-success-900/10' : ''}`}>
+                      <td className="px-4 py-3 text-gray-500 dark:text-gray-400">{score !== undefined ? index + 1 : '—'}</td>
+                      <td className="px-4 py-3 font-medium whitespace-nowrap">{run.name}</td>
+                      {sweptKeys.map(key => (
+                        <td key={key} className="px-4 py-3 font-mono">
+                          {formatSweptValue(run.values[key])}
+                        </td>
+                      ))}
+                      <td className="px-4 py-3 font-mono">{run.final_eval_loss?.toFixed(4) ?? 'N/A'}</td>
+                      {rankBy !== SWEEP_LOSS_METRIC && (
+                        <td className="px-4 py-3 font-mono">{score?.toFixed(4) ?? 'N/A'}</td>
+                      )}
+                      <td className="px-4 py-3 min-w-[8rem]">
+                        <Badge variant={getRunStatusVariant(run.status)} size="sm">{run.status}</Badge>
+                        {isSweepRunActive(run.status) && run.progress !== undefined && (
+                          <Progress value={run.progress} size="sm" variant="primary" className="mt-1" />
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => navigate(`/training/${run.session_id}`)}
+                          aria-label="Open session"
+                        >
+                          <ExternalLink className="h-3 w-3" />
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Shuffle, RefreshCw, PlusCircle, ExternalLink } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Badge } from '../components/ui/Badge';
+import { AnimatedLoader } from '../components/ui/AnimatedLoader';
+import { sweepService, Sweep } from '../services/sweepService';
+import { rankSweepRuns, isSweepRunActive, SWEEP_LOSS_METRIC } from '../utils/sweepUtils';
+
+export default function Sweeps() {
+  const navigate = useNavigate();
+  const [sweeps, setSweeps] = useState<Sweep[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSweeps = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setSweeps(await sweepService.listSweeps());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sweeps');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSweeps();
+  }, [fetchSweeps]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Hyperparameter Sweeps</h1>
+          <p className="text-gray-500 dark:text-gray-400 mt-1">
+            Groups of training runs launched together from one configuration
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={fetchSweeps} leftIcon={<RefreshCw className="h-4 w-4" />}>
+            Refresh
+          </Button>
+          <Button onClick={() => navigate('/configure/parameters')} leftIcon={<PlusCircle className="h-4 w-4" />}>
+            New Sweep
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Shuffle className="h-5 w-5 text-primary-500" />
+            <CardTitle>Sweeps</CardTitle>
+          </div>
+          <CardDescription>
+            Enable sweep mode on the Configure Training step to launch one
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-400 mb-4">{error}</p>
+          )}
+
+          {isLoading && sweeps.length === 0 ? (
+            <div className="py-8 flex justify-center">
+              <AnimatedLoader variant="dots" size="md" text="Loading sweeps..." />
+            </div>
+          ) : sweeps.length === 0 ? (
+            <p className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">No sweeps yet</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    <th className="px-4 py-3">Sweep</th>
+                    <th className="px-4 py-3">Strategy</th>
+                    <th className="px-4 py-3">Runs</th>
+                    <th className="px-4 py-3">Best Eval Loss</th>
+                    <th className="px-4 py-3">Created</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {sweeps.map(sweep => {
+                    const completed = sweep.runs.filter(run => run.status === 'completed').length;
+                    const active = sweep.runs.filter(run => isSweepRunActive(run.status)).length;
+                    const best = rankSweepRuns(sweep.runs, SWEEP_LOSS_METRIC)[0];
+                    return (
+                      <tr key={sweep.sweep_id} className="text-sm">
+                        <td className="px-4 py-3">
+                          <div className="font-medium">{sweep.name}</div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400">{sweep.model_name}</div>
+                        </td>
+                        <td className="px-4 py-3 capitalize">{sweep.strategy}</td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          <span className="font-medium">{completed}</span>
+                          <span className="text-gray-500 dark:text-gray-400"> / {sweep.runs.length} done</span>
+                          {active > 0 && (
+                            <Badge variant="primary" size="sm" className="ml-2">{active} active</Badge>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 font-mono">
+                          {best?.final_eval_loss !== undefined ? best.final_eval_loss.toFixed(4) : 'N/A'}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-gray-500 dark:text-gray-400">
+                          {new Date(sweep.created_at).toLocaleString()}
+                          {sweep.created_by && <div className="text-xs">by {sweep.created_by}</div>}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          <Button
+                            size="sm"
+                            variant="primary"
+                            onClick={() => navigate(`/sweeps/${sweep.sweep_id}`)}
+                            leftIcon={<ExternalLink className="h-3 w-3" />}
+                          >
+                            View
+                          </Button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
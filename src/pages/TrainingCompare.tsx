@@ -0,0 +1,357 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { GitCompare, ArrowLeft, X, ExternalLink } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Badge } from '../components/ui/Badge';
+import { AnimatedLoader } from '../components/ui/AnimatedLoader';
+import { trainingService, TrainingSessionDetail, TrainingLogEntry } from '../services/trainingService';
+import { getSessionOutputName } from '../utils/sessionPrefillUtils';
+import {
+  ComparisonMetric,
+  ComparisonXAxis,
+  COMPARISON_METRICS,
+  extractMetricSeries,
+  smoothSeries,
+  mergeSeries,
+  getComparableConfig,
+  diffConfigs,
+  parseComparedSessions,
+} from '../utils/runComparisonUtils';
+
+interface ComparedRun {
+  sessionId: string;
+  label: string;
+  session?: TrainingSessionDetail;
+  logs: TrainingLogEntry[];
+  error?: string;
+}
+
+const RUN_COLORS = ['#ef4444', '#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899'];
+
+const selectClassName = 'rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+const formatValue = (value: number) => {
+  if (value !== 0 && Math.abs(value) < 0.001) return value.toExponential(2);
+  return Number(value.toFixed(4)).toString();
+};
+
+const formatConfigValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'number') return formatValue(value);
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+};
+
+async function loadRun(sessionId: string): Promise<ComparedRun> {
+  try {
+    const [session, logs] = await Promise.all([
+      trainingService.getSessionStatus(sessionId),
+      trainingService.getSessionLogs(sessionId),
+    ]);
+    return {
+      sessionId,
+      label: getSessionOutputName(session.config || {}) || sessionId.substring(0, 8),
+      session,
+      logs,
+    };
+  } catch (err) {
+    return {
+      sessionId,
+      label: sessionId.substring(0, 8),
+      logs: [],
+      error: err instanceof Error ? err.message : 'Failed to load session',
+    };
+  }
+}
+
+export default function TrainingCompare() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const sessionParam = searchParams.get('sessions');
+  const sessionIds = useMemo(() => parseComparedSessions(sessionParam), [sessionParam]);
+
+  const [runs, setRuns] = useState<ComparedRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [metric, setMetric] = useState<ComparisonMetric>('train_loss');
+  const [xAxis, setXAxis] = useState<ComparisonXAxis>('step');
+  const [smoothing, setSmoothing] = useState(0);
+  const [showAllFields, setShowAllFields] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    Promise.all(sessionIds.map(loadRun)).then(loaded => {
+      if (cancelled) return;
+      setRuns(loaded);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionIds]);
+
+  const loadedRuns = useMemo(() => runs.filter(run => run.session), [runs]);
+
+  const chartData = useMemo(() => mergeSeries(
+    Object.fromEntries(loadedRuns.map(run => [
+      run.sessionId,
+      smoothSeries(extractMetricSeries(run.logs, metric, xAxis), smoothing),
+    ]))
+  ), [loadedRuns, metric, xAxis, smoothing]);
+
+  const configRows = useMemo(
+    () => diffConfigs(loadedRuns.map(run => getComparableConfig(run.session?.config || {}))),
+    [loadedRuns]
+  );
+  const differingCount = configRows.filter(row => row.differs).length;
+  const visibleRows = showAllFields ? configRows : configRows.filter(row => row.differs);
+
+  const removeRun = (sessionId: string) => {
+    const remaining = sessionIds.filter(id => id !== sessionId);
+    setSearchParams(remaining.length > 0 ? { sessions: remaining.join(',') } : {});
+  };
+
+  const metricLabel = COMPARISON_METRICS.find(option => option.key === metric)?.label ?? metric;
+
+  if (sessionIds.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 flex flex-col items-center text-center gap-3">
+          <GitCompare className="h-12 w-12 text-gray-400" />
+          <p className="font-medium">No sessions selected</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Tick two or more sessions in the Training History table to compare them
+          </p>
+          <Button variant="outline" onClick={() => navigate('/')} leftIcon={<ArrowLeft className="h-4 w-4" />}>
+            Back to Dashboard
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Compare Training Runs</h1>
+          <p className="text-gray-500 dark:text-gray-400 mt-1">
+            Metrics overlaid on shared axes, with the settings that differ between runs
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => navigate('/')} leftIcon={<ArrowLeft className="h-4 w-4" />}>
+          Dashboard
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {runs.map((run, index) => (
+          <div
+            key={run.sessionId}
+            className="flex items-center gap-2 rounded-full border border-gray-200 dark:border-gray-700 pl-3 pr-1 py-1 text-sm"
+          >
+            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: RUN_COLORS[index % RUN_COLORS.length] }} />
+            <button
+              type="button"
+              onClick={() => navigate(`/training/${run.sessionId}`)}
+              className="font-medium hover:underline"
+            >
+              {run.label}
+            </button>
+            {run.session && <Badge variant="secondary" size="sm">{run.session.status}</Badge>}
+            {run.error && <span className="text-xs text-red-600 dark:text-red-400">{run.error}</span>}
+            <Button size="sm" variant="ghost" onClick={() => removeRun(run.sessionId)} aria-label={`Remove ${run.label}`}>
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="py-12 flex justify-center">
+          <AnimatedLoader variant="dots" size="md" text="Loading sessions..." />
+        </div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+                <div>
+                  <CardTitle>{metricLabel}</CardTitle>
+                  <CardDescription>
+                    By {xAxis}{smoothing > 0 && `, smoothed (${smoothing.toFixed(2)})`}
+                  </CardDescription>
+                </div>
+                <div className="flex flex-wrap items-center gap-3">
+                  <select
+                    value={metric}
+                    onChange={(e) => setMetric(e.target.value as ComparisonMetric)}
+                    className={selectClassName}
+                    aria-label="Metric"
+                  >
+                    {COMPARISON_METRICS.map(option => (
+                      <option key={option.key} value={option.key}>{option.label}</option>
+                    ))}
+                  </select>
+                  <div className="flex space-x-1 bg-gray-100 dark:bg-gray-800 p-1 rounded-lg">
+                    {(['step', 'epoch'] as ComparisonXAxis[]).map(axis => (
+                      <button
+                        key={axis}
+                        type="button"
+                        onClick={() => setXAxis(axis)}
+                        className={`px-3 py-1 text-sm font-medium rounded-md transition-colors capitalize ${
+                          xAxis === axis
+                            ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 shadow-sm'
+                            : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'
+                        }`}
+                      >
+                        {axis}
+                      </button>
+                    ))}
+                  </div>
+                  <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                    Smoothing
+                    <input
+                      type="range"
+                      min="0"
+                      max="0.99"
+                      step="0.01"
+                      value={smoothing}
+                      onChange={(e) => setSmoothing(Number(e.target.value))}
+                      className="w-28"
+                    />
+                  </label>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {chartData.length === 0 ? (
+                <div className="flex items-center justify-center h-64 text-sm text-gray-500 dark:text-gray-400">
+                  None of these runs have logged {metricLabel.toLowerCase()} by {xAxis} yet
+                </div>
+              ) : (
+                <ResponsiveContainer width="100%" height={360}>
+                  <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" className="dark:stroke-gray-700" />
+                    <XAxis
+                      dataKey="x"
+                      type="number"
+                      domain={['dataMin', 'dataMax']}
+                      axisLine={false}
+                      tickLine={false}
+                      tick={{ fontSize: 12, fill: '#6b7280' }}
+                      tickFormatter={(value: number) => formatValue(value)}
+                    />
+                    <YAxis
+                      axisLine={false}
+                      tickLine={false}
+                      tick={{ fontSize: 12, fill: '#6b7280' }}
+                      width={80}
+                      domain={['auto', 'auto']}
+                      tickFormatter={(value: number) => formatValue(value)}
+                    />
+                    <Tooltip
+                      labelFormatter={(value: number) => `${xAxis === 'step' ? 'Step' : 'Epoch'} ${formatValue(value)}`}
+                      formatter={(value: number) => formatValue(value)}
+                    />
+                    <Legend />
+                    {runs.map((run, index) => run.session && (
+                      <Line
+                        key={run.sessionId}
+                        type="linear"
+                        dataKey={run.sessionId}
+                        name={run.label}
+                        stroke={RUN_COLORS[index % RUN_COLORS.length]}
+                        strokeWidth={2}
+                        dot={false}
+                        connectNulls
+                        isAnimationActive={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <CardTitle>Configuration</CardTitle>
+                  <CardDescription>
+                    {loadedRuns.length < 2
+                      ? 'Load at least two runs to see what differs'
+                      : `${differingCount} of ${configRows.length} settings differ`}
+                  </CardDescription>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    id="showAllFields"
+                    checked={showAllFields}
+                    onChange={(e) => setShowAllFields(e.target.checked)}
+                    className="h-4 w-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                  />
+                  <label htmlFor="showAllFields" className="text-sm font-medium">Show identical settings</label>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {visibleRows.length === 0 ? (
+                <p className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">
+                  {loadedRuns.length < 2 ? 'Nothing to compare yet' : 'All settings are identical'}
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                    <thead>
+                      <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        <th className="px-4 py-3">Setting</th>
+                        {loadedRuns.map(run => (
+                          <th key={run.sessionId} className="px-4 py-3 normal-case">
+                            <span className="flex items-center gap-1">
+                              {run.label}
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => navigate(`/training/${run.sessionId}`)}
+                                aria-label="Open session"
+                              >
+                                <ExternalLink className="h-3 w-3" />
+                              </Button>
+                            </span>
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {visibleRows.map(row => (
+                        <tr
+                          key={row.key}
+                          className={`text-sm ${row.differs ? 'bg-warning-50/60 dark:bg-warning-900/10' : ''}`}
+                        >
+                          <td className="px-4 py-3 font-mono text-gray-700 dark:text-gray-300">{row.key}</td>
+                          {row.values.map((value, index) => (
+                            <td
+                              key={loadedRuns[index].sessionId}
+                              className={`px-4 py-3 font-mono ${row.differs ? 'font-medium text-gray-900 dark:text-gray-100' : 'text-gray-500 dark:text-gray-400'}`}
+                            >
+                              {formatConfigValue(value)}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
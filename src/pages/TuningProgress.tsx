@@ -1,51 +1,51 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../components/ui/Card'; 
 import { Button } from '../components/ui/Button';
 import { Progress } from '../components/ui/Progress';
 import { Badge } from '../components/ui/Badge';
-import { Timer, CheckCircle2, ChevronDown, Play, Pause, FileDown, ArrowUpRight, Share2, Copy, Cpu, HardDrive, Activity, Zap, AlertTriangle } from 'lucide-react';
+import { Timer, CheckCircle2, ChevronDown, FileDown, ArrowUpRight, Share2, Copy, Cpu, HardDrive, Activity, Zap, AlertTriangle } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import TrainingLossChart from '../components/training/TrainingLossChart';
 import MetricCard from '../components/monitoring/MetricCard';
 import LiveChart from '../components/monitoring/LiveChart';
+import TrainingJobControls from '../components/training/TrainingJobControls';
 import trainingSessionService from '../services/trainingSessionService';
 import { monitoringService, PerformanceMetrics } from '../services/monitoringService';
-import { API_BASE_URL_WITH_API } from '../config/api';
-
-interface LogEntry {
-  timestamp: string;
-  type: string;
-  level: string;
-  message: string;
-  step?: number;
-  epoch?: number;
-  step_time?: number;
-  avg_step_time?: number;
-  eta_minutes?: number;
-  learning_rate?: number;
-  loss?: number;
-  grad_norm?: number;
-  progress_percent?: number;
-  remaining_steps?: number;
-  train_loss?: number;
-  eval_loss?: number;
-  epoch_progress?: string;
-  total_epochs?: number;
-  metrics?: Record<string, unknown>;
-  config?: Record<string, unknown>;
-}
+import { trainingService, TrainingLogEntry as LogEntry, TrainingSessionDetail, LogStreamTransport } from '../services/trainingService';
+import { useSettings } from '../components/settings/SettingsProvider';
+import {
+  hasTrainingStarted,
+  getProgressFromLogs,
+  calculateEstimatedRemainingTime,
+  getLatestTrainingMetrics,
+  getLatestValidationMetrics,
+  getCurrentEpochInfo,
+} from '../utils/trainingLogUtils';
 
 type TrainingStatus = 'not_started' | 'initializing' | 'training' | 'validating' | 'finalizing' | 'completed';
 
+// Only the tail of the log is rendered; long runs produce tens of thousands of entries
+const MAX_VISIBLE_LOG_LINES = 500;
+
+// Queue states reported by the backend take precedence over the stage inferred from logs
+const JOB_STATE_LABELS: Record<string, string> = {
+  queued: 'Queued',
+  pausing: 'Pausing',
+  paused: 'Paused',
+  cancelling: 'Cancelling',
+  cancelled: 'Cancelled',
+  failed: 'Failed',
+};
+
 export default function TuningProgress() {
   const navigate = useNavigate();
-  const [currentStatus, setCurrentStatus] = useState<TrainingStatus>('not_started');
-  const [progress, setProgress] = useState(0);
+  const { settings } = useSettings();
+  const pollingIntervalMs = settings.ui.pollingIntervalMs;
   const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [isPaused, setIsPaused] = useState(false);
+  const [logTransport, setLogTransport] = useState<LogStreamTransport>('stream');
+  const [jobDetail, setJobDetail] = useState<TrainingSessionDetail | null>(null);
   const [timeElapsed, setTimeElapsed] = useState(0);
-  const [timeRemaining, setTimeRemaining] = useState(1800); // 30 minutes in seconds
   const [showDetails, setShowDetails] = useState(false);
   const [showSystemCharts, setShowSystemCharts] = useState(false);
   
@@ -53,141 +53,39 @@ export default function TuningProgress() {
   const [systemMetrics, setSystemMetrics] = useState<PerformanceMetrics | null>(null);
   const [systemAlerts, setSystemAlerts] = useState<string[]>([]);
 
+  // Everything below is derived once per batch of new entries rather than on every render
+  const hasStarted = useMemo(() => hasTrainingStarted(logs), [logs]);
+  const progress = useMemo(() => (hasStarted ? getProgressFromLogs(logs) : 0), [hasStarted, logs]);
+  const timeRemaining = useMemo(() => (hasStarted ? calculateEstimatedRemainingTime(logs) : 0), [hasStarted, logs]);
+  const trainingMetrics = useMemo(() => getLatestTrainingMetrics(logs), [logs]);
+  const validationMetrics = useMemo(() => getLatestValidationMetrics(logs), [logs]);
+  const epochInfo = useMemo(() => getCurrentEpochInfo(logs), [logs]);
+
+  // Stage inferred from progress
+  const currentStatus = useMemo((): TrainingStatus => {
+    if (!hasStarted) return 'not_started';
+    if (progress < 10) return 'initializing';
+    if (progress < 80) return 'training';
+    if (progress < 90) return 'validating';
+    if (progress < 100) return 'finalizing';
+    return 'completed';
+  }, [hasStarted, progress]);
+
   // Get current training session
   const currentSession = trainingSessionService.getCurrentSession();
+  const currentSessionId = currentSession?.id;
+  const jobStatus = jobDetail?.status;
+  const isJobFinished = ['completed', 'failed', 'cancelled'].includes(jobStatus ?? '');
 
-  // Function to fetch logs from the API (session-specific)
-  const fetchLogsFromAPI = async (): Promise<LogEntry[]> => {
-    const sessionId = currentSession?.id;
-    
+  // Backend job state: queue position, pause and cancel
+  const fetchJobDetail = useCallback(async () => {
+    if (!currentSessionId) return;
     try {
-      // If we have a session ID, use session-specific endpoint
-      if (sessionId) {
-        console.log(`Fetching logs for session: ${sessionId}`);
-        const response = await fetch(`${API_BASE_URL_WITH_API}/training/${sessionId}/logs`);
-        
-        if (response.ok) {
-          const data = await response.json();
-          console.log(`Fetched ${data.logs?.length || 0} session-specific logs`);
-          return data.logs || [];
-        } else {
-          console.warn(`Session-specific logs failed (${response.status}), falling back to global logs`);
-        }
-      } else {
-        console.warn('No session ID available, using global logs');
-      }
-      
-      // Fallback to global logs
-      const response = await fetch(`${API_BASE_URL_WITH_API}/logs`);
-      if (!response.ok) {
-        throw new Error(`Error fetching logs: ${response.statusText}`);
-      }
-      const data = await response.json();
-      console.log(`Fetched ${data.logs?.length || 0} global logs as fallback`);
-      return data.logs || [];
+      setJobDetail(await trainingService.getSessionStatus(currentSessionId));
     } catch (error) {
-      console.error('Failed to fetch logs:', error);
-      return [] as LogEntry[];
-    }
-  };
-
-  // Function to extract progress from training_step logs
-  const getProgressFromLogs = (logs: LogEntry[]): number => {
-    const trainingStepLogs = logs.filter(log => log.type === 'training_step');
-    if (trainingStepLogs.length === 0) return 0;
-    
-    // Get the latest training_step log's progress_percent
-    const latestTrainingLog = trainingStepLogs[trainingStepLogs.length - 1];
-    return latestTrainingLog.progress_percent || 0;
-  };
-
-  // Function to calculate estimated remaining time from logs
-  const calculateEstimatedRemainingTime = (logs: LogEntry[]): number => {
-    // Method 1: Use backend's ETA (most accurate)
-    const latestTrainingStep = logs
-      .filter(log => log.type === 'training_step')
-      .pop();
-    
-    if (latestTrainingStep?.eta_minutes !== undefined) {
-      return Math.round(latestTrainingStep.eta_minutes * 60); // Convert to seconds
-    }
-    
-    // Method 2: Fallback to remaining_steps * avg_step_time
-    if (latestTrainingStep?.remaining_steps && latestTrainingStep?.avg_step_time) {
-      return Math.round(latestTrainingStep.remaining_steps * latestTrainingStep.avg_step_time);
+      console.warn('Failed to fetch job status:', error);
     }
-    
-    // Method 3: Fallback to progress-based calculation
-    const currentProgress = latestTrainingStep?.progress_percent || 0;
-    if (currentProgress > 0) {
-      const trainingSteps = logs.filter(log => log.type === 'training_step');
-      if (trainingSteps.length >= 2) {
-        const firstStep = trainingSteps[0];
-        const lastStep = trainingSteps[trainingSteps.length - 1];
-        const elapsedMs = new Date(lastStep.timestamp).getTime() - new Date(firstStep.timestamp).getTime();
-        const timePerPercent = elapsedMs / currentProgress;
-        const remainingPercent = 100 - currentProgress;
-        return Math.round((timePerPercent * remainingPercent) / 1000);
-      }
-    }
-    
-    return 0;
-  };
-
-  // Function to get latest training metrics from logs
-  const getLatestTrainingMetrics = (logs: LogEntry[]) => {
-    // Get loss from metrics logs
-    const latestMetricsLog = logs
-      .filter(log => log.type === 'metrics' && log.metrics?.loss !== undefined)
-      .pop();
-    
-    // Get other training info from training_step logs
-    const latestTrainingStep = logs
-      .filter(log => log.type === 'training_step')
-      .pop();
-    
-    return {
-      loss: latestMetricsLog?.metrics?.loss ? (latestMetricsLog.metrics.loss as number).toFixed(4) : 'N/A',
-      learningRate: (latestMetricsLog?.metrics?.learning_rate as number)?.toExponential(2) || latestTrainingStep?.learning_rate?.toExponential(2) || 'N/A',
-      step: latestTrainingStep?.step || latestMetricsLog?.step || 0,
-      remainingSteps: latestTrainingStep?.remaining_steps || 0,
-      gradNorm: (latestMetricsLog?.metrics?.grad_norm as number)?.toFixed(6) || latestTrainingStep?.grad_norm?.toFixed(6) || 'N/A',
-      stepTime: latestTrainingStep?.step_time?.toFixed(3) || 'N/A',
-      avgStepTime: latestTrainingStep?.avg_step_time?.toFixed(3) || 'N/A'
-    };
-  };
-
-  // Function to get latest validation metrics from logs
-  const getLatestValidationMetrics = (logs: LogEntry[]) => {
-    const latestEpochEnd = logs
-      .filter(log => log.type === 'epoch_end')
-      .pop();
-    
-    return {
-      evalLoss: latestEpochEnd?.eval_loss?.toFixed(4) || 'N/A',
-      trainLoss: latestEpochEnd?.train_loss?.toFixed(4) || 'N/A'
-    };
-  };
-
-  // Function to get current epoch information
-  const getCurrentEpochInfo = (logs: LogEntry[]) => {
-    const latestTrainingStep = logs
-      .filter(log => log.type === 'training_step')
-      .pop();
-    
-    const latestEpochBegin = logs
-      .filter(log => log.type === 'epoch_begin')
-      .pop();
-    
-    const currentEpoch = latestTrainingStep?.epoch || 0;
-    const totalEpochs = latestEpochBegin?.total_epochs || 3;
-    
-    return {
-      current: Math.floor(currentEpoch),
-      total: totalEpochs,
-      display: `${Math.floor(currentEpoch)}/${totalEpochs}`
-    };
-  };
+  }, [currentSessionId]);
 
   // System monitoring useEffect
   useEffect(() => {
@@ -226,73 +124,51 @@ export default function TuningProgress() {
     };
   }, [currentStatus]);
 
+  // Job status and queue position
   useEffect(() => {
-    if (isPaused || currentStatus === 'completed') return;
+    if (currentStatus === 'completed' || isJobFinished) return;
 
-    const interval = setInterval(async () => {
-      const fetchedLogs = await fetchLogsFromAPI();
-      setLogs(fetchedLogs);
-      
-      // Debug: Log the fetched data to console
-      console.log('Fetched logs:', fetchedLogs.length, 'entries');
-      
-      // Debug: Check for metrics logs specifically
-      const metricsLogs = fetchedLogs.filter(log => log.type === 'metrics');
-      console.log('Metrics logs found:', metricsLogs.length);
-      if (metricsLogs.length > 0) {
-        console.log('Latest metrics log:', metricsLogs[metricsLogs.length - 1]);
-      }
-      
-      // Debug: Check for training_step logs
-      const trainingStepLogs = fetchedLogs.filter(log => log.type === 'training_step');
-      console.log('Training step logs found:', trainingStepLogs.length);
-      if (trainingStepLogs.length > 0) {
-        console.log('Latest training step log:', trainingStepLogs[trainingStepLogs.length - 1]);
-      }
-      
-      // Check if any training logs exist to determine if training has started
-      const hasTrainingLogs = fetchedLogs.length > 0 && 
-        fetchedLogs.some(log => ['training_step', 'epoch_begin', 'epoch_end'].includes(log.type));
-      
-      if (!hasTrainingLogs) {
-        // No training has started yet
-        setCurrentStatus('not_started');
-        setProgress(0);
-        setTimeElapsed(0);
-        setTimeRemaining(0);
-        return;
-      }
+    fetchJobDetail();
+    const interval = setInterval(fetchJobDetail, pollingIntervalMs);
+    return () => clearInterval(interval);
+  }, [currentStatus, isJobFinished, fetchJobDetail, pollingIntervalMs]);
 
-      // Training has started, increment time and update progress
-      setTimeElapsed(prev => prev + 2);
-      
-      // Get actual progress from training_step logs
-      const currentProgress = getProgressFromLogs(fetchedLogs);
-      setProgress(currentProgress);
-
-      // Calculate estimated remaining time from logs
-      const estimatedRemaining = calculateEstimatedRemainingTime(fetchedLogs);
-      setTimeRemaining(estimatedRemaining);
-
-      // Update status based on progress
-      if (currentProgress === 0) {
-        setCurrentStatus('initializing');
-      } else if (currentProgress < 10) {
-        setCurrentStatus('initializing');
-      } else if (currentProgress < 80) {
-        setCurrentStatus('training');
-      } else if (currentProgress < 90) {
-        setCurrentStatus('validating');
-      } else if (currentProgress < 100) {
-        setCurrentStatus('finalizing');
-      } else {
-        setCurrentStatus('completed');
-        setTimeRemaining(0);
+  // Follow the session's logs; only new entries are sent after the first batch
+  useEffect(() => {
+    if (!currentSessionId) return;
+
+    setLogs([]);
+    return trainingService.streamSessionLogs(currentSessionId, {
+      onEntries: (entries) => setLogs(prev => [...prev, ...entries]),
+      onStatus: (status) => setJobDetail(prev => prev && prev.status !== status ? { ...prev, status } : prev),
+      onTransportChange: setLogTransport,
+    }, { pollingIntervalMs });
+  }, [currentSessionId, pollingIntervalMs]);
+
+  // Without a session ID only the backend's most recent job logs are available
+  useEffect(() => {
+    if (currentSessionId || currentStatus === 'completed') return;
+
+    const fetchGlobalLogs = async () => {
+      try {
+        setLogs(await trainingService.getGlobalLogs());
+      } catch (error) {
+        console.error('Failed to fetch logs:', error);
       }
-    }, 1000); // Reduced from 2000ms to 1000ms for more responsive updates
+    };
+
+    fetchGlobalLogs();
+    const interval = setInterval(fetchGlobalLogs, pollingIntervalMs);
+    return () => clearInterval(interval);
+  }, [currentSessionId, currentStatus, pollingIntervalMs]);
+
+  // Elapsed time ticks locally while the job is making progress
+  useEffect(() => {
+    if (currentStatus === 'not_started' || currentStatus === 'completed' || jobStatus === 'paused') return;
 
+    const interval = setInterval(() => setTimeElapsed(prev => prev + 1), 1000);
     return () => clearInterval(interval);
-  }, [isPaused, currentStatus]);
+  }, [currentStatus, jobStatus]);
 
   // Helper to format time (seconds to hr:mm:ss)
   const formatTime = (timeInSeconds: number) => {
@@ -349,14 +225,18 @@ export default function TuningProgress() {
               <div className="flex items-center justify-between">
                 <CardTitle>Fine-Tuning Status</CardTitle>
                 <Badge variant={getStatusVariant(currentStatus)}>
-                  {getStatusLabel(currentStatus)}
+                  {(jobStatus && JOB_STATE_LABELS[jobStatus]) || getStatusLabel(currentStatus)}
                 </Badge>
               </div>
               <CardDescription>
-                {currentStatus === 'not_started'
+                {jobStatus === 'queued'
+                  ? 'Your job is waiting for the GPU and will start when the jobs ahead of it finish.'
+                  : currentStatus === 'not_started'
                   ? 'No training job is currently active. Start a fine-tuning job to see progress here.'
                   : currentStatus === 'completed'
                   ? 'Your model has been successfully fine-tuned and is ready for use'
+                  : logTransport === 'polling'
+                  ? `Your model is currently being fine-tuned (refreshing every ${Math.round(pollingIntervalMs / 1000)}s)`
                   : 'Your model is currently being fine-tuned'}
               </CardDescription>
             </CardHeader>
@@ -416,15 +296,20 @@ export default function TuningProgress() {
                       className="mt-3 overflow-hidden"
                     >
                       <div className="bg-gray-50 dark:bg-gray-800/50 rounded-md p-3 max-h-64 overflow-y-auto font-mono text-xs">
-                        {logs.map((log: LogEntry, index: number) => (
+                        {logs.length > MAX_VISIBLE_LOG_LINES && (
+                          <div className="py-1 text-gray-500 dark:text-gray-400">
+                            ... {logs.length - MAX_VISIBLE_LOG_LINES} earlier entries hidden
+                          </div>
+                        )}
+                        {logs.slice(-MAX_VISIBLE_LOG_LINES).map((log: LogEntry, index: number) => (
                           <div key={index} className="py-1">
                             <span className="text-gray-500 dark:text-gray-400">
-                              {`[${formatTime(index * 2)}]`}
+                              {`[${new Date(log.timestamp).toLocaleTimeString()}]`}
                             </span>{' '}
                             <span>{log.message}</span>
                           </div>
                         ))}
-                        {currentStatus !== 'completed' && !isPaused && logs.length > 0 && (
+                        {currentStatus !== 'completed' && jobStatus !== 'paused' && logs.length > 0 && (
                           <div className="py-1 animate-pulse">
                             <span className="text-gray-500 dark:text-gray-400">[{formatTime(timeElapsed)}]</span>{' '}
                             <span>_</span>
@@ -436,15 +321,17 @@ export default function TuningProgress() {
                 </AnimatePresence>
               </div>
 
-              {currentStatus !== 'completed' && currentStatus !== 'not_started' && (
-                <div className="flex justify-center pt-2">
-                  <Button
-                    variant={isPaused ? 'primary' : 'outline'}
-                    onClick={() => setIsPaused(!isPaused)}
-                    leftIcon={isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
-                  >
-                    {isPaused ? 'Resume Training' : 'Pause Training'}
-                  </Button>
+              {currentSession && jobDetail && currentStatus !== 'completed' && (
+                <div className="pt-2">
+                  <TrainingJobControls
+                    sessionId={currentSession.id}
+                    status={jobDetail.status}
+                    createdBy={jobDetail.created_by}
+                    queuePosition={jobDetail.queue_position}
+                    queueEtaSeconds={jobDetail.queue_eta_seconds}
+                    resumeFromStep={jobDetail.resume_from_step}
+                    onStatusChange={(status) => setJobDetail(prev => prev && { ...prev, status })}
+                  />
                 </div>
               )}
 
@@ -755,7 +642,7 @@ export default function TuningProgress() {
                   <div>
                     <p className="text-gray-500 dark:text-gray-400">Training Method</p>
                     <p className="text-gray-700 dark:text-gray-300">
-                      {trainingSessionService.getTrainingMethodLabel()}
+                      {trainingSessionService.getTrainingMethodLabel(currentSession?.trainingConfig?.training_method)}
                     </p>
                   </div>
                   <div>
@@ -812,7 +699,7 @@ export default function TuningProgress() {
                       </div>
                       <div className="mt-1">
                         <span className="text-base font-semibold text-gray-900 dark:text-gray-100">
-                          {getLatestTrainingMetrics(logs).loss}
+                          {trainingMetrics.loss}
                         </span>
                       </div>
                     </div>
@@ -823,7 +710,7 @@ export default function TuningProgress() {
                       </div>
                       <div className="mt-1">
                         <span className="text-base font-semibold text-gray-900 dark:text-gray-100">
-                          {getLatestValidationMetrics(logs).evalLoss}
+                          {validationMetrics.evalLoss}
                         </span>
                       </div>
                     </div>
@@ -837,7 +724,7 @@ export default function TuningProgress() {
                       </div>
                       <div className="mt-1">
                         <span className="text-base font-semibold text-gray-900 dark:text-gray-100">
-                          {getCurrentEpochInfo(logs).display}
+                          {epochInfo.display}
                         </span>
                       </div>
                     </div>
@@ -848,7 +735,7 @@ export default function TuningProgress() {
                       </div>
                       <div className="mt-1">
                         <span className="text-sm font-semibold text-gray-900 dark:text-gray-100">
-                          {getLatestTrainingMetrics(logs).learningRate}
+                          {trainingMetrics.learningRate}
                         </span>
                       </div>
                     </div>
@@ -862,10 +749,10 @@ export default function TuningProgress() {
                       </div>
                       <div className="mt-1">
                         <span className="text-base font-semibold text-gray-900 dark:text-gray-100">
-                          {getLatestTrainingMetrics(logs).step}
+                          {trainingMetrics.step}
                         </span>
                         <span className="text-sm text-gray-500 dark:text-gray-400 ml-1">
-                          / {getLatestTrainingMetrics(logs).step + getLatestTrainingMetrics(logs).remainingSteps}
+                          / {trainingMetrics.step + trainingMetrics.remainingSteps}
                         </span>
                       </div>
                     </div>
@@ -876,7 +763,7 @@ export default function TuningProgress() {
                       </div>
                       <div className="mt-1">
                         <span className="text-base font-semibold text-gray-900 dark:text-gray-100">
-                          {getLatestTrainingMetrics(logs).avgStepTime}
+                          {trainingMetrics.avgStepTime}
                         </span>
                         <span className="text-sm text-gray-500 dark:text-gray-400 ml-1">sec</span>
                       </div>
@@ -1,12 +1,22 @@
 import React, { createContext, useContext, useReducer, ReactNode } from 'react';
-import { TrainingConfig, createTrainingConfig } from '../../config/training';
+import { TrainingConfig, TrainingParameters, createTrainingConfig } from '../../config/training';
 import { Model } from '../../services/chatApi';
+import { TrainingDefaults } from '../../config/settings';
+import { SweepConfig, defaultSweepConfig } from '../../config/sweep';
+import { useSettings } from '../../components/settings/SettingsProvider';
 
 // Types
 interface FileWithPreview extends File {
   preview?: string;
 }
 
+// Where a cloned or continued run came from; continue-training starts from its final adapter
+export interface SourceSession {
+  sessionId: string;
+  mode: 'clone' | 'continue';
+  adapterPath?: string;
+}
+
 interface ConfigureState {
   // Step 1: Model Selection
   selectedBaseModel: Model | null;
@@ -20,22 +30,27 @@ interface ConfigureState {
   validationMessages: string[];
   
   // Step 3: Configuration
-  parameters: {
-    epochs: number;
-    learningRate: number;
-    batchSize: number;
-    maxSequenceLength: number;
-    modelName: string;
-    cutoff: number;
-    loggingSteps: number;
-  };
+  parameters: TrainingParameters;
   trainingConfig: TrainingConfig;
+  sourceSession: SourceSession | null;
+  // When enabled, submitting launches one run per combination instead of a single run
+  sweep: SweepConfig;
   
   // Step completion tracking
   completedSteps: Set<number>;
   currentStep: number;
 }
 
+// Everything needed to re-run an earlier session without walking through the steps again
+export interface SessionPrefill {
+  source: SourceSession;
+  selectedBaseModel: Model;
+  activeModelTab: 'finetuned' | 'huggingface';
+  selectedFileId: string | null;
+  parameters: Partial<ConfigureState['parameters']>;
+  trainingConfig: TrainingConfig;
+}
+
 type ConfigureAction =
   | { type: 'SET_SELECTED_MODEL'; payload: Model | null }
   | { type: 'SET_ACTIVE_MODEL_TAB'; payload: 'finetuned' | 'huggingface' }
@@ -47,7 +62,9 @@ type ConfigureAction =
   | { type: 'SET_TRAINING_CONFIG'; payload: Partial<TrainingConfig> }
   | { type: 'COMPLETE_STEP'; payload: number }
   | { type: 'SET_CURRENT_STEP'; payload: number }
-  | { type: 'RESET_STATE' };
+  | { type: 'SET_SWEEP'; payload: Partial<SweepConfig> }
+  | { type: 'PREFILL_FROM_SESSION'; payload: SessionPrefill }
+  | { type: 'RESET_STATE'; payload?: TrainingDefaults };
 
 const initialState: ConfigureState = {
   selectedBaseModel: null,
@@ -67,14 +84,39 @@ const initialState: ConfigureState = {
     loggingSteps: 10,
   },
   trainingConfig: createTrainingConfig({}),
+  sourceSession: null,
+  sweep: defaultSweepConfig,
   completedSteps: new Set(),
   currentStep: 1,
 };
 
+// Initial state with the training parameters from the user's saved defaults
+function createInitialState(defaults?: TrainingDefaults): ConfigureState {
+  if (!defaults) return initialState;
+  return {
+    ...initialState,
+    parameters: { ...initialState.parameters, ...defaults },
+  };
+}
+
+const getModelKey = (model: Model) => model.hf_model_id || model.id;
+
+// A continued run's adapter only loads on the base model it was trained on; choosing another
+// model keeps the copied settings but drops the adapter
+function sourceSessionForModel(source: SourceSession | null, current: Model | null, next: Model | null): SourceSession | null {
+  if (source?.mode !== 'continue') return source;
+  if (current && next && getModelKey(current) === getModelKey(next)) return source;
+  return { sessionId: source.sessionId, mode: 'clone' };
+}
+
 function configureReducer(state: ConfigureState, action: ConfigureAction): ConfigureState {
   switch (action.type) {
     case 'SET_SELECTED_MODEL':
-      return { ...state, selectedBaseModel: action.payload };
+      return {
+        ...state,
+        selectedBaseModel: action.payload,
+        sourceSession: sourceSessionForModel(state.sourceSession, state.selectedBaseModel, action.payload),
+      };
     
     case 'SET_ACTIVE_MODEL_TAB':
       return { ...state, activeModelTab: action.payload };
@@ -116,8 +158,31 @@ function configureReducer(state: ConfigureState, action: ConfigureAction): Confi
     case 'SET_CURRENT_STEP':
       return { ...state, currentStep: action.payload };
     
+    case 'SET_SWEEP':
+      return {
+        ...state,
+        sweep: { ...state.sweep, ...action.payload }
+      };
+    
+    case 'PREFILL_FROM_SESSION':
+      return {
+        ...state,
+        selectedBaseModel: action.payload.selectedBaseModel,
+        activeModelTab: action.payload.activeModelTab,
+        files: [],
+        selectedFile: null,
+        selectedFileId: action.payload.selectedFileId,
+        validationStatus: 'idle',
+        validationMessages: [],
+        parameters: { ...state.parameters, ...action.payload.parameters },
+        trainingConfig: action.payload.trainingConfig,
+        sourceSession: action.payload.source,
+        // Without a recorded dataset the user still has to pick one in step 2
+        completedSteps: new Set(action.payload.selectedFileId ? [1, 2] : [1]),
+      };
+    
     case 'RESET_STATE':
-      return initialState;
+      return createInitialState(action.payload);
     
     default:
       return state;
@@ -138,7 +203,8 @@ interface ConfigureContextType {
 const ConfigureContext = createContext<ConfigureContextType | undefined>(undefined);
 
 export function ConfigureProvider({ children }: { children: ReactNode }) {
-  const [state, dispatch] = useReducer(configureReducer, initialState);
+  const { settings } = useSettings();
+  const [state, dispatch] = useReducer(configureReducer, settings.training, createInitialState);
 
   const isStepCompleted = (step: number): boolean => {
     return state.completedSteps.has(step);
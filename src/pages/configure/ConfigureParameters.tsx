@@ -1,10 +1,12 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../../components/ui/Card';
 import { Button } from '../../components/ui/Button';
 import { RotateCcw, Settings, ChevronDown, ChevronUp, AlertCircle, Check, Upload, Download, Plus, X, Copy, FileText, HelpCircle } from 'lucide-react';
-import { createTrainingConfig } from '../../config/training';
+import { createTrainingConfig, TrainingConfig } from '../../config/training';
 import { useConfigureContext } from './ConfigureContext';
+import { useSettings } from '../../components/settings/SettingsProvider';
+import { useAuth } from '../../components/auth/AuthProvider';
 import { StepNavigation } from '../../components/ui/StepProgress';
 import { ConfigurationManager } from '../../components/ui/ConfigurationManager';
 import { ConfigurationReviewModal } from '../../components/ui/ConfigurationReviewModal';
@@ -13,12 +15,48 @@ import toast from 'react-hot-toast';
 import trainingSessionService from '../../services/trainingSessionService';
 import { fileService, FileMetadata } from '../../services/fileService';
 import { datasetService, ProcessedDataset } from '../../services/datasetService';
-import { API_BASE_URL, API_BASE_URL_WITH_API } from '../../config/api';
+import { trainingService } from '../../services/trainingService';
+import { sweepService } from '../../services/sweepService';
+import { Model } from '../../services/chatApi';
+import SweepConfigurator from '../../components/training/SweepConfigurator';
+import { FieldError } from '../../components/ui/FieldError';
+import TrainingMethodSelector from '../../components/training/TrainingMethodSelector';
+import ResourceEstimateCard from '../../components/training/ResourceEstimateCard';
+import { getTrainingMethod, getDatasetMappingMismatch } from '../../config/trainingMethods';
+import { SWEEP_PARAMETERS, SweepRunValues } from '../../config/sweep';
+import { planSweepRuns, toPayloadOverrides, toTrainingConfigOverrides } from '../../utils/sweepUtils';
+import { estimateTrainingResources, getMemorySavingSuggestions, gpuMemoryToGb, TrainingEstimateInput } from '../../utils/trainingEstimateUtils';
+import { monitoringService } from '../../services/monitoringService';
+import {
+  validateTrainingConfig,
+  validateTrainingConfigFields,
+  validateTrainingParameterFields,
+  pickTrainingConfigFields,
+  pickTrainingParameterFields,
+  formatTrainingConfigErrors,
+  formatTrainingParameterErrors,
+} from '../../utils/trainingValidationUtils';
 
 export default function ConfigureParameters() {
   const navigate = useNavigate();
   const { state, dispatch, completeCurrentStep } = useConfigureContext();
-  const { parameters, trainingConfig, selectedBaseModel, files, validationStatus, activeModelTab, selectedFileId } = state;
+  const { settings } = useSettings();
+  const { can } = useAuth();
+  const canLaunchTraining = can('training:launch');
+  const { parameters, trainingConfig, selectedBaseModel, files, validationStatus, activeModelTab, selectedFileId, sourceSession, sweep } = state;
+
+  // Planned once per sweep change so random search launches exactly the runs that were previewed
+  const sweepPlan = useMemo(() => planSweepRuns(sweep), [sweep]);
+  const sweepBaseValues = useMemo(() => {
+    return Object.fromEntries(
+      SWEEP_PARAMETERS.map(option => [
+        option.key,
+        option.source === 'parameters'
+          ? parameters[option.key as keyof typeof parameters]
+          : trainingConfig[option.key as keyof TrainingConfig],
+      ])
+    ) as SweepRunValues;
+  }, [parameters, trainingConfig]);
 
   // Local state for UI
   const [showLoRAConfig, setShowLoRAConfig] = useState(true);
@@ -26,6 +64,7 @@ export default function ConfigureParameters() {
   const [showOptimization, setShowOptimization] = useState(true);
   const [showTrainingStability, setShowTrainingStability] = useState(true);
   const [showMemoryPerformance, setShowMemoryPerformance] = useState(true);
+  const [showCheckpointing, setShowCheckpointing] = useState(true);
   const [showCustomParams, setShowCustomParams] = useState(true);
   const [isReviewModalOpen, setIsReviewModalOpen] = useState(false);
   const [currentConfigName, setCurrentConfigName] = useState('Default Settings');
@@ -90,6 +129,47 @@ export default function ConfigureParameters() {
   const [isLoadingFileMetadata, setIsLoadingFileMetadata] = useState(false);
   const [isDatasetSelected, setIsDatasetSelected] = useState(false);
 
+  const trainingMethod = getTrainingMethod(trainingConfig.training_method);
+  // Unknown for raw files without a saved mapping
+  const selectedMapping = selectedDatasetMetadata?.column_mapping ?? selectedFileMetadata?.column_mapping;
+  const datasetMappingType = selectedMapping ? selectedMapping.mapping_type ?? 'instruction' : undefined;
+  const datasetMismatch = getDatasetMappingMismatch(trainingMethod, datasetMappingType);
+
+  // Schema and cross-field errors, shown next to their inputs; any error blocks starting a run
+  const parameterErrors = useMemo(() => validateTrainingParameterFields({ ...parameters }), [parameters]);
+  const configErrors = useMemo(() => validateTrainingConfig(trainingConfig), [trainingConfig]);
+  const configErrorMessages = [
+    ...formatTrainingParameterErrors(parameterErrors),
+    ...formatTrainingConfigErrors(configErrors),
+  ];
+
+  // Capacity of the training GPU, used to flag configurations that won't fit
+  const [gpuMemoryTotalGb, setGpuMemoryTotalGb] = useState<number | undefined>();
+
+  useEffect(() => {
+    monitoringService.getCurrentMetrics().then(metrics => {
+      setGpuMemoryTotalGb(gpuMemoryToGb(metrics?.systemHealth.gpuMemoryTotal));
+    });
+  }, []);
+
+  const estimateInput = useMemo((): TrainingEstimateInput => {
+    const availableRows = selectedDatasetMetadata?.total_examples ?? selectedFileMetadata?.validation_details.total_rows;
+    const sampledRows = availableRows !== undefined && trainingConfig.max_sample_size !== null
+      ? Math.min(availableRows, trainingConfig.max_sample_size)
+      : availableRows;
+    return {
+      modelSize: selectedBaseModel?.size,
+      modelName: selectedBaseModel?.hf_model_id || selectedBaseModel?.name,
+      batchSize: parameters.batchSize,
+      maxSequenceLength: parameters.maxSequenceLength,
+      epochs: parameters.epochs,
+      trainingConfig,
+      trainExamples: sampledRows !== undefined ? Math.floor(sampledRows * parameters.cutoff) : undefined,
+    };
+  }, [selectedBaseModel, selectedDatasetMetadata, selectedFileMetadata, parameters, trainingConfig]);
+  const resourceEstimate = useMemo(() => estimateTrainingResources(estimateInput), [estimateInput]);
+  const memorySuggestions = useMemo(() => getMemorySavingSuggestions(estimateInput), [estimateInput]);
+
   // Initialize display values when parameters change
   useEffect(() => {
     setDisplayValues(prev => ({
@@ -261,18 +341,6 @@ export default function ConfigureParameters() {
     }
   };
 
-  // Validation function for Hub model ID
-  const validateHubModelId = (id: string): { isValid: boolean; error?: string } => {
-    if (!id.trim()) return { isValid: false, error: "Repository ID is required when push to hub is enabled" };
-    
-    const pattern = /^[a-zA-Z0-9]([a-zA-Z0-9._-]*[a-zA-Z0-9])?\/[a-zA-Z0-9]([a-zA-Z0-9._-]*[a-zA-Z0-9])?$/;
-    if (!pattern.test(id)) {
-      return { isValid: false, error: "Format should be: username/repository-name" };
-    }
-    
-    return { isValid: true };
-  };
-
   // Helper function to handle input focus - select all text for easy replacement
   const handleInputFocus = (e: React.FocusEvent<HTMLInputElement>) => {
     e.target.select();
@@ -285,9 +353,10 @@ export default function ConfigureParameters() {
       const config = JSON.parse(jsonImportText);
       
       // Support multiple JSON formats
+      let imported: { basic_parameters: Record<string, unknown>; advanced_parameters: Record<string, unknown> };
       if (config.basic_parameters && config.advanced_parameters) {
         // Our internal format
-        handleLoadConfig(config);
+        imported = config;
       } else if (config.epochs || config.learning_rate || config.num_train_epochs) {
         // Direct parameters format
         const basicParams: any = {};
@@ -309,18 +378,25 @@ export default function ConfigureParameters() {
           }
         });
         
-        handleLoadConfig({
+        imported = {
           basic_parameters: basicParams,
           advanced_parameters: advancedParams
-        });
+        };
       } else {
         // Assume it's all advanced parameters
-        handleLoadConfig({
+        imported = {
           basic_parameters: {},
           advanced_parameters: config
-        });
+        };
       }
-      
+
+      const fieldErrors = getLoadedConfigErrors(imported);
+      if (fieldErrors.length > 0) {
+        setJsonImportError('Invalid training settings: ' + fieldErrors.join('; '));
+        return;
+      }
+
+      handleLoadConfig(imported);
       setJsonImportText('');
       setShowJsonImport(false);
       toast.success('Configuration imported successfully!');
@@ -388,10 +464,7 @@ export default function ConfigureParameters() {
     dispatch({ 
       type: 'SET_PARAMETERS', 
       payload: {
-        epochs: 3,
-        learningRate: 0.0002,
-        batchSize: 8,
-        maxSequenceLength: 2048,
+        ...settings.training,
         modelName: '',
         cutoff: 0.8,
         loggingSteps: 10,
@@ -403,8 +476,11 @@ export default function ConfigureParameters() {
     });
   };
 
-  // Calculate estimated time based on parameters (mock calculation)
+  // Estimated time in minutes, with a rough parameter-based fallback when the model or dataset size is unknown
   const estimatedTime = () => {
+    if (resourceEstimate?.totalMinutes != null) {
+      return Math.max(1, Math.round(resourceEstimate.totalMinutes));
+    }
     const baseTime = 15; // minutes
     const epochFactor = parameters.epochs * 1.2;
     const batchFactor = 12 / parameters.batchSize;
@@ -423,18 +499,30 @@ export default function ConfigureParameters() {
   };
 
   // Handle loading a configuration
+  // Values of the wrong type or out of range; cross-field problems are shown inline once loaded
+  const getLoadedConfigErrors = (config: { basic_parameters?: Record<string, unknown>; advanced_parameters?: Record<string, unknown> }) => [
+    ...formatTrainingParameterErrors(validateTrainingParameterFields(config.basic_parameters ?? {})),
+    ...formatTrainingConfigErrors(validateTrainingConfigFields(config.advanced_parameters ?? {})),
+  ];
+
   const handleLoadConfig = (config: any) => {
+    // Saved configurations come from the server and are checked like imported JSON
+    const fieldErrors = getLoadedConfigErrors(config);
+    if (fieldErrors.length > 0) {
+      throw new Error('Invalid training settings: ' + fieldErrors.join('; '));
+    }
+
     if (config.basic_parameters) {
       dispatch({ 
         type: 'SET_PARAMETERS', 
-        payload: config.basic_parameters 
+        payload: pickTrainingParameterFields(config.basic_parameters) 
       });
     }
 
     if (config.advanced_parameters) {
       dispatch({ 
         type: 'SET_TRAINING_CONFIG', 
-        payload: config.advanced_parameters 
+        payload: pickTrainingConfigFields(config.advanced_parameters) 
       });
     }
 
@@ -449,36 +537,142 @@ export default function ConfigureParameters() {
     };
   };
 
-  const handleStartFineTuning = async () => {
+  // Fine-tune request fields shared by single runs and every run of a sweep
+  const buildFineTunePayload = (baseModel: Model, outputName: string): Record<string, unknown> => {
+    // Get the model identifier based on the type
+    const modelIdentifier = activeModelTab === 'huggingface' 
+      ? baseModel.hf_model_id || baseModel.name
+      : baseModel.name;
+    
+    return {
+      model_name: modelIdentifier,
+      max_seq_length: parameters.maxSequenceLength,
+      num_train_epochs: parameters.epochs,
+      per_device_train_batch_size: parameters.batchSize,
+      gradient_accumulation_steps: trainingConfig.gradient_accumulation_steps,
+      learning_rate: parameters.learningRate,
+      warmup_steps: trainingConfig.warmup_steps,
+      save_steps: trainingConfig.save_steps,
+      logging_steps: parameters.loggingSteps,
+      output_dir: `./results/${outputName}`,
+      
+      // Dataset Sampling
+      max_sample_size: trainingConfig.max_sample_size,
+      
+      // Training method; adapter settings only apply to methods that train a LoRA adapter
+      training_method: trainingConfig.training_method,
+      ...(trainingMethod.usesAdapter && {
+        lora_r: trainingConfig.lora_rank,
+        lora_alpha: trainingConfig.lora_alpha,
+        lora_dropout: trainingConfig.lora_dropout,
+      }),
+      ...(trainingConfig.training_method === 'full' && {
+        optim: trainingConfig.optim,
+        freeze_embeddings: trainingConfig.freeze_embeddings,
+      }),
+      ...(trainingMethod.requiresPreferenceData && {
+        beta: trainingConfig.beta,
+        max_prompt_length: trainingConfig.max_prompt_length,
+      }),
+      ...(trainingConfig.training_method === 'dpo' && {
+        dpo_loss_type: trainingConfig.dpo_loss_type,
+        reference_model: trainingConfig.reference_model,
+      }),
+      
+      // Optimization Parameters
+      lr_scheduler_type: trainingConfig.lr_scheduler_type,
+      adam_beta1: trainingConfig.adam_beta1,
+      adam_beta2: trainingConfig.adam_beta2,
+      adam_epsilon: trainingConfig.adam_epsilon,
+      max_grad_norm: trainingConfig.max_grad_norm,
+      
+      // Training Stability
+      weight_decay: trainingConfig.weight_decay,
+      dropout_rate: trainingConfig.dropout_rate,
+      attention_dropout: trainingConfig.attention_dropout,
+      label_smoothing_factor: trainingConfig.label_smoothing_factor,
+      
+      // Memory & Performance
+      dataloader_num_workers: trainingConfig.dataloader_num_workers,
+      dataloader_pin_memory: trainingConfig.dataloader_pin_memory,
+      gradient_checkpointing: trainingConfig.gradient_checkpointing,
+      fp16: trainingConfig.fp16,
+      bf16: trainingConfig.bf16,
+
+      // Evaluation & Checkpointing
+      save_strategy: trainingConfig.save_strategy,
+      save_total_limit: trainingConfig.save_total_limit,
+      evaluation_strategy: trainingConfig.evaluation_strategy,
+      eval_steps: trainingConfig.eval_steps,
+      load_best_model_at_end: trainingConfig.load_best_model_at_end,
+      metric_for_best_model: trainingConfig.metric_for_best_model,
+      
+      // Quantization
+      quantization: trainingMethod.fixedQuantization ?? trainingConfig.quantization,
+      
+      // Additional options
+      seed: trainingConfig.seed,
+      remove_unused_columns: trainingConfig.remove_unused_columns,
+      push_to_hub: trainingConfig.push_to_hub,
+      hub_model_id: trainingConfig.hub_model_id,
+      report_to: trainingConfig.report_to,
+
+      // Continue training: load the earlier run's final adapter on top of the base model
+      ...(sourceSession?.mode === 'continue' && sourceSession.adapterPath && {
+        adapter_path: sourceSession.adapterPath,
+        parent_session_id: sourceSession.sessionId,
+      }),
+    };
+  };
+
+  // Checks shared by single runs and sweeps; shows the first problem and returns false when launching is blocked
+  const checkReadyToLaunch = (action: string): boolean => {
     // Validate model name is not empty
     if (!parameters.modelName || parameters.modelName.trim() === '') {
-      toast.error('Please enter a model name before starting fine-tuning.');
-      return;
+      toast.error(`Please enter a model name before starting ${action}.`);
+      return false;
     }
 
     // Check if a file is selected from the backend file manager
     if (!selectedFileId) {
       toast.error('No training file selected. Please select a file first.');
-      return;
+      return false;
     }
 
     if (!selectedBaseModel) {
-      toast.error('Please select a base model before starting fine-tuning.');
-      return;
+      toast.error(`Please select a base model before starting ${action}.`);
+      return false;
     }
 
-    // Validate that the selected metadata is loaded
-    if (!selectedFileMetadata && !selectedDatasetMetadata) {
+    // Validate that the selected metadata is loaded; the dataset checks below depend on it
+    if (isLoadingFileMetadata || (!selectedFileMetadata && !selectedDatasetMetadata)) {
       toast.error('Data information not loaded. Please try again.');
-      return;
+      return false;
     }
 
     // Validate data status
     if (selectedFileMetadata && selectedFileMetadata.validation_status !== 'valid') {
       toast.error('Selected file is not valid for training. Please select a valid file.');
-      return;
+      return false;
+    }
+
+    if (datasetMismatch) {
+      toast.error(datasetMismatch);
+      return false;
     }
 
+    if (configErrorMessages.length > 0) {
+      toast.error('Fix the highlighted training settings before starting.');
+      return false;
+    }
+
+    return true;
+  };
+
+  const handleStartFineTuning = async () => {
+    // The null checks only narrow the types; checkReadyToLaunch has already reported them
+    if (!checkReadyToLaunch('fine-tuning') || !selectedBaseModel || !selectedFileId) return;
+
     // Create training session before starting the API call
     try {
       // Create a mock File object for the session using selected metadata
@@ -516,62 +710,8 @@ export default function ConfigureParameters() {
       // Continue with the API call even if session creation fails
     }
 
-    // Get the model identifier based on the type
-    const modelIdentifier = activeModelTab === 'huggingface' 
-      ? selectedBaseModel.hf_model_id || selectedBaseModel.name
-      : selectedBaseModel.name;
-    
     // Prepare the request payload for the new file-based API (without file_id)
-    const payload = {
-      model_name: modelIdentifier,
-      max_seq_length: parameters.maxSequenceLength,
-      num_train_epochs: parameters.epochs,
-      per_device_train_batch_size: parameters.batchSize,
-      gradient_accumulation_steps: trainingConfig.gradient_accumulation_steps,
-      learning_rate: parameters.learningRate,
-      warmup_steps: trainingConfig.warmup_steps,
-      save_steps: trainingConfig.save_steps,
-      logging_steps: parameters.loggingSteps,
-      output_dir: `./results/${parameters.modelName}`,
-      
-      // Dataset Sampling
-      max_sample_size: trainingConfig.max_sample_size,
-      
-      // LoRA Configuration
-      lora_r: trainingConfig.lora_rank,
-      lora_alpha: trainingConfig.lora_alpha,
-      lora_dropout: trainingConfig.lora_dropout,
-      
-      // Optimization Parameters
-      lr_scheduler_type: trainingConfig.lr_scheduler_type,
-      adam_beta1: trainingConfig.adam_beta1,
-      adam_beta2: trainingConfig.adam_beta2,
-      adam_epsilon: trainingConfig.adam_epsilon,
-      max_grad_norm: trainingConfig.max_grad_norm,
-      
-      // Training Stability
-      weight_decay: trainingConfig.weight_decay,
-      dropout_rate: trainingConfig.dropout_rate,
-      attention_dropout: trainingConfig.attention_dropout,
-      label_smoothing_factor: trainingConfig.label_smoothing_factor,
-      
-      // Memory & Performance
-      dataloader_num_workers: trainingConfig.dataloader_num_workers,
-      dataloader_pin_memory: trainingConfig.dataloader_pin_memory,
-      gradient_checkpointing: trainingConfig.gradient_checkpointing,
-      fp16: trainingConfig.fp16,
-      bf16: trainingConfig.bf16,
-      
-      // Quantization
-      quantization: trainingConfig.quantization,
-      
-      // Additional options
-      seed: trainingConfig.seed,
-      remove_unused_columns: trainingConfig.remove_unused_columns,
-      push_to_hub: trainingConfig.push_to_hub,
-      hub_model_id: trainingConfig.hub_model_id,
-      report_to: trainingConfig.report_to
-    };
+    const payload = buildFineTunePayload(selectedBaseModel, parameters.modelName);
     
     console.log('Training payload:', payload);
     console.log('File ID (query param):', selectedFileId);
@@ -581,20 +721,7 @@ export default function ConfigureParameters() {
     
     // Make API call to the file-based endpoint with file_id as query parameter
     try {
-      const response = await fetch(`${API_BASE_URL}/finetune-with-file?file_id=${encodeURIComponent(selectedFileId)}`, {
-        method: 'POST', 
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(payload)
-      });
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.detail?.[0]?.msg || 'Fine-tuning request failed');
-      }
-
-      const data = await response.json();
+      const data = await trainingService.startFineTuneWithFile(selectedFileId, payload);
       
       // Update session with the backend-returned session ID
       if (data.job_id) {
@@ -606,7 +733,9 @@ export default function ConfigureParameters() {
       trainingSessionService.updateSessionStatus('initializing');
       
       toast.dismiss();
-      toast.success('Fine-tuning started successfully!');
+      toast.success(data.queue_position && data.queue_position > 1
+        ? `Fine-tuning queued at position ${data.queue_position}`
+        : 'Fine-tuning started successfully!');
       navigate('/progress');
     } catch (error: any) {
       toast.dismiss();
@@ -617,6 +746,60 @@ export default function ConfigureParameters() {
     }
   };
 
+  const handleStartSweep = async () => {
+    if (!checkReadyToLaunch('the sweep') || !selectedBaseModel || !selectedFileId) return;
+
+    if (sweepPlan.runs.length === 0) {
+      toast.error('Add at least one parameter with values to sweep over.');
+      return;
+    }
+
+    // Swept values can break the schema even when the base settings are valid
+    const invalidRuns = sweepPlan.runs
+      .map((values, index) => ({
+        index,
+        errors: formatTrainingConfigErrors(validateTrainingConfig({ ...trainingConfig, ...toTrainingConfigOverrides(values) })),
+      }))
+      .filter(run => run.errors.length > 0);
+    if (invalidRuns.length > 0) {
+      const [first] = invalidRuns;
+      toast.error(
+        `${invalidRuns.length} of ${sweepPlan.runs.length} sweep runs have invalid settings. ` +
+        `Run ${first.index + 1}: ${first.errors[0]}`
+      );
+      return;
+    }
+
+    // Each run writes to its own ./results/<model>-run-<n> directory
+    const runs = sweepPlan.runs.map((values, index) => {
+      const name = `${parameters.modelName}-run-${index + 1}`;
+      return {
+        name,
+        values,
+        overrides: { ...toPayloadOverrides(values), output_dir: `./results/${name}` },
+      };
+    });
+
+    toast.loading(`Queueing ${runs.length} sweep runs...`);
+
+    try {
+      const data = await sweepService.createSweep({
+        name: parameters.modelName,
+        strategy: sweep.strategy,
+        file_id: selectedFileId,
+        base_payload: buildFineTunePayload(selectedBaseModel, parameters.modelName),
+        runs,
+      });
+
+      toast.dismiss();
+      toast.success(`Sweep started with ${data.session_ids.length} runs`);
+      navigate(`/sweeps/${data.sweep_id}`);
+    } catch (error) {
+      toast.dismiss();
+      toast.error('Failed to start sweep: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
   // Handle navigation
   const handlePrevious = () => {
     navigate('/configure/data');
@@ -631,6 +814,18 @@ export default function ConfigureParameters() {
         </p>
       </div>
 
+      {sourceSession && (
+        <div className="flex items-start gap-2 rounded-md border border-primary-200 dark:border-primary-800 bg-primary-50 dark:bg-primary-900/20 p-3 text-sm text-primary-800 dark:text-primary-200">
+          <Copy className="h-4 w-4 flex-shrink-0 mt-0.5" />
+          <p>
+            {sourceSession.mode === 'continue'
+              ? <>Continuing training from the final adapter of session <span className="font-mono">{sourceSession.sessionId}</span>.</>
+              : <>Settings copied from session <span className="font-mono">{sourceSession.sessionId}</span>.</>}
+            {' '}Review them before starting.
+          </p>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         <div className="lg:col-span-2 space-y-6">
 
@@ -787,7 +982,7 @@ export default function ConfigureParameters() {
                   value={trainingConfig.hub_model_id}
                   onChange={(e) => handleTrainingConfigChange('hub_model_id', e.target.value)}
                   className={`w-full rounded-md border px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent ${
-                    trainingConfig.hub_model_id && !validateHubModelId(trainingConfig.hub_model_id).isValid
+                    configErrors.hub_model_id
                       ? 'border-red-300 dark:border-red-700 bg-red-50 dark:bg-red-900/20'
                       : 'border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800'
                   }`}
@@ -800,13 +995,8 @@ export default function ConfigureParameters() {
                   <p className="text-xs text-gray-500 dark:text-gray-400">
                     <strong>Example:</strong> myusername/my-fine-tuned-model
                   </p>
-                  {trainingConfig.hub_model_id && !validateHubModelId(trainingConfig.hub_model_id).isValid && (
-                    <p className="text-xs text-red-600 dark:text-red-400 flex items-center">
-                      <AlertCircle className="h-3 w-3 mr-1" />
-                      {validateHubModelId(trainingConfig.hub_model_id).error}
-                    </p>
-                  )}
-                  {trainingConfig.hub_model_id && validateHubModelId(trainingConfig.hub_model_id).isValid && (
+                  <FieldError message={configErrors.hub_model_id} />
+                  {trainingConfig.hub_model_id && !configErrors.hub_model_id && (
                     <p className="text-xs text-green-600 dark:text-green-400 flex items-center">
                       <Check className="h-3 w-3 mr-1" />
                       Valid repository ID format
@@ -821,6 +1011,13 @@ export default function ConfigureParameters() {
     </CardContent>
           </Card>
 
+          <TrainingMethodSelector
+            trainingConfig={trainingConfig}
+            onChange={(update) => dispatch({ type: 'SET_TRAINING_CONFIG', payload: update })}
+            datasetMappingType={datasetMappingType}
+            errors={configErrors}
+          />
+
           {/* Parameters Card */}
           <Card>
             <CardHeader>
@@ -868,6 +1065,7 @@ export default function ConfigureParameters() {
                     placeholder="3 (recommended)"
                     className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                   />
+                  <FieldError message={parameterErrors.epochs} />
                   <p className="text-xs text-gray-500 dark:text-gray-400">
                     Typical range: 1-10 epochs
                   </p>
@@ -894,6 +1092,7 @@ export default function ConfigureParameters() {
                     placeholder="0.0002 (recommended)"
                     className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                   />
+                  <FieldError message={parameterErrors.learningRate} />
                   <p className="text-xs text-gray-500 dark:text-gray-400">
                     Typical range: 0.00001 - 0.001
                   </p>
@@ -920,6 +1119,7 @@ export default function ConfigureParameters() {
                     placeholder="8 (recommended)"
                     className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                   />
+                  <FieldError message={parameterErrors.batchSize} />
                   <p className="text-xs text-gray-500 dark:text-gray-400">
                     Typical range: 1-32
                   </p>
@@ -946,6 +1146,7 @@ export default function ConfigureParameters() {
                     placeholder="2048 (recommended)"
                     className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                   />
+                  <FieldError message={parameterErrors.maxSequenceLength} />
                   <p className="text-xs text-gray-500 dark:text-gray-400">
                     Typical range: 128-4096
                   </p>
@@ -972,6 +1173,7 @@ export default function ConfigureParameters() {
                     placeholder="10 (recommended)"
                     className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                   />
+                  <FieldError message={parameterErrors.loggingSteps} />
                   <p className="text-xs text-gray-500 dark:text-gray-400">
                     Typical range: 1-100 steps
                   </p>
@@ -1018,6 +1220,7 @@ export default function ConfigureParameters() {
                         placeholder="1000 (recommended)"
                         className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                       />
+                      <FieldError message={configErrors.max_sample_size} />
                     </div>
                   )}
                   {trainingConfig.max_sample_size !== null && selectedFileMetadata && (
@@ -1056,6 +1259,7 @@ export default function ConfigureParameters() {
                     placeholder="80 (recommended)"
                     className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                   />
+                  <FieldError message={parameterErrors.cutoff} />
                   <p className="text-xs text-gray-500 dark:text-gray-400">
                     Typical range: 50-95% for training
                   </p>
@@ -1113,8 +1317,9 @@ export default function ConfigureParameters() {
                           </div>
                           <select
                             id="quantization"
-                            value={trainingConfig.quantization}
+                            value={trainingMethod.fixedQuantization ?? trainingConfig.quantization}
                             onChange={(e) => handleTrainingConfigChange('quantization', e.target.value)}
+                            disabled={!!trainingMethod.fixedQuantization}
                             className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                           >
                             <option value="4bit">4-bit Quantization (Maximum Memory Savings)</option>
@@ -1122,6 +1327,9 @@ export default function ConfigureParameters() {
                             <option value="none">No Quantization (Full Precision)</option>
                           </select>
                           <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            {trainingMethod.fixedQuantization && (
+                              <p className="mb-1">Set by the {trainingMethod.label} training method.</p>
+                            )}
                             {trainingConfig.quantization === '4bit' && (
                               <span>🔹 Recommended for limited GPU memory. Minimal accuracy loss with significant memory savings.</span>
                             )}
@@ -1137,6 +1345,7 @@ export default function ConfigureParameters() {
                     )}
                   </div>
                   {/* LoRA Configuration */}
+                  {trainingMethod.usesAdapter && (
                   <div className="space-y-4">
                     <div className="flex items-center justify-between border-b border-gray-200 dark:border-gray-700 pb-2">
                       <div>
@@ -1184,6 +1393,7 @@ export default function ConfigureParameters() {
                             placeholder="8 (recommended)"
                             className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                           />
+                          <FieldError message={configErrors.lora_rank} />
                           <p className="text-xs text-gray-500 dark:text-gray-400">
                             Typical range: 1-64
                           </p>
@@ -1213,6 +1423,7 @@ export default function ConfigureParameters() {
                             placeholder="16 (recommended)"
                             className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                           />
+                          <FieldError message={configErrors.lora_alpha} />
                           <p className="text-xs text-gray-500 dark:text-gray-400">
                             Typical range: 1-128
                           </p>
@@ -1241,6 +1452,7 @@ export default function ConfigureParameters() {
                             placeholder="0.1 (recommended)"
                             className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                           />
+                          <FieldError message={configErrors.lora_dropout} />
                           <p className="text-xs text-gray-500 dark:text-gray-400">
                             Typical range: 0-0.5
                           </p>
@@ -1249,6 +1461,7 @@ export default function ConfigureParameters() {
                       </motion.div>
                     )}
                   </div>
+                  )}
 
 
                   {/* Optimization Parameters */}
@@ -1298,6 +1511,7 @@ export default function ConfigureParameters() {
                             <option value="constant">Constant</option>
                             <option value="constant_with_warmup">Constant with Warmup</option>
                           </select>
+                          <FieldError message={configErrors.lr_scheduler_type} />
                         </div>
 
                         <div className="space-y-2">
@@ -1321,6 +1535,7 @@ export default function ConfigureParameters() {
                             placeholder="100 (recommended)"
                             className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                           />
+                          <FieldError message={configErrors.warmup_steps} />
                           <p className="text-xs text-gray-500 dark:text-gray-400">
                             Typical range: 0-1000 steps
                           </p>
@@ -1348,6 +1563,7 @@ export default function ConfigureParameters() {
                             placeholder="0.9 (recommended)"
                             className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                           />
+                          <FieldError message={configErrors.adam_beta1} />
                           <p className="text-xs text-gray-500 dark:text-gray-400">
                             Typical range: 0.8-0.99
                           </p>
@@ -1375,6 +1591,7 @@ export default function ConfigureParameters() {
                             placeholder="0.999 (recommended)"
                             className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                           />
+                          <FieldError message={configErrors.adam_beta2} />
                           <p className="text-xs text-gray-500 dark:text-gray-400">
                             Typical range: 0.99-0.9999
                           </p>
@@ -1402,6 +1619,7 @@ export default function ConfigureParameters() {
                             placeholder="1.0 (recommended)"
                             className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                           />
+                          <FieldError message={configErrors.max_grad_norm} />
                           <p className="text-xs text-gray-500 dark:text-gray-400">
                             Typical range: 0.1-10
                           </p>
@@ -1429,6 +1647,7 @@ export default function ConfigureParameters() {
                             placeholder="4 (recommended)"
                             className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                           />
+                          <FieldError message={configErrors.gradient_accumulation_steps} />
                           <p className="text-xs text-gray-500 dark:text-gray-400">
                             Typical range: 1-32 steps
                           </p>
@@ -1484,6 +1703,7 @@ export default function ConfigureParameters() {
                             placeholder="0.01 (recommended)"
                             className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                           />
+                          <FieldError message={configErrors.weight_decay} />
                           <p className="text-xs text-gray-500 dark:text-gray-400">
                             Typical range: 0-0.1
                           </p>
@@ -1510,6 +1730,7 @@ export default function ConfigureParameters() {
                             placeholder="0.1 (recommended)"
                             className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                           />
+                          <FieldError message={configErrors.dropout_rate} />
                           <p className="text-xs text-gray-500 dark:text-gray-400">
                             Typical range: 0-0.5
                           </p>
@@ -1536,6 +1757,7 @@ export default function ConfigureParameters() {
                             placeholder="0.1 (recommended)"
                             className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                           />
+                          <FieldError message={configErrors.attention_dropout} />
                           <p className="text-xs text-gray-500 dark:text-gray-400">
                             Typical range: 0-0.5
                           </p>
@@ -1562,6 +1784,7 @@ export default function ConfigureParameters() {
                             placeholder="0 (recommended)"
                             className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                           />
+                          <FieldError message={configErrors.label_smoothing_factor} />
                           <p className="text-xs text-gray-500 dark:text-gray-400">
                             Typical range: 0-0.3
                           </p>
@@ -1618,6 +1841,7 @@ export default function ConfigureParameters() {
                               placeholder="4 (recommended)"
                               className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                             />
+                            <FieldError message={configErrors.dataloader_num_workers} />
                             <p className="text-xs text-gray-500 dark:text-gray-400">
                               Typical range: 0-8 workers
                             </p>
@@ -1713,6 +1937,150 @@ export default function ConfigureParameters() {
                             </div>
                          
                           </div>
+                          <FieldError message={configErrors.bf16} />
+                        </div>
+                      </motion.div>
+                    )}
+                  </div>
+
+                  {/* Evaluation & Checkpointing */}
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between border-b border-gray-200 dark:border-gray-700 pb-2">
+                      <div>
+                        <h4 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Evaluation & Checkpointing</h4>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">When to evaluate, save checkpoints and keep the best one</p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setShowCheckpointing(!showCheckpointing)}
+                        leftIcon={showCheckpointing ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                        className="text-xs"
+                      >
+                        {showCheckpointing ? 'Hide' : 'Show'}
+                      </Button>
+                    </div>
+                    {showCheckpointing && (
+                      <motion.div
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: 'auto' }}
+                        exit={{ opacity: 0, height: 0 }}
+                        transition={{ duration: 0.2 }}
+                        className="space-y-6"
+                      >
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                          <div className="space-y-2">
+                            <label htmlFor="evaluationStrategy" className="block text-sm font-medium">
+                              Evaluation Strategy
+                            </label>
+                            <select
+                              id="evaluationStrategy"
+                              value={trainingConfig.evaluation_strategy}
+                              onChange={(e) => handleTrainingConfigChange('evaluation_strategy', e.target.value)}
+                              className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                            >
+                              <option value="steps">Every N steps</option>
+                              <option value="epoch">Every epoch</option>
+                              <option value="no">No evaluation</option>
+                            </select>
+                            <FieldError message={configErrors.evaluation_strategy} />
+                          </div>
+
+                          {trainingConfig.evaluation_strategy === 'steps' && (
+                            <div className="space-y-2">
+                              <label htmlFor="evalSteps" className="block text-sm font-medium">
+                                Eval Steps
+                              </label>
+                              <input
+                                type="number"
+                                id="evalSteps"
+                                min="1"
+                                step="50"
+                                value={trainingConfig.eval_steps || ''}
+                                onChange={(e) => handleTrainingConfigChange('eval_steps', parseInt(e.target.value) || 0)}
+                                onFocus={handleInputFocus}
+                                placeholder="500"
+                                className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                              />
+                              <FieldError message={configErrors.eval_steps} />
+                            </div>
+                          )}
+
+                          <div className="space-y-2">
+                            <label htmlFor="saveStrategy" className="block text-sm font-medium">
+                              Save Strategy
+                            </label>
+                            <select
+                              id="saveStrategy"
+                              value={trainingConfig.save_strategy}
+                              onChange={(e) => handleTrainingConfigChange('save_strategy', e.target.value)}
+                              className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                            >
+                              <option value="steps">Every N steps</option>
+                              <option value="epoch">Every epoch</option>
+                              <option value="no">Don't save checkpoints</option>
+                            </select>
+                            <FieldError message={configErrors.save_strategy} />
+                          </div>
+
+                          {trainingConfig.save_strategy === 'steps' && (
+                            <div className="space-y-2">
+                              <label htmlFor="saveSteps" className="block text-sm font-medium">
+                                Save Steps
+                              </label>
+                              <input
+                                type="number"
+                                id="saveSteps"
+                                min="1"
+                                step="50"
+                                value={trainingConfig.save_steps || ''}
+                                onChange={(e) => handleTrainingConfigChange('save_steps', parseInt(e.target.value) || 0)}
+                                onFocus={handleInputFocus}
+                                placeholder="500"
+                                className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                              />
+                              <FieldError message={configErrors.save_steps} />
+                            </div>
+                          )}
+
+                          <div className="space-y-2">
+                            <label htmlFor="saveTotalLimit" className="block text-sm font-medium">
+                              Checkpoints to Keep
+                            </label>
+                            <input
+                              type="number"
+                              id="saveTotalLimit"
+                              min="1"
+                              step="1"
+                              value={trainingConfig.save_total_limit || ''}
+                              onChange={(e) => handleTrainingConfigChange('save_total_limit', parseInt(e.target.value) || 0)}
+                              onFocus={handleInputFocus}
+                              placeholder="3"
+                              className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                            />
+                            <FieldError message={configErrors.save_total_limit} />
+                          </div>
+                        </div>
+
+                        <div className="space-y-2">
+                          <div className="flex items-center space-x-3">
+                            <input
+                              type="checkbox"
+                              id="loadBestModelAtEnd"
+                              checked={trainingConfig.load_best_model_at_end}
+                              onChange={(e) => handleTrainingConfigChange('load_best_model_at_end', e.target.checked)}
+                              className="h-4 w-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                            />
+                            <div>
+                              <label htmlFor="loadBestModelAtEnd" className="block text-sm font-medium">
+                                Load Best Model at End
+                              </label>
+                              <p className="text-xs text-gray-500 dark:text-gray-400">
+                                Keep the checkpoint with the best {trainingConfig.metric_for_best_model || 'eval_loss'} instead of the last one
+                              </p>
+                            </div>
+                          </div>
+                          <FieldError message={configErrors.load_best_model_at_end} />
                         </div>
                       </motion.div>
                     )}
@@ -1844,6 +2212,31 @@ export default function ConfigureParameters() {
 
 
 
+          <ResourceEstimateCard
+            estimate={resourceEstimate}
+            gpuMemoryTotalGb={gpuMemoryTotalGb}
+            suggestions={memorySuggestions}
+          />
+
+          <SweepConfigurator
+            sweep={sweep}
+            plan={sweepPlan}
+            baseValues={sweepBaseValues}
+            onChange={(update) => dispatch({ type: 'SET_SWEEP', payload: update })}
+          />
+
+          {configErrorMessages.length > 0 && (
+            <div className="rounded-md bg-red-50 dark:bg-red-900/20 p-3 text-sm text-red-700 dark:text-red-300">
+              <p className="flex items-center font-medium">
+                <AlertCircle className="h-4 w-4 mr-2" />
+                Fix these settings before starting training:
+              </p>
+              <ul className="list-disc list-inside mt-1">
+                {configErrorMessages.map(message => <li key={message}>{message}</li>)}
+              </ul>
+            </div>
+          )}
+
           {/* Final Review Button */}
           <div className="flex justify-center py-8 px-6">
             <Button
@@ -1882,6 +2275,11 @@ export default function ConfigureParameters() {
                   {selectedBaseModel ? selectedBaseModel.name : 'No model selected'}
                 </p>
               </div>
+
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Training Method</p>
+                <p className="text-sm text-gray-700 dark:text-gray-300">{trainingMethod.label}</p>
+              </div>
               
               <div className="space-y-1">
                 <p className="text-sm font-medium">Dataset</p>
@@ -1964,13 +2362,19 @@ export default function ConfigureParameters() {
         </div>
       </div>
 
+      {!canLaunchTraining && (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-right">
+          Your role can review configurations but not start training runs.
+        </p>
+      )}
+
       {/* Navigation */}
       <StepNavigation
         currentStep={3}
         totalSteps={3}
         onPrevious={handlePrevious}
         onComplete={() => setIsReviewModalOpen(true)}
-        canProceed={true}
+        canProceed={canLaunchTraining}
         completeLabel="Review & Start Training"
       />
 
@@ -1978,7 +2382,8 @@ export default function ConfigureParameters() {
       <ConfigurationReviewModal
         isOpen={isReviewModalOpen}
         onClose={() => setIsReviewModalOpen(false)}
-        onStartTraining={handleStartFineTuning}
+        onStartTraining={sweep.enabled ? handleStartSweep : handleStartFineTuning}
+        startLabel={sweep.enabled ? `Start Sweep (${sweepPlan.runs.length} runs)` : undefined}
         configuration={{
           selectedBaseModel,
           files,
@@ -1986,8 +2391,11 @@ export default function ConfigureParameters() {
           parameters,
           trainingConfig,
           estimatedTime: estimatedTime(),
-          estimatedCost: estimatedCost()
+          estimatedCost: estimatedCost(),
+          resourceEstimate,
+          gpuMemoryTotalGb
         }}
+        validationErrors={configErrorMessages}
       />
     </div>
   );
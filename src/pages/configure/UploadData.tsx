@@ -44,6 +44,7 @@ export const UploadData: React.FC = () => {
   const [savedMapping, setSavedMapping] = useState<ColumnMapping | null>(null);
   const [processedData, setProcessedData] = useState<ProcessedFileResponse | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  const [uploadPercent, setUploadPercent] = useState(0);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
@@ -74,10 +75,11 @@ export const UploadData: React.FC = () => {
   const handleFileUpload = async (file: File) => {
     try {
       setIsUploading(true);
+      setUploadPercent(0);
       setError(null);
       setSelectedDataset(null); // Clear dataset selection when uploading
       
-      const result = await fileService.uploadFile(file, file.name);
+      const result = await fileService.uploadFile(file, file.name, progress => setUploadPercent(progress.percent));
       
       if (result.success && result.file_id) {
         setUploadedFile(result);
@@ -239,7 +241,7 @@ export const UploadData: React.FC = () => {
               </div>
               <div className="space-y-1">
                 <p className="text-sm font-medium">
-                  {isUploading ? 'Uploading...' : 'Drag & drop files here or click to browse'}
+                  {isUploading ? `Uploading... ${uploadPercent}%` : 'Drag & drop files here or click to browse'}
                 </p>
                 <p className="text-xs text-gray-500 dark:text-gray-400">
                   JSON, CSV, Excel, Pickle, or TXT files, up to 50MB each (max 5 files)
@@ -618,6 +620,8 @@ export const UploadData: React.FC = () => {
             columnInfo={columnInfo}
             onMappingComplete={handleMappingComplete}
             onCancel={() => setCurrentStep('main')}
+            modelName={state.selectedBaseModel?.hf_model_id || state.selectedBaseModel?.name}
+            maxSequenceLength={state.parameters.maxSequenceLength}
           />
         )}
         
@@ -1,6 +1,6 @@
 import { useEffect, useCallback } from 'react';
-import { Routes, Route, Navigate, useLocation } from 'react-router-dom';
-import { ConfigureProvider, useConfigureContext } from './ConfigureContext';
+import { Routes, Route, Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { ConfigureProvider, useConfigureContext, SessionPrefill } from './ConfigureContext';
 import SelectModel from './SelectModel';
 import UploadData from './UploadData';
 import ConfigureParameters from './ConfigureParameters';
@@ -8,6 +8,17 @@ import ConfigureParameters from './ConfigureParameters';
 function ConfigureContent() {
   const { state, dispatch } = useConfigureContext();
   const location = useLocation();
+  const navigate = useNavigate();
+
+  // Clone and continue-training actions hand over the earlier session's setup in the router state
+  useEffect(() => {
+    const prefill = (location.state as { sessionPrefill?: SessionPrefill } | null)?.sessionPrefill;
+    if (!prefill) return;
+
+    dispatch({ type: 'PREFILL_FROM_SESSION', payload: prefill });
+    // Drop it from history so going back or reloading doesn't overwrite later edits
+    navigate(location.pathname, { replace: true, state: null });
+  }, [location.state, location.pathname, dispatch, navigate]);
 
   // Update current step based on route
   useEffect(() => {
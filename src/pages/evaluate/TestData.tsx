@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '../../components/ui/Card';
 import { Progress } from '../../components/ui/Progress';
 import { cn } from '../../utils/cn';
@@ -9,6 +9,10 @@ import { Upload, FileText, AlertTriangle, ArrowRight, Brain, CheckCircle, Downlo
 import { evaluationService, EvaluationMapping } from '../../services/evaluationService';
 import { AnimatedLoader } from '../../components/ui/AnimatedLoader';
 import EvaluationMappingInterface from '../../components/ui/EvaluationMappingInterface';
+import { GenerationSettings } from '../../components/ui/GenerationSettings';
+import { GenerationConfig } from '../../config/generation';
+import { useSettings } from '../../components/settings/SettingsProvider';
+import { getCheckpointLaunchState } from '../../utils/checkpointUtils';
 
 // Define Model type for evaluation
 interface Model {
@@ -30,10 +34,16 @@ interface Model {
   version?: string;
   model_path?: string;
   base_model?: string;
+  // Set when evaluating a training checkpoint opened from its session
+  checkpoint_path?: string;
 }
 
 export default function TestData() {
   const navigate = useNavigate();
+  const location = useLocation();
+  // Read once so a checkpoint opened from its training session stays listed
+  const launchedCheckpointRef = useRef(getCheckpointLaunchState(location.state));
+  const { settings } = useSettings();
   
   // Model selection state
   const [activeTab, setActiveTab] = useState<'finetuned' | 'huggingface'>('finetuned');
@@ -53,8 +63,7 @@ export default function TestData() {
   
   // Evaluation parameters
   const [batchSize, setBatchSize] = useState(50);
-  const [maxTokens, setMaxTokens] = useState(150);
-  const [temperature, setTemperature] = useState(0.7);
+  const [generationConfig, setGenerationConfig] = useState<GenerationConfig>({ ...settings.chat.generation, max_tokens: 150 });
   
   // File upload state
   const [file, setFile] = useState<File | null>(null);
@@ -109,7 +118,7 @@ export default function TestData() {
       console.log('Raw models from evaluation service:', models);
       
       // Transform models to match our interface
-      const transformedModels = models.map(model => ({
+      const fetchedModels: Model[] = models.map(model => ({
         id: model.model_id,  // Use model_id as id
         name: model.name,
         description: model.description,
@@ -127,6 +136,17 @@ export default function TestData() {
         base_model: model.base_model
       }));
       
+      // A checkpoint opened from its training session is listed and selected first
+      const checkpoint = launchedCheckpointRef.current;
+      const transformedModels: Model[] = checkpoint
+        ? [{
+            id: checkpoint.checkpointPath,
+            name: checkpoint.checkpointLabel,
+            description: 'Training checkpoint',
+            checkpoint_path: checkpoint.checkpointPath,
+          }, ...fetchedModels]
+        : fetchedModels;
+
       console.log('Transformed models:', transformedModels);
       setAvailableModels(transformedModels);
       
@@ -414,7 +434,7 @@ export default function TestData() {
       // Get model path - for HF models use the name directly, for local models use name
       const modelPath = activeTab === 'huggingface' 
         ? selectedModel.name  // Use HF model name directly
-        : selectedModel.name; // Use local model name
+        : selectedModel.checkpoint_path || selectedModel.name; // Use local model name, or the checkpoint's path
       
       // Start prediction job with mapping
       const response = await evaluationService.startPredictionJobWithMapping(
@@ -422,7 +442,8 @@ export default function TestData() {
         fileContent,
         fileType,
         mapping,
-        batchSize
+        batchSize,
+        generationConfig
       );
 
       // Store job info and navigate to metrics page
@@ -698,47 +719,11 @@ export default function TestData() {
                     </div>
                   </div>
                   
-                  <div className="space-y-1">
-                    <div className="flex items-center justify-between">
-                      <label htmlFor="maxTokens" className="text-xs font-medium">
-                        Max Tokens
-                      </label>
-                      <span className="text-xs">{maxTokens}</span>
-                    </div>
-                    <input
-                      type="range"
-                      id="maxTokens"
-                      min="50"
-                      max="500"
-                      step="25"
-                      value={maxTokens}
-                      onChange={(e) => setMaxTokens(parseInt(e.target.value))}
-                      className="w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary-600"
-                    />
-                  </div>
-                  
-                  <div className="space-y-1">
-                    <div className="flex items-center justify-between">
-                      <label htmlFor="temperature" className="text-xs font-medium">
-                        Temperature
-                      </label>
-                      <span className="text-xs">{temperature}</span>
-                    </div>
-                    <input
-                      type="range"
-                      id="temperature"
-                      min="0"
-                      max="2"
-                      step="0.1"
-                      value={temperature}
-                      onChange={(e) => setTemperature(parseFloat(e.target.value))}
-                      className="w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary-600"
-                    />
-                    <div className="flex justify-between text-xs text-gray-500">
-                      <span>Precise</span>
-                      <span>Creative</span>
-                    </div>
-                  </div>
+                  <GenerationSettings
+                    value={generationConfig}
+                    onChange={setGenerationConfig}
+                    maxTokensRange={{ min: 50, max: 500, step: 25 }}
+                  />
                 </div>
               </div>
             </CardContent>
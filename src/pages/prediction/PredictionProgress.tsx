@@ -6,6 +6,8 @@ import { ArrowLeft, Download, CheckCircle, Clock, AlertTriangle, BarChart3, File
 import { motion } from 'framer-motion';
 import { predictionService } from '../../services/predictionService';
 import { AnimatedLoader } from '../../components/ui/AnimatedLoader';
+import { StructuredOutputView } from '../../components/ui/StructuredOutputView';
+import { JsonSchema, validateJsonOutput } from '../../utils/jsonSchemaUtils';
 
 interface PredictionJob {
   job_id: string;
@@ -33,6 +35,7 @@ export default function PredictionProgress() {
   const navigate = useNavigate();
   const [job, setJob] = useState<PredictionJob | null>(null);
   const [model, setModel] = useState<any>(null);
+  const [jsonSchema, setJsonSchema] = useState<JsonSchema | null>(null);
   const [results, setResults] = useState<PredictionResult[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -41,6 +44,7 @@ export default function PredictionProgress() {
     // Get job ID and model from localStorage
     const jobId = localStorage.getItem('predictionJobId');
     const modelData = localStorage.getItem('predictionModel');
+    const schemaData = localStorage.getItem('predictionJsonSchema');
 
     if (!jobId) {
       navigate('/prediction/model-selection');
@@ -55,6 +59,14 @@ export default function PredictionProgress() {
       }
     }
 
+    if (schemaData) {
+      try {
+        setJsonSchema(JSON.parse(schemaData));
+      } catch (e) {
+        console.error('Error parsing JSON schema:', e);
+      }
+    }
+
     // Start polling for job status
     pollJobStatus(jobId);
   }, [navigate]);
@@ -341,7 +353,7 @@ export default function PredictionProgress() {
             {results.length > 0 ? (
               <div className="space-y-4">
                 {/* Results Summary */}
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                <div className={`grid grid-cols-1 ${jsonSchema ? 'md:grid-cols-4' : 'md:grid-cols-3'} gap-4 mb-6`}>
                   <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg">
                     <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">
                       {results.length}
@@ -366,6 +378,16 @@ export default function PredictionProgress() {
                       Avg Processing Time
                     </div>
                   </div>
+                  {jsonSchema && (
+                    <div className="bg-amber-50 dark:bg-amber-900/20 p-4 rounded-lg">
+                      <div className="text-2xl font-bold text-amber-600 dark:text-amber-400">
+                        {results.filter(r => validateJsonOutput(r.prediction, jsonSchema).valid).length}
+                      </div>
+                      <div className="text-sm text-amber-600 dark:text-amber-400">
+                        Match JSON Schema
+                      </div>
+                    </div>
+                  )}
                 </div>
 
                 {/* Sample Results */}
@@ -392,9 +414,13 @@ export default function PredictionProgress() {
                           <h5 className="font-medium text-sm text-gray-600 dark:text-gray-400 mb-2">
                             Prediction:
                           </h5>
-                          <div className="bg-blue-50 dark:bg-blue-900/20 p-3 rounded text-sm font-mono">
-                            {JSON.stringify(result.prediction, null, 2)}
-                          </div>
+                          {jsonSchema ? (
+                            <StructuredOutputView output={result.prediction} schema={jsonSchema} />
+                          ) : (
+                            <div className="bg-blue-50 dark:bg-blue-900/20 p-3 rounded text-sm font-mono">
+                              {JSON.stringify(result.prediction, null, 2)}
+                            </div>
+                          )}
                           <div className="flex justify-between items-center mt-2 text-xs text-gray-500">
                             {result.confidence && (
                               <span>Confidence: {(result.confidence * 100).toFixed(1)}%</span>
@@ -9,9 +9,15 @@ import { predictionService } from '../../services/predictionService';
 import { fileService } from '../../services/fileService';
 import { AnimatedLoader } from '../../components/ui/AnimatedLoader';
 import { PredictionMappingInterface } from '../../components/ui/PredictionMappingInterface';
+import { GenerationSettings } from '../../components/ui/GenerationSettings';
+import { JsonSchemaSettings } from '../../components/ui/JsonSchemaSettings';
+import { GenerationConfig } from '../../config/generation';
+import { useSettings } from '../../components/settings/SettingsProvider';
+import { parseJsonSchema } from '../../utils/jsonSchemaUtils';
 
 export default function PredictionSetup() {
   const navigate = useNavigate();
+  const { settings } = useSettings();
   
   // Model selection state
   const [activeTab, setActiveTab] = useState<'finetuned' | 'huggingface'>('finetuned');
@@ -29,8 +35,9 @@ export default function PredictionSetup() {
   
   // Prediction parameters
   const [batchSize, setBatchSize] = useState(50);
-  const [maxTokens, setMaxTokens] = useState(150);
-  const [temperature, setTemperature] = useState(0.7);
+  const [generationConfig, setGenerationConfig] = useState<GenerationConfig>({ ...settings.chat.generation, max_tokens: 150 });
+  const [jsonMode, setJsonMode] = useState(false);
+  const [jsonSchemaText, setJsonSchemaText] = useState('');
   
   // File upload state
   const [file, setFile] = useState<File | null>(null);
@@ -46,6 +53,10 @@ export default function PredictionSetup() {
 
   // Get current models list based on active tab
   const currentModels = activeTab === 'finetuned' ? availableModels : huggingFaceModels;
+
+  // Schema sent with the job when JSON mode is on
+  const { schema: jsonSchema } = parseJsonSchema(jsonSchemaText);
+  const activeJsonSchema = jsonMode ? jsonSchema : undefined;
   
   // Get selected model info - handle different model types
   const selectedModel = activeTab === 'finetuned' 
@@ -368,6 +379,10 @@ export default function PredictionSetup() {
   // Handle mapping completion
   const handleMappingComplete = async (mapping: any) => {
     if (!selectedModel || !fileId) return;
+    if (jsonMode && !jsonSchema) {
+      setError('Enter a valid JSON schema or turn off JSON mode');
+      return;
+    }
     
     setIsLoading(true);
     setError(null);
@@ -388,12 +403,19 @@ export default function PredictionSetup() {
             ...mapping.preprocessing_options,
             batch_size: batchSize
           }
-        }
+        },
+        generation_config: generationConfig,
+        ...(activeJsonSchema && { json_schema: activeJsonSchema })
       });
 
       // Store job info and navigate to progress page
       localStorage.setItem('predictionJobId', response.job_id);
       localStorage.setItem('predictionModel', JSON.stringify(selectedModel));
+      if (activeJsonSchema) {
+        localStorage.setItem('predictionJsonSchema', JSON.stringify(activeJsonSchema));
+      } else {
+        localStorage.removeItem('predictionJsonSchema');
+      }
       
       navigate('/prediction/progress');
     } catch (error: any) {
@@ -416,6 +438,10 @@ export default function PredictionSetup() {
 
   const handleStartPrediction = async () => {
     if (!selectedModel || !file) return;
+    if (jsonMode && !jsonSchema) {
+      setError('Enter a valid JSON schema or turn off JSON mode');
+      return;
+    }
     
     setIsLoading(true);
     setError(null);
@@ -460,12 +486,19 @@ export default function PredictionSetup() {
             default_values: {},
             batch_size: batchSize
           }
-        }
+        },
+        generation_config: generationConfig,
+        ...(activeJsonSchema && { json_schema: activeJsonSchema })
       });
 
       // Store job info and navigate to progress page
       localStorage.setItem('predictionJobId', response.job_id);
       localStorage.setItem('predictionModel', JSON.stringify(selectedModel));
+      if (activeJsonSchema) {
+        localStorage.setItem('predictionJsonSchema', JSON.stringify(activeJsonSchema));
+      } else {
+        localStorage.removeItem('predictionJsonSchema');
+      }
       
       navigate('/prediction/progress');
     } catch (error: any) {
@@ -691,47 +724,19 @@ export default function PredictionSetup() {
                     </div>
                   </div>
                   
-                  <div className="space-y-1">
-                    <div className="flex items-center justify-between">
-                      <label htmlFor="maxTokens" className="text-xs font-medium">
-                        Max Tokens
-                      </label>
-                      <span className="text-xs">{maxTokens}</span>
-                    </div>
-                    <input
-                      type="range"
-                      id="maxTokens"
-                      min="50"
-                      max="500"
-                      step="25"
-                      value={maxTokens}
-                      onChange={(e) => setMaxTokens(parseInt(e.target.value))}
-                      className="w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary-600"
-                    />
-                  </div>
-                  
-                  <div className="space-y-1">
-                    <div className="flex items-center justify-between">
-                      <label htmlFor="temperature" className="text-xs font-medium">
-                        Temperature
-                      </label>
-                      <span className="text-xs">{temperature}</span>
-                    </div>
-                    <input
-                      type="range"
-                      id="temperature"
-                      min="0"
-                      max="2"
-                      step="0.1"
-                      value={temperature}
-                      onChange={(e) => setTemperature(parseFloat(e.target.value))}
-                      className="w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary-600"
-                    />
-                    <div className="flex justify-between text-xs text-gray-500">
-                      <span>Precise</span>
-                      <span>Creative</span>
-                    </div>
-                  </div>
+                  <GenerationSettings
+                    value={generationConfig}
+                    onChange={setGenerationConfig}
+                    maxTokensRange={{ min: 50, max: 500, step: 25 }}
+                  />
+
+                  <JsonSchemaSettings
+                    enabled={jsonMode}
+                    onEnabledChange={setJsonMode}
+                    schemaText={jsonSchemaText}
+                    onSchemaTextChange={setJsonSchemaText}
+                    modelSchema={activeTab === 'finetuned' ? selectedModel?.output_schema : null}
+                  />
                 </div>
               </div>
             </CardContent>
@@ -0,0 +1,81 @@
+import { httpClient, ACTIVE_API_KEY_STORAGE_KEY } from './httpClient';
+
+export type ApiKeyScope = 'chat' | 'predict' | 'train' | 'admin';
+
+export const API_KEY_SCOPES: { id: ApiKeyScope; name: string; description: string }[] = [
+  { id: 'chat', name: 'Chat', description: 'Chat and inference endpoints' },
+  { id: 'predict', name: 'Predict', description: 'Batch prediction and evaluation jobs' },
+  { id: 'train', name: 'Train', description: 'Upload data and start training' },
+  { id: 'admin', name: 'Admin', description: 'Everything, including key and deployment management' },
+];
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  // First characters of the secret, enough to recognise the key
+  prefix: string;
+  scopes: ApiKeyScope[];
+  created_at: string;
+  expires_at: string | null;
+  last_used_at: string | null;
+  revoked: boolean;
+}
+
+export interface ApiKeyCreateRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  // Omit for a key that never expires
+  expires_in_days?: number;
+}
+
+export interface ApiKeyCreateResponse {
+  status: string;
+  key: ApiKey;
+  // Full secret; the backend only stores a hash, so this is the only time it is returned
+  secret: string;
+}
+
+export interface ApiKeyListResponse {
+  status: string;
+  keys: ApiKey[];
+}
+
+class ApiKeyService {
+  private readonly STORAGE_KEY = ACTIVE_API_KEY_STORAGE_KEY;
+
+  private readonly basePath = '/keys';
+
+  async createKey(request: ApiKeyCreateRequest): Promise<ApiKeyCreateResponse> {
+    return httpClient.post<ApiKeyCreateResponse>(this.basePath, request);
+  }
+
+  async listKeys(): Promise<ApiKeyListResponse> {
+    return httpClient.get<ApiKeyListResponse>(this.basePath);
+  }
+
+  async revokeKey(keyId: string): Promise<{ status: string; message: string }> {
+    return httpClient.delete(`${this.basePath}/${encodeURIComponent(keyId)}`);
+  }
+
+  /**
+   * Secret attached to every request from this browser, if one has been chosen
+   */
+  getActiveKey(): string | null {
+    return localStorage.getItem(this.STORAGE_KEY);
+  }
+
+  setActiveKey(secret: string): void {
+    localStorage.setItem(this.STORAGE_KEY, secret.trim());
+  }
+
+  clearActiveKey(): void {
+    localStorage.removeItem(this.STORAGE_KEY);
+  }
+
+  isExpired(key: ApiKey): boolean {
+    return key.expires_at !== null && new Date(key.expires_at).getTime() < Date.now();
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
+export default apiKeyService;
@@ -0,0 +1,56 @@
+import { httpClient } from './httpClient';
+
+// Record of who deleted or launched what, kept by the backend per workspace
+export type AuditAction = 'delete' | 'launch' | 'create' | 'update';
+
+export type AuditResourceType = 'file' | 'dataset' | 'config' | 'training_session' | 'prediction_job';
+
+export interface AuditEvent {
+  id: string;
+  timestamp: string;
+  actor: string;
+  action: AuditAction;
+  resource_type: AuditResourceType;
+  resource_id: string;
+  resource_name?: string;
+  workspace_id?: string;
+  details?: string;
+}
+
+export interface AuditLogQuery {
+  action?: AuditAction;
+  resource_type?: AuditResourceType;
+  actor?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditLogResponse {
+  events: AuditEvent[];
+  total: number;
+}
+
+export const AUDIT_RESOURCE_LABELS: Record<AuditResourceType, string> = {
+  file: 'File',
+  dataset: 'Dataset',
+  config: 'Configuration',
+  training_session: 'Training session',
+  prediction_job: 'Prediction job',
+};
+
+class AuditService {
+  private readonly basePath = '/audit';
+
+  /**
+   * Newest events first
+   */
+  async listEvents(query: AuditLogQuery = {}): Promise<AuditLogResponse> {
+    return httpClient.get<AuditLogResponse>(`${this.basePath}/events`, {
+      query: { ...query },
+      errorMessage: 'Failed to load audit log',
+    });
+  }
+}
+
+export const auditService = new AuditService();
+export default auditService;
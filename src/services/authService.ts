@@ -0,0 +1,217 @@
+import { OIDC_CONFIG } from '../config/auth';
+import { Permission, UserRole, OwnedResource, hasPermission } from '../config/permissions';
+import {
+  httpClient,
+  isApiError,
+  setSessionToken,
+  clearSessionToken,
+  getSessionToken,
+  getActiveWorkspaceId,
+  setActiveWorkspaceId,
+} from './httpClient';
+
+// Sign-in, the current user and their workspaces
+export interface Workspace {
+  id: string;
+  name: string;
+  type: 'personal' | 'team';
+}
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  name: string;
+  email: string;
+  plan: string;
+  role: UserRole;
+  avatar?: string;
+  workspaces: Workspace[];
+}
+
+export interface AuthSession {
+  token: string;
+  expires_at?: string;
+  user: AuthUser;
+}
+
+// Fields the backend stores on anything a user creates
+export interface Ownership {
+  created_by?: string;
+  workspace_id?: string;
+}
+
+class AuthService {
+  private readonly USER_STORAGE_KEY = 'auth_user';
+  private readonly OIDC_STATE_STORAGE_KEY = 'oidc_state';
+  private readonly OIDC_RETURN_STORAGE_KEY = 'oidc_return_to';
+  private readonly basePath = '/auth';
+
+  isOidcEnabled(): boolean {
+    return OIDC_CONFIG !== null;
+  }
+
+  async login(username: string, password: string): Promise<AuthUser> {
+    const session = await httpClient.post<AuthSession>(`${this.basePath}/login`, { username, password }, {
+      errorMessage: 'Invalid username or password',
+    });
+    return this.startSession(session);
+  }
+
+  /**
+   * Authorization URL of the identity provider; the state is kept to check the callback
+   */
+  getOidcLoginUrl(returnTo: string = '/'): string {
+    if (!OIDC_CONFIG) {
+      throw new Error('Single sign-on is not configured');
+    }
+
+    const state = crypto.randomUUID();
+    sessionStorage.setItem(this.OIDC_STATE_STORAGE_KEY, state);
+    sessionStorage.setItem(this.OIDC_RETURN_STORAGE_KEY, returnTo);
+
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: OIDC_CONFIG.clientId,
+      redirect_uri: this.getOidcRedirectUri(),
+      scope: OIDC_CONFIG.scope,
+      state,
+    });
+    return `${OIDC_CONFIG.issuer}/authorize?${params}`;
+  }
+
+  /**
+   * Exchange the authorization code from the IdP redirect for a session
+   */
+  async completeOidcLogin(code: string, state: string | null): Promise<AuthUser> {
+    const expectedState = sessionStorage.getItem(this.OIDC_STATE_STORAGE_KEY);
+    sessionStorage.removeItem(this.OIDC_STATE_STORAGE_KEY);
+    if (!expectedState || state !== expectedState) {
+      throw new Error('Sign-in response did not match the request. Please try again.');
+    }
+
+    const session = await httpClient.post<AuthSession>(`${this.basePath}/oidc/callback`, {
+      code,
+      redirect_uri: this.getOidcRedirectUri(),
+    }, { errorMessage: 'Single sign-on failed' });
+    return this.startSession(session);
+  }
+
+  /**
+   * Page the user was on before being sent to the IdP
+   */
+  takeOidcReturnPath(): string {
+    const returnTo = sessionStorage.getItem(this.OIDC_RETURN_STORAGE_KEY);
+    sessionStorage.removeItem(this.OIDC_RETURN_STORAGE_KEY);
+    return returnTo || '/';
+  }
+
+  /**
+   * Validate the stored session with the backend. Returns null when signed out or the
+   * session was rejected; keeps the cached user if the backend can't be reached
+   */
+  async fetchCurrentUser(): Promise<AuthUser | null> {
+    if (!getSessionToken()) return null;
+
+    try {
+      const data = await httpClient.get<{ user: AuthUser }>(`${this.basePath}/me`, { retries: 1 });
+      this.cacheUser(data.user);
+      return data.user;
+    } catch (error) {
+      if (isApiError(error) && error.status === 401) {
+        this.clearSession();
+        return null;
+      }
+      console.warn('Could not verify session, using cached user:', error);
+      return this.getCachedUser();
+    }
+  }
+
+  getCachedUser(): AuthUser | null {
+    if (!getSessionToken()) return null;
+    try {
+      const stored = localStorage.getItem(this.USER_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('Failed to load user from storage:', error);
+      return null;
+    }
+  }
+
+  async logout(): Promise<void> {
+    try {
+      await httpClient.post(`${this.basePath}/logout`, undefined, { timeoutMs: 5000 });
+    } catch (error) {
+      // The local session is dropped regardless
+      console.warn('Failed to end session on the backend:', error);
+    }
+    this.clearSession();
+  }
+
+  clearSession(): void {
+    clearSessionToken();
+    localStorage.removeItem(this.USER_STORAGE_KEY);
+  }
+
+  /**
+   * Workspace requests are currently scoped to, defaulting to the user's first one
+   */
+  getActiveWorkspace(user: AuthUser): Workspace | undefined {
+    const workspaceId = getActiveWorkspaceId();
+    return user.workspaces.find(workspace => workspace.id === workspaceId) ?? user.workspaces[0];
+  }
+
+  setActiveWorkspace(workspaceId: string): void {
+    setActiveWorkspaceId(workspaceId);
+  }
+
+  /**
+   * created_by / workspace_id for create requests
+   */
+  getOwnership(): Ownership {
+    const user = this.getCachedUser();
+    if (!user) return {};
+    return {
+      created_by: user.username,
+      workspace_id: this.getActiveWorkspace(user)?.id,
+    };
+  }
+
+  /**
+   * Permission check for the signed-in user; see ROLE_PERMISSIONS
+   */
+  can(permission: Permission, resource?: OwnedResource): boolean {
+    const user = this.getCachedUser();
+    return !!user && hasPermission(user.role, user.username, permission, resource);
+  }
+
+  /**
+   * Fail fast before calling the backend for an action the user's role doesn't allow;
+   * pass the resource for permissions that are limited to the user's own resources
+   */
+  requirePermission(permission: Permission, resource?: OwnedResource): void {
+    if (!this.can(permission, resource)) {
+      throw new Error("You don't have permission to perform this action");
+    }
+  }
+
+  private startSession(session: AuthSession): AuthUser {
+    setSessionToken(session.token);
+    this.cacheUser(session.user);
+
+    // Keep the previous workspace if the user still belongs to it
+    const workspace = this.getActiveWorkspace(session.user);
+    setActiveWorkspaceId(workspace?.id ?? null);
+    return session.user;
+  }
+
+  private cacheUser(user: AuthUser): void {
+    localStorage.setItem(this.USER_STORAGE_KEY, JSON.stringify(user));
+  }
+
+  private getOidcRedirectUri(): string {
+    return `${window.location.origin}${OIDC_CONFIG?.redirectPath ?? '/auth/callback'}`;
+  }
+}
+
+export const authService = new AuthService();
+export default authService;
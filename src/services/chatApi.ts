@@ -1,5 +1,7 @@
-// Use proxy in development, direct URL in production
-import {API_BASE_URL, API_BASE_URL_WITH_API} from '../config/api'
+import { apiFetch, httpClient } from './httpClient';
+import { getTrainingMethod } from '../config/trainingMethods';
+
+export { ApiError } from './httpClient';
 
 export interface Model {
   id: string;
@@ -12,6 +14,9 @@ export interface Model {
   baseModelId?: string;
   family?: string;
   hf_model_id?: string;
+  maxSequenceLength?: number;
+  // Set for training checkpoints, which are loaded by path rather than by name
+  checkpointPath?: string;
 }
 
 export interface ModelStatus {
@@ -25,6 +30,32 @@ export interface ChatParams {
   max_tokens?: number;
   temperature?: number;
   system_prompt?: string;
+  // Pin the request to a specific model instead of whichever one is loaded
+  model_id?: string;
+  // Extend the last assistant message instead of starting a new reply
+  continue_final_message?: boolean;
+  // Sampling controls; omitted from the request when not set
+  top_p?: number;
+  top_k?: number;
+  repetition_penalty?: number;
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  stop?: string[];
+  seed?: number | null;
+  // Constrain the response to this JSON schema (structured-output mode)
+  json_schema?: Record<string, unknown>;
+}
+
+// Prompt exactly as the backend tokenizer formats it
+export interface RenderedPrompt {
+  prompt: string;
+  token_count: number;
+  max_sequence_length?: number;
+}
+
+export interface ConversationMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
 }
 
 export interface StreamChunk {
@@ -32,81 +63,32 @@ export interface StreamChunk {
   done: boolean;
 }
 
-export interface ApiError {
-  message: string;
-  status?: number;
-  type: 'network' | 'server' | 'cors' | 'timeout' | 'unknown';
+export interface StreamStats {
+  timeToFirstToken: number | null; // milliseconds
+  tokensPerSecond: number;
+  totalTokens: number;
+  durationMs: number;
+  aborted?: boolean;
 }
 
-class ChatApiService {
-  private modelsData: any[] = []; // Store original model data for path mapping
-
-  private async makeRequest(endpoint: string, options: RequestInit = {}, retries = 3): Promise<Response> {
-    const url = `${API_BASE_URL_WITH_API}${endpoint}`;
-    
-    for (let attempt = 0; attempt <= retries; attempt++) {
-      try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
-        
-        const response = await fetch(url, {
-          ...options,
-          signal: controller.signal,
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': '*/*',
-            ...options.headers,
-          },
-        });
-
-        clearTimeout(timeoutId);
-
-        if (!response.ok) {
-          const errorType = this.getErrorType(response.status);
-          throw new Error(`API Error: ${response.status} ${response.statusText} (${errorType})`);
-        }
-
-        return response;
-      } catch (error: any) {
-        console.error(`Attempt ${attempt + 1} failed:`, error);
-        
-        if (attempt === retries) {
-          // Last attempt failed, throw enhanced error
-          const apiError: ApiError = {
-            message: error.message || 'Unknown error occurred',
-            status: error.status,
-            type: this.categorizeError(error),
-          };
-          throw apiError;
-        }
-        
-        // Wait before retrying (exponential backoff)
-        await this.delay(Math.pow(2, attempt) * 1000);
-      }
-    }
-    
-    throw new Error('All retry attempts failed');
-  }
+export interface StreamOptions {
+  signal?: AbortSignal;
+}
 
-  private getErrorType(status: number): string {
-    if (status >= 500) return 'server';
-    if (status === 404) return 'not_found';
-    if (status === 403 || status === 401) return 'auth';
-    if (status === 429) return 'rate_limit';
-    return 'client';
-  }
+// Raw /models/* listing; entries are normalised into Model below
+interface ModelListResponse {
+  status?: string;
+  message?: string;
+  models?: Record<string, unknown>[];
+}
 
-  private categorizeError(error: any): ApiError['type'] {
-    if (error.name === 'AbortError') return 'timeout';
-    if (error.message?.includes('CORS')) return 'cors';
-    if (error.message?.includes('fetch')) return 'network';
-    if (error.status >= 500) return 'server';
-    return 'unknown';
-  }
+interface ChatReply {
+  response?: string;
+  message?: string;
+}
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
+class ChatApiService {
+  private modelsData: any[] = []; // Store original model data for path mapping
 
   // Helper method to get model path from model name (for fine-tuned models only)
   getModelPath(modelName: string): string {
@@ -128,11 +110,10 @@ class ChatApiService {
 
   async fetchAvailableModels(): Promise<Model[]> {
     try {
-      const response = await this.makeRequest('/models/available');
-      const data = await response.json();
+      const data = await httpClient.get<ModelListResponse | Record<string, unknown>[]>('/models/available', { retries: 3 });
       
       // Handle the specific API response format
-      if (data.status === 'success' && data.models && Array.isArray(data.models)) {
+      if (!Array.isArray(data) && data.status === 'success' && data.models && Array.isArray(data.models)) {
         const models = data.models;
         
         if (models.length === 0) {
@@ -153,10 +134,11 @@ class ChatApiService {
           name: model.name || 'Unknown Model',
           description: `Fine-tuned model (${(model.size_mb || 0).toFixed(1)} MB)`,
           size: model.size_mb ? `${(model.size_mb / 1024).toFixed(1)}GB` : 'Unknown',
-          architecture: model.training_config?.model_type || 'LoRA',
+          architecture: model.training_config?.model_type || getTrainingMethod(model.training_config?.training_method).label,
           creationDate: model.created_at,
           isBase: false, // These are all fine-tuned models
           baseModelId: model.training_config?.base_model,
+          maxSequenceLength: model.training_config?.max_seq_length,
         }));
       } else {
         // Fallback for other response formats
@@ -179,6 +161,7 @@ class ChatApiService {
           creationDate: model.created_at || model.creation_date,
           isBase: model.is_base || false,
           baseModelId: model.base_model_id,
+          maxSequenceLength: model.max_seq_length,
         }));
       }
     } catch (error: any) {
@@ -201,8 +184,7 @@ class ChatApiService {
 
   async fetchHuggingFaceModels(): Promise<Model[]> {
     try {
-      const response = await this.makeRequest('/models/huggingface');
-      const data = await response.json();
+      const data = await httpClient.get<ModelListResponse>('/models/huggingface', { retries: 3 });
       
       if (data.status === 'success' && data.models && Array.isArray(data.models)) {
         const models = data.models;
@@ -243,8 +225,10 @@ class ChatApiService {
 
   async searchHuggingFaceModels(query: string, limit: number = 50): Promise<Model[]> {
     try {
-      const response = await this.makeRequest(`/models/huggingface/search?query=${encodeURIComponent(query)}&limit=${limit}`);
-      const data = await response.json();
+      const data = await httpClient.get<ModelListResponse>('/models/huggingface/search', {
+        query: { query, limit },
+        retries: 3,
+      });
       
       if (data.status === 'success' && data.models && Array.isArray(data.models)) {
         const models = data.models;
@@ -311,8 +295,9 @@ class ChatApiService {
 
   async getModelStatus(): Promise<ModelStatus> {
     try {
-      const response = await this.makeRequest('/models/status');
-      const data = await response.json();
+      const data = await httpClient.get<{ loaded?: boolean; model_id?: string; model_name?: string }>('/models/status', {
+        retries: 3,
+      });
       
       return {
         loaded: data.loaded || false,
@@ -327,12 +312,12 @@ class ChatApiService {
 
   async loadModel(modelPath: string, maxSeqLength: number = 2048): Promise<void> {
     try {
-      await this.makeRequest('/models/load', {
-        method: 'POST',
-        body: JSON.stringify({ 
-          model_path: modelPath,
-          max_seq_length: maxSeqLength 
-        }),
+      await httpClient.post('/models/load', {
+        model_path: modelPath,
+        max_seq_length: maxSeqLength,
+      }, {
+        // Loading weights onto the GPU can take a while for larger models
+        timeoutMs: 120000,
       });
     } catch (error) {
       console.error('Failed to load model:', error);
@@ -342,9 +327,7 @@ class ChatApiService {
 
   async unloadModel(): Promise<void> {
     try {
-      await this.makeRequest('/models/unload', {
-        method: 'POST',
-      });
+      await httpClient.post('/models/unload');
     } catch (error) {
       console.error('Failed to unload model:', error);
       throw error;
@@ -356,7 +339,8 @@ class ChatApiService {
       const requestPayload: any = {
         message,
         max_tokens: params.max_tokens || 256,
-        temperature: params.temperature || 0.7,
+        temperature: params.temperature ?? 0.7,
+        ...this.buildGenerationParams(params),
       };
 
       // Add system prompt if provided
@@ -364,12 +348,11 @@ class ChatApiService {
         requestPayload.system_prompt = params.system_prompt.trim();
       }
 
-      const response = await this.makeRequest('/chat/single', {
-        method: 'POST',
-        body: JSON.stringify(requestPayload),
-      });
-      
-      const data = await response.json();
+      if (params.model_id) {
+        requestPayload.model_id = params.model_id;
+      }
+
+      const data = await httpClient.post<ChatReply>('/chat/single', requestPayload, { timeoutMs: 120000 });
       return data.response || data.message || '';
     } catch (error) {
       console.error('Failed to send single message:', error);
@@ -379,16 +362,23 @@ class ChatApiService {
 
   async sendConversation(messages: Array<{role: string; content: string}>, params: Partial<ChatParams> = {}): Promise<string> {
     try {
-      const response = await this.makeRequest('/chat/conversation', {
-        method: 'POST',
-        body: JSON.stringify({
-          messages,
-          max_tokens: params.max_tokens || 256,
-          temperature: params.temperature || 0.7,
-        }),
-      });
-      
-      const data = await response.json();
+      const requestPayload: Record<string, unknown> = {
+        messages,
+        max_tokens: params.max_tokens || 256,
+        temperature: params.temperature ?? 0.7,
+        ...this.buildGenerationParams(params),
+      };
+
+      // Add system prompt if provided
+      if (params.system_prompt && params.system_prompt.trim()) {
+        requestPayload.system_prompt = params.system_prompt.trim();
+      }
+
+      if (params.model_id) {
+        requestPayload.model_id = params.model_id;
+      }
+
+      const data = await httpClient.post<ChatReply>('/chat/conversation', requestPayload, { timeoutMs: 120000 });
       return data.response || data.message || '';
     } catch (error) {
       console.error('Failed to send conversation:', error);
@@ -396,16 +386,32 @@ class ChatApiService {
     }
   }
 
+  /**
+   * Render messages through the model's chat template on the backend
+   */
+  async previewChatTemplate(
+    messages: ConversationMessage[],
+    params: { model_id?: string; system_prompt?: string; add_generation_prompt?: boolean } = {}
+  ): Promise<RenderedPrompt> {
+    // Not retried (POST): callers fall back to a local estimate
+    return httpClient.post<RenderedPrompt>('/chat/template/preview', {
+      messages,
+      add_generation_prompt: params.add_generation_prompt ?? true,
+      ...(params.model_id && { model_id: params.model_id }),
+      ...(params.system_prompt?.trim() && { system_prompt: params.system_prompt.trim() }),
+    });
+  }
+
   async quickChat(query: string, params: Partial<ChatParams> = {}): Promise<string> {
     try {
-      const queryParams = new URLSearchParams({
-        q: query,
-        max_tokens: (params.max_tokens || 256).toString(),
-        temperature: (params.temperature || 0.7).toString(),
+      const data = await httpClient.get<ChatReply>('/chat/quick', {
+        query: {
+          q: query,
+          max_tokens: params.max_tokens || 256,
+          temperature: params.temperature || 0.7,
+        },
+        timeoutMs: 120000,
       });
-
-      const response = await this.makeRequest(`/chat/quick?${queryParams}`);
-      const data = await response.json();
       return data.response || data.message || '';
     } catch (error) {
       console.error('Failed to send quick chat:', error);
@@ -417,106 +423,240 @@ class ChatApiService {
     message: string, 
     params: Partial<ChatParams> = {},
     onChunk: (chunk: string) => void,
-    onComplete: () => void,
-    onError: (error: Error) => void
+    onComplete: (stats: StreamStats) => void,
+    onError: (error: Error) => void,
+    options: StreamOptions = {}
   ): Promise<void> {
-    try {
-      // Create request payload matching your API format exactly
-      const requestPayload: any = {
-        message,
-        max_tokens: params.max_tokens || 150,
-        temperature: params.temperature || 0.7,
-      };
+    // Create request payload matching your API format exactly
+    const requestPayload: Record<string, unknown> = {
+      message,
+      ...this.buildStreamParams(params),
+    };
+
+    console.log('Sending chat request:', requestPayload);
+    await this.streamRequest('/chat/stream', requestPayload, onChunk, onComplete, onError, options);
+  }
 
-      // Add system prompt if provided
-      if (params.system_prompt && params.system_prompt.trim()) {
-        requestPayload.system_prompt = params.system_prompt.trim();
+  async streamConversation(
+    messages: ConversationMessage[],
+    params: Partial<ChatParams> = {},
+    onChunk: (chunk: string) => void,
+    onComplete: (stats: StreamStats) => void,
+    onError: (error: Error) => void,
+    options: StreamOptions = {}
+  ): Promise<void> {
+    // Send the full role/content history so the model sees earlier turns
+    const requestPayload: Record<string, unknown> = {
+      messages,
+      ...this.buildStreamParams(params),
+    };
+
+    console.log('Sending conversation request:', requestPayload);
+    await this.streamRequest('/chat/conversation/stream', requestPayload, onChunk, onComplete, onError, options);
+  }
+
+  private buildStreamParams(params: Partial<ChatParams>): Record<string, unknown> {
+    const streamParams: Record<string, unknown> = {
+      max_tokens: params.max_tokens || 150,
+      temperature: params.temperature ?? 0.7,
+      ...this.buildGenerationParams(params),
+    };
+
+    // Add system prompt if provided
+    if (params.system_prompt && params.system_prompt.trim()) {
+      streamParams.system_prompt = params.system_prompt.trim();
+    }
+
+    if (params.model_id) {
+      streamParams.model_id = params.model_id;
+    }
+
+    if (params.continue_final_message) {
+      streamParams.continue_final_message = true;
+    }
+
+    return streamParams;
+  }
+
+  /**
+   * Collect the optional sampling and output-format controls that were explicitly set
+   */
+  private buildGenerationParams(params: Partial<ChatParams>): Record<string, unknown> {
+    const generationParams: Record<string, unknown> = {};
+    const numericKeys = ['top_p', 'top_k', 'repetition_penalty', 'presence_penalty', 'frequency_penalty', 'seed'] as const;
+
+    numericKeys.forEach(key => {
+      const value = params[key];
+      if (value !== undefined && value !== null) {
+        generationParams[key] = value;
       }
+    });
 
-      console.log('Sending chat request:', requestPayload);
+    if (params.stop && params.stop.length > 0) {
+      generationParams.stop = params.stop;
+    }
+
+    if (params.json_schema) {
+      generationParams.response_format = { type: 'json_schema', json_schema: params.json_schema };
+    }
 
-      const response = await fetch(`${API_BASE_URL}/chat/stream`, {
+    return generationParams;
+  }
+
+  private async streamRequest(
+    endpoint: string,
+    requestPayload: Record<string, unknown>,
+    onChunk: (chunk: string) => void,
+    onComplete: (stats: StreamStats) => void,
+    onError: (error: Error) => void,
+    options: StreamOptions
+  ): Promise<void> {
+    const tracker = new StreamStatsTracker();
+
+    try {
+      // Streaming routes live at the backend root, outside /api
+      const response = await apiFetch(httpClient.resolveUrl(endpoint, { withoutApiPrefix: true }), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           'Accept': '*/*',
         },
         body: JSON.stringify(requestPayload),
+        signal: options.signal,
       });
 
-      if (!response.ok) {
-        throw new Error(`Stream API Error: ${response.status} ${response.statusText}`);
+      await this.readStream(response, onChunk, onComplete, tracker);
+    } catch (error) {
+      // A user-initiated stop is not an error: report what was generated so far
+      if (options.signal?.aborted) {
+        onComplete(tracker.finish(true));
+        return;
       }
+      console.error('Stream chat error:', error);
+      onError(error as Error);
+    }
+  }
 
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('Failed to get response reader');
-      }
+  // Read a Server-Sent Events (or plain text) streaming response
+  private async readStream(
+    response: Response,
+    onChunk: (chunk: string) => void,
+    onComplete: (stats: StreamStats) => void,
+    tracker: StreamStatsTracker
+  ): Promise<void> {
+    if (!response.ok) {
+      throw new Error(`Stream API Error: ${response.status} ${response.statusText}`);
+    }
+
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error('Failed to get response reader');
+    }
 
-      const decoder = new TextDecoder();
-      let buffer = '';
+    const decoder = new TextDecoder();
+    let buffer = '';
 
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          
-          if (done) {
-            onComplete();
-            break;
-          }
+    const emit = (chunk: string, tokens?: number) => {
+      tracker.recordChunk(chunk, tokens);
+      onChunk(chunk);
+    };
 
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
-
-          for (const line of lines) {
-            if (line.trim()) {
-              try {
-                // Handle Server-Sent Events format
-                if (line.startsWith('data: ')) {
-                  const data = line.slice(6);
-                  if (data === '[DONE]') {
-                    onComplete();
-                    return;
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        
+        if (done) {
+          onComplete(tracker.finish());
+          break;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (line.trim()) {
+            try {
+              // Handle Server-Sent Events format
+              if (line.startsWith('data: ')) {
+                const data = line.slice(6);
+                if (data === '[DONE]') {
+                  onComplete(tracker.finish());
+                  return;
+                }
+                // Try to parse as JSON first
+                try {
+                  const parsed = JSON.parse(data);
+                  
+                  // Handle your specific API format
+                  if (parsed.token) {
+                    emit(parsed.token, 1);
                   }
-                  // Try to parse as JSON first
-                  try {
-                    const parsed = JSON.parse(data);
-                    
-                    // Handle your specific API format
-                    if (parsed.token) {
-                      onChunk(parsed.token);
-                    }
-                    
-                    // Check for completion
-                    if (parsed.done === true || parsed.status === 'completed') {
-                      onComplete();
-                      return;
-                    }
-                  } catch (jsonError) {
-                    // If not JSON, treat as plain text
-                    onChunk(data);
+
+                  // Prefer the backend's own token count when it reports one
+                  if (parsed.usage?.completion_tokens) {
+                    tracker.setTotalTokens(parsed.usage.completion_tokens);
+                  }
+                  
+                  // Check for completion
+                  if (parsed.done === true || parsed.status === 'completed') {
+                    onComplete(tracker.finish());
+                    return;
                   }
-                } else {
-                  // Direct text streaming - treat each line as content
-                  onChunk(line);
+                } catch (jsonError) {
+                  // If not JSON, treat as plain text
+                  emit(data);
                 }
-              } catch (parseError) {
-                console.warn('Error parsing streaming line:', parseError);
-                // If all parsing fails, treat as plain text
-                onChunk(line);
+              } else {
+                // Direct text streaming - treat each line as content
+                emit(line);
               }
+            } catch (parseError) {
+              console.warn('Error parsing streaming line:', parseError);
+              // If all parsing fails, treat as plain text
+              emit(line);
             }
           }
         }
-      } finally {
-        reader.releaseLock();
       }
-    } catch (error) {
-      console.error('Stream chat error:', error);
-      onError(error as Error);
+    } finally {
+      reader.releaseLock();
     }
   }
 }
 
+// Tracks timing and token counts for a single streamed response
+class StreamStatsTracker {
+  private startTime = performance.now();
+  private firstTokenTime: number | null = null;
+  private tokenCount = 0;
+  private reportedTokens: number | null = null;
+
+  recordChunk(chunk: string, tokens?: number) {
+    if (this.firstTokenTime === null) {
+      this.firstTokenTime = performance.now();
+    }
+    // Plain-text chunks carry no token boundaries, so estimate ~4 characters per token
+    this.tokenCount += tokens ?? Math.max(1, Math.ceil(chunk.length / 4));
+  }
+
+  setTotalTokens(tokens: number) {
+    this.reportedTokens = tokens;
+  }
+
+  finish(aborted: boolean = false): StreamStats {
+    const now = performance.now();
+    const totalTokens = this.reportedTokens ?? this.tokenCount;
+    const generationMs = this.firstTokenTime !== null ? now - this.firstTokenTime : 0;
+
+    return {
+      timeToFirstToken: this.firstTokenTime !== null ? this.firstTokenTime - this.startTime : null,
+      tokensPerSecond: generationMs > 0 ? totalTokens / (generationMs / 1000) : 0,
+      totalTokens,
+      durationMs: now - this.startTime,
+      ...(aborted && { aborted: true }),
+    };
+  }
+}
+
 export const chatApi = new ChatApiService();
@@ -0,0 +1,224 @@
+import { TrainingExample } from './fileService';
+import { StreamStats } from './chatApi';
+import { httpClient, isApiError } from './httpClient';
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  model?: string;
+  // Comparison turns: both answers share a turnId, slot 'a' is the primary model
+  turnId?: string;
+  slot?: 'a' | 'b';
+  stats?: StreamStats;
+  // Set when generation was stopped by the user or failed part-way
+  stopped?: boolean;
+  error?: string;
+  // Schema the answer was requested against in JSON mode
+  jsonSchema?: Record<string, unknown>;
+}
+
+export interface ChatSession {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  modelName?: string;
+  systemPrompt?: string;
+  messages: ChatMessage[];
+}
+
+const DB_NAME = 'llm_studio_chat';
+const DB_VERSION = 1;
+const STORE_NAME = 'chat_sessions';
+
+class ChatSessionService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private readonly SYNC_STORAGE_KEY = 'chat_sessions_sync_enabled';
+
+  private readonly basePath = '/chat/sessions';
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            store.createIndex('updatedAt', 'updatedAt');
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async runTransaction<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * List stored chat sessions, most recently updated first
+   */
+  async listSessions(): Promise<ChatSession[]> {
+    const sessions = await this.runTransaction<ChatSession[]>('readonly', store => store.getAll());
+    return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async getSession(sessionId: string): Promise<ChatSession | null> {
+    const session = await this.runTransaction<ChatSession | undefined>('readonly', store => store.get(sessionId));
+    return session || null;
+  }
+
+  /**
+   * Create a new, empty session named after the first user message
+   */
+  createSession(firstMessage: string, modelName?: string): ChatSession {
+    const now = new Date().toISOString();
+    const trimmed = firstMessage.trim().replace(/\s+/g, ' ');
+
+    return {
+      id: `chat_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: trimmed.length > 40 ? `${trimmed.slice(0, 40)}…` : trimmed || 'New chat',
+      createdAt: now,
+      updatedAt: now,
+      modelName,
+      messages: [],
+    };
+  }
+
+  async saveSession(session: ChatSession): Promise<ChatSession> {
+    const saved = { ...session, updatedAt: new Date().toISOString() };
+    await this.runTransaction('readwrite', store => store.put(saved));
+
+    if (this.isSyncEnabled()) {
+      await this.syncSession(saved);
+    }
+    return saved;
+  }
+
+  async renameSession(sessionId: string, name: string): Promise<ChatSession | null> {
+    const session = await this.getSession(sessionId);
+    if (!session) return null;
+    return this.saveSession({ ...session, name: name.trim() || session.name });
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    await this.runTransaction('readwrite', store => store.delete(sessionId));
+
+    if (this.isSyncEnabled()) {
+      try {
+        await httpClient.delete(`${this.basePath}/${encodeURIComponent(sessionId)}`);
+      } catch (error) {
+        // Already gone from the backend is fine
+        if (!isApiError(error) || error.status !== 404) {
+          console.error('Error deleting synced chat session:', error);
+        }
+      }
+    }
+  }
+
+  isSyncEnabled(): boolean {
+    return localStorage.getItem(this.SYNC_STORAGE_KEY) === 'true';
+  }
+
+  setSyncEnabled(enabled: boolean): void {
+    localStorage.setItem(this.SYNC_STORAGE_KEY, String(enabled));
+  }
+
+  /**
+   * Push a session to the backend. Sync is best-effort: local storage
+   * remains the source of truth, so failures are logged rather than thrown.
+   */
+  async syncSession(session: ChatSession): Promise<boolean> {
+    try {
+      await httpClient.put(`${this.basePath}/${encodeURIComponent(session.id)}`, {
+        id: session.id,
+        name: session.name,
+        created_at: session.createdAt,
+        updated_at: session.updatedAt,
+        model_name: session.modelName,
+        system_prompt: session.systemPrompt,
+        messages: session.messages.map(({ role, content, model }) => ({ role, content, model })),
+      });
+      return true;
+    } catch (error) {
+      console.error('Error syncing chat session:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Convert a session into instruction/input/output examples, one per answered turn.
+   * Comparison turns contribute the primary model's answer only.
+   */
+  toTrainingExamples(session: ChatSession): TrainingExample[] {
+    const examples: TrainingExample[] = [];
+    const transcript: string[] = [];
+    const systemPrompt = session.systemPrompt?.trim();
+
+    session.messages.forEach((message, index) => {
+      if (message.role !== 'user') return;
+
+      const rest = session.messages.slice(index + 1);
+      const nextUserIndex = rest.findIndex(msg => msg.role === 'user');
+      const replies = nextUserIndex === -1 ? rest : rest.slice(0, nextUserIndex);
+      const answer = replies.find(msg => msg.role === 'assistant' && msg.slot !== 'b');
+
+      if (answer && answer.content.trim()) {
+        const context = transcript.join('\n');
+        examples.push({
+          instruction: systemPrompt || message.content,
+          input: systemPrompt
+            ? [context, `User: ${message.content}`].filter(Boolean).join('\n')
+            : context,
+          output: answer.content,
+        });
+        transcript.push(`User: ${message.content}`, `Assistant: ${answer.content}`);
+      } else {
+        transcript.push(`User: ${message.content}`);
+      }
+    });
+
+    return examples;
+  }
+
+  /**
+   * Download sessions as JSONL training data for Data Preparation
+   */
+  downloadAsJsonl(sessions: ChatSession[], filename: string = 'chat_sessions.jsonl'): number {
+    const examples = sessions.flatMap(session => this.toTrainingExamples(session));
+    const jsonl = examples.map(example => JSON.stringify(example)).join('\n');
+    const blob = new Blob([jsonl], { type: 'application/jsonl' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    URL.revokeObjectURL(url);
+    return examples.length;
+  }
+}
+
+export const chatSessionService = new ChatSessionService();
+export default chatSessionService;
@@ -1,4 +1,6 @@
-import { API_BASE_URL_WITH_API } from '../config/api';
+import { httpClient } from './httpClient';
+import { authService } from './authService';
+import { OwnedResource } from '../config/permissions';
 
 // Configuration management service
 export interface ConfigMetadata {
@@ -7,6 +9,8 @@ export interface ConfigMetadata {
   created_at: string;
   version: string;
   filename: string;
+  created_by?: string;
+  workspace_id?: string;
 }
 
 export interface SavedConfig {
@@ -41,80 +45,26 @@ export interface ConfigLoadResponse {
 }
 
 class ConfigService {
-  private get baseUrl() {
-    return `${API_BASE_URL_WITH_API}/configs`;
-  }
+  private readonly basePath = '/configs';
 
   async saveConfiguration(request: ConfigSaveRequest): Promise<ConfigResponse> {
-    try {
-      const response = await fetch(`${this.baseUrl}/save`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(request),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.detail || `HTTP error! status: ${response.status}`);
-      }
-
-      return await response.json();
-    } catch (error) {
-      console.error('Error saving configuration:', error);
-      throw error;
-    }
+    return httpClient.post<ConfigResponse>(`${this.basePath}/save`, {
+      ...request,
+      ...authService.getOwnership(),
+    });
   }
 
   async listConfigurations(): Promise<ConfigListResponse> {
-    try {
-      const response = await fetch(`${this.baseUrl}/list`);
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.detail || `HTTP error! status: ${response.status}`);
-      }
-
-      return await response.json();
-    } catch (error) {
-      console.error('Error listing configurations:', error);
-      throw error;
-    }
+    return httpClient.get<ConfigListResponse>(`${this.basePath}/list`);
   }
 
   async loadConfiguration(configName: string): Promise<ConfigLoadResponse> {
-    try {
-      const response = await fetch(`${this.baseUrl}/${encodeURIComponent(configName)}`);
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.detail || `HTTP error! status: ${response.status}`);
-      }
-
-      return await response.json();
-    } catch (error) {
-      console.error('Error loading configuration:', error);
-      throw error;
-    }
+    return httpClient.get<ConfigLoadResponse>(`${this.basePath}/${encodeURIComponent(configName)}`);
   }
 
-  async deleteConfiguration(configName: string): Promise<ConfigResponse> {
-    try {
-      const response = await fetch(`${this.baseUrl}/${encodeURIComponent(configName)}`, {
-        method: 'DELETE',
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.detail || `HTTP error! status: ${response.status}`);
-      }
-
-      return await response.json();
-    } catch (error) {
-      console.error('Error deleting configuration:', error);
-      throw error;
-    }
+  async deleteConfiguration(configName: string, config: OwnedResource): Promise<ConfigResponse> {
+    authService.requirePermission('configs:delete', config);
+    return httpClient.delete<ConfigResponse>(`${this.basePath}/${encodeURIComponent(configName)}`);
   }
 }
 
@@ -1,5 +1,7 @@
-import { API_BASE_URL_WITH_API } from '../config/api';
-import { ColumnMapping, TrainingExample } from './fileService';
+import { ColumnMapping, TrainingExample, PreferenceExample } from './fileService';
+import { httpClient } from './httpClient';
+import { authService } from './authService';
+import { OwnedResource } from '../config/permissions';
 
 export interface ProcessingStats {
   total_input_rows: number;
@@ -36,6 +38,7 @@ export interface ProcessedDataset {
   created_at: string;
   last_modified: string;
   created_by?: string;
+  workspace_id?: string;
   tags: string[];
   usage_count: number;
   last_used?: string;
@@ -78,6 +81,8 @@ export interface DatasetPreviewResponse {
   success: boolean;
   dataset_id: string;
   preview_data: TrainingExample[];
+  // Present instead of instruction examples for preference-pair datasets
+  preference_data?: PreferenceExample[];
   total_examples: number;
   showing_examples: number;
 }
@@ -97,26 +102,20 @@ export interface DatasetOverview {
 }
 
 class DatasetService {
-  private baseUrl = `${API_BASE_URL_WITH_API}/datasets`;
+  private readonly basePath = '/datasets';
 
   /**
    * Create a new processed dataset
    */
   async createDataset(request: DatasetCreateRequest): Promise<DatasetCreateResponse> {
-    const response = await fetch(`${this.baseUrl}/create`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(request),
+    return httpClient.post<DatasetCreateResponse>(`${this.basePath}/create`, {
+      ...request,
+      ...authService.getOwnership(),
+    }, {
+      // Processes the full source file before responding
+      timeoutMs: 120000,
+      errorMessage: 'Failed to create dataset',
     });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to create dataset');
-    }
-
-    return response.json();
   }
 
   /**
@@ -127,51 +126,31 @@ class DatasetService {
     sortDesc: boolean = true,
     filterTags?: string[]
   ): Promise<DatasetListResponse> {
-    const params = new URLSearchParams({
-      sort_by: sortBy,
-      sort_desc: sortDesc.toString(),
+    return httpClient.get<DatasetListResponse>(this.basePath, {
+      query: {
+        sort_by: sortBy,
+        sort_desc: sortDesc,
+        filter_tags: filterTags && filterTags.length > 0 ? filterTags.join(',') : undefined,
+      },
+      errorMessage: 'Failed to list datasets',
     });
-
-    if (filterTags && filterTags.length > 0) {
-      params.append('filter_tags', filterTags.join(','));
-    }
-
-    const response = await fetch(`${this.baseUrl}?${params}`);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to list datasets');
-    }
-
-    return response.json();
   }
 
   /**
    * Get detailed information about a specific dataset
    */
   async getDataset(datasetId: string): Promise<{ success: boolean; dataset: ProcessedDataset }> {
-    const response = await fetch(`${this.baseUrl}/${datasetId}`);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to get dataset');
-    }
-
-    return response.json();
+    return httpClient.get(`${this.basePath}/${datasetId}`, { errorMessage: 'Failed to get dataset' });
   }
 
   /**
    * Get a preview of dataset training examples
    */
   async previewDataset(datasetId: string, limit: number = 10): Promise<DatasetPreviewResponse> {
-    const response = await fetch(`${this.baseUrl}/${datasetId}/preview?limit=${limit}`);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to preview dataset');
-    }
-
-    return response.json();
+    return httpClient.get<DatasetPreviewResponse>(`${this.basePath}/${datasetId}/preview`, {
+      query: { limit },
+      errorMessage: 'Failed to preview dataset',
+    });
   }
 
   /**
@@ -183,14 +162,11 @@ class DatasetService {
     data: TrainingExample[];
     total_examples: number;
   }> {
-    const response = await fetch(`${this.baseUrl}/${datasetId}/data`);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to get dataset data');
-    }
-
-    return response.json();
+    return httpClient.get(`${this.basePath}/${datasetId}/data`, {
+      // Full datasets can be large
+      timeoutMs: 120000,
+      errorMessage: 'Failed to get dataset data',
+    });
   }
 
   /**
@@ -200,52 +176,30 @@ class DatasetService {
     datasetId: string,
     updates: DatasetUpdateRequest
   ): Promise<{ success: boolean; message: string; dataset: ProcessedDataset }> {
-    const response = await fetch(`${this.baseUrl}/${datasetId}`, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(updates),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to update dataset');
-    }
-
-    return response.json();
+    return httpClient.put(`${this.basePath}/${datasetId}`, updates, { errorMessage: 'Failed to update dataset' });
   }
 
   /**
    * Delete a dataset and its data
    */
-  async deleteDataset(datasetId: string): Promise<{
+  async deleteDataset(datasetId: string, dataset: OwnedResource): Promise<{
     success: boolean;
     message: string;
     dataset_id: string;
   }> {
-    const response = await fetch(`${this.baseUrl}/${datasetId}`, {
-      method: 'DELETE',
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to delete dataset');
-    }
-
-    return response.json();
+    authService.requirePermission('datasets:delete', dataset);
+    return httpClient.delete(`${this.basePath}/${datasetId}`, { errorMessage: 'Failed to delete dataset' });
   }
 
   /**
    * Download a dataset as JSON file
    */
   async downloadDataset(datasetId: string): Promise<void> {
-    const response = await fetch(`${this.baseUrl}/${datasetId}/download`);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to download dataset');
-    }
+    const response = await httpClient.get<Response>(`${this.basePath}/${datasetId}/download`, {
+      responseType: 'response',
+      timeoutMs: 120000,
+      errorMessage: 'Failed to download dataset',
+    });
 
     // Get filename from response headers or use default
     const contentDisposition = response.headers.get('content-disposition');
@@ -279,16 +233,7 @@ class DatasetService {
     usage_count: number;
     last_used: string;
   }> {
-    const response = await fetch(`${this.baseUrl}/${datasetId}/use`, {
-      method: 'POST',
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to track usage');
-    }
-
-    return response.json();
+    return httpClient.post(`${this.basePath}/${datasetId}/use`, undefined, { errorMessage: 'Failed to track usage' });
   }
 
   /**
@@ -301,30 +246,19 @@ class DatasetService {
     new_dataset_id: string;
     new_dataset: ProcessedDataset;
   }> {
-    const response = await fetch(`${this.baseUrl}/${datasetId}/duplicate?new_name=${encodeURIComponent(newName)}`, {
-      method: 'POST',
+    return httpClient.post(`${this.basePath}/${datasetId}/duplicate`, undefined, {
+      query: { new_name: newName },
+      // Copies the dataset's data
+      timeoutMs: 120000,
+      errorMessage: 'Failed to duplicate dataset',
     });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to duplicate dataset');
-    }
-
-    return response.json();
   }
 
   /**
    * Get overview statistics for all datasets
    */
   async getOverview(): Promise<{ success: boolean; overview: DatasetOverview }> {
-    const response = await fetch(`${this.baseUrl}/stats/overview`);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to get overview');
-    }
-
-    return response.json();
+    return httpClient.get(`${this.basePath}/stats/overview`, { errorMessage: 'Failed to get overview' });
   }
 
   /**
@@ -422,6 +356,9 @@ class DatasetService {
    */
   generateDatasetName(sourceFilename: string, columnMapping: ColumnMapping): string {
     const baseName = sourceFilename.replace(/\.[^/.]+$/, ''); // Remove extension
+    if (columnMapping.mapping_type === 'preference') {
+      return `${baseName}_preference`;
+    }
     const instructionCount = columnMapping.instruction_columns.length;
     const outputCount = columnMapping.output_columns.length;
     
@@ -0,0 +1,135 @@
+import { httpClient } from './httpClient';
+
+// Inference endpoint management service
+export type DeploymentStatus = 'pending' | 'deploying' | 'running' | 'stopped' | 'failed';
+
+export interface Deployment {
+  id: string;
+  name: string;
+  model_name: string;
+  model_path: string;
+  status: DeploymentStatus;
+  endpoint_url?: string;
+  rate_limit: number; // requests per minute
+  auth_required: boolean;
+  created_at: string;
+  updated_at?: string;
+  error?: string;
+  request_count?: number;
+}
+
+export interface DeploymentCreateRequest {
+  name: string;
+  model_name: string;
+  model_path: string;
+  rate_limit: number;
+  auth_required: boolean;
+}
+
+export interface DeploymentResponse {
+  status: string;
+  message: string;
+  deployment: Deployment;
+}
+
+export interface DeploymentListResponse {
+  status: string;
+  deployments: Deployment[];
+  total: number;
+}
+
+export type SnippetLanguage = 'curl' | 'python' | 'typescript';
+
+class DeploymentService {
+  private readonly basePath = '/deployments';
+
+  async createDeployment(request: DeploymentCreateRequest): Promise<DeploymentResponse> {
+    return httpClient.post<DeploymentResponse>(this.basePath, request);
+  }
+
+  async listDeployments(): Promise<DeploymentListResponse> {
+    return httpClient.get<DeploymentListResponse>(this.basePath);
+  }
+
+  async getDeployment(deploymentId: string): Promise<DeploymentResponse> {
+    return httpClient.get<DeploymentResponse>(`${this.basePath}/${encodeURIComponent(deploymentId)}`);
+  }
+
+  async startDeployment(deploymentId: string): Promise<DeploymentResponse> {
+    return this.changeState(deploymentId, 'start');
+  }
+
+  async stopDeployment(deploymentId: string): Promise<DeploymentResponse> {
+    return this.changeState(deploymentId, 'stop');
+  }
+
+  async deleteDeployment(deploymentId: string): Promise<{ status: string; message: string }> {
+    return httpClient.delete(`${this.basePath}/${encodeURIComponent(deploymentId)}`);
+  }
+
+  /**
+   * URL clients call to generate with a deployment; the backend may serve it from another host
+   */
+  getEndpointUrl(deployment: Deployment): string {
+    if (deployment.endpoint_url) return deployment.endpoint_url;
+    const url = httpClient.resolveUrl(`${this.basePath}/${deployment.id}/generate`);
+    return url.startsWith('http') ? url : `${window.location.origin}${url}`;
+  }
+
+  /**
+   * Ready-to-copy client code calling a deployment's endpoint
+   */
+  getSnippet(deployment: Deployment, language: SnippetLanguage): string {
+    const url = this.getEndpointUrl(deployment);
+    const body = { messages: [{ role: 'user', content: 'Hello!' }], max_tokens: 256 };
+
+    switch (language) {
+      case 'python':
+        return [
+          'import requests',
+          '',
+          'response = requests.post(',
+          `    "${url}",`,
+          ...(deployment.auth_required ? ['    headers={"Authorization": "Bearer YOUR_API_KEY"},'] : []),
+          `    json={"messages": [{"role": "user", "content": "Hello!"}], "max_tokens": ${body.max_tokens}},`,
+          ')',
+          'response.raise_for_status()',
+          'print(response.json()["response"])',
+        ].join('\n');
+
+      case 'typescript':
+        return [
+          `const response = await fetch('${url}', {`,
+          "  method: 'POST',",
+          '  headers: {',
+          "    'Content-Type': 'application/json',",
+          ...(deployment.auth_required ? ["    'Authorization': 'Bearer YOUR_API_KEY',"] : []),
+          '  },',
+          `  body: JSON.stringify(${JSON.stringify(body)}),`,
+          '});',
+          '',
+          'if (!response.ok) {',
+          '  throw new Error(`Request failed: ${response.status}`);',
+          '}',
+          'const { response: text } = await response.json();',
+          'console.log(text);',
+        ].join('\n');
+
+      case 'curl':
+      default:
+        return [
+          `curl -X POST ${url} \\`,
+          '  -H "Content-Type: application/json" \\',
+          ...(deployment.auth_required ? ['  -H "Authorization: Bearer YOUR_API_KEY" \\'] : []),
+          `  -d '${JSON.stringify(body)}'`,
+        ].join('\n');
+    }
+  }
+
+  private async changeState(deploymentId: string, action: 'start' | 'stop'): Promise<DeploymentResponse> {
+    return httpClient.post<DeploymentResponse>(`${this.basePath}/${encodeURIComponent(deploymentId)}/${action}`);
+  }
+}
+
+export const deploymentService = new DeploymentService();
+export default deploymentService;
@@ -1,5 +1,5 @@
-// Use proxy in development, direct URL in production
-import { API_BASE_URL } from "../config/api";
+import { GenerationConfig } from "../config/generation";
+import { httpClient } from './httpClient';
 
 export interface EvaluationJob {
   id: string;
@@ -101,13 +101,8 @@ export interface EvaluationResultsResponse {
   results: EvaluationResult[];
 }
 
+// Evaluation routes are served from the backend root rather than under /api
 class EvaluationService {
-  private baseUrl: string;
-
-  constructor() {
-    this.baseUrl = API_BASE_URL;
-  }
-
   /**
    * Start a prediction job with test data array
    */
@@ -116,24 +111,11 @@ class EvaluationService {
     testData: any[],
     batchSize: number = 50
   ): Promise<EvaluationResponse> {
-    const response = await fetch(`${API_BASE_URL}/evaluate/predict`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model_path: modelPath,
-        test_data: testData,
-        batch_size: batchSize,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to start prediction job');
-    }
-
-    return response.json();
+    return httpClient.post('/evaluate/predict', {
+      model_path: modelPath,
+      test_data: testData,
+      batch_size: batchSize,
+    }, { withoutApiPrefix: true, timeoutMs: 120000, errorMessage: 'Failed to start prediction job' });
   }
 
   /**
@@ -149,17 +131,7 @@ class EvaluationService {
     formData.append('model_path', modelPath);
     formData.append('batch_size', batchSize.toString());
 
-    const response = await fetch(`${API_BASE_URL}/evaluate/predict-file`, {
-      method: 'POST',
-      body: formData,
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to start prediction job with file');
-    }
-
-    return response.json();
+    return httpClient.post('/evaluate/predict-file', formData, { withoutApiPrefix: true, timeoutMs: 120000, errorMessage: 'Failed to start prediction job with file' });
   }
 
   /**
@@ -171,25 +143,12 @@ class EvaluationService {
     fileType: 'csv' | 'json' | 'jsonl' | 'pkl' | 'pickle',
     batchSize: number = 50
   ): Promise<EvaluationResponse> {
-    const response = await fetch(`${API_BASE_URL}/evaluate/predict-file`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model_path: modelPath,
-        file_content: fileContent,
-        file_type: fileType,
-        batch_size: batchSize,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to start prediction job with base64');
-    }
-
-    return response.json();
+    return httpClient.post('/evaluate/predict-file', {
+      model_path: modelPath,
+      file_content: fileContent,
+      file_type: fileType,
+      batch_size: batchSize,
+    }, { withoutApiPrefix: true, timeoutMs: 120000, errorMessage: 'Failed to start prediction job with base64' });
   }
 
   /**
@@ -200,28 +159,17 @@ class EvaluationService {
     fileContent: string,
     fileType: 'csv' | 'json' | 'jsonl' | 'pkl' | 'pickle',
     mapping: EvaluationMapping,
-    batchSize: number = 50
+    batchSize: number = 50,
+    generationConfig?: GenerationConfig
   ): Promise<EvaluationResponse> {
-    const response = await fetch(`${API_BASE_URL}/evaluate/predict-file`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model_path: modelPath,
-        file_content: fileContent,
-        file_type: fileType,
-        batch_size: batchSize,
-        mapping: mapping,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to start prediction job with mapping');
-    }
-
-    return response.json();
+    return httpClient.post('/evaluate/predict-file', {
+      model_path: modelPath,
+      file_content: fileContent,
+      file_type: fileType,
+      batch_size: batchSize,
+      mapping: mapping,
+      ...(generationConfig && { generation_config: generationConfig }),
+    }, { withoutApiPrefix: true, timeoutMs: 120000, errorMessage: 'Failed to start prediction job with mapping' });
   }
 
   /**
@@ -246,23 +194,10 @@ class EvaluationService {
     }>;
     totalRows: number;
   }> {
-    const response = await fetch(`${API_BASE_URL}/evaluate/analyze-columns`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        file_content: fileContent,
-        file_type: fileType,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to analyze file columns');
-    }
-
-    return response.json();
+    return httpClient.post('/evaluate/analyze-columns', {
+      file_content: fileContent,
+      file_type: fileType,
+    }, { withoutApiPrefix: true, timeoutMs: 120000, errorMessage: 'Failed to analyze file columns' });
   }
 
   /**
@@ -278,83 +213,40 @@ class EvaluationService {
     issues: string[];
     warnings: string[];
   }> {
-    const response = await fetch(`${API_BASE_URL}/evaluate/validate-mapping`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        file_content: fileContent,
-        file_type: fileType,
-        mapping: mapping,
-        model_schema: modelSchema,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to validate mapping');
-    }
-
-    return response.json();
+    return httpClient.post('/evaluate/validate-mapping', {
+      file_content: fileContent,
+      file_type: fileType,
+      mapping: mapping,
+      model_schema: modelSchema,
+    }, { withoutApiPrefix: true, errorMessage: 'Failed to validate mapping' });
   }
 
   /**
    * Get status of an evaluation job
    */
   async getJobStatus(jobId: string): Promise<EvaluationStatusResponse> {
-    const response = await fetch(`${API_BASE_URL}/evaluate/status/${jobId}`);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to get job status');
-    }
-
-    return response.json();
+    return httpClient.get(`/evaluate/status/${jobId}`, { withoutApiPrefix: true, errorMessage: 'Failed to get job status' });
   }
 
   /**
    * Get results of a completed evaluation job
    */
   async getJobResults(jobId: string): Promise<EvaluationResultsResponse> {
-    const response = await fetch(`${API_BASE_URL}/evaluate/results/${jobId}`);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to get job results');
-    }
-
-    return response.json();
+    return httpClient.get(`/evaluate/results/${jobId}`, { withoutApiPrefix: true, errorMessage: 'Failed to get job results' });
   }
 
   /**
    * List all evaluation jobs
    */
   async listJobs(): Promise<{ jobs: EvaluationJob[]; total: number }> {
-    const response = await fetch(`${API_BASE_URL}/evaluate/jobs`);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to list jobs');
-    }
-
-    return response.json();
+    return httpClient.get('/evaluate/jobs', { withoutApiPrefix: true, errorMessage: 'Failed to list jobs' });
   }
 
   /**
    * Delete an evaluation job
    */
   async deleteJob(jobId: string): Promise<{ job_id: string; status: string; message: string }> {
-    const response = await fetch(`${API_BASE_URL}/evaluate/jobs/${jobId}`, {
-      method: 'DELETE',
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to delete job');
-    }
-
-    return response.json();
+    return httpClient.delete(`/evaluate/jobs/${jobId}`, { withoutApiPrefix: true, errorMessage: 'Failed to delete job' });
   }
 
   /**
@@ -540,14 +432,7 @@ class EvaluationService {
    * Get available models from prediction service
    */
   async getAvailableModels(): Promise<any[]> {
-    const response = await fetch(`${API_BASE_URL}/evaluate/models`);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to get available models');
-    }
-
-    const data = await response.json();
+    const data = await httpClient.get<{ models?: unknown[] }>('/evaluate/models', { withoutApiPrefix: true, errorMessage: 'Failed to get available models' });
     return data.models || [];
   }
 
@@ -555,14 +440,7 @@ class EvaluationService {
    * Get model details
    */
   async getModelDetails(modelId: string): Promise<any> {
-    const response = await fetch(`${API_BASE_URL}/evaluate/models/${modelId}`);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to get model details');
-    }
-
-    const data = await response.json();
+    const data = await httpClient.get<{ model: unknown }>(`/evaluate/models/${modelId}`, { withoutApiPrefix: true, errorMessage: 'Failed to get model details' });
     return data.model;
   }
 
@@ -570,14 +448,7 @@ class EvaluationService {
    * Get accuracy metrics for an evaluation job
    */
   async getJobAccuracyMetrics(jobId: string): Promise<AccuracyMetricsResponse> {
-    const response = await fetch(`${API_BASE_URL}/evaluate/metrics/${jobId}`);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to get accuracy metrics');
-    }
-
-    return response.json();
+    return httpClient.get(`/evaluate/metrics/${jobId}`, { withoutApiPrefix: true, errorMessage: 'Failed to get accuracy metrics' });
   }
 }
 
@@ -0,0 +1,92 @@
+import { ExportFormat, GgufQuantization } from '../config/export';
+import { httpClient } from './httpClient';
+
+// Model export (merge + convert) job service
+export interface ExportRequest {
+  format: ExportFormat;
+  // Only used for GGUF exports
+  quantization?: GgufQuantization;
+  // Export an intermediate checkpoint instead of the final model
+  checkpoint?: string;
+}
+
+export interface ExportJob {
+  job_id: string;
+  session_id: string;
+  format: ExportFormat;
+  quantization?: GgufQuantization;
+  checkpoint?: string;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  progress: number; // 0-100
+  stage?: string; // e.g. "merging", "converting", "quantizing"
+  error?: string;
+  filename?: string;
+  size_bytes?: number;
+  created_at: string;
+  completed_at?: string;
+}
+
+export interface ExportJobResponse {
+  status: string;
+  message?: string;
+  job: ExportJob;
+}
+
+export interface ExportDownloadLink {
+  // Signed URL, absolute or relative to the API base
+  url: string;
+  expires_at: string;
+}
+
+export interface ExportJobListResponse {
+  status: string;
+  jobs: ExportJob[];
+}
+
+class ExportService {
+  private readonly basePath = '/exports';
+
+  async startExport(sessionId: string, request: ExportRequest): Promise<ExportJobResponse> {
+    return httpClient.post<ExportJobResponse>(`/training/${encodeURIComponent(sessionId)}/export`, {
+      format: request.format,
+      ...(request.format === 'gguf' && { quantization: request.quantization }),
+      ...(request.checkpoint && { checkpoint: request.checkpoint }),
+    });
+  }
+
+  async listExports(sessionId: string): Promise<ExportJobListResponse> {
+    return httpClient.get<ExportJobListResponse>(`/training/${encodeURIComponent(sessionId)}/exports`);
+  }
+
+  async getExportJob(jobId: string): Promise<ExportJobResponse> {
+    return httpClient.get<ExportJobResponse>(`${this.basePath}/${encodeURIComponent(jobId)}`);
+  }
+
+  /**
+   * Short-lived signed URL for a finished export; it carries its own authorization,
+   * so the browser can fetch it without the session token or workspace headers
+   */
+  async createDownloadLink(jobId: string): Promise<ExportDownloadLink> {
+    return httpClient.post<ExportDownloadLink>(`${this.basePath}/${encodeURIComponent(jobId)}/download-link`, undefined, {
+      errorMessage: 'Failed to prepare export download',
+    });
+  }
+
+  /**
+   * Start a download of a finished export. Merged models can be several GB, so the browser
+   * streams the file to disk from a signed URL instead of it being buffered in memory.
+   */
+  async downloadExport(job: ExportJob): Promise<void> {
+    const { url } = await this.createDownloadLink(job.job_id);
+
+    const link = document.createElement('a');
+    link.href = httpClient.resolveUrl(url);
+    link.download = job.filename || `model-export-${job.job_id}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  }
+}
+
+export const exportService = new ExportService();
+export default exportService;
@@ -1,4 +1,6 @@
-import { API_BASE_URL, API_BASE_URL_WITH_API } from '../config/api';
+import { httpClient, UploadProgress } from './httpClient';
+import { authService } from './authService';
+import { OwnedResource } from '../config/permissions';
 
 export interface ColumnConfig {
   column_name: string;
@@ -17,6 +19,11 @@ export interface ColumnMapping {
   output_columns: ColumnConfig[];
   output_template: string;
   ignored_columns?: string[];
+  // 'preference' maps prompt / chosen / rejected columns for DPO and ORPO; absent means instruction
+  mapping_type?: 'instruction' | 'preference';
+  prompt_column?: string;
+  chosen_column?: string;
+  rejected_column?: string;
   mapping_name?: string;
   description?: string;
   created_at?: string;
@@ -41,6 +48,13 @@ export interface TrainingExample {
   output: string | Record<string, any>;
 }
 
+// One row of a preference-pair dataset
+export interface PreferenceExample {
+  prompt: string;
+  chosen: string;
+  rejected: string;
+}
+
 export interface FileMetadata {
   file_id: string;
   display_name: string;
@@ -67,6 +81,8 @@ export interface FileMetadata {
   used_in_sessions: string[];
   column_mapping?: ColumnMapping;
   has_mapping?: boolean;
+  created_by?: string;
+  workspace_id?: string;
 }
 
 export interface FileUploadResponse {
@@ -125,6 +141,10 @@ export interface MappedPreviewResponse {
   total_rows: number;
   showing_rows: number;
   mapping_applied: ColumnMapping;
+  // Present instead of instruction examples for preference mappings
+  preference_data?: PreferenceExample[];
+  // Present when a model was given: each example rendered through its chat template
+  rendered_prompts?: { prompt: string; token_count: number }[];
 }
 
 export interface ProcessedFileResponse {
@@ -155,55 +175,34 @@ export interface ProcessedFileResponse {
 }
 
 class FileService {
-  private baseUrl = `${API_BASE_URL_WITH_API}/files`;
+  private readonly basePath = '/files';
 
   /**
-   * Upload a file using multipart form data
+   * Upload a file using multipart form data, reporting progress as it is sent
    */
-  async uploadFile(file: File, displayName?: string): Promise<FileUploadResponse> {
+  async uploadFile(
+    file: File,
+    displayName?: string,
+    onProgress?: (progress: UploadProgress) => void,
+    signal?: AbortSignal
+  ): Promise<FileUploadResponse> {
     const formData = new FormData();
     formData.append('file', file);
     if (displayName) {
       formData.append('display_name', displayName);
     }
-
-    const uploadUrl = `${this.baseUrl}/upload`;
-    console.log('FileService: Uploading to URL:', uploadUrl);
-    console.log('FileService: Base URL:', this.baseUrl);
-    console.log('FileService: FormData contents:', {
-      file: file.name,
-      size: file.size,
-      type: file.type,
-      displayName
+    Object.entries(authService.getOwnership()).forEach(([key, value]) => {
+      if (value) formData.append(key, value);
     });
 
     try {
-      const response = await fetch(uploadUrl, {
-        method: 'POST',
-        body: formData,
+      return await httpClient.upload<FileUploadResponse>(`${this.basePath}/upload`, formData, {
+        onProgress,
+        signal,
+        errorMessage: 'Failed to upload file',
       });
-
-      console.log('FileService: Response status:', response.status);
-      console.log('FileService: Response headers:', Object.fromEntries(response.headers.entries()));
-
-      if (!response.ok) {
-        let errorText;
-        try {
-          const error = await response.json();
-          errorText = error.detail || error.message || 'Failed to upload file';
-          console.error('FileService: Error response JSON:', error);
-        } catch (jsonError) {
-          errorText = await response.text();
-          console.error('FileService: Error response text:', errorText);
-        }
-        throw new Error(`Upload failed (${response.status}): ${errorText}`);
-      }
-
-      const result = await response.json();
-      console.log('FileService: Success response:', result);
-      return result;
     } catch (error) {
-      console.error('FileService: Network or parsing error:', error);
+      console.error('FileService: Upload failed:', error);
       throw error;
     }
   }
@@ -216,38 +215,23 @@ class FileService {
     originalFilename: string,
     displayName?: string
   ): Promise<FileUploadResponse> {
-    const response = await fetch(`${this.baseUrl}/upload`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        file_content: fileContent,
-        original_filename: originalFilename,
-        display_name: displayName,
-      }),
+    return httpClient.post(`${this.basePath}/upload`, {
+      file_content: fileContent,
+      original_filename: originalFilename,
+      display_name: displayName,
+      ...authService.getOwnership(),
+    }, {
+      // The whole file is sent in the request body
+      timeoutMs: 120000,
+      errorMessage: 'Failed to upload file',
     });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to upload file');
-    }
-
-    return response.json();
   }
 
   /**
    * Get detailed column information for a file
    */
   async getColumnInfo(fileId: string): Promise<ColumnInfoResponse> {
-    const response = await fetch(`${this.baseUrl}/${fileId}/column-info`);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to get column info');
-    }
-
-    return response.json();
+    return httpClient.get(`${this.basePath}/${fileId}/column-info`, { errorMessage: 'Failed to get column info' });
   }
 
   /**
@@ -258,23 +242,10 @@ class FileService {
     file_id: string;
     validation: ValidationResult;
   }> {
-    const response = await fetch(`${this.baseUrl}/${fileId}/validate-mapping`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        file_id: fileId,
-        column_mapping: columnMapping,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to validate mapping');
-    }
-
-    return response.json();
+    return httpClient.post(`${this.basePath}/${fileId}/validate-mapping`, {
+      file_id: fileId,
+      column_mapping: columnMapping,
+    }, { errorMessage: 'Failed to validate mapping' });
   }
 
   /**
@@ -286,70 +257,41 @@ class FileService {
     file_id: string;
     validation_status?: string;
   }> {
-    const response = await fetch(`${this.baseUrl}/${fileId}/map-columns`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        file_id: fileId,
-        column_mapping: columnMapping,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to save column mapping');
-    }
-
-    return response.json();
+    return httpClient.post(`${this.basePath}/${fileId}/map-columns`, {
+      file_id: fileId,
+      column_mapping: columnMapping,
+    }, { errorMessage: 'Failed to save column mapping' });
   }
 
   /**
    * Preview how data will look with applied column mapping
    */
-  async previewMappedData(fileId: string, columnMapping: ColumnMapping, limit: number = 10): Promise<MappedPreviewResponse> {
-    const response = await fetch(`${this.baseUrl}/${fileId}/preview-mapped`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        file_id: fileId,
-        column_mapping: columnMapping,
-        limit,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to preview mapped data');
-    }
-
-    return response.json();
+  async previewMappedData(
+    fileId: string,
+    columnMapping: ColumnMapping,
+    limit: number = 10,
+    modelName?: string
+  ): Promise<MappedPreviewResponse> {
+    return httpClient.post(`${this.basePath}/${fileId}/preview-mapped`, {
+      file_id: fileId,
+      column_mapping: columnMapping,
+      limit,
+      ...(modelName && { model_name: modelName }),
+    }, { errorMessage: 'Failed to preview mapped data' });
   }
 
   /**
    * Process the entire file with the given column mapping
    */
   async processCompleteFile(fileId: string, columnMapping: ColumnMapping): Promise<ProcessedFileResponse> {
-    const response = await fetch(`${this.baseUrl}/${fileId}/process-complete`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        file_id: fileId,
-        column_mapping: columnMapping,
-      }),
+    return httpClient.post(`${this.basePath}/${fileId}/process-complete`, {
+      file_id: fileId,
+      column_mapping: columnMapping,
+    }, {
+      // Maps every row server-side, which can take minutes for large files
+      timeoutMs: 120000,
+      errorMessage: 'Failed to process file',
     });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to process file');
-    }
-
-    return response.json();
   }
 
   /**
@@ -361,14 +303,7 @@ class FileService {
     column_mapping: ColumnMapping;
     has_mapping: boolean;
   }> {
-    const response = await fetch(`${this.baseUrl}/${fileId}/mapping`);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to get file mapping');
-    }
-
-    return response.json();
+    return httpClient.get(`${this.basePath}/${fileId}/mapping`, { errorMessage: 'Failed to get file mapping' });
   }
 
   /**
@@ -379,16 +314,7 @@ class FileService {
     message: string;
     file_id: string;
   }> {
-    const response = await fetch(`${this.baseUrl}/${fileId}/mapping`, {
-      method: 'DELETE',
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to remove file mapping');
-    }
-
-    return response.json();
+    return httpClient.delete(`${this.basePath}/${fileId}/mapping`, { errorMessage: 'Failed to remove file mapping' });
   }
 
   /**
@@ -399,67 +325,35 @@ class FileService {
     sortBy: string = 'upload_date',
     sortDesc: boolean = true
   ): Promise<FileListResponse> {
-    const params = new URLSearchParams({
-      sort_by: sortBy,
-      sort_desc: sortDesc.toString(),
+    return httpClient.get(this.basePath, {
+      query: { sort_by: sortBy, sort_desc: sortDesc, filter_by: filterBy || undefined },
+      errorMessage: 'Failed to list files',
     });
-
-    if (filterBy) {
-      params.append('filter_by', filterBy);
-    }
-
-    const response = await fetch(`${this.baseUrl}?${params}`);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to list files');
-    }
-
-    return response.json();
   }
 
   /**
    * Get detailed information about a specific file
    */
   async getFileInfo(fileId: string): Promise<{ success: boolean; file_info: FileMetadata }> {
-    const response = await fetch(`${this.baseUrl}/${fileId}`);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to get file info');
-    }
-
-    return response.json();
+    return httpClient.get(`${this.basePath}/${fileId}`, { errorMessage: 'Failed to get file info' });
   }
 
   /**
    * Get preview data for a file
    */
   async getFilePreview(fileId: string, limit: number = 10): Promise<FilePreviewResponse> {
-    const response = await fetch(`${this.baseUrl}/${fileId}/preview?limit=${limit}`);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to get file preview');
-    }
-
-    return response.json();
+    return httpClient.get(`${this.basePath}/${fileId}/preview`, {
+      query: { limit },
+      errorMessage: 'Failed to get file preview',
+    });
   }
 
   /**
    * Delete a file
    */
-  async deleteFile(fileId: string): Promise<{ success: boolean; message: string; file_id: string }> {
-    const response = await fetch(`${this.baseUrl}/${fileId}`, {
-      method: 'DELETE',
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to delete file');
-    }
-
-    return response.json();
+  async deleteFile(fileId: string, file: OwnedResource): Promise<{ success: boolean; message: string; file_id: string }> {
+    authService.requirePermission('files:delete', file);
+    return httpClient.delete(`${this.basePath}/${fileId}`, { errorMessage: 'Failed to delete file' });
   }
 
   /**
@@ -0,0 +1,70 @@
+import {
+  GenerationConfig,
+  GenerationPreset,
+  builtInGenerationPresets,
+  createGenerationConfig,
+} from '../config/generation';
+
+class GenerationPresetService {
+  private readonly STORAGE_KEY = 'generation_presets';
+
+  /**
+   * List built-in presets followed by the user's saved presets
+   */
+  listPresets(): GenerationPreset[] {
+    return [...builtInGenerationPresets, ...this.getSavedPresets()];
+  }
+
+  getPreset(presetId: string): GenerationPreset | null {
+    return this.listPresets().find(preset => preset.id === presetId) || null;
+  }
+
+  /**
+   * Save parameters under a name, replacing an existing user preset with the same name
+   */
+  savePreset(name: string, params: GenerationConfig, description?: string): GenerationPreset {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      throw new Error('Preset name is required');
+    }
+    if (builtInGenerationPresets.some(preset => preset.name.toLowerCase() === trimmedName.toLowerCase())) {
+      throw new Error(`"${trimmedName}" is a built-in preset name`);
+    }
+
+    const presets = this.getSavedPresets();
+    const existing = presets.find(preset => preset.name.toLowerCase() === trimmedName.toLowerCase());
+    const saved: GenerationPreset = {
+      id: existing?.id || `preset_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: trimmedName,
+      description,
+      params: createGenerationConfig(params),
+      created_at: new Date().toISOString(),
+    };
+
+    this.savePresets([...presets.filter(preset => preset.id !== saved.id), saved]);
+    return saved;
+  }
+
+  deletePreset(presetId: string): void {
+    this.savePresets(this.getSavedPresets().filter(preset => preset.id !== presetId));
+  }
+
+  private getSavedPresets(): GenerationPreset[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      const presets: GenerationPreset[] = stored ? JSON.parse(stored) : [];
+      // Fill in parameters added after the preset was saved
+      return presets.map(preset => ({ ...preset, params: createGenerationConfig(preset.params) }));
+    } catch (error) {
+      console.error('Failed to load generation presets from storage:', error);
+      return [];
+    }
+  }
+
+  private savePresets(presets: GenerationPreset[]): void {
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(presets));
+  }
+}
+
+export const generationPresetService = new GenerationPresetService();
+export default generationPresetService;
@@ -0,0 +1,406 @@
+import { API_BASE_URL, API_BASE_URL_WITH_API } from '../config/api';
+
+// Shared entry point for backend requests: URL resolution, credentials, timeouts,
+// retries and error handling live here so services only describe their endpoints
+export const ACTIVE_API_KEY_STORAGE_KEY = 'active_api_key';
+const SESSION_TOKEN_STORAGE_KEY = 'session_token';
+const WORKSPACE_STORAGE_KEY = 'active_workspace_id';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 1000;
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS'];
+
+export type ApiErrorType = 'network' | 'server' | 'cors' | 'timeout' | 'cancelled' | 'unknown';
+
+export class ApiError extends Error {
+  readonly type: ApiErrorType;
+  readonly status?: number;
+  // Parsed error body from the backend, when there was one
+  readonly data?: unknown;
+
+  constructor(message: string, type: ApiErrorType, status?: number, data?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.type = type;
+    this.status = status;
+    this.data = data;
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+export type QueryParams = Record<string, string | number | boolean | null | undefined>;
+
+export interface RequestOptions {
+  method?: string;
+  // Plain objects and arrays are sent as JSON; FormData, Blob and strings as-is
+  body?: unknown;
+  query?: QueryParams;
+  headers?: HeadersInit;
+  // Resolve the path against API_BASE_URL instead of the /api-suffixed base
+  withoutApiPrefix?: boolean;
+  timeoutMs?: number;
+  // Retries after the first attempt; only applied to idempotent methods unless forced
+  retries?: number;
+  retryNonIdempotent?: boolean;
+  signal?: AbortSignal;
+  // Message used when the backend returns an error without a detail
+  errorMessage?: string;
+  responseType?: 'json' | 'text' | 'blob' | 'response';
+}
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+  percent: number;
+}
+
+export interface UploadOptions extends Omit<RequestOptions, 'body' | 'retries' | 'retryNonIdempotent' | 'responseType'> {
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+/**
+ * Token of the signed-in user's session, owned by the HTTP layer so every request carries it
+ */
+export function getSessionToken(): string | null {
+  return localStorage.getItem(SESSION_TOKEN_STORAGE_KEY);
+}
+
+export function setSessionToken(token: string): void {
+  localStorage.setItem(SESSION_TOKEN_STORAGE_KEY, token);
+}
+
+export function clearSessionToken(): void {
+  localStorage.removeItem(SESSION_TOKEN_STORAGE_KEY);
+}
+
+/**
+ * Workspace the backend scopes files, datasets, configs and training sessions to
+ */
+export function getActiveWorkspaceId(): string | null {
+  return localStorage.getItem(WORKSPACE_STORAGE_KEY);
+}
+
+export function setActiveWorkspaceId(workspaceId: string | null): void {
+  if (workspaceId) {
+    localStorage.setItem(WORKSPACE_STORAGE_KEY, workspaceId);
+  } else {
+    localStorage.removeItem(WORKSPACE_STORAGE_KEY);
+  }
+}
+
+/**
+ * Headers to send with every backend request: the user's session, the active
+ * workspace and the API key chosen for this browser
+ */
+export function getAuthHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const sessionToken = getSessionToken();
+  const apiKey = localStorage.getItem(ACTIVE_API_KEY_STORAGE_KEY);
+  const workspaceId = getActiveWorkspaceId();
+
+  // The session identifies the user; without one the API key does
+  if (sessionToken) {
+    headers.Authorization = `Bearer ${sessionToken}`;
+    if (apiKey) headers['X-API-Key'] = apiKey;
+  } else if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+  if (workspaceId) headers['X-Workspace-Id'] = workspaceId;
+  return headers;
+}
+
+/**
+ * Drop-in replacement for fetch() that adds the auth headers; headers passed by
+ * the caller take precedence. Used for streaming responses the client can't buffer
+ */
+export function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  return fetch(input, { ...init, headers: mergeHeaders(init.headers) });
+}
+
+function mergeHeaders(extra?: HeadersInit): Headers {
+  const headers = new Headers(getAuthHeaders());
+  new Headers(extra).forEach((value, key) => headers.set(key, value));
+  return headers;
+}
+
+function isJsonBody(body: unknown): boolean {
+  return body !== null
+    && typeof body === 'object'
+    && !(body instanceof FormData)
+    && !(body instanceof Blob)
+    && !(body instanceof URLSearchParams)
+    && !(body instanceof ArrayBuffer);
+}
+
+function extractErrorMessage(data: unknown): string | undefined {
+  if (typeof data === 'string') return data || undefined;
+  if (!data || typeof data !== 'object') return undefined;
+
+  const { detail, message, error } = data as Record<string, unknown>;
+  if (typeof detail === 'string') return detail;
+  // FastAPI validation errors: [{ loc, msg, type }]
+  if (Array.isArray(detail)) {
+    const messages = detail
+      .map(item => (item && typeof item === 'object' ? (item as { msg?: unknown }).msg : item))
+      .filter((msg): msg is string => typeof msg === 'string');
+    if (messages.length > 0) return messages.join('; ');
+  }
+  if (typeof message === 'string') return message;
+  if (typeof error === 'string') return error;
+  return undefined;
+}
+
+function errorTypeForStatus(status: number): ApiErrorType {
+  return status >= 500 ? 'server' : 'unknown';
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeoutId = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timeoutId);
+      reject(new ApiError('Request cancelled', 'cancelled'));
+    }, { once: true });
+  });
+}
+
+class HttpClient {
+  private sessionExpiredListeners = new Set<() => void>();
+
+  /**
+   * Called when the backend rejects the session token; returns an unsubscribe function
+   */
+  onSessionExpired(listener: () => void): () => void {
+    this.sessionExpiredListeners.add(listener);
+    return () => {
+      this.sessionExpiredListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Absolute URL for a backend path; full URLs are passed through unchanged
+   */
+  resolveUrl(path: string, options: Pick<RequestOptions, 'query' | 'withoutApiPrefix'> = {}): string {
+    const base = options.withoutApiPrefix ? API_BASE_URL : API_BASE_URL_WITH_API;
+    const url = /^https?:\/\//.test(path) ? path : `${base}${path}`;
+
+    if (!options.query) return url;
+
+    const params = new URLSearchParams();
+    Object.entries(options.query).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        params.append(key, String(value));
+      }
+    });
+    const queryString = params.toString();
+    if (!queryString) return url;
+    return `${url}${url.includes('?') ? '&' : '?'}${queryString}`;
+  }
+
+  async request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+    const method = (options.method || 'GET').toUpperCase();
+    const canRetry = options.retryNonIdempotent || IDEMPOTENT_METHODS.includes(method);
+    const retries = canRetry ? options.retries ?? DEFAULT_RETRIES : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.attempt<T>(path, method, options);
+      } catch (error) {
+        const apiError = this.toApiError(error, options.errorMessage);
+        // Client errors and caller cancellations won't succeed on a second try
+        const retryable = apiError.type === 'network' || apiError.type === 'timeout' || apiError.type === 'server';
+
+        if (attempt >= retries || !retryable) {
+          throw apiError;
+        }
+
+        console.warn(`Request to ${path} failed (attempt ${attempt + 1}), retrying:`, apiError.message);
+        await delay(RETRY_BASE_DELAY_MS * Math.pow(2, attempt), options.signal);
+      }
+    }
+  }
+
+  get<T>(path: string, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<T> {
+    return this.request<T>(path, { ...options, method: 'GET' });
+  }
+
+  post<T>(path: string, body?: unknown, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<T> {
+    return this.request<T>(path, { ...options, method: 'POST', body });
+  }
+
+  put<T>(path: string, body?: unknown, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<T> {
+    return this.request<T>(path, { ...options, method: 'PUT', body });
+  }
+
+  patch<T>(path: string, body?: unknown, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<T> {
+    return this.request<T>(path, { ...options, method: 'PATCH', body });
+  }
+
+  delete<T>(path: string, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<T> {
+    return this.request<T>(path, { ...options, method: 'DELETE' });
+  }
+
+  /**
+   * POST multipart form data, reporting upload progress. Uses XHR because fetch
+   * can't observe request body progress
+   */
+  upload<T>(path: string, formData: FormData, options: UploadOptions = {}): Promise<T> {
+    const url = this.resolveUrl(path, options);
+    const timeoutMs = options.timeoutMs ?? 0;
+
+    return new Promise<T>((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(new ApiError('Request cancelled', 'cancelled'));
+        return;
+      }
+
+      const xhr = new XMLHttpRequest();
+      xhr.open(options.method || 'POST', url);
+      xhr.timeout = timeoutMs;
+      mergeHeaders(options.headers).forEach((value, key) => xhr.setRequestHeader(key, value));
+
+      const onAbort = () => xhr.abort();
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+      const cleanup = () => options.signal?.removeEventListener('abort', onAbort);
+
+      xhr.upload.onprogress = (event) => {
+        if (!event.lengthComputable) return;
+        options.onProgress?.({
+          loaded: event.loaded,
+          total: event.total,
+          percent: Math.round((event.loaded / event.total) * 100),
+        });
+      };
+
+      xhr.onload = () => {
+        cleanup();
+        let data: unknown = xhr.responseText;
+        try {
+          data = xhr.responseText ? JSON.parse(xhr.responseText) : undefined;
+        } catch {
+          // Non-JSON body, keep the raw text
+        }
+
+        if (xhr.status >= 200 && xhr.status < 300) {
+          resolve(data as T);
+        } else {
+          const message = extractErrorMessage(data) || options.errorMessage || `HTTP error! status: ${xhr.status}`;
+          this.checkSession(xhr.status);
+          reject(new ApiError(message, errorTypeForStatus(xhr.status), xhr.status, data));
+        }
+      };
+      xhr.onerror = () => {
+        cleanup();
+        reject(new ApiError('Network error: Unable to reach the API server.', 'network'));
+      };
+      xhr.ontimeout = () => {
+        cleanup();
+        reject(new ApiError('Request timeout: The API server is taking too long to respond.', 'timeout'));
+      };
+      xhr.onabort = () => {
+        cleanup();
+        reject(new ApiError('Request cancelled', 'cancelled'));
+      };
+
+      xhr.send(formData);
+    });
+  }
+
+  private async attempt<T>(path: string, method: string, options: RequestOptions): Promise<T> {
+    const controller = new AbortController();
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    let timedOut = false;
+    const timeoutId = timeoutMs > 0
+      ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs)
+      : undefined;
+
+    const onAbort = () => controller.abort();
+    if (options.signal?.aborted) controller.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    const headers = new Headers();
+    let body: BodyInit | undefined;
+    if (isJsonBody(options.body)) {
+      headers.set('Content-Type', 'application/json');
+      body = JSON.stringify(options.body);
+    } else if (options.body !== undefined && options.body !== null) {
+      body = options.body as BodyInit;
+    }
+    new Headers(options.headers).forEach((value, key) => headers.set(key, value));
+
+    try {
+      const response = await apiFetch(this.resolveUrl(path, options), {
+        method,
+        headers,
+        body,
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const text = await response.text().catch(() => '');
+        let data: unknown = text;
+        try {
+          data = text ? JSON.parse(text) : undefined;
+        } catch {
+          // Non-JSON error body, keep the raw text
+        }
+        const message = extractErrorMessage(data) || options.errorMessage || `HTTP error! status: ${response.status}`;
+        this.checkSession(response.status);
+        throw new ApiError(message, errorTypeForStatus(response.status), response.status, data);
+      }
+
+      switch (options.responseType) {
+        case 'response':
+          return response as T;
+        case 'blob':
+          return await response.blob() as T;
+        case 'text':
+          return await response.text() as T;
+        default: {
+          const text = await response.text();
+          return (text ? JSON.parse(text) : undefined) as T;
+        }
+      }
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        throw timedOut
+          ? new ApiError('Request timeout: The API server is taking too long to respond.', 'timeout')
+          : new ApiError('Request cancelled', 'cancelled');
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  // A 401 while a session token is held means the session expired or was revoked
+  private checkSession(status: number): void {
+    if (status !== 401 || !getSessionToken()) return;
+    clearSessionToken();
+    this.sessionExpiredListeners.forEach(listener => listener());
+  }
+
+  private toApiError(error: unknown, fallbackMessage?: string): ApiError {
+    if (error instanceof ApiError) return error;
+
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof TypeError) {
+      // fetch rejects with a TypeError for both network failures and blocked CORS requests
+      return message.includes('CORS')
+        ? new ApiError('CORS error: Unable to connect to the API. Please check if the server is running and CORS is configured properly.', 'cors')
+        : new ApiError('Network error: Unable to reach the API server. Please check your internet connection.', 'network');
+    }
+    return new ApiError(message || fallbackMessage || 'Unknown error occurred', 'unknown');
+  }
+}
+
+export const httpClient = new HttpClient();
+export default httpClient;
@@ -1,3 +1,5 @@
+import { httpClient } from './httpClient';
+
 export interface MetricData {
   timestamp: number;
   value: number;
@@ -47,6 +49,14 @@ export interface Alert {
   isRead: boolean;
 }
 
+// Shape of GET /monitoring/metrics
+interface BackendSystemMetrics {
+  cpu?: { percent?: number };
+  memory?: { percent?: number };
+  disk?: { percent?: number };
+  gpu?: { percent?: number; memory_used?: number; memory_total?: number };
+}
+
 class MonitoringService {
   private ws: WebSocket | null = null;
   private reconnectAttempts = 0;
@@ -54,18 +64,14 @@ class MonitoringService {
   private reconnectDelay = 1000;
   private listeners: Map<string, Function[]> = new Map();
   private wsUrl: string;
-  private baseUrl: string;
   private pollingInterval: NodeJS.Timeout | null = null;
   private isConnected = false;
 
   constructor() {
-    // Get base URL from environment variables
-    this.baseUrl = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000';
-    
-    // Determine WebSocket URL based on base URL
-    const wsProtocol = this.baseUrl.startsWith('https:') ? 'wss:' : 'ws:';
-    const urlWithoutProtocol = this.baseUrl.replace(/^https?:\/\//, '');
-    this.wsUrl = `${wsProtocol}//${urlWithoutProtocol}/api/monitoring/ws`;
+    // Same host as the HTTP API; a relative API base means the app's own origin
+    const httpUrl = httpClient.resolveUrl('/monitoring/ws');
+    const absoluteUrl = httpUrl.startsWith('http') ? httpUrl : `${window.location.origin}${httpUrl}`;
+    this.wsUrl = absoluteUrl.replace(/^http/, 'ws');
     
     this.connect();
     
@@ -255,12 +261,9 @@ class MonitoringService {
   public async getHistoricalMetrics(timeRange: '1h' | '6h' | '24h' | '7d'): Promise<PerformanceMetrics> {
     try {
       // Make API call to backend for historical data
-      const response = await fetch(`${this.baseUrl}/api/monitoring/metrics/history?limit=${this.getPointsForTimeRange(timeRange)}`);
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`);
-      }
-      
-      const data = await response.json();
+      const data = await httpClient.get<{ metrics: unknown[] }>('/monitoring/metrics/history', {
+        query: { limit: this.getPointsForTimeRange(timeRange) },
+      });
       
       // Convert backend data to frontend format
       return this.convertBackendMetricsToFrontend(data.metrics);
@@ -362,12 +365,8 @@ class MonitoringService {
   // Add method to fetch current metrics from API
   public async getCurrentMetrics(): Promise<PerformanceMetrics | null> {
     try {
-      const response = await fetch(`${this.baseUrl}/api/monitoring/metrics`);
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`);
-      }
-      
-      const data = await response.json();
+      // Polled every few seconds, so a failed attempt is simply skipped
+      const data = await httpClient.get<BackendSystemMetrics>('/monitoring/metrics', { retries: 0, timeoutMs: 5000 });
       
       // Convert backend data to frontend format
       return {
@@ -402,7 +401,7 @@ class MonitoringService {
             : 0,
           gpuMemoryUsed: data.gpu?.memory_used,
           gpuMemoryTotal: data.gpu?.memory_total,
-          status: this.getHealthStatus(data.cpu?.percent, data.memory?.percent, data.disk?.percent),
+          status: this.getHealthStatus(data.cpu?.percent ?? 0, data.memory?.percent ?? 0, data.disk?.percent ?? 0),
         },
       };
     } catch (error) {
@@ -414,12 +413,7 @@ class MonitoringService {
   // Add method to fetch alerts from API
   public async getAlerts(): Promise<{ active: Alert[], history: Alert[] }> {
     try {
-      const response = await fetch(`${this.baseUrl}/api/monitoring/alerts`);
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`);
-      }
-      
-      const data = await response.json();
+      const data = await httpClient.get<{ active: unknown[]; history: unknown[] }>('/monitoring/alerts');
       
       return {
         active: data.active.map((alert: any) => ({
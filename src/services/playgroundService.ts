@@ -0,0 +1,225 @@
+import { chatApi, StreamStats } from './chatApi';
+import { GenerationConfig } from '../config/generation';
+
+export type PlaygroundCellStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface PlaygroundModel {
+  id: string;
+  name: string;
+  // Identifier the backend resolves the model by (HF model ID or local results path)
+  identifier: string;
+}
+
+export interface PlaygroundCell {
+  status: PlaygroundCellStatus;
+  output: string;
+  error?: string;
+  stats?: StreamStats;
+}
+
+export interface PlaygroundRun {
+  id: string;
+  name: string;
+  created_at: string;
+  completed_at?: string;
+  status: 'queued' | 'running' | 'completed' | 'cancelled';
+  prompts: string[];
+  models: PlaygroundModel[];
+  system_prompt?: string;
+  generation_config: GenerationConfig;
+  // Keyed by cellKey(promptIndex, modelId)
+  cells: Record<string, PlaygroundCell>;
+}
+
+export const cellKey = (promptIndex: number, modelId: string) => `${promptIndex}:${modelId}`;
+
+class PlaygroundService {
+  private readonly STORAGE_KEY = 'playground_runs';
+  private readonly MAX_STORED_RUNS = 10;
+
+  /**
+   * Create a run with every prompt × model cell queued
+   */
+  createRun(
+    prompts: string[],
+    models: PlaygroundModel[],
+    generationConfig: GenerationConfig,
+    systemPrompt?: string
+  ): PlaygroundRun {
+    const cells: Record<string, PlaygroundCell> = {};
+    prompts.forEach((_, promptIndex) => {
+      models.forEach(model => {
+        cells[cellKey(promptIndex, model.id)] = { status: 'queued', output: '' };
+      });
+    });
+
+    const now = new Date();
+    return {
+      id: `run_${now.getTime()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: `${prompts.length} prompts × ${models.length} models`,
+      created_at: now.toISOString(),
+      status: 'queued',
+      prompts,
+      models,
+      ...(systemPrompt?.trim() && { system_prompt: systemPrompt.trim() }),
+      generation_config: generationConfig,
+      cells,
+    };
+  }
+
+  /**
+   * Work through the run's queue one cell at a time, model by model so each
+   * model only has to be loaded once. Reports every cell change via onUpdate.
+   */
+  async executeRun(
+    run: PlaygroundRun,
+    onUpdate: (run: PlaygroundRun) => void,
+    signal: AbortSignal
+  ): Promise<PlaygroundRun> {
+    let current: PlaygroundRun = { ...run, status: 'running' };
+    const update = (changes: Partial<PlaygroundRun>) => {
+      current = { ...current, ...changes };
+      onUpdate(current);
+    };
+    const updateCell = (key: string, cell: Partial<PlaygroundCell>) => {
+      update({ cells: { ...current.cells, [key]: { ...current.cells[key], ...cell } } });
+    };
+
+    update({});
+
+    for (const model of run.models) {
+      for (let promptIndex = 0; promptIndex < run.prompts.length; promptIndex++) {
+        const key = cellKey(promptIndex, model.id);
+        if (current.cells[key]?.status === 'completed') continue;
+
+        if (signal.aborted) {
+          updateCell(key, { status: 'cancelled' });
+          continue;
+        }
+
+        updateCell(key, { status: 'running', output: '', error: undefined });
+        await new Promise<void>(resolve => {
+          let output = '';
+          chatApi.streamChat(
+            run.prompts[promptIndex],
+            {
+              ...run.generation_config,
+              model_id: model.identifier,
+              ...(run.system_prompt && { system_prompt: run.system_prompt }),
+            },
+            chunk => {
+              output += chunk;
+              updateCell(key, { output });
+            },
+            stats => {
+              updateCell(key, { status: stats.aborted ? 'cancelled' : 'completed', stats });
+              resolve();
+            },
+            error => {
+              updateCell(key, { status: 'failed', error: error.message });
+              resolve();
+            },
+            { signal }
+          ).catch(error => {
+            updateCell(key, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+            resolve();
+          });
+        });
+      }
+    }
+
+    update({ status: signal.aborted ? 'cancelled' : 'completed', completed_at: new Date().toISOString() });
+    this.saveRun(current);
+    return current;
+  }
+
+  listRuns(): PlaygroundRun[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Failed to load playground runs from storage:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Keep a finished run so results survive navigation; only the newest runs are kept
+   */
+  saveRun(run: PlaygroundRun): void {
+    const runs = [run, ...this.listRuns().filter(r => r.id !== run.id)].slice(0, this.MAX_STORED_RUNS);
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(runs));
+    } catch (error) {
+      console.error('Failed to save playground run:', error);
+    }
+  }
+
+  deleteRun(runId: string): void {
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.listRuns().filter(r => r.id !== runId)));
+  }
+
+  /**
+   * Download a run as CSV: one row per prompt, one column per model
+   */
+  exportCsv(run: PlaygroundRun): void {
+    const escape = (value: string) => `"${value.replace(/"/g, '""')}"`;
+    const header = ['prompt', ...run.models.map(model => model.name)];
+    const rows = run.prompts.map((prompt, promptIndex) => [
+      prompt,
+      ...run.models.map(model => {
+        const cell = run.cells[cellKey(promptIndex, model.id)];
+        return cell?.status === 'failed' ? `[error] ${cell.error || ''}` : cell?.output || '';
+      }),
+    ]);
+
+    const csv = [header, ...rows].map(row => row.map(escape).join(',')).join('\n');
+    this.download(csv, `playground_${run.id}.csv`, 'text/csv');
+  }
+
+  /**
+   * Download a run as JSON, one record per prompt × model cell
+   */
+  exportJson(run: PlaygroundRun): void {
+    const results = run.prompts.flatMap((prompt, promptIndex) =>
+      run.models.map(model => {
+        const cell = run.cells[cellKey(promptIndex, model.id)];
+        return {
+          prompt,
+          model: model.name,
+          model_id: model.identifier,
+          status: cell?.status,
+          output: cell?.output || '',
+          ...(cell?.error && { error: cell.error }),
+          ...(cell?.stats && { stats: cell.stats }),
+        };
+      })
+    );
+
+    const json = JSON.stringify({
+      id: run.id,
+      created_at: run.created_at,
+      system_prompt: run.system_prompt,
+      generation_config: run.generation_config,
+      results,
+    }, null, 2);
+    this.download(json, `playground_${run.id}.json`, 'application/json');
+  }
+
+  private download(content: string, filename: string, type: string): void {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    URL.revokeObjectURL(url);
+  }
+}
+
+export const playgroundService = new PlaygroundService();
+export default playgroundService;
@@ -1,4 +1,7 @@
-import { API_BASE_URL_WITH_API,  } from '../config/api';
+import { GenerationConfig } from '../config/generation';
+import { httpClient } from './httpClient';
+import { authService } from './authService';
+import { OwnedResource } from '../config/permissions';
 
 export interface ModelInfo {
   model_id: string;
@@ -54,6 +57,9 @@ export interface StartPredictionRequest {
   mapping: PredictionMapping;
   job_name?: string;
   description?: string;
+  generation_config?: GenerationConfig;
+  // Constrain each prediction to this JSON schema (structured-output mode)
+  json_schema?: Record<string, unknown>;
 }
 
 export interface PredictionJobResponse {
@@ -85,20 +91,13 @@ export interface PredictionResultsResponse {
 }
 
 class PredictionService {
-  private baseUrl = API_BASE_URL_WITH_API;
+  private readonly basePath = '/predictions';
 
   /**
    * Get list of available trained models for prediction
    */
   async getAvailableModels(): Promise<ModelInfo[]> {
-    const response = await fetch(`${this.baseUrl}/predictions/models`);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to get available models');
-    }
-
-    const result = await response.json();
+    const result = await httpClient.get<{ models?: ModelInfo[] }>(`${this.basePath}/models`, { errorMessage: 'Failed to get available models' });
     return result.models || [];
   }
 
@@ -106,14 +105,7 @@ class PredictionService {
    * Get details of a specific model
    */
   async getModel(modelId: string): Promise<ModelInfo> {
-    const response = await fetch(`${this.baseUrl}/predictions/models/${modelId}`);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to get model details');
-    }
-
-    const result = await response.json();
+    const result = await httpClient.get<{ model: ModelInfo }>(`${this.basePath}/models/${modelId}`, { errorMessage: 'Failed to get model details' });
     return result.model;
   }
 
@@ -121,20 +113,7 @@ class PredictionService {
    * Start a new prediction job
    */
   async startPrediction(request: StartPredictionRequest): Promise<PredictionJob> {
-    const response = await fetch(`${this.baseUrl}/predictions/start`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(request),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to start prediction');
-    }
-
-    const result = await response.json();
+    const result = await httpClient.post<{ job: PredictionJob }>(`${this.basePath}/start`, request, { errorMessage: 'Failed to start prediction' });
     return result.job;
   }
 
@@ -142,14 +121,7 @@ class PredictionService {
    * Get status of a prediction job
    */
   async getPredictionStatus(jobId: string): Promise<PredictionJob> {
-    const response = await fetch(`${this.baseUrl}/predictions/jobs/${jobId}/status`);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to get prediction status');
-    }
-
-    const result = await response.json();
+    const result = await httpClient.get<{ job: PredictionJob }>(`${this.basePath}/jobs/${jobId}/status`, { errorMessage: 'Failed to get prediction status' });
     return result.job;
   }
 
@@ -161,26 +133,21 @@ class PredictionService {
     page: number = 1, 
     pageSize: number = 50
   ): Promise<PredictionResultsResponse> {
-    const response = await fetch(`${this.baseUrl}/predictions/jobs/${jobId}/results?page=${page}&page_size=${pageSize}`);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to get prediction results');
-    }
-
-    return response.json();
+    return httpClient.get(`${this.basePath}/jobs/${jobId}/results`, {
+      query: { page, page_size: pageSize },
+      errorMessage: 'Failed to get prediction results',
+    });
   }
 
   /**
    * Download prediction results as CSV
    */
   async downloadResults(jobId: string, format: 'csv' | 'json' = 'csv'): Promise<void> {
-    const response = await fetch(`${this.baseUrl}/predictions/jobs/${jobId}/download?format=${format}`);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to download results');
-    }
+    const response = await httpClient.get<Response>(`${this.basePath}/jobs/${jobId}/download`, {
+      query: { format },
+      responseType: 'response',
+      errorMessage: 'Failed to download results',
+    });
 
     // Get filename from response headers or use default
     const contentDisposition = response.headers.get('content-disposition');
@@ -209,32 +176,15 @@ class PredictionService {
    * Cancel a running prediction job
    */
   async cancelPrediction(jobId: string): Promise<{ success: boolean; message: string }> {
-    const response = await fetch(`${this.baseUrl}/predictions/jobs/${jobId}/cancel`, {
-      method: 'POST',
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to cancel prediction');
-    }
-
-    return response.json();
+    return httpClient.post(`${this.basePath}/jobs/${jobId}/cancel`, undefined, { errorMessage: 'Failed to cancel prediction' });
   }
 
   /**
    * Delete a prediction job and its results
    */
-  async deletePredictionJob(jobId: string): Promise<{ success: boolean; message: string }> {
-    const response = await fetch(`${this.baseUrl}/predictions/jobs/${jobId}`, {
-      method: 'DELETE',
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to delete prediction job');
-    }
-
-    return response.json();
+  async deletePredictionJob(jobId: string, job: OwnedResource): Promise<{ success: boolean; message: string }> {
+    authService.requirePermission('predictions:delete', job);
+    return httpClient.delete(`${this.basePath}/jobs/${jobId}`, { errorMessage: 'Failed to delete prediction job' });
   }
 
   /**
@@ -245,19 +195,10 @@ class PredictionService {
     modelId?: string,
     limit: number = 50
   ): Promise<{ jobs: PredictionJob[]; total: number }> {
-    const params = new URLSearchParams();
-    if (status) params.append('status', status);
-    if (modelId) params.append('model_id', modelId);
-    params.append('limit', limit.toString());
-
-    const response = await fetch(`${this.baseUrl}/predictions/jobs?${params}`);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to get prediction jobs');
-    }
-
-    return response.json();
+    return httpClient.get(`${this.basePath}/jobs`, {
+      query: { status: status || undefined, model_id: modelId || undefined, limit },
+      errorMessage: 'Failed to get prediction jobs',
+    });
   }
 
   /**
@@ -273,24 +214,11 @@ class PredictionService {
     warnings: string[];
     sample_preview?: PredictionResult[];
   }> {
-    const response = await fetch(`${this.baseUrl}/predictions/validate-mapping`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model_id: modelId,
-        file_id: fileId,
-        mapping: mapping,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to validate mapping');
-    }
-
-    return response.json();
+    return httpClient.post(`${this.basePath}/validate-mapping`, {
+      model_id: modelId,
+      file_id: fileId,
+      mapping: mapping,
+    }, { errorMessage: 'Failed to validate mapping' });
   }
 
   /**
@@ -303,14 +231,7 @@ class PredictionService {
     success_rate: number;
     recent_jobs: PredictionJob[];
   }> {
-    const response = await fetch(`${this.baseUrl}/predictions/models/${modelId}/stats`);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Failed to get model prediction stats');
-    }
-
-    return response.json();
+    return httpClient.get(`${this.basePath}/models/${modelId}/stats`, { errorMessage: 'Failed to get model prediction stats' });
   }
 
   /**
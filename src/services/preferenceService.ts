@@ -0,0 +1,104 @@
+export type PreferenceWinner = 'a' | 'b' | 'tie' | 'both_bad';
+
+export interface PreferenceVote {
+  id: string;
+  turnId: string;
+  prompt: string;
+  systemPrompt?: string;
+  modelA: string;
+  modelB: string;
+  responseA: string;
+  responseB: string;
+  winner: PreferenceWinner;
+  createdAt: string;
+}
+
+// Preference pair in the prompt/chosen/rejected shape used by DPO-style trainers
+export interface PreferencePair {
+  prompt: string;
+  chosen: string;
+  rejected: string;
+  system?: string;
+  chosen_model: string;
+  rejected_model: string;
+}
+
+class PreferenceService {
+  private readonly STORAGE_KEY = 'chat_preference_votes';
+
+  getVotes(): PreferenceVote[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Failed to load preference votes from storage:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record a vote for a comparison turn, replacing any earlier vote on the same turn
+   */
+  recordVote(vote: Omit<PreferenceVote, 'id' | 'createdAt'>): PreferenceVote {
+    const saved: PreferenceVote = {
+      ...vote,
+      id: `vote_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: new Date().toISOString(),
+    };
+
+    const votes = this.getVotes().filter(v => v.turnId !== vote.turnId);
+    votes.push(saved);
+    this.saveVotes(votes);
+    return saved;
+  }
+
+  clearVotes(): void {
+    localStorage.removeItem(this.STORAGE_KEY);
+  }
+
+  /**
+   * Convert votes with a clear winner into preference pairs; ties are skipped
+   */
+  toPreferencePairs(votes: PreferenceVote[] = this.getVotes()): PreferencePair[] {
+    return votes
+      .filter(vote => vote.winner === 'a' || vote.winner === 'b')
+      .map(vote => {
+        const aWins = vote.winner === 'a';
+        return {
+          prompt: vote.prompt,
+          chosen: aWins ? vote.responseA : vote.responseB,
+          rejected: aWins ? vote.responseB : vote.responseA,
+          ...(vote.systemPrompt && { system: vote.systemPrompt }),
+          chosen_model: aWins ? vote.modelA : vote.modelB,
+          rejected_model: aWins ? vote.modelB : vote.modelA,
+        };
+      });
+  }
+
+  /**
+   * Download recorded votes as a JSONL preference dataset
+   */
+  downloadPreferenceDataset(filename: string = 'preference_dataset.jsonl'): number {
+    const pairs = this.toPreferencePairs();
+    const jsonl = pairs.map(pair => JSON.stringify(pair)).join('\n');
+    const blob = new Blob([jsonl], { type: 'application/jsonl' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    URL.revokeObjectURL(url);
+    return pairs.length;
+  }
+
+  private saveVotes(votes: PreferenceVote[]): void {
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(votes));
+  }
+}
+
+export const preferenceService = new PreferenceService();
+export default preferenceService;
@@ -0,0 +1,148 @@
+import { httpClient } from './httpClient';
+
+// Prompt template library service
+export interface PromptTemplateMetadata {
+  name: string;
+  description: string;
+  tags: string[];
+  variables: string[];
+  version: number;
+  created_at: string;
+  updated_at?: string;
+  builtIn?: boolean;
+}
+
+export interface PromptTemplate {
+  metadata: PromptTemplateMetadata;
+  content: string;
+}
+
+export interface PromptTemplateSaveRequest {
+  name: string;
+  description?: string;
+  tags?: string[];
+  content: string;
+}
+
+export interface PromptTemplateResponse {
+  status: string;
+  message: string;
+  template_name?: string;
+  version?: number;
+}
+
+export interface PromptTemplateListResponse {
+  status: string;
+  templates: PromptTemplateMetadata[];
+  total: number;
+}
+
+export interface PromptTemplateLoadResponse {
+  status: string;
+  message: string;
+  template: PromptTemplate;
+}
+
+export interface PromptTemplateVersionsResponse {
+  status: string;
+  versions: PromptTemplateMetadata[];
+}
+
+// Templates available before anything has been saved to the library
+export const builtInPromptTemplates: PromptTemplate[] = [
+  {
+    content: 'You are a helpful AI assistant. Provide accurate, concise, and helpful responses to user questions.',
+    name: 'Default Assistant',
+    tags: ['general'],
+  },
+  {
+    content: 'You are an expert programmer and software engineer. Help users with coding questions, debugging, and best practices. Provide clear explanations and well-commented code examples.',
+    name: 'Code Expert',
+    tags: ['code'],
+  },
+  {
+    content: 'You are a friendly and professional customer support agent. Help customers with their inquiries, provide solutions to problems, and maintain a positive, helpful tone.',
+    name: 'Customer Support',
+    tags: ['support'],
+  },
+  {
+    content: 'You are a creative writing assistant. Help users with storytelling, creative writing, character development, and narrative techniques. Be imaginative and inspiring.',
+    name: 'Creative Writer',
+    tags: ['writing'],
+  },
+  {
+    content: 'You are a technical analyst and expert in data analysis. Provide detailed technical insights, explain complex concepts clearly, and help with data interpretation.',
+    name: 'Technical Analyst',
+    tags: ['analysis'],
+  },
+  {
+    content: 'You are an experienced educator and tutor. Explain concepts clearly, provide examples, and adapt your teaching style to help users learn effectively.',
+    name: 'Educator',
+    tags: ['education'],
+  },
+].map(({ content, name, tags }) => ({
+  content,
+  metadata: {
+    name,
+    description: '',
+    tags,
+    variables: extractTemplateVariables(content),
+    version: 1,
+    created_at: '',
+    builtIn: true,
+  },
+}));
+
+/**
+ * List the distinct {{variable}} names used in a template, in order of first use
+ */
+export function extractTemplateVariables(content: string): string[] {
+  const names = Array.from(content.matchAll(/\{\{\s*([\w.-]+)\s*\}\}/g), match => match[1]);
+  return Array.from(new Set(names));
+}
+
+/**
+ * Substitute {{variable}} placeholders; unknown variables are left in place
+ */
+export function fillTemplate(content: string, values: Record<string, string>): string {
+  return content.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (placeholder, name: string) =>
+    values[name] !== undefined && values[name] !== '' ? values[name] : placeholder
+  );
+}
+
+class PromptTemplateService {
+  private readonly basePath = '/prompts';
+
+  /**
+   * Save a template. Saving under an existing name creates a new version.
+   */
+  async saveTemplate(request: PromptTemplateSaveRequest): Promise<PromptTemplateResponse> {
+    return httpClient.post<PromptTemplateResponse>(`${this.basePath}/save`, {
+      ...request,
+      variables: extractTemplateVariables(request.content),
+    });
+  }
+
+  async listTemplates(): Promise<PromptTemplateListResponse> {
+    return httpClient.get<PromptTemplateListResponse>(`${this.basePath}/list`);
+  }
+
+  /**
+   * Load a template, optionally pinned to a specific version (latest by default)
+   */
+  async loadTemplate(templateName: string, version?: number): Promise<PromptTemplateLoadResponse> {
+    return httpClient.get<PromptTemplateLoadResponse>(`${this.basePath}/${encodeURIComponent(templateName)}`, {
+      query: { version },
+    });
+  }
+
+  async listVersions(templateName: string): Promise<PromptTemplateVersionsResponse> {
+    return httpClient.get<PromptTemplateVersionsResponse>(`${this.basePath}/${encodeURIComponent(templateName)}/versions`);
+  }
+
+  async deleteTemplate(templateName: string): Promise<PromptTemplateResponse> {
+    return httpClient.delete<PromptTemplateResponse>(`${this.basePath}/${encodeURIComponent(templateName)}`);
+  }
+}
+
+export const promptTemplateService = new PromptTemplateService();
@@ -0,0 +1,84 @@
+import { UserSettings, mergeUserSettings } from '../config/settings';
+import { httpClient } from './httpClient';
+
+export interface SettingsResponse {
+  status: string;
+  settings: UserSettings;
+}
+
+export interface SettingsSaveResult {
+  settings: UserSettings;
+  // False when the backend was unreachable and only the local copy was updated
+  synced: boolean;
+}
+
+class SettingsService {
+  private readonly STORAGE_KEY = 'user_settings';
+
+  private readonly basePath = '/settings';
+
+  // Cached per user so the next person to sign in on this browser doesn't start with someone else's settings
+  private getStorageKey(userId: string): string {
+    return `${this.STORAGE_KEY}:${userId}`;
+  }
+
+  /**
+   * Settings from the user's last successful load or save, available synchronously on startup.
+   * Defaults when nobody is signed in.
+   */
+  getCachedSettings(userId?: string): UserSettings {
+    if (!userId) return mergeUserSettings();
+    try {
+      const stored = localStorage.getItem(this.getStorageKey(userId));
+      return mergeUserSettings(stored ? JSON.parse(stored) : {});
+    } catch (error) {
+      console.error('Failed to load settings from storage:', error);
+      return mergeUserSettings();
+    }
+  }
+
+  /**
+   * Load settings from the backend, falling back to the local copy when it is unreachable
+   */
+  async getSettings(userId: string): Promise<UserSettings> {
+    try {
+      // Don't keep the app waiting on retries; the cached copy is good enough
+      const data = await httpClient.get<SettingsResponse>(this.basePath, { retries: 0, timeoutMs: 10000 });
+      const settings = mergeUserSettings(data.settings);
+      this.cacheSettings(userId, settings);
+      return settings;
+    } catch (error) {
+      console.warn('Settings backend unavailable, using local settings:', error);
+      return this.getCachedSettings(userId);
+    }
+  }
+
+  /**
+   * Save settings locally first so they survive a reload even if the backend save fails
+   */
+  async saveSettings(userId: string | undefined, settings: UserSettings): Promise<SettingsSaveResult> {
+    this.cacheSettings(userId, settings);
+
+    try {
+      const data = await httpClient.put<SettingsResponse>(this.basePath, { settings });
+      const saved = data.settings ? mergeUserSettings(data.settings) : settings;
+      this.cacheSettings(userId, saved);
+      return { settings: saved, synced: true };
+    } catch (error) {
+      console.warn('Failed to save settings to backend, kept local copy:', error);
+      return { settings, synced: false };
+    }
+  }
+
+  private cacheSettings(userId: string | undefined, settings: UserSettings): void {
+    if (!userId) return;
+    try {
+      localStorage.setItem(this.getStorageKey(userId), JSON.stringify(settings));
+    } catch (error) {
+      console.error('Failed to save settings to storage:', error);
+    }
+  }
+}
+
+export const settingsService = new SettingsService();
+export default settingsService;
@@ -0,0 +1,83 @@
+import { httpClient } from './httpClient';
+import { authService } from './authService';
+import { SweepStrategy, SweepValue, SweepRunValues } from '../config/sweep';
+
+// Hyperparameter sweeps: a group of training sessions launched together from one configuration
+export interface SweepRunSummary {
+  session_id: string;
+  name: string;
+  status: string;
+  // Swept values for this run, keyed like SWEEP_PARAMETERS
+  values: SweepRunValues;
+  progress?: number;
+  final_eval_loss?: number;
+  final_train_loss?: number;
+  // Metrics from the latest evaluation job run against this run's model
+  evaluation_metrics?: Record<string, number>;
+}
+
+export interface Sweep {
+  sweep_id: string;
+  name: string;
+  strategy: SweepStrategy;
+  status: string;
+  model_name: string;
+  created_at: string;
+  created_by?: string;
+  workspace_id?: string;
+  runs: SweepRunSummary[];
+}
+
+export interface SweepRunRequest {
+  name: string;
+  values: SweepRunValues;
+  // Fine-tune request fields that differ from the base payload
+  overrides: Record<string, SweepValue>;
+}
+
+export interface CreateSweepRequest {
+  name: string;
+  strategy: SweepStrategy;
+  file_id: string;
+  base_payload: Record<string, unknown>;
+  runs: SweepRunRequest[];
+}
+
+export interface CreateSweepResponse {
+  sweep_id: string;
+  session_ids: string[];
+  message?: string;
+}
+
+class SweepService {
+  private readonly basePath = '/training/sweeps';
+
+  /**
+   * Queue every run of a sweep; each one becomes its own training session
+   */
+  async createSweep(request: CreateSweepRequest): Promise<CreateSweepResponse> {
+    authService.requirePermission('training:launch');
+    return httpClient.post<CreateSweepResponse>(this.basePath, { ...request, ...authService.getOwnership() }, {
+      errorMessage: 'Failed to launch sweep',
+    });
+  }
+
+  /**
+   * Newest sweeps first, with their runs' current status
+   */
+  async listSweeps(): Promise<Sweep[]> {
+    const data = await httpClient.get<{ sweeps?: Sweep[] }>(this.basePath, {
+      errorMessage: 'Failed to load sweeps',
+    });
+    return data.sweeps || [];
+  }
+
+  async getSweep(sweepId: string): Promise<Sweep> {
+    return httpClient.get<Sweep>(`${this.basePath}/${encodeURIComponent(sweepId)}`, {
+      errorMessage: 'Failed to load sweep',
+    });
+  }
+}
+
+export const sweepService = new SweepService();
+export default sweepService;
@@ -0,0 +1,479 @@
+import { apiFetch, httpClient } from './httpClient';
+import { authService } from './authService';
+import { OwnedResource } from '../config/permissions';
+
+// Backend training jobs: starting runs, status and logs
+export interface TrainingLogEntry {
+  timestamp: string;
+  type: string;
+  level: string;
+  message: string;
+  step?: number;
+  epoch?: number;
+  step_time?: number;
+  avg_step_time?: number;
+  eta_minutes?: number;
+  learning_rate?: number;
+  loss?: number;
+  grad_norm?: number;
+  progress_percent?: number;
+  remaining_steps?: number;
+  train_loss?: number;
+  eval_loss?: number;
+  epoch_progress?: string;
+  total_epochs?: number;
+  metrics?: Record<string, unknown>;
+  config?: Record<string, unknown>;
+}
+
+export interface TrainingSessionSummary {
+  id: string;
+  status: string;
+  config: {
+    model_name: string;
+    num_train_epochs: number;
+    learning_rate: number;
+    // Missing on sessions started before training methods were selectable (LoRA)
+    training_method?: string;
+  };
+  dataset_info: {
+    total_rows: number;
+    file_type: string;
+  };
+  created_at: string;
+  started_at?: string;
+  completed_at?: string;
+  progress?: number;
+  created_by?: string;
+  workspace_id?: string;
+}
+
+// Lifecycle states reported by the job queue; older backends also send 'running'
+export type TrainingJobStatus =
+  | 'queued'
+  | 'initializing'
+  | 'training'
+  | 'running'
+  | 'validating'
+  | 'finalizing'
+  | 'pausing'
+  | 'paused'
+  | 'cancelling'
+  | 'cancelled'
+  | 'completed'
+  | 'failed';
+
+// Fine-tune request the session was started with; only the fields read directly are typed
+export interface TrainingSessionConfig {
+  model_name?: string;
+  training_method?: string;
+  num_train_epochs?: number;
+  per_device_train_batch_size?: number;
+  metric_for_best_model?: string;
+  [key: string]: unknown;
+}
+
+export interface TrainingDatasetInfo {
+  total_rows?: number;
+  file_type?: string;
+  [key: string]: unknown;
+}
+
+export interface TrainingSessionDetail {
+  session_id: string;
+  status: string;
+  config: TrainingSessionConfig;
+  dataset_info: TrainingDatasetInfo;
+  created_at: string;
+  started_at?: string;
+  completed_at?: string;
+  progress?: Record<string, unknown>;
+  logs: TrainingLogEntry[];
+  error?: string;
+  created_by?: string;
+  // Set while the job is waiting for the GPU; position 1 runs next
+  queue_position?: number;
+  queue_eta_seconds?: number;
+  // Step of the checkpoint a paused job will resume from
+  resume_from_step?: number;
+}
+
+export interface QueuedTrainingJob {
+  session_id: string;
+  status: TrainingJobStatus;
+  position: number;
+  model_name: string;
+  created_by?: string;
+  submitted_at: string;
+  // Estimated wait until the job starts; 0 for the running job
+  eta_seconds?: number;
+  progress?: number;
+}
+
+export interface TrainingJobActionResponse {
+  status: TrainingJobStatus;
+  message: string;
+}
+
+// A checkpoint-<step> directory written by the trainer during a run
+export interface TrainingCheckpoint {
+  name: string;
+  step: number;
+  path: string;
+  eval_loss?: number;
+  // Every eval metric logged at this step, keyed like metric_for_best_model
+  metrics?: Record<string, number>;
+  size_bytes?: number;
+  created_at?: string;
+}
+
+export interface TrainingCheckpointList {
+  checkpoints: TrainingCheckpoint[];
+  metric_for_best_model?: string;
+  greater_is_better?: boolean;
+}
+
+export interface TrainingDashboardStats {
+  total_sessions: number;
+  active_sessions: number;
+  completed_sessions: number;
+  failed_sessions: number;
+  success_rate: number;
+  avg_training_time_formatted: string;
+  most_used_model: string;
+}
+
+// Log entries after a cursor; the cursor counts entries, so it doubles as an index
+export interface TrainingLogPage {
+  entries: TrainingLogEntry[];
+  cursor: number;
+  status?: string;
+  // Set on the last page once the job has ended
+  done?: boolean;
+}
+
+export type LogStreamTransport = 'stream' | 'polling';
+
+export interface TrainingLogStreamHandlers {
+  onEntries: (entries: TrainingLogEntry[], cursor: number) => void;
+  // Job status sent alongside the logs, when the backend includes it
+  onStatus?: (status: string) => void;
+  onTransportChange?: (transport: LogStreamTransport) => void;
+}
+
+export interface TrainingLogStreamOptions {
+  // Resume after entries the caller already has
+  cursor?: number;
+  pollingIntervalMs?: number;
+}
+
+export interface FineTuneResponse {
+  status?: string;
+  message?: string;
+  job_id?: string;
+  queue_position?: number;
+}
+
+const FINISHED_STATUSES = ['completed', 'failed', 'cancelled'];
+
+// Reconnect attempts before settling on polling
+const MAX_STREAM_FAILURES = 3;
+
+/**
+ * Follows one session's logs from a cursor. New entries are pushed over Server-Sent
+ * Events; when the stream endpoint is missing or keeps dropping, the same cursor is
+ * polled instead, so only new entries are ever transferred.
+ */
+class TrainingLogStream {
+  private cursor: number;
+  private readonly pollingIntervalMs: number;
+  private readonly controller = new AbortController();
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private streamFailures = 0;
+  private finished = false;
+
+  constructor(
+    private readonly sessionId: string,
+    private readonly handlers: TrainingLogStreamHandlers,
+    options: TrainingLogStreamOptions = {}
+  ) {
+    this.cursor = options.cursor ?? 0;
+    this.pollingIntervalMs = options.pollingIntervalMs ?? 3000;
+  }
+
+  start(): void {
+    this.openStream();
+  }
+
+  close(): void {
+    this.finished = true;
+    this.controller.abort();
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+  }
+
+  private async openStream(): Promise<void> {
+    this.handlers.onTransportChange?.('stream');
+
+    try {
+      const url = httpClient.resolveUrl(`/training/${encodeURIComponent(this.sessionId)}/logs/stream`, {
+        query: { cursor: this.cursor },
+      });
+      const response = await apiFetch(url, {
+        headers: { Accept: 'text/event-stream' },
+        signal: this.controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        // No point retrying a backend that doesn't have the endpoint
+        if (response.status === 404 || response.status === 405 || response.status === 501) {
+          this.streamFailures = MAX_STREAM_FAILURES;
+        }
+        throw new Error(`Log stream unavailable: ${response.status} ${response.statusText}`);
+      }
+
+      await this.readEvents(response.body);
+    } catch (error) {
+      if (this.controller.signal.aborted) return;
+      console.warn('Training log stream interrupted:', error);
+    }
+
+    if (this.finished) return;
+
+    this.streamFailures++;
+    if (this.streamFailures < MAX_STREAM_FAILURES) {
+      this.retryTimer = setTimeout(() => this.openStream(), 1000 * this.streamFailures);
+    } else {
+      this.handlers.onTransportChange?.('polling');
+      this.poll();
+    }
+  }
+
+  // Server-Sent Events: "data:" lines accumulate until a blank line ends the event
+  private async readEvents(body: ReadableStream<Uint8Array>): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let data: string[] = [];
+
+    try {
+      while (!this.finished) {
+        const { done, value } = await reader.read();
+        if (done) return;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const rawLine of lines) {
+          const line = rawLine.replace(/\r$/, '');
+          if (line.startsWith('data:')) {
+            data.push(line.slice(5).trimStart());
+          } else if (line === '' && data.length > 0) {
+            this.handleEvent(data.join('\n'));
+            data = [];
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  private handleEvent(data: string): void {
+    try {
+      const event = JSON.parse(data) as Partial<TrainingLogPage>;
+      // A healthy stream earns a fresh set of reconnect attempts
+      this.streamFailures = 0;
+      this.deliver({
+        entries: event.entries || [],
+        cursor: event.cursor ?? this.cursor + (event.entries?.length || 0),
+        status: event.status,
+        done: event.done,
+      });
+    } catch (error) {
+      console.warn('Ignoring malformed log event:', error);
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (this.finished) return;
+
+    try {
+      this.deliver(await trainingService.getSessionLogsSince(this.sessionId, this.cursor, this.controller.signal));
+    } catch (error) {
+      if (this.controller.signal.aborted) return;
+      console.warn('Failed to poll training logs:', error);
+    }
+
+    if (!this.finished) {
+      this.retryTimer = setTimeout(() => this.poll(), this.pollingIntervalMs);
+    }
+  }
+
+  private deliver(page: TrainingLogPage): void {
+    if (this.finished) return;
+
+    this.cursor = page.cursor;
+    if (page.entries.length > 0) {
+      this.handlers.onEntries(page.entries, page.cursor);
+    }
+    if (page.status) {
+      this.handlers.onStatus?.(page.status);
+    }
+    if (page.done || (page.status && FINISHED_STATUSES.includes(page.status))) {
+      this.close();
+    }
+  }
+}
+
+class TrainingService {
+  private readonly basePath = '/training';
+
+  /**
+   * Start fine-tuning on an uploaded file (served from the backend root, not /api)
+   */
+  async startFineTuneWithFile(fileId: string, payload: Record<string, unknown>): Promise<FineTuneResponse> {
+    authService.requirePermission('training:launch');
+    return httpClient.post<FineTuneResponse>('/finetune-with-file', { ...payload, ...authService.getOwnership() }, {
+      query: { file_id: fileId },
+      withoutApiPrefix: true,
+      // The backend prepares the dataset before returning the session
+      timeoutMs: 120000,
+      errorMessage: 'Fine-tuning request failed',
+    });
+  }
+
+  /**
+   * Start fine-tuning with an inline dataset (served from the backend root, not /api)
+   */
+  async startFineTune(payload: Record<string, unknown>): Promise<FineTuneResponse> {
+    authService.requirePermission('training:launch');
+    return httpClient.post<FineTuneResponse>('/finetune', { ...payload, ...authService.getOwnership() }, {
+      withoutApiPrefix: true,
+      timeoutMs: 120000,
+      errorMessage: 'Fine-tuning request failed',
+    });
+  }
+
+  async listSessions(): Promise<{ sessions: TrainingSessionSummary[] }> {
+    return httpClient.get(`${this.basePath}/sessions`);
+  }
+
+  async getDashboardStats(): Promise<TrainingDashboardStats> {
+    return httpClient.get<TrainingDashboardStats>(`${this.basePath}/dashboard/stats`);
+  }
+
+  async getSessionStatus(sessionId: string): Promise<TrainingSessionDetail> {
+    return httpClient.get<TrainingSessionDetail>(`${this.basePath}/${encodeURIComponent(sessionId)}/status`);
+  }
+
+  /**
+   * Delete a training session along with its logs and outputs
+   */
+  async deleteSession(sessionId: string, session: OwnedResource): Promise<{ success: boolean; message: string }> {
+    authService.requirePermission('training:delete', session);
+    return httpClient.delete(`${this.basePath}/${encodeURIComponent(sessionId)}`, {
+      errorMessage: 'Failed to delete training session',
+    });
+  }
+
+  /**
+   * Stop a queued or running job; partial outputs are discarded
+   */
+  async cancelSession(sessionId: string, session: OwnedResource): Promise<TrainingJobActionResponse> {
+    authService.requirePermission('training:control', session);
+    return httpClient.post(`${this.basePath}/${encodeURIComponent(sessionId)}/cancel`, undefined, {
+      errorMessage: 'Failed to cancel training',
+    });
+  }
+
+  /**
+   * Ask the job to stop after writing its next checkpoint; it reports 'pausing' until then
+   */
+  async pauseSession(sessionId: string, session: OwnedResource): Promise<TrainingJobActionResponse> {
+    authService.requirePermission('training:control', session);
+    return httpClient.post(`${this.basePath}/${encodeURIComponent(sessionId)}/pause`, undefined, {
+      errorMessage: 'Failed to pause training',
+    });
+  }
+
+  /**
+   * Put a job back in the queue, resuming from its last checkpoint or the given one
+   */
+  async resumeSession(sessionId: string, session: OwnedResource, checkpoint?: string): Promise<TrainingJobActionResponse> {
+    authService.requirePermission('training:control', session);
+    return httpClient.post(
+      `${this.basePath}/${encodeURIComponent(sessionId)}/resume`,
+      checkpoint ? { checkpoint } : undefined,
+      { errorMessage: 'Failed to resume training' }
+    );
+  }
+
+  /**
+   * Checkpoints saved for a session, oldest first
+   */
+  async listCheckpoints(sessionId: string): Promise<TrainingCheckpointList> {
+    const data = await httpClient.get<Partial<TrainingCheckpointList>>(
+      `${this.basePath}/${encodeURIComponent(sessionId)}/checkpoints`,
+      { errorMessage: 'Failed to load checkpoints' }
+    );
+    return {
+      ...data,
+      checkpoints: [...(data.checkpoints || [])].sort((a, b) => a.step - b.step),
+    };
+  }
+
+  /**
+   * Jobs running on or waiting for the GPU, in queue order
+   */
+  async getQueue(): Promise<QueuedTrainingJob[]> {
+    const data = await httpClient.get<{ jobs?: QueuedTrainingJob[] }>(`${this.basePath}/queue`);
+    return data.jobs || [];
+  }
+
+  async getSessionLogs(sessionId: string): Promise<TrainingLogEntry[]> {
+    const data = await httpClient.get<{ logs?: TrainingLogEntry[] }>(`${this.basePath}/${encodeURIComponent(sessionId)}/logs`);
+    return data.logs || [];
+  }
+
+  /**
+   * Entries after the cursor. Backends without cursor support return the whole list,
+   * which is trimmed here so callers still only see new entries
+   */
+  async getSessionLogsSince(sessionId: string, cursor: number, signal?: AbortSignal): Promise<TrainingLogPage> {
+    const data = await httpClient.get<{ logs?: TrainingLogEntry[]; cursor?: number; status?: string; done?: boolean }>(
+      `${this.basePath}/${encodeURIComponent(sessionId)}/logs`,
+      { query: { cursor }, retries: 0, signal }
+    );
+    const logs = data.logs || [];
+
+    if (data.cursor === undefined) {
+      return { entries: logs.slice(cursor), cursor: Math.max(cursor, logs.length), status: data.status, done: data.done };
+    }
+    return { entries: logs, cursor: data.cursor, status: data.status, done: data.done };
+  }
+
+  /**
+   * Follow a session's logs as they are written. Returns a function that stops following
+   */
+  streamSessionLogs(
+    sessionId: string,
+    handlers: TrainingLogStreamHandlers,
+    options?: TrainingLogStreamOptions
+  ): () => void {
+    const stream = new TrainingLogStream(sessionId, handlers, options);
+    stream.start();
+    return () => stream.close();
+  }
+
+  /**
+   * Logs of whichever job the backend ran last, for sessions started without an ID
+   */
+  async getGlobalLogs(): Promise<TrainingLogEntry[]> {
+    const data = await httpClient.get<{ logs?: TrainingLogEntry[] }>('/logs');
+    return data.logs || [];
+  }
+}
+
+export const trainingService = new TrainingService();
+export default trainingService;
@@ -1,4 +1,5 @@
 import { TrainingConfig } from '../config/training';
+import { getTrainingMethod } from '../config/trainingMethods';
 import { Model } from './chatApi';
 
 export interface TrainingFile {
@@ -321,10 +322,9 @@ class TrainingSessionService {
     return `${trainPercent}% training, ${validationPercent}% validation`;
   }
 
-  getTrainingMethodLabel(): string {
-    // For now, we're using LoRA as the primary method
-    // This could be made configurable in the future
-    return 'LoRA';
+  // Sessions saved before methods were configurable have no training_method and ran LoRA
+  getTrainingMethodLabel(method?: string): string {
+    return getTrainingMethod(method).label;
   }
 }
 
@@ -0,0 +1,133 @@
+/**
+ * Utility functions for rendering conversations with model chat templates
+ */
+
+import { ConversationMessage } from '../services/chatApi';
+import { TrainingExample } from '../services/fileService';
+import { estimateTokenCount } from './chatUtils';
+
+export type ChatTemplateFamily = 'chatml' | 'llama3' | 'llama2' | 'mistral' | 'gemma' | 'phi3' | 'alpaca';
+
+export const CHAT_TEMPLATE_FAMILIES: { id: ChatTemplateFamily; name: string }[] = [
+  { id: 'chatml', name: 'ChatML (Qwen, DeepSeek, Yi)' },
+  { id: 'llama3', name: 'Llama 3' },
+  { id: 'llama2', name: 'Llama 2 / CodeLlama' },
+  { id: 'mistral', name: 'Mistral / Mixtral' },
+  { id: 'gemma', name: 'Gemma' },
+  { id: 'phi3', name: 'Phi-3 / Phi-4' },
+  { id: 'alpaca', name: 'Alpaca (base models)' },
+];
+
+// Matches the special tokens emitted by the templates below
+export const SPECIAL_TOKEN_PATTERN = /(<\|[\w.]+\|>|<\/?s>|<bos>|<start_of_turn>|<end_of_turn>|\[\/?INST\]|<<\/?SYS>>|### (?:Instruction|Input|Response):)/g;
+
+/**
+ * Guess the chat template family from a model name or HF model ID
+ */
+export function detectTemplateFamily(modelName?: string): ChatTemplateFamily {
+  const name = (modelName || '').toLowerCase();
+
+  if (/llama[-_ ]?3/.test(name)) return 'llama3';
+  if (/llama[-_ ]?2|codellama/.test(name)) return 'llama2';
+  if (/mistral|mixtral/.test(name)) return 'mistral';
+  if (name.includes('gemma')) return 'gemma';
+  if (/phi[-_ ]?[34]/.test(name)) return 'phi3';
+  return 'chatml';
+}
+
+// Templates without a system role fold the system prompt into the first user turn
+function mergeSystemIntoFirstUser(messages: ConversationMessage[]): ConversationMessage[] {
+  const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+  const rest = messages.filter(m => m.role !== 'system');
+  if (!system) return rest;
+
+  const firstUser = rest.findIndex(m => m.role === 'user');
+  if (firstUser === -1) return [{ role: 'user', content: system }, ...rest];
+  return rest.map((m, i) => i === firstUser ? { ...m, content: `${system}\n\n${m.content}` } : m);
+}
+
+/**
+ * Render messages into the prompt string a model of the given family sees.
+ * With addGenerationPrompt the assistant header for the next reply is appended.
+ */
+export function renderChatTemplate(
+  messages: ConversationMessage[],
+  family: ChatTemplateFamily,
+  addGenerationPrompt: boolean = true
+): string {
+  switch (family) {
+    case 'llama3':
+      return '<|begin_of_text|>' +
+        messages.map(m => `<|start_header_id|>${m.role}<|end_header_id|>\n\n${m.content}<|eot_id|>`).join('') +
+        (addGenerationPrompt ? '<|start_header_id|>assistant<|end_header_id|>\n\n' : '');
+
+    case 'llama2': {
+      const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+      let prompt = '';
+      let pendingSystem = system ? `<<SYS>>\n${system}\n<</SYS>>\n\n` : '';
+      messages.filter(m => m.role !== 'system').forEach(m => {
+        if (m.role === 'user') {
+          prompt += `<s>[INST] ${pendingSystem}${m.content} [/INST]`;
+          pendingSystem = '';
+        } else {
+          prompt += ` ${m.content} </s>`;
+        }
+      });
+      return prompt;
+    }
+
+    case 'mistral':
+      return '<s>' + mergeSystemIntoFirstUser(messages)
+        .map(m => m.role === 'user' ? `[INST] ${m.content} [/INST]` : `${m.content}</s>`)
+        .join('');
+
+    case 'gemma':
+      return '<bos>' +
+        mergeSystemIntoFirstUser(messages)
+          .map(m => `<start_of_turn>${m.role === 'assistant' ? 'model' : 'user'}\n${m.content}<end_of_turn>\n`)
+          .join('') +
+        (addGenerationPrompt ? '<start_of_turn>model\n' : '');
+
+    case 'phi3':
+      return messages.map(m => `<|${m.role}|>\n${m.content}<|end|>\n`).join('') +
+        (addGenerationPrompt ? '<|assistant|>\n' : '');
+
+    case 'alpaca': {
+      const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+      const turns = messages.filter(m => m.role !== 'system');
+      const blocks = turns.map(m => m.role === 'user'
+        ? `### Instruction:\n${m.content}\n\n`
+        : `### Response:\n${m.content}\n\n`);
+      const lastIsUser = turns.length > 0 && turns[turns.length - 1].role === 'user';
+      return (system ? `${system}\n\n` : '') + blocks.join('') +
+        (addGenerationPrompt && lastIsUser ? '### Response:\n' : '');
+    }
+
+    case 'chatml':
+    default:
+      return messages.map(m => `<|im_start|>${m.role}\n${m.content}<|im_end|>\n`).join('') +
+        (addGenerationPrompt ? '<|im_start|>assistant\n' : '');
+  }
+}
+
+/**
+ * Estimate the token count of a rendered prompt, counting each special token as one
+ */
+export function estimatePromptTokens(prompt: string): number {
+  const specialTokens = prompt.match(SPECIAL_TOKEN_PATTERN) || [];
+  return specialTokens.length + estimateTokenCount(prompt.replace(SPECIAL_TOKEN_PATTERN, ''));
+}
+
+/**
+ * Convert a mapped training example into the user/assistant turns used for fine-tuning
+ */
+export function trainingExampleToMessages(example: TrainingExample): ConversationMessage[] {
+  const toText = (value: string | Record<string, unknown>) =>
+    typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+
+  const userContent = [example.instruction, toText(example.input)].filter(Boolean).join('\n\n');
+  return [
+    { role: 'user', content: userContent },
+    { role: 'assistant', content: toText(example.output) },
+  ];
+}
@@ -0,0 +1,108 @@
+/**
+ * Utility functions for building chat conversations
+ */
+
+import { ConversationMessage, StreamStats } from '../services/chatApi';
+
+/**
+ * Default context window used when a model does not report its own
+ * maxSequenceLength (matches the default used when loading a model)
+ */
+export const DEFAULT_MAX_SEQUENCE_LENGTH = 2048;
+
+/**
+ * Rough token estimate for a piece of text (~4 characters per token)
+ */
+export function estimateTokenCount(text: string): number {
+  if (!text) return 0;
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Estimate the tokens used by a single message, including a small
+ * allowance for the role markers added by chat templates
+ */
+function estimateMessageTokens(message: ConversationMessage): number {
+  return estimateTokenCount(message.content) + 4;
+}
+
+export interface TrimmedConversation {
+  messages: ConversationMessage[];
+  droppedCount: number;
+  estimatedTokens: number;
+}
+
+/**
+ * Drop the oldest turns of a conversation until it fits in the model's
+ * context window, leaving room for the system prompt and the response.
+ * The latest message is always kept so the request is never empty.
+ */
+export function trimConversationToContext(
+  messages: ConversationMessage[],
+  options: {
+    maxSequenceLength?: number;
+    maxNewTokens?: number;
+    systemPrompt?: string;
+  } = {}
+): TrimmedConversation {
+  const maxSequenceLength = options.maxSequenceLength || DEFAULT_MAX_SEQUENCE_LENGTH;
+  const reserved = (options.maxNewTokens || 0) + estimateTokenCount(options.systemPrompt || '');
+  const budget = Math.max(maxSequenceLength - reserved, 0);
+
+  const kept: ConversationMessage[] = [];
+  let used = 0;
+
+  // Walk backwards from the newest message, keeping as many turns as fit
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const tokens = estimateMessageTokens(messages[i]);
+    if (kept.length > 0 && used + tokens > budget) break;
+    kept.unshift(messages[i]);
+    used += tokens;
+  }
+
+  // Never start the history with an orphaned assistant reply
+  while (kept.length > 1 && kept[0].role === 'assistant') {
+    used -= estimateMessageTokens(kept[0]);
+    kept.shift();
+  }
+
+  return {
+    messages: kept,
+    droppedCount: messages.length - kept.length,
+    estimatedTokens: used + reserved,
+  };
+}
+
+/**
+ * Combine the stats of a response with those of its continuation, so a
+ * resumed answer reports totals for the whole message
+ */
+export function mergeStreamStats(previous: StreamStats | undefined, next: StreamStats): StreamStats {
+  if (!previous) return next;
+
+  const totalTokens = previous.totalTokens + next.totalTokens;
+  const durationMs = previous.durationMs + next.durationMs;
+  const generationSeconds =
+    (previous.tokensPerSecond > 0 ? previous.totalTokens / previous.tokensPerSecond : 0) +
+    (next.tokensPerSecond > 0 ? next.totalTokens / next.tokensPerSecond : 0);
+
+  return {
+    timeToFirstToken: previous.timeToFirstToken ?? next.timeToFirstToken,
+    tokensPerSecond: generationSeconds > 0 ? totalTokens / generationSeconds : 0,
+    totalTokens,
+    durationMs,
+    ...(next.aborted && { aborted: true }),
+  };
+}
+
+/**
+ * Format stream stats for display under an assistant message
+ */
+export function formatStreamStats(stats: StreamStats): string {
+  const parts = [
+    stats.timeToFirstToken !== null ? `TTFT ${(stats.timeToFirstToken / 1000).toFixed(2)}s` : null,
+    `${stats.tokensPerSecond.toFixed(1)} tok/s`,
+    `${stats.totalTokens} tokens`,
+  ];
+  return parts.filter(Boolean).join(' · ');
+}
@@ -0,0 +1,62 @@
+/**
+ * Utility functions for working with training checkpoints
+ */
+import { TrainingCheckpoint } from '../services/trainingService';
+
+// Router state used to open a checkpoint in the chat or evaluation pages
+export interface CheckpointLaunchState {
+  checkpointPath: string;
+  checkpointLabel: string;
+}
+
+/**
+ * Normalise a metric name the way the trainer does ("loss" -> "eval_loss")
+ */
+export function getEvalMetricKey(metric: string): string {
+  return metric.startsWith('eval_') ? metric : `eval_${metric}`;
+}
+
+/**
+ * Value of the given metric at a checkpoint, if it was evaluated there
+ */
+export function getCheckpointMetric(checkpoint: TrainingCheckpoint, metric: string): number | undefined {
+  const key = getEvalMetricKey(metric);
+  const value = checkpoint.metrics?.[key] ?? checkpoint.metrics?.[metric];
+  if (value !== undefined) return value;
+  return key === 'eval_loss' ? checkpoint.eval_loss : undefined;
+}
+
+/**
+ * Checkpoint with the best value of metric_for_best_model. Like the trainer, metrics
+ * ending in "loss" are minimised and everything else maximised unless greaterIsBetter is set.
+ */
+export function getBestCheckpoint(
+  checkpoints: TrainingCheckpoint[],
+  metric: string = 'eval_loss',
+  greaterIsBetter?: boolean
+): TrainingCheckpoint | undefined {
+  const key = getEvalMetricKey(metric);
+  const maximise = greaterIsBetter ?? !key.endsWith('loss');
+
+  let best: TrainingCheckpoint | undefined;
+  let bestValue: number | undefined;
+  for (const checkpoint of checkpoints) {
+    const value = getCheckpointMetric(checkpoint, metric);
+    if (value === undefined) continue;
+    if (bestValue === undefined || (maximise ? value > bestValue : value < bestValue)) {
+      best = checkpoint;
+      bestValue = value;
+    }
+  }
+  return best;
+}
+
+/**
+ * Read a CheckpointLaunchState from location.state, ignoring anything else
+ */
+export function getCheckpointLaunchState(state: unknown): CheckpointLaunchState | null {
+  if (!state || typeof state !== 'object') return null;
+  const { checkpointPath, checkpointLabel } = state as Partial<CheckpointLaunchState>;
+  if (typeof checkpointPath !== 'string' || !checkpointPath) return null;
+  return { checkpointPath, checkpointLabel: checkpointLabel || checkpointPath };
+}
@@ -0,0 +1,86 @@
+/**
+ * Utility functions for comparing model outputs
+ */
+
+export interface DiffSegment {
+  text: string;
+  type: 'same' | 'added' | 'removed';
+}
+
+// Above this many tokens per side the LCS table gets too large to build in the browser
+const MAX_DIFF_TOKENS = 2000;
+
+/**
+ * Word-level diff of two texts (longest common subsequence). Whitespace is
+ * kept attached to the tokens so the segments join back into the original text.
+ */
+export function diffWords(base: string, compared: string): DiffSegment[] {
+  const a = base.match(/\s*\S+\s*|\s+/g) || [];
+  const b = compared.match(/\s*\S+\s*|\s+/g) || [];
+
+  if (a.length > MAX_DIFF_TOKENS || b.length > MAX_DIFF_TOKENS) {
+    return base === compared
+      ? [{ text: compared, type: 'same' }]
+      : [{ text: base, type: 'removed' }, { text: compared, type: 'added' }];
+  }
+
+  const normalize = (token: string) => token.trim();
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = normalize(a[i]) === normalize(b[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (text: string, type: DiffSegment['type']) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ text, type });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (normalize(a[i]) === normalize(b[j])) {
+      push(b[j], 'same');
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push(a[i++], 'removed');
+    } else {
+      push(b[j++], 'added');
+    }
+  }
+  while (i < a.length) push(a[i++], 'removed');
+  while (j < b.length) push(b[j++], 'added');
+
+  return segments;
+}
+
+/**
+ * Share of words two texts have in common (0-1), used to flag divergent answers
+ */
+export function textSimilarity(base: string, compared: string): number {
+  return segmentSimilarity(diffWords(base, compared));
+}
+
+/**
+ * Similarity from an existing diffWords result, so callers that render the diff don't compute it twice
+ */
+export function segmentSimilarity(segments: DiffSegment[]): number {
+  const count = (type: DiffSegment['type']) => segments
+    .filter(segment => segment.type === type)
+    .reduce((total, segment) => total + segment.text.split(/\s+/).filter(Boolean).length, 0);
+
+  const same = count('same');
+  const total = same + Math.max(count('added'), count('removed'));
+  return total === 0 ? 1 : same / total;
+}
@@ -0,0 +1,304 @@
+/**
+ * Utility functions for structured (JSON) model output
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface SchemaViolation {
+  // JSONPath-style location of the offending value, e.g. $.items[0].name
+  path: string;
+  message: string;
+}
+
+export interface JsonOutputValidation {
+  parsed?: unknown;
+  parseError?: string;
+  violations: SchemaViolation[];
+  valid: boolean;
+}
+
+// Type names used by model output_schema maps (Python and JSON Schema spellings)
+const FIELD_TYPE_ALIASES: Record<string, string> = {
+  str: 'string',
+  string: 'string',
+  text: 'string',
+  int: 'integer',
+  integer: 'integer',
+  float: 'number',
+  number: 'number',
+  double: 'number',
+  bool: 'boolean',
+  boolean: 'boolean',
+  list: 'array',
+  array: 'array',
+  dict: 'object',
+  object: 'object',
+};
+
+/**
+ * Check whether a schema is already a JSON Schema rather than a
+ * simple field -> type map such as ModelInfo.output_schema
+ */
+export function isJsonSchema(schema: JsonSchema): boolean {
+  return (
+    typeof schema.$schema === 'string' ||
+    (typeof schema.properties === 'object' && schema.properties !== null) ||
+    schema.type === 'object' ||
+    schema.type === 'array'
+  );
+}
+
+/**
+ * Convert a model output_schema (field -> type name) into a JSON Schema.
+ * Schemas that are already JSON Schema are returned unchanged.
+ */
+export function toJsonSchema(schema: JsonSchema): JsonSchema {
+  if (isJsonSchema(schema)) return schema;
+
+  const properties: Record<string, JsonSchema> = {};
+  Object.entries(schema).forEach(([field, type]) => {
+    const typeName = typeof type === 'string' ? FIELD_TYPE_ALIASES[type.toLowerCase()] : undefined;
+    properties[field] = typeName ? { type: typeName } : {};
+  });
+
+  return {
+    type: 'object',
+    properties,
+    required: Object.keys(properties),
+  };
+}
+
+/**
+ * Parse a JSON schema typed by the user; returns an error message instead of throwing
+ */
+export function parseJsonSchema(text: string): { schema?: JsonSchema; error?: string } {
+  if (!text.trim()) return { error: 'Schema is empty' };
+
+  try {
+    const parsed = JSON.parse(text);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      return { error: 'Schema must be a JSON object' };
+    }
+    const schema = toJsonSchema(parsed);
+    const patternError = findInvalidPattern(schema, '$');
+    if (patternError) return { error: patternError };
+    return { schema };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Invalid JSON' };
+  }
+}
+
+function compilePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern);
+  } catch {
+    return null;
+  }
+}
+
+// First `pattern` in the schema or its sub-schemas that isn't a valid regular expression
+function findInvalidPattern(schema: JsonSchema, path: string): string | undefined {
+  if (typeof schema.pattern === 'string' && !compilePattern(schema.pattern)) {
+    return `Invalid pattern at ${path}: ${schema.pattern}`;
+  }
+  const children: [string, unknown][] = [
+    ...Object.entries((schema.properties || {}) as Record<string, unknown>).map(
+      ([field, child]): [string, unknown] => [`${path}.${field}`, child]
+    ),
+    [`${path}[]`, schema.items],
+    [`${path}.*`, schema.additionalProperties],
+  ];
+  for (const [childPath, child] of children) {
+    if (typeof child === 'object' && child !== null && !Array.isArray(child)) {
+      const error = findInvalidPattern(child as JsonSchema, childPath);
+      if (error) return error;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Pull the JSON value out of a model response. Handles ```json fences and
+ * leading/trailing prose around a single object or array.
+ */
+export function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = (fenced ? fenced[1] : text).trim();
+
+  try {
+    return JSON.parse(candidate);
+  } catch (error) {
+    const start = candidate.search(/[[{]/);
+    const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+    if (start === -1 || end <= start) throw error;
+    return JSON.parse(candidate.slice(start, end + 1));
+  }
+}
+
+function getJsonType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = getJsonType(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Validate a value against the commonly used subset of JSON Schema:
+ * type, enum, const, properties, required, additionalProperties, items,
+ * string length/pattern, numeric bounds and array length
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path: string = '$'): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+    if (!types.some(type => matchesType(value, type))) {
+      violations.push({ path, message: `Expected ${types.join(' | ')}, got ${getJsonType(value)}` });
+      return violations;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    violations.push({ path, message: `Must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}` });
+  }
+
+  if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    violations.push({ path, message: `Must equal ${JSON.stringify(schema.const)}` });
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      violations.push({ path, message: `Must be at least ${schema.minLength} characters` });
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      violations.push({ path, message: `Must be at most ${schema.maxLength} characters` });
+    }
+    if (typeof schema.pattern === 'string') {
+      // Schemas from the model catalog aren't checked by parseJsonSchema, so a bad pattern is reported rather than thrown
+      const pattern = compilePattern(schema.pattern);
+      if (!pattern) {
+        violations.push({ path, message: `Schema pattern ${schema.pattern} is not a valid regular expression` });
+      } else if (!pattern.test(value)) {
+        violations.push({ path, message: `Must match pattern ${schema.pattern}` });
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      violations.push({ path, message: `Must be >= ${schema.minimum}` });
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      violations.push({ path, message: `Must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      violations.push({ path, message: `Must have at least ${schema.minItems} items` });
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      violations.push({ path, message: `Must have at most ${schema.maxItems} items` });
+    }
+    if (typeof schema.items === 'object' && schema.items !== null) {
+      value.forEach((item, index) => {
+        violations.push(...validateAgainstSchema(item, schema.items as JsonSchema, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (getJsonType(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    const properties = (schema.properties || {}) as Record<string, JsonSchema>;
+
+    if (Array.isArray(schema.required)) {
+      (schema.required as string[])
+        .filter(field => !(field in record))
+        .forEach(field => violations.push({ path, message: `Missing required field "${field}"` }));
+    }
+
+    Object.entries(record).forEach(([field, fieldValue]) => {
+      const fieldPath = `${path}.${field}`;
+      if (properties[field]) {
+        violations.push(...validateAgainstSchema(fieldValue, properties[field], fieldPath));
+      } else if (schema.additionalProperties === false) {
+        violations.push({ path: fieldPath, message: 'Field is not allowed by the schema' });
+      } else if (typeof schema.additionalProperties === 'object' && schema.additionalProperties !== null) {
+        violations.push(...validateAgainstSchema(fieldValue, schema.additionalProperties as JsonSchema, fieldPath));
+      }
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Parse a model response as JSON and validate it against a schema
+ */
+export function validateJsonOutput(output: unknown, schema: JsonSchema): JsonOutputValidation {
+  let parsed: unknown;
+
+  if (typeof output === 'string') {
+    try {
+      parsed = extractJson(output);
+    } catch (error) {
+      return {
+        parseError: error instanceof Error ? error.message : 'Response is not valid JSON',
+        violations: [],
+        valid: false,
+      };
+    }
+  } else {
+    parsed = output;
+  }
+
+  const violations = validateAgainstSchema(parsed, toJsonSchema(schema));
+  return { parsed, violations, valid: violations.length === 0 };
+}
+
+export interface AnnotatedJsonLine {
+  text: string;
+  path: string;
+}
+
+/**
+ * Pretty-print a JSON value line by line, tagging each line with the path of
+ * the value it starts so violations can be highlighted in place
+ */
+export function toAnnotatedJsonLines(value: unknown, path: string = '$', indent: number = 0, prefix: string = ''): AnnotatedJsonLine[] {
+  const pad = '  '.repeat(indent);
+  const type = getJsonType(value);
+
+  if (type === 'array' && (value as unknown[]).length > 0) {
+    const items = value as unknown[];
+    return [
+      { text: `${pad}${prefix}[`, path },
+      ...items.flatMap((item, index) => {
+        const lines = toAnnotatedJsonLines(item, `${path}[${index}]`, indent + 1);
+        if (index < items.length - 1) lines[lines.length - 1].text += ',';
+        return lines;
+      }),
+      { text: `${pad}]`, path },
+    ];
+  }
+
+  if (type === 'object' && Object.keys(value as object).length > 0) {
+    const entries = Object.entries(value as Record<string, unknown>);
+    return [
+      { text: `${pad}${prefix}{`, path },
+      ...entries.flatMap(([field, fieldValue], index) => {
+        const lines = toAnnotatedJsonLines(fieldValue, `${path}.${field}`, indent + 1, `${JSON.stringify(field)}: `);
+        if (index < entries.length - 1) lines[lines.length - 1].text += ',';
+        return lines;
+      }),
+      { text: `${pad}}`, path },
+    ];
+  }
+
+  return [{ text: `${pad}${prefix}${JSON.stringify(value)}`, path }];
+}
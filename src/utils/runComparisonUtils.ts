@@ -0,0 +1,129 @@
+/**
+ * Utility functions for overlaying several training runs and diffing their configurations
+ */
+import { TrainingLogEntry } from '../services/trainingService';
+import { trainingConfigFromPayload } from './sessionPrefillUtils';
+
+export type ComparisonMetric = 'train_loss' | 'eval_loss' | 'learning_rate' | 'grad_norm';
+export type ComparisonXAxis = 'step' | 'epoch';
+
+export const COMPARISON_METRICS: { key: ComparisonMetric; label: string }[] = [
+  { key: 'train_loss', label: 'Training Loss' },
+  { key: 'eval_loss', label: 'Validation Loss' },
+  { key: 'learning_rate', label: 'Learning Rate' },
+  { key: 'grad_norm', label: 'Gradient Norm' },
+];
+
+// More lines than this on one chart stop being readable
+export const MAX_COMPARED_SESSIONS = 6;
+
+export interface SeriesPoint {
+  x: number;
+  value: number;
+}
+
+// One row per x value, with a column per session id
+export type ComparisonChartRow = { x: number } & Record<string, number | undefined>;
+
+export interface ConfigDiffRow {
+  key: string;
+  values: unknown[];
+  differs: boolean;
+}
+
+const asNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+// Where each metric is reported: top-level fields on step/epoch logs, or inside `metrics` on metrics logs
+function readMetric(log: TrainingLogEntry, metric: ComparisonMetric): number | undefined {
+  const fromMetrics = log.type === 'metrics' ? log.metrics : undefined;
+  switch (metric) {
+    case 'train_loss':
+      if (log.type === 'training_step') return asNumber(log.loss);
+      return asNumber(fromMetrics?.loss);
+    case 'eval_loss':
+      if (log.type === 'epoch_end') return asNumber(log.eval_loss);
+      return asNumber(fromMetrics?.eval_loss);
+    default:
+      if (log.type === 'training_step') return asNumber(log[metric]);
+      return asNumber(fromMetrics?.[metric]);
+  }
+}
+
+/**
+ * Points for one metric of one run, keyed by step or epoch. Later logs win for a repeated x.
+ */
+export function extractMetricSeries(logs: TrainingLogEntry[], metric: ComparisonMetric, xAxis: ComparisonXAxis): SeriesPoint[] {
+  const byX = new Map<number, number>();
+  for (const log of logs) {
+    const value = readMetric(log, metric);
+    if (value === undefined) continue;
+    const x = asNumber(log[xAxis]) ?? asNumber(log.metrics?.[xAxis]);
+    if (x === undefined) continue;
+    byX.set(x, value);
+  }
+  return [...byX.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([x, value]) => ({ x, value }));
+}
+
+/**
+ * Exponential moving average; weight 0 leaves the series unchanged, values near 1 smooth heavily
+ */
+export function smoothSeries(points: SeriesPoint[], weight: number): SeriesPoint[] {
+  if (weight <= 0) return points;
+  let last: number | undefined;
+  return points.map(point => {
+    last = last === undefined ? point.value : last * weight + point.value * (1 - weight);
+    return { x: point.x, value: last };
+  });
+}
+
+/**
+ * Combine per-session series into chart rows sharing one x axis
+ */
+export function mergeSeries(seriesBySession: Record<string, SeriesPoint[]>): ComparisonChartRow[] {
+  const rows = new Map<number, ComparisonChartRow>();
+  for (const [sessionId, points] of Object.entries(seriesBySession)) {
+    for (const point of points) {
+      const row = rows.get(point.x) ?? { x: point.x };
+      row[sessionId] = point.value;
+      rows.set(point.x, row);
+    }
+  }
+  return [...rows.values()].sort((a, b) => a.x - b.x);
+}
+
+/**
+ * Effective settings of a run: the core hyperparameters plus its full TrainingConfig
+ */
+export function getComparableConfig(config: Record<string, unknown>): Record<string, unknown> {
+  return {
+    model_name: config.model_name,
+    num_train_epochs: config.num_train_epochs,
+    learning_rate: config.learning_rate,
+    per_device_train_batch_size: config.per_device_train_batch_size,
+    max_seq_length: config.max_seq_length,
+    ...trainingConfigFromPayload(config),
+  };
+}
+
+/**
+ * One row per setting across all runs, flagging the ones that aren't identical everywhere
+ */
+export function diffConfigs(configs: Record<string, unknown>[]): ConfigDiffRow[] {
+  const keys = [...new Set(configs.flatMap(config => Object.keys(config)))];
+  return keys.map(key => {
+    const values = configs.map(config => config[key]);
+    const first = JSON.stringify(values[0]);
+    return { key, values, differs: values.some(value => JSON.stringify(value) !== first) };
+  });
+}
+
+/**
+ * Session ids from a comma-separated `sessions` query parameter, de-duplicated and capped
+ */
+export function parseComparedSessions(param: string | null): string[] {
+  const ids = (param || '').split(',').map(id => id.trim()).filter(Boolean);
+  return [...new Set(ids)].slice(0, MAX_COMPARED_SESSIONS);
+}
@@ -0,0 +1,87 @@
+/**
+ * Utility functions for turning a stored training session back into configure-step state
+ */
+import { TrainingConfig, createTrainingConfig, defaultTrainingConfig } from '../config/training';
+import { TrainingSessionDetail } from '../services/trainingService';
+import { Model } from '../services/chatApi';
+import { SessionPrefill } from '../pages/configure/ConfigureContext';
+
+// Payload keys that differ from their TrainingConfig field names
+const PAYLOAD_KEY_ALIASES: Partial<Record<keyof TrainingConfig, string>> = {
+  lora_rank: 'lora_r',
+};
+
+/**
+ * Rebuild a TrainingConfig from the fine-tune payload the backend stored, keeping
+ * defaults for anything missing or of the wrong type
+ */
+export function trainingConfigFromPayload(config: Record<string, unknown>): TrainingConfig {
+  const restored: Partial<Record<keyof TrainingConfig, unknown>> = {};
+  for (const key of Object.keys(defaultTrainingConfig) as (keyof TrainingConfig)[]) {
+    const value = config[PAYLOAD_KEY_ALIASES[key] ?? key] ?? config[key];
+    const fallback = defaultTrainingConfig[key];
+    // max_sample_size defaults to null, so its type can't be checked against the default
+    if (value !== undefined && (fallback === null || (value !== null && typeof value === typeof fallback))) {
+      restored[key] = value;
+    }
+  }
+  return createTrainingConfig(restored as Partial<TrainingConfig>);
+}
+
+/**
+ * Output name of a run, taken from its ./results/<name> output directory
+ */
+export function getSessionOutputName(config: Record<string, unknown>): string | undefined {
+  const outputDir = typeof config.output_dir === 'string' ? config.output_dir : '';
+  return outputDir.replace(/\/+$/, '').split('/').pop() || undefined;
+}
+
+/**
+ * Configure-step state for cloning a session, or for continuing training from its final adapter
+ */
+export function buildSessionPrefill(session: TrainingSessionDetail, mode: 'clone' | 'continue'): SessionPrefill {
+  const config: Record<string, unknown> = session.config || {};
+  const modelIdentifier = String(config.model_name || '');
+  // Hub models are identified as "org/name"; local fine-tunes by name only
+  const isHubModel = modelIdentifier.includes('/');
+
+  const selectedBaseModel: Model = {
+    id: modelIdentifier,
+    name: isHubModel ? modelIdentifier.split('/').pop() || modelIdentifier : modelIdentifier,
+    description: `Base model of session ${session.session_id}`,
+    size: 'Unknown',
+    architecture: 'Unknown',
+    isBase: isHubModel,
+    ...(isHubModel && { hf_model_id: modelIdentifier }),
+  };
+
+  const fileId = config.file_id ?? session.dataset_info?.file_id ?? session.dataset_info?.dataset_id;
+  const outputName = getSessionOutputName(config);
+  const number = (value: unknown) => (typeof value === 'number' ? value : undefined);
+  const parameters = Object.fromEntries(
+    Object.entries({
+      epochs: number(config.num_train_epochs),
+      learningRate: number(config.learning_rate),
+      batchSize: number(config.per_device_train_batch_size),
+      maxSequenceLength: number(config.max_seq_length),
+      loggingSteps: number(config.logging_steps),
+    }).filter(([, value]) => value !== undefined)
+  );
+
+  return {
+    source: {
+      sessionId: session.session_id,
+      mode,
+      ...(mode === 'continue' && typeof config.output_dir === 'string' && { adapterPath: config.output_dir }),
+    },
+    selectedBaseModel,
+    activeModelTab: isHubModel ? 'huggingface' : 'finetuned',
+    selectedFileId: typeof fileId === 'string' ? fileId : null,
+    parameters: {
+      ...parameters,
+      // A fresh output name so the new run doesn't overwrite the original
+      modelName: outputName ? `${outputName}-${mode === 'continue' ? 'continued' : 'copy'}` : '',
+    },
+    trainingConfig: trainingConfigFromPayload(config),
+  };
+}
@@ -0,0 +1,226 @@
+/**
+ * Utility functions for expanding a hyperparameter sweep into individual runs
+ */
+import {
+  SweepConfig,
+  SweepDimension,
+  SweepParameterKey,
+  SweepValue,
+  SweepRunValues,
+  MAX_SWEEP_RUNS,
+  getSweepParameter,
+} from '../config/sweep';
+import { TrainingConfig } from '../config/training';
+
+export interface SweepPlan {
+  runs: SweepRunValues[];
+  // Size of the full grid before the run cap; random search has no fixed total
+  totalCombinations: number | null;
+}
+
+const roundForKey = (key: SweepParameterKey, value: number): number =>
+  getSweepParameter(key).type === 'int' ? Math.round(value) : Number(value.toPrecision(4));
+
+/**
+ * Parse a comma-separated list of values for a field, skipping anything that doesn't fit its type
+ */
+export function parseSweepList(text: string, key: SweepParameterKey): SweepValue[] {
+  const option = getSweepParameter(key);
+  const items = text.split(',').map(item => item.trim()).filter(Boolean);
+
+  if (option.type === 'choice') {
+    return items.filter(item => option.choices?.includes(item));
+  }
+  return items
+    .map(Number)
+    .filter(value => Number.isFinite(value))
+    .map(value => roundForKey(key, value));
+}
+
+/**
+ * Values a dimension takes in grid search; ranges are split into evenly spaced points
+ */
+export function getGridValues(dimension: SweepDimension): SweepValue[] {
+  if (dimension.mode === 'list') return [...new Set(dimension.values)];
+
+  const { min, max } = dimension;
+  // More points than runs can never be launched
+  const steps = Math.min(MAX_SWEEP_RUNS, Math.max(1, Math.floor(dimension.steps)));
+  if (steps === 1 || min === max) return [roundForKey(dimension.key, min)];
+
+  const useLog = getSweepParameter(dimension.key).logScale && min > 0 && max > 0;
+  const values = Array.from({ length: steps }, (_, i) => {
+    const t = i / (steps - 1);
+    const value = useLog
+      ? Math.exp(Math.log(min) + t * (Math.log(max) - Math.log(min)))
+      : min + t * (max - min);
+    return roundForKey(dimension.key, value);
+  });
+  return [...new Set(values)];
+}
+
+/**
+ * Draw one value for a dimension in random search
+ */
+export function sampleDimension(dimension: SweepDimension, random: () => number = Math.random): SweepValue | undefined {
+  if (dimension.mode === 'list') {
+    return dimension.values.length > 0
+      ? dimension.values[Math.floor(random() * dimension.values.length)]
+      : undefined;
+  }
+
+  const { min, max } = dimension;
+  const useLog = getSweepParameter(dimension.key).logScale && min > 0 && max > 0;
+  const value = useLog
+    ? Math.exp(Math.log(min) + random() * (Math.log(max) - Math.log(min)))
+    : min + random() * (max - min);
+  return roundForKey(dimension.key, value);
+}
+
+/**
+ * Number of runs a full grid over these dimensions would produce
+ */
+export function countGridRuns(dimensions: SweepDimension[]): number {
+  return dimensions.reduce((total, dimension) => total * getGridValues(dimension).length, 1);
+}
+
+/**
+ * Expand a sweep into the runs to launch, capped at maxRuns (and MAX_SWEEP_RUNS)
+ */
+export function planSweepRuns(config: SweepConfig, random: () => number = Math.random): SweepPlan {
+  const maxRuns = Math.max(1, Math.min(config.maxRuns, MAX_SWEEP_RUNS));
+  const dimensions = config.dimensions.filter(dimension =>
+    dimension.mode === 'range' || dimension.values.length > 0
+  );
+  if (dimensions.length === 0) return { runs: [], totalCombinations: 0 };
+
+  if (config.strategy === 'grid') {
+    // Only the first maxRuns combinations are built; the full grid can be far larger
+    const grid = dimensions.map(dimension => ({ key: dimension.key, values: getGridValues(dimension) }));
+    const totalCombinations = countGridRuns(dimensions);
+    const runs = Array.from({ length: Math.min(maxRuns, totalCombinations) }, (_, index) => {
+      // Read the index as a mixed-radix number whose last digit is the last dimension,
+      // giving the same order as nested loops over the dimensions
+      const positions: number[] = [];
+      let remainder = index;
+      for (let i = grid.length - 1; i >= 0; i--) {
+        positions[i] = remainder % grid[i].values.length;
+        remainder = Math.floor(remainder / grid[i].values.length);
+      }
+      const run: SweepRunValues = {};
+      grid.forEach(({ key, values }, i) => {
+        run[key] = values[positions[i]];
+      });
+      return run;
+    });
+    return { runs, totalCombinations };
+  }
+
+  // Random search: draw until the cap is reached, skipping repeats of the same combination
+  const runs: SweepRunValues[] = [];
+  const seen = new Set<string>();
+  for (let attempt = 0; runs.length < maxRuns && attempt < maxRuns * 20; attempt++) {
+    const run: SweepRunValues = {};
+    for (const dimension of dimensions) {
+      const value = sampleDimension(dimension, random);
+      if (value !== undefined) run[dimension.key] = value;
+    }
+    const signature = JSON.stringify(run);
+    if (!seen.has(signature)) {
+      seen.add(signature);
+      runs.push(run);
+    }
+  }
+  return { runs, totalCombinations: null };
+}
+
+/**
+ * Map a run's swept values onto fine-tune request fields
+ */
+export function toPayloadOverrides(run: SweepRunValues): Record<string, SweepValue> {
+  return Object.fromEntries(
+    Object.entries(run).map(([key, value]) => [getSweepParameter(key as SweepParameterKey).payloadKey, value])
+  );
+}
+
+/**
+ * A run's swept values that replace TrainingConfig fields (the rest are basic parameters)
+ */
+export function toTrainingConfigOverrides(run: SweepRunValues): Partial<TrainingConfig> {
+  return Object.fromEntries(
+    Object.entries(run).filter(([key]) => getSweepParameter(key as SweepParameterKey).source === 'trainingConfig')
+  ) as Partial<TrainingConfig>;
+}
+
+/**
+ * Short "Learning Rate 2.0e-4 · LoRA Rank 16" style description of a run
+ */
+export function describeSweepRun(run: SweepRunValues): string {
+  return Object.entries(run)
+    .map(([key, value]) => {
+      const label = getSweepParameter(key as SweepParameterKey).label;
+      const formatted = typeof value === 'number' && value !== 0 && Math.abs(value) < 0.001
+        ? value.toExponential(1)
+        : String(value);
+      return `${label} ${formatted}`;
+    })
+    .join(' · ');
+}
+
+// Ranking by final validation loss; any other key is a linked evaluation metric
+export const SWEEP_LOSS_METRIC = 'eval_loss';
+
+// Evaluation metrics where a lower score is better, besides anything ending in "loss"
+const LOWER_IS_BETTER_METRICS = ['perplexity', 'wer', 'cer', 'ter', 'mse', 'rmse', 'mae'];
+
+/**
+ * Whether runs should be ranked by the lowest value of a metric rather than the highest
+ */
+export function isLowerBetterMetric(metric: string): boolean {
+  const name = metric.toLowerCase().replace(/^eval_/, '');
+  return name.endsWith('loss') || LOWER_IS_BETTER_METRICS.includes(name);
+}
+
+interface RankableRun {
+  final_eval_loss?: number;
+  evaluation_metrics?: Record<string, number>;
+}
+
+/**
+ * Value a run is ranked by, if it has one yet
+ */
+export function getSweepRunScore(run: RankableRun, metric: string): number | undefined {
+  return metric === SWEEP_LOSS_METRIC ? run.final_eval_loss : run.evaluation_metrics?.[metric];
+}
+
+/**
+ * Metrics the runs can be ranked by: validation loss plus every evaluation metric reported for any run
+ */
+export function getSweepRankingMetrics(runs: RankableRun[]): string[] {
+  const evaluationKeys = new Set(runs.flatMap(run => Object.keys(run.evaluation_metrics || {})));
+  return [SWEEP_LOSS_METRIC, ...[...evaluationKeys].sort()];
+}
+
+/**
+ * Best run first: lowest value for losses and other lower-is-better metrics, highest otherwise.
+ * Runs without a score go last.
+ */
+export function rankSweepRuns<T extends RankableRun>(runs: T[], metric: string): T[] {
+  const direction = isLowerBetterMetric(metric) ? 1 : -1;
+  return [...runs].sort((a, b) => {
+    const scoreA = getSweepRunScore(a, metric);
+    const scoreB = getSweepRunScore(b, metric);
+    if (scoreA === undefined) return scoreB === undefined ? 0 : 1;
+    if (scoreB === undefined) return -1;
+    return (scoreA - scoreB) * direction;
+  });
+}
+
+const FINISHED_RUN_STATUSES = ['completed', 'failed', 'cancelled'];
+
+/**
+ * Whether a run is still queued, training or paused
+ */
+export function isSweepRunActive(status: string): boolean {
+  return !FINISHED_RUN_STATUSES.includes(status);
+}
@@ -0,0 +1,192 @@
+/**
+ * Utility functions for estimating GPU memory and duration of a training run before launch
+ *
+ * These are rule-of-thumb figures: activations assume flash attention and sequences padded to
+ * the maximum length, and throughput assumes an A100-class GPU at typical utilisation.
+ */
+import { TrainingConfig } from '../config/training';
+import { getTrainingMethod } from '../config/trainingMethods';
+
+export interface TrainingEstimateInput {
+  // Model size string ("7B", "1.1B") and name, used to work out the parameter count
+  modelSize?: string;
+  modelName?: string;
+  batchSize: number;
+  maxSequenceLength: number;
+  epochs: number;
+  trainingConfig: TrainingConfig;
+  // Rows in the training set after sampling, if known
+  trainExamples?: number;
+}
+
+export interface MemoryBreakdown {
+  weights: number;
+  trainableState: number;
+  activations: number;
+  overhead: number;
+}
+
+export interface TrainingResourceEstimate {
+  parameterCount: number;
+  trainableParameters: number;
+  // All memory figures in GB
+  memory: MemoryBreakdown;
+  peakMemoryGb: number;
+  stepSeconds: number;
+  totalSteps: number | null;
+  totalMinutes: number | null;
+}
+
+interface ModelShape {
+  hiddenSize: number;
+  layers: number;
+}
+
+// Typical decoder shapes by parameter count (Llama / Mistral / Qwen families)
+const MODEL_SHAPES: { maxParamsB: number; shape: ModelShape }[] = [
+  { maxParamsB: 1.5, shape: { hiddenSize: 2048, layers: 22 } },
+  { maxParamsB: 3.5, shape: { hiddenSize: 2560, layers: 32 } },
+  { maxParamsB: 9, shape: { hiddenSize: 4096, layers: 32 } },
+  { maxParamsB: 15, shape: { hiddenSize: 5120, layers: 40 } },
+  { maxParamsB: 35, shape: { hiddenSize: 6656, layers: 60 } },
+  { maxParamsB: Infinity, shape: { hiddenSize: 8192, layers: 80 } },
+];
+
+const GB = 1024 ** 3;
+const VOCAB_SIZE = 32000;
+// Stored activation bytes per token per hidden unit per layer at 16-bit precision
+const ACTIVATION_BYTES = 34;
+const CUDA_CONTEXT_GB = 1;
+const EFFECTIVE_TFLOPS = 35;
+
+/**
+ * Parameter count from a size like "7B" / "350M", falling back to the model name ("Mistral-7B-v0.1")
+ */
+export function parseParameterCount(...sources: (string | undefined)[]): number | null {
+  for (const source of sources) {
+    const match = source?.match(/(\d+(?:\.\d+)?)\s*([BM])\b/i);
+    if (match) {
+      const value = parseFloat(match[1]);
+      return match[2].toUpperCase() === 'B' ? value * 1e9 : value * 1e6;
+    }
+  }
+  return null;
+}
+
+function getModelShape(parameterCount: number): ModelShape {
+  const billions = parameterCount / 1e9;
+  return (MODEL_SHAPES.find(entry => billions <= entry.maxParamsB) ?? MODEL_SHAPES[MODEL_SHAPES.length - 1]).shape;
+}
+
+const OPTIMIZER_STATE_BYTES: Record<TrainingConfig['optim'], number> = {
+  adamw_torch: 8,
+  adamw_8bit: 2,
+  adafactor: 4,
+};
+
+/**
+ * Peak VRAM and duration for a configuration, or null when the model size can't be determined
+ */
+export function estimateTrainingResources(input: TrainingEstimateInput): TrainingResourceEstimate | null {
+  const parameterCount = parseParameterCount(input.modelSize, input.modelName);
+  if (!parameterCount) return null;
+
+  const config = input.trainingConfig;
+  const method = getTrainingMethod(config.training_method);
+  const quantization = method.fixedQuantization ?? config.quantization;
+  const halfPrecision = config.bf16 || config.fp16;
+  const { hiddenSize, layers } = getModelShape(parameterCount);
+
+  // Frozen or trained base weights; 4-bit includes quantization constants
+  const weightBytes = quantization === '4bit' ? 0.55 : quantization === '8bit' ? 1.05 : halfPrecision ? 2 : 4;
+  const separateReference = config.training_method === 'dpo' && (config.reference_model !== '' || !method.usesAdapter);
+  const weights = parameterCount * weightBytes * (separateReference ? 2 : 1);
+
+  // Adapters: two rank-r matrices per targeted projection per layer
+  const trainableParameters = method.usesAdapter
+    ? layers * Math.max(1, config.lora_target_modules.length) * config.lora_rank * 2 * hiddenSize
+    : parameterCount;
+  const optimizerBytes = method.usesAdapter ? OPTIMIZER_STATE_BYTES.adamw_torch : OPTIMIZER_STATE_BYTES[config.optim];
+  // fp32 gradients plus optimizer states, and an fp32 master copy when mixed precision trains every weight
+  const masterCopyBytes = method.usesAdapter || halfPrecision ? 4 : 0;
+  const trainableState = trainableParameters * (4 + optimizerBytes + masterCopyBytes);
+
+  // Preference methods run the chosen and rejected answers through the model together
+  const sequencesPerExample = method.requiresPreferenceData ? 2 : 1;
+  const tokens = input.batchSize * input.maxSequenceLength * sequencesPerExample;
+  const precisionFactor = halfPrecision || quantization !== 'none' ? 1 : 2;
+  const storedLayerBytes = config.gradient_checkpointing
+    ? hiddenSize * (layers * 2 + ACTIVATION_BYTES)
+    : hiddenSize * layers * ACTIVATION_BYTES;
+  const logitsBytes = VOCAB_SIZE * 4;
+  const activations = tokens * (storedLayerBytes * precisionFactor + logitsBytes);
+
+  const subtotal = weights + trainableState + activations;
+  // CUDA context plus ~10% allocator fragmentation
+  const overhead = CUDA_CONTEXT_GB * GB + subtotal * 0.1;
+
+  // Training FLOPs per token: forward + backward (weight gradients only when training every weight)
+  let flopsPerToken = (method.usesAdapter ? 4 : 6) * parameterCount;
+  if (config.gradient_checkpointing) flopsPerToken += 2 * parameterCount;
+  if (config.training_method === 'dpo') flopsPerToken += 2 * parameterCount;
+  const throughput = EFFECTIVE_TFLOPS * 1e12 * (precisionFactor === 1 ? 1 : 0.25) * (quantization === '4bit' ? 0.75 : 1);
+  const tokensPerStep = tokens * config.gradient_accumulation_steps;
+  const stepSeconds = (tokensPerStep * flopsPerToken) / throughput;
+
+  const examplesPerStep = input.batchSize * config.gradient_accumulation_steps;
+  const totalSteps = input.trainExamples
+    ? Math.ceil(input.trainExamples / examplesPerStep) * input.epochs
+    : null;
+
+  return {
+    parameterCount,
+    trainableParameters,
+    memory: {
+      weights: weights / GB,
+      trainableState: trainableState / GB,
+      activations: activations / GB,
+      overhead: overhead / GB,
+    },
+    peakMemoryGb: (subtotal + overhead) / GB,
+    stepSeconds,
+    totalSteps,
+    totalMinutes: totalSteps !== null ? (totalSteps * stepSeconds) / 60 : null,
+  };
+}
+
+/**
+ * GPU memory reported by the monitoring backend, in GB. Some backends report bytes and
+ * others MB, so anything too large to be a MB figure is treated as bytes.
+ */
+export function gpuMemoryToGb(value?: number): number | undefined {
+  if (!value) return undefined;
+  return value > 1e7 ? value / GB : value / 1024;
+}
+
+/**
+ * Config changes that would bring the estimate down, most effective first
+ */
+export function getMemorySavingSuggestions(input: TrainingEstimateInput): string[] {
+  const config = input.trainingConfig;
+  const method = getTrainingMethod(config.training_method);
+  const suggestions: string[] = [];
+  if (!config.gradient_checkpointing) suggestions.push('Enable gradient checkpointing');
+  if (input.batchSize > 1) suggestions.push('Lower the batch size and raise gradient accumulation steps to keep the effective batch');
+  if (input.maxSequenceLength > 1024) suggestions.push('Reduce the max sequence length');
+  if (method.usesAdapter && !method.fixedQuantization && config.quantization !== '4bit') suggestions.push('Use 4-bit quantization (QLoRA)');
+  if (!config.bf16 && !config.fp16) suggestions.push('Train in bf16 or fp16 mixed precision');
+  if (config.training_method === 'full') {
+    if (config.optim === 'adamw_torch') suggestions.push('Switch to the 8-bit AdamW optimizer');
+    suggestions.push('Use LoRA or QLoRA instead of full fine-tuning');
+  }
+  return suggestions;
+}
+
+/**
+ * "45 s", "12 min" or "3.2 h"
+ */
+export function formatEstimatedDuration(seconds: number): string {
+  if (seconds < 90) return `${Math.max(1, Math.round(seconds))} s`;
+  if (seconds < 90 * 60) return `${Math.round(seconds / 60)} min`;
+  return `${(seconds / 3600).toFixed(1)} h`;
+}
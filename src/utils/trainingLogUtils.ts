@@ -0,0 +1,103 @@
+/**
+ * Utility functions for deriving training progress from log entries
+ */
+import { TrainingLogEntry } from '../services/trainingService';
+
+// Logs grow to tens of thousands of entries on long runs, so search from the end
+// instead of filtering the whole list
+function findLast(logs: TrainingLogEntry[], predicate: (log: TrainingLogEntry) => boolean): TrainingLogEntry | undefined {
+  for (let i = logs.length - 1; i >= 0; i--) {
+    if (predicate(logs[i])) return logs[i];
+  }
+  return undefined;
+}
+
+const isTrainingStep = (log: TrainingLogEntry) => log.type === 'training_step';
+
+/**
+ * Whether the run has produced any step or epoch entries yet
+ */
+export function hasTrainingStarted(logs: TrainingLogEntry[]): boolean {
+  return findLast(logs, log => ['training_step', 'epoch_begin', 'epoch_end'].includes(log.type)) !== undefined;
+}
+
+/**
+ * Progress percentage from the latest training_step entry
+ */
+export function getProgressFromLogs(logs: TrainingLogEntry[]): number {
+  return findLast(logs, isTrainingStep)?.progress_percent || 0;
+}
+
+/**
+ * Estimated remaining time in seconds
+ */
+export function calculateEstimatedRemainingTime(logs: TrainingLogEntry[]): number {
+  const latestTrainingStep = findLast(logs, isTrainingStep);
+
+  // Method 1: Use backend's ETA (most accurate)
+  if (latestTrainingStep?.eta_minutes !== undefined) {
+    return Math.round(latestTrainingStep.eta_minutes * 60);
+  }
+
+  // Method 2: Fallback to remaining_steps * avg_step_time
+  if (latestTrainingStep?.remaining_steps && latestTrainingStep?.avg_step_time) {
+    return Math.round(latestTrainingStep.remaining_steps * latestTrainingStep.avg_step_time);
+  }
+
+  // Method 3: Fallback to progress-based calculation
+  const currentProgress = latestTrainingStep?.progress_percent || 0;
+  const firstStep = logs.find(isTrainingStep);
+  if (currentProgress > 0 && latestTrainingStep && firstStep && firstStep !== latestTrainingStep) {
+    const elapsedMs = new Date(latestTrainingStep.timestamp).getTime() - new Date(firstStep.timestamp).getTime();
+    const timePerPercent = elapsedMs / currentProgress;
+    return Math.round((timePerPercent * (100 - currentProgress)) / 1000);
+  }
+
+  return 0;
+}
+
+/**
+ * Latest loss, learning rate and step timing, formatted for display
+ */
+export function getLatestTrainingMetrics(logs: TrainingLogEntry[]) {
+  // Get loss from metrics logs
+  const latestMetricsLog = findLast(logs, log => log.type === 'metrics' && log.metrics?.loss !== undefined);
+  // Get other training info from training_step logs
+  const latestTrainingStep = findLast(logs, isTrainingStep);
+
+  return {
+    loss: latestMetricsLog?.metrics?.loss ? (latestMetricsLog.metrics.loss as number).toFixed(4) : 'N/A',
+    learningRate: (latestMetricsLog?.metrics?.learning_rate as number)?.toExponential(2) || latestTrainingStep?.learning_rate?.toExponential(2) || 'N/A',
+    step: latestTrainingStep?.step || latestMetricsLog?.step || 0,
+    remainingSteps: latestTrainingStep?.remaining_steps || 0,
+    gradNorm: (latestMetricsLog?.metrics?.grad_norm as number)?.toFixed(6) || latestTrainingStep?.grad_norm?.toFixed(6) || 'N/A',
+    stepTime: latestTrainingStep?.step_time?.toFixed(3) || 'N/A',
+    avgStepTime: latestTrainingStep?.avg_step_time?.toFixed(3) || 'N/A',
+  };
+}
+
+/**
+ * Train/eval loss from the latest epoch_end entry
+ */
+export function getLatestValidationMetrics(logs: TrainingLogEntry[]) {
+  const latestEpochEnd = findLast(logs, log => log.type === 'epoch_end');
+
+  return {
+    evalLoss: latestEpochEnd?.eval_loss?.toFixed(4) || 'N/A',
+    trainLoss: latestEpochEnd?.train_loss?.toFixed(4) || 'N/A',
+  };
+}
+
+/**
+ * Current and total epochs; totalFallback is used until an epoch_begin entry arrives
+ */
+export function getCurrentEpochInfo(logs: TrainingLogEntry[], totalFallback: number = 3) {
+  const currentEpoch = findLast(logs, isTrainingStep)?.epoch || 0;
+  const totalEpochs = findLast(logs, log => log.type === 'epoch_begin')?.total_epochs || totalFallback;
+
+  return {
+    current: Math.floor(currentEpoch),
+    total: totalEpochs,
+    display: `${Math.floor(currentEpoch)}/${totalEpochs}`,
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Utility functions for checking training configurations and basic parameters against
+ * TRAINING_CONFIG_SCHEMA, TRAINING_PARAMETERS_SCHEMA and the cross-field rules
+ */
+import { TrainingConfig, TrainingParameters } from '../config/training';
+import {
+  TRAINING_CONFIG_SCHEMA,
+  TRAINING_PARAMETERS_SCHEMA,
+  TRAINING_CONFIG_RULES,
+  TrainingFieldSchema,
+} from '../config/trainingSchema';
+
+// At most one message per field; the first problem found wins
+export type TrainingConfigErrors = Partial<Record<keyof TrainingConfig, string>>;
+export type TrainingParameterErrors = Partial<Record<keyof TrainingParameters, string>>;
+
+type FieldSchemas<K extends string> = Record<K, TrainingFieldSchema>;
+
+// Own keys only, so inherited names like "constructor" or "__proto__" aren't taken for fields
+const isSchemaKey = <K extends string>(schemas: FieldSchemas<K>, key: string): key is K =>
+  Object.prototype.hasOwnProperty.call(schemas, key);
+
+function validateFields<K extends string>(schemas: FieldSchemas<K>, input: Record<string, unknown>): Partial<Record<K, string>> {
+  const errors: Partial<Record<K, string>> = {};
+  for (const [key, value] of Object.entries(input)) {
+    if (!isSchemaKey(schemas, key)) continue;
+    const error = validateTrainingField(schemas[key], value);
+    if (error) errors[key] = error;
+  }
+  return errors;
+}
+
+const pickFields = <K extends string>(schemas: FieldSchemas<K>, input: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(input).filter(([key]) => isSchemaKey(schemas, key)));
+
+const formatErrors = <K extends string>(schemas: FieldSchemas<K>, errors: Partial<Record<K, string>>): string[] =>
+  (Object.entries(errors) as [K, string][]).map(([key, message]) => `${schemas[key].label}: ${message}`);
+
+/**
+ * Problem with a single value, or undefined when it matches the field's schema
+ */
+export function validateTrainingField(schema: TrainingFieldSchema, value: unknown): string | undefined {
+  switch (schema.type) {
+    case 'number':
+    case 'integer':
+      if (value === null && schema.nullable) return undefined;
+      if (typeof value !== 'number' || !Number.isFinite(value)) return 'Must be a number';
+      if (schema.type === 'integer' && !Number.isInteger(value)) return 'Must be a whole number';
+      if (schema.min !== undefined && value < schema.min) return `Must be at least ${schema.min}`;
+      if (schema.max !== undefined && value > schema.max) return `Must be at most ${schema.max}`;
+      return undefined;
+    case 'enum':
+      return typeof value === 'string' && schema.options.includes(value)
+        ? undefined
+        : `Must be one of: ${schema.options.join(', ')}`;
+    case 'boolean':
+      return typeof value === 'boolean' ? undefined : 'Must be true or false';
+    case 'string':
+      if (typeof value !== 'string') return 'Must be text';
+      if (schema.pattern && !schema.pattern.test(value)) return schema.patternMessage || 'Invalid format';
+      return undefined;
+    case 'string[]':
+      if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) return 'Must be a list of names';
+      if (schema.minItems !== undefined && value.length < schema.minItems) return `Needs at least ${schema.minItems}`;
+      return undefined;
+  }
+}
+
+/**
+ * Schema errors for the TrainingConfig fields present in an untrusted object, e.g. imported JSON.
+ * Keys that aren't TrainingConfig fields are ignored.
+ */
+export function validateTrainingConfigFields(input: Record<string, unknown>): TrainingConfigErrors {
+  return validateFields(TRAINING_CONFIG_SCHEMA, input);
+}
+
+/**
+ * Schema errors for the basic parameters present in an untrusted object; unknown keys are ignored.
+ * Also used on a complete TrainingParameters, as the basic parameters have no cross-field rules.
+ */
+export function validateTrainingParameterFields(input: Record<string, unknown>): TrainingParameterErrors {
+  return validateFields(TRAINING_PARAMETERS_SCHEMA, input);
+}
+
+/**
+ * All schema and cross-field errors of a complete config; empty when it can be submitted
+ */
+export function validateTrainingConfig(config: TrainingConfig): TrainingConfigErrors {
+  const errors = validateTrainingConfigFields({ ...config });
+  for (const rule of TRAINING_CONFIG_RULES) {
+    if (!errors[rule.field] && rule.violated(config)) {
+      errors[rule.field] = rule.message;
+    }
+  }
+  return errors;
+}
+
+/**
+ * The TrainingConfig fields of an untrusted object, dropping everything else
+ */
+export function pickTrainingConfigFields(input: Record<string, unknown>): Partial<TrainingConfig> {
+  return pickFields(TRAINING_CONFIG_SCHEMA, input) as Partial<TrainingConfig>;
+}
+
+/**
+ * The basic parameters of an untrusted object, dropping everything else
+ */
+export function pickTrainingParameterFields(input: Record<string, unknown>): Partial<TrainingParameters> {
+  return pickFields(TRAINING_PARAMETERS_SCHEMA, input) as Partial<TrainingParameters>;
+}
+
+/**
+ * "Label: message" lines for showing errors outside their fields
+ */
+export function formatTrainingConfigErrors(errors: TrainingConfigErrors): string[] {
+  return formatErrors(TRAINING_CONFIG_SCHEMA, errors);
+}
+
+export function formatTrainingParameterErrors(errors: TrainingParameterErrors): string[] {
+  return formatErrors(TRAINING_PARAMETERS_SCHEMA, errors);
+}